@@ -0,0 +1,5 @@
+// packages/api/src/db.ts
+
+import { PrismaClient } from '@prisma/client';
+
+export const prisma = new PrismaClient();
@@ -6,6 +6,9 @@ import { Pool } from 'pg';
 import dotenv from 'dotenv';
 
 import { registerPlaceBriefRoute } from './routes/placeBrief.route';
+import { registerExtractionCostsRoute } from './routes/extractionCosts.route';
+import { registerEventMergesRoute } from './routes/eventMerges.route';
+import { registerEventThreadsRoute } from './routes/eventThreads.route';
 import { logger } from './utils/logger';
 
 dotenv.config();
@@ -31,6 +34,9 @@ app.get('/health', (req, res) => {
 // Register routes
 const router = express.Router();
 registerPlaceBriefRoute(router, { pg });
+registerExtractionCostsRoute(router, { pg });
+registerEventMergesRoute(router, { pg });
+registerEventThreadsRoute(router, { pg });
 app.use('/api', router);
 
 // Error handler
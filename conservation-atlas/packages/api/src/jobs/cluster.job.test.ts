@@ -0,0 +1,149 @@
+// packages/api/src/jobs/cluster.job.test.ts
+//
+// runClusterJob with clustering, the queue and the database replaced by
+// fakes; covers both payload modes and the downstream fan-out.
+
+import type { ClusterJobMessage } from "@conservation-atlas/shared/types/queueMessages";
+import { createJobMessage } from "@conservation-atlas/shared/types/queueMessages";
+
+import type { ClusterResult } from "../services/deduplication/eventCluster";
+import { runClusterJob } from "./cluster.job";
+
+const mockDb = {
+  windowEvents: [] as Array<{ id: string }>,
+  jobLogs: [] as unknown[][],
+};
+
+jest.mock("../db", () => ({
+  prisma: {
+    event: {
+      findMany: jest.fn(async () => mockDb.windowEvents),
+    },
+    $executeRaw: jest.fn(async (_strings: TemplateStringsArray, ...values: unknown[]) => {
+      mockDb.jobLogs.push(values);
+      return 1;
+    }),
+  },
+}));
+
+jest.mock("../services/queue/sqsService", () => ({
+  enqueueJob: jest.fn(async () => "message-id"),
+}));
+
+jest.mock("../services/deduplication/eventCluster", () => ({
+  clusterEvent: jest.fn(),
+}));
+
+jest.mock("../services/deduplication/batchCluster", () => ({
+  batchCluster: jest.fn(),
+}));
+
+jest.mock("../services/deduplication/clusterProfiles", () => ({
+  loadClusterProfile: jest.fn(async (name?: string) => ({ name: name ?? "default", source: "builtin" })),
+}));
+
+const { clusterEvent } = jest.requireMock("../services/deduplication/eventCluster");
+const { enqueueJob } = jest.requireMock("../services/queue/sqsService");
+
+function clusterResult(action: ClusterResult["action"], primaryEventId: string, mergedEventIds: string[] = []): ClusterResult {
+  return { action, primaryEventId, mergedEventIds, confidenceBoost: 0, sourceCount: 1 + mergedEventIds.length };
+}
+
+function clusterMessage(payload: ClusterJobMessage["payload"]): ClusterJobMessage {
+  return createJobMessage<ClusterJobMessage>("CLUSTER", payload);
+}
+
+function enqueued(): Array<[string, string, unknown]> {
+  return enqueueJob.mock.calls.map(([queue, msg]: [string, any]) => [queue, msg.job_type, msg.payload.event_id]);
+}
+
+beforeEach(() => {
+  mockDb.windowEvents = [];
+  mockDb.jobLogs = [];
+  clusterEvent.mockReset();
+  enqueueJob.mockClear();
+});
+
+describe("runClusterJob for one event", () => {
+  it("sends the surviving primary to GEO_JOIN, ALERTS and THREAD after a merge", async () => {
+    clusterEvent.mockResolvedValue(clusterResult("merged", "5", ["9"]));
+    const msg = clusterMessage({ event_id: 9 });
+
+    const result = await runClusterJob(msg);
+
+    expect(clusterEvent).toHaveBeenCalledWith("9", expect.objectContaining({ name: "default" }));
+    expect(result).toMatchObject({ mode: "event", merged: 1, downstreamEventIds: ["5"] });
+    expect(enqueued()).toEqual([
+      ["q_geojoin", "GEO_JOIN", 5],
+      ["q_alerts", "ALERTS", 5],
+      ["q_cluster", "THREAD", 5],
+    ]);
+    expect(enqueueJob.mock.calls[0][1].correlation_id).toBe(msg.correlation_id);
+  });
+
+  it("stops the pipeline for a duplicate", async () => {
+    clusterEvent.mockResolvedValue(clusterResult("duplicate", "5"));
+
+    const result = await runClusterJob(clusterMessage({ event_id: 9 }));
+
+    expect(result).toMatchObject({ duplicates: 1, downstreamEventIds: [] });
+    expect(enqueueJob).not.toHaveBeenCalled();
+  });
+
+  it("logs the failure and rethrows so the message is retried", async () => {
+    clusterEvent.mockRejectedValue(new Error("connection reset"));
+    const msg = clusterMessage({ event_id: 9 });
+
+    await expect(runClusterJob(msg)).rejects.toThrow("connection reset");
+
+    const [jobId, jobType, , status, , , summary, error] = mockDb.jobLogs[0];
+    expect([jobId, jobType, status, summary, error]).toEqual([msg.job_id, "CLUSTER", "failed", null, "connection reset"]);
+  });
+});
+
+describe("runClusterJob window sweep", () => {
+  it("skips events merged earlier in the sweep and fans out only merged primaries", async () => {
+    mockDb.windowEvents = [{ id: "1" }, { id: "2" }, { id: "3" }, { id: "4" }];
+    clusterEvent.mockImplementation(async (id: string) => {
+      if (id === "1") return clusterResult("merged", "1", ["2"]);
+      if (id === "3") throw new Error("bad geometry");
+      return clusterResult("new", id);
+    });
+
+    const result = await runClusterJob(clusterMessage({ window_hours: 6 }));
+
+    expect(clusterEvent.mock.calls.map(([id]: [string]) => id)).toEqual(["1", "3", "4"]);
+    expect(result).toMatchObject({
+      mode: "sweep",
+      eventsProcessed: 2,
+      newEvents: 1,
+      merged: 1,
+      failed: 1,
+      failures: [{ eventId: "3", error: "bad geometry" }],
+      downstreamEventIds: ["1"],
+    });
+    expect(enqueued().map(([, type, id]) => [type, id])).toEqual([
+      ["GEO_JOIN", 1],
+      ["ALERTS", 1],
+      ["THREAD", 1],
+    ]);
+  });
+
+  it("writes a job_logs summary with the merges", async () => {
+    mockDb.windowEvents = [{ id: "1" }, { id: "4" }];
+    clusterEvent.mockImplementation(async (id: string) =>
+      id === "1" ? clusterResult("merged", "1", ["2"]) : clusterResult("new", id)
+    );
+
+    await runClusterJob(clusterMessage({ window_hours: 6, profile: "strict" }));
+
+    const [, , , status, , , summary] = mockDb.jobLogs[0];
+    expect(status).toBe("completed");
+    expect(JSON.parse(summary as string)).toMatchObject({
+      mode: "sweep",
+      profile: "strict",
+      eventsProcessed: 2,
+      merges: [{ action: "merged", primaryEventId: "1", mergedEventIds: ["2"] }],
+    });
+  });
+});
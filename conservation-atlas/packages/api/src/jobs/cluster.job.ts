@@ -0,0 +1,221 @@
+// packages/api/src/jobs/cluster.job.ts
+
+import type {
+  ClusterJobMessage,
+  GeoJoinJobMessage,
+  AlertsJobMessage,
+  ThreadJobMessage,
+} from "@conservation-atlas/shared/types/queueMessages";
+import { createJobMessage } from "@conservation-atlas/shared/types/queueMessages";
+
+import { logger } from "../utils/logger";
+import { prisma } from "../db";
+import { enqueueJob } from "../services/queue/sqsService";
+import { clusterEvent, type ClusterProfile, type ClusterResult } from "../services/deduplication/eventCluster";
+import { batchCluster, type ProposedCluster } from "../services/deduplication/batchCluster";
+import { loadClusterProfile } from "../services/deduplication/clusterProfiles";
+import {
+  emptyJobResult,
+  recordFailure,
+  recordResult,
+  summarizeResult,
+  writeJobLog,
+  type EventJobResult,
+} from "./jobLog";
+
+// ============================================
+// Configuration
+// ============================================
+const DEFAULT_WINDOW_HOURS = Number(process.env.CLUSTER_WINDOW_HOURS ?? 24);
+const MAX_SWEEP_EVENTS = Number(process.env.CLUSTER_MAX_SWEEP_EVENTS ?? 500);
+
+// Result counter for each clustering outcome
+const OUTCOME_COUNTS = { new: "newEvents", merged: "merged", duplicate: "duplicates" } as const;
+
+// ============================================
+// Types
+// ============================================
+export interface ClusterJobResult extends EventJobResult<ClusterResult> {
+  mode: "event" | "sweep" | "batch";
+  profile: string;
+  newEvents: number;
+  merged: number;
+  duplicates: number;
+  /** Surviving primary events that got GEO_JOIN + ALERTS + THREAD */
+  downstreamEventIds: string[];
+  /** Batch mode: every proposed cluster, applied or not */
+  proposals?: ProposedCluster[];
+}
+
+// ============================================
+// Main Job Handler
+// ============================================
+
+/**
+ * CLUSTER has two payload modes:
+ * - event_id: cluster one freshly extracted event (enqueued by EXTRACT).
+ *   The surviving primary continues to GEO_JOIN, ALERTS and THREAD whether
+ *   the event was merged or is new.
+ * - window_hours: re-cluster every unmerged event created in the window,
+ *   oldest first. Only merges trigger the downstream jobs, so a scheduled
+ *   sweep does not re-alert on events it leaves untouched.
+ *   With batch: true the window is clustered globally instead (see
+ *   batchCluster.ts); dry_run reports the proposals in job_logs only.
+ *
+ * profile selects a named cluster profile for any mode.
+ */
+export async function runClusterJob(msg: ClusterJobMessage): Promise<ClusterJobResult> {
+  const { event_id, window_hours, batch, dry_run } = msg.payload;
+  const startTime = Date.now();
+
+  logger.info({ job_id: msg.job_id, event_id, window_hours, batch, dry_run, profile: msg.payload.profile }, "CLUSTER job started");
+
+  try {
+    const profile = await loadClusterProfile(msg.payload.profile);
+    const hours = window_hours ?? DEFAULT_WINDOW_HOURS;
+
+    const result = event_id !== undefined
+      ? await clusterSingleEvent(String(event_id), profile)
+      : batch
+        ? await clusterBatch(hours, profile, dry_run ?? false)
+        : await clusterWindow(hours, profile);
+
+    // Continue the pipeline for each surviving primary, once
+    for (const primaryEventId of result.downstreamEventIds) {
+      await enqueueDownstream(primaryEventId, msg.correlation_id);
+    }
+
+    // Sweeps can process hundreds of events that stay "new"
+    const summary = summarizeResult(result, "merges", (r) => r.action === "merged");
+    await writeJobLog(msg, "completed", Date.now() - startTime, summary, null);
+
+    logger.info({
+      job_id: msg.job_id,
+      mode: result.mode,
+      eventsProcessed: result.eventsProcessed,
+      merged: result.merged,
+      failed: result.failed,
+    }, "CLUSTER job completed");
+
+    return result;
+  } catch (err) {
+    await writeJobLog(msg, "failed", Date.now() - startTime, null, err as Error);
+    throw err;
+  }
+}
+
+// ============================================
+// Modes
+// ============================================
+async function clusterSingleEvent(eventId: string, profile: ClusterProfile): Promise<ClusterJobResult> {
+  const result = emptyResult("event", profile);
+
+  // Errors propagate so the consumer can retry the message
+  const clusterResult = await clusterEvent(eventId, profile);
+  recordResult(result, clusterResult, OUTCOME_COUNTS[clusterResult.action]);
+
+  if (clusterResult.action !== "duplicate") {
+    result.downstreamEventIds.push(clusterResult.primaryEventId);
+  }
+
+  return result;
+}
+
+async function clusterWindow(windowHours: number, profile: ClusterProfile): Promise<ClusterJobResult> {
+  const result = emptyResult("sweep", profile);
+  const since = new Date(Date.now() - windowHours * 60 * 60 * 1000);
+
+  const events = await prisma.event.findMany({
+    where: { createdAt: { gte: since }, mergedIntoId: null },
+    select: { id: true },
+    orderBy: { createdAt: "asc" },
+    take: MAX_SWEEP_EVENTS,
+  });
+
+  if (events.length === MAX_SWEEP_EVENTS) {
+    logger.warn({ windowHours, max: MAX_SWEEP_EVENTS }, "Sweep hit the event cap; newest events deferred");
+  }
+
+  const mergedAway = new Set<string>();
+  const downstream = new Set<string>();
+
+  for (const { id } of events) {
+    // Folded into an earlier event during this sweep
+    if (mergedAway.has(id)) continue;
+
+    try {
+      const clusterResult = await clusterEvent(id, profile);
+      recordResult(result, clusterResult, OUTCOME_COUNTS[clusterResult.action]);
+
+      if (clusterResult.action === "merged") {
+        downstream.add(clusterResult.primaryEventId);
+        for (const mergedId of clusterResult.mergedEventIds) {
+          mergedAway.add(mergedId);
+          downstream.delete(mergedId);
+        }
+      }
+    } catch (err) {
+      recordFailure(result, id, err as Error);
+      logger.error({ eventId: id, error: (err as Error).message }, "Clustering failed for event");
+    }
+  }
+
+  result.downstreamEventIds = [...downstream];
+  return result;
+}
+
+async function clusterBatch(windowHours: number, profile: ClusterProfile, dryRun: boolean): Promise<ClusterJobResult> {
+  const result = emptyResult("batch", profile);
+  const since = new Date(Date.now() - windowHours * 60 * 60 * 1000);
+
+  const batch = await batchCluster({ since, profile, dryRun });
+
+  for (const mergeResult of batch.mergeResults) recordResult(result, mergeResult, OUTCOME_COUNTS[mergeResult.action]);
+  result.eventsProcessed = batch.eventsConsidered;
+  result.newEvents = batch.eventsConsidered - batch.clusters.reduce((n, c) => n + c.eventIds.length, 0);
+  result.failed = batch.failures.length;
+  result.failures = batch.failures.map((f) => ({ eventId: f.primaryEventId, error: f.error }));
+  result.downstreamEventIds = [...new Set(batch.mergeResults.map((r) => r.primaryEventId))];
+  result.proposals = batch.clusters;
+
+  return result;
+}
+
+// ============================================
+// Helpers
+// ============================================
+async function enqueueDownstream(primaryEventId: string, correlationId: string): Promise<void> {
+  const eventId = parseInt(primaryEventId);
+
+  const geoJoinMsg = createJobMessage<GeoJoinJobMessage>(
+    "GEO_JOIN",
+    { event_id: eventId },
+    correlationId
+  );
+  await enqueueJob("q_geojoin", geoJoinMsg);
+
+  const alertsMsg = createJobMessage<AlertsJobMessage>(
+    "ALERTS",
+    { mode: "event", event_id: eventId },
+    correlationId
+  );
+  await enqueueJob("q_alerts", alertsMsg);
+
+  const threadMsg = createJobMessage<ThreadJobMessage>(
+    "THREAD",
+    { event_id: eventId },
+    correlationId
+  );
+  await enqueueJob("q_cluster", threadMsg);
+}
+
+function emptyResult(mode: ClusterJobResult["mode"], profile: ClusterProfile): ClusterJobResult {
+  return emptyJobResult({
+    mode,
+    profile: profile.name,
+    newEvents: 0,
+    merged: 0,
+    duplicates: 0,
+    downstreamEventIds: [] as string[],
+  });
+}
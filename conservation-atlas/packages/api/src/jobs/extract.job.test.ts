@@ -0,0 +1,299 @@
+// packages/api/src/jobs/extract.job.test.ts
+//
+// runExtractJob with the database, queue and LLM call replaced by fakes.
+// SQL is matched on its text; statements are recorded for assertions.
+
+import type { ExtractJobMessage } from "@conservation-atlas/shared/types/queueMessages";
+import { createJobMessage } from "@conservation-atlas/shared/types/queueMessages";
+
+import { runExtractJob } from "./extract.job";
+
+type Statement = { sql: string; values: unknown[] };
+
+const mockDb = {
+  source: null as Record<string, unknown> | null,
+  statements: [] as Statement[],
+  createdEvents: [] as Array<Record<string, unknown>>,
+};
+
+jest.mock("../db", () => {
+  const queryRaw = jest.fn(async (strings: TemplateStringsArray, ...values: unknown[]) => {
+    const sql = strings.join("?");
+    mockDb.statements.push({ sql, values });
+    if (sql.includes("FROM sources")) return mockDb.source ? [mockDb.source] : [];
+    if (sql.includes("FROM source_extractions")) return [{ count: 0n }];
+    if (sql.includes("INSERT INTO source_extractions")) return [{ id: 1n }];
+    return [];
+  });
+  const executeRaw = jest.fn(async (strings: TemplateStringsArray, ...values: unknown[]) => {
+    mockDb.statements.push({ sql: strings.join("?"), values });
+    return 1;
+  });
+  const tx = {
+    $queryRaw: queryRaw,
+    $executeRaw: executeRaw,
+    event: {
+      create: jest.fn(async ({ data }: { data: Record<string, unknown> }) => {
+        mockDb.createdEvents.push(data);
+        return { id: String(100 + mockDb.createdEvents.length) };
+      }),
+    },
+  };
+  return {
+    prisma: {
+      ...tx,
+      $transaction: jest.fn(async (fn: (client: typeof tx) => Promise<unknown>) => fn(tx)),
+    },
+  };
+});
+
+jest.mock("../services/queue/sqsService", () => ({
+  enqueueJob: jest.fn(async () => "message-id"),
+}));
+
+jest.mock("../services/ingest/nearDuplicate", () => ({
+  getCanonicalSourceId: jest.fn(async () => null),
+  attachToCanonicalEvent: jest.fn(async () => []),
+  attachSyndicatedCopies: jest.fn(async () => 0),
+  releaseSyndicatedCopies: jest.fn(async () => null),
+}));
+
+jest.mock("../services/extraction/extractEvents", () => ({
+  SCHEMA_VERSION: "event_extraction_v2",
+  extractEvents: jest.fn(),
+  applyGeoValidation: jest.fn(async (_sourceId: number, extraction: any) =>
+    extraction.events.map(() => ({ valid: true, issues: [], adjustedConfidence: 1, shouldNullifyCoords: false }))
+  ),
+}));
+
+jest.mock("../services/extraction/providerChain", () => ({
+  resolveProviderChain: jest.fn(() => []),
+}));
+
+jest.mock("../services/extraction/promptRegistry", () => ({
+  getPrompt: jest.fn(() => ({ version: "extract-v2" })),
+}));
+
+jest.mock("../services/extraction/usageTracker", () => ({
+  recordUsage: jest.fn(),
+  usageRecordsFor: jest.fn(() => []),
+  sumUsage: jest.fn(() => ({ inputTokens: 0, outputTokens: 0, costUsd: 0, calls: 0 })),
+}));
+
+jest.mock("../services/geo/gazetteer", () => ({
+  geocodeAdmin: jest.fn(),
+  applyGazetteerFallback: jest.fn(async () => 0),
+}));
+
+jest.mock("../services/geo/naturalEarthReference", () => ({
+  getGeoReference: jest.fn(() => ({})),
+}));
+
+const { extractEvents } = jest.requireMock("../services/extraction/extractEvents");
+const { enqueueJob } = jest.requireMock("../services/queue/sqsService");
+const { releaseSyndicatedCopies, attachSyndicatedCopies } = jest.requireMock("../services/ingest/nearDuplicate");
+
+const ARTICLE_TEXT = "Rangers in Tsavo East National Park recovered two rhino horns after a night patrol. ".repeat(6);
+
+function extractedEvent(overrides: Record<string, any> = {}): Record<string, any> {
+  return {
+    title: "Rhino horns recovered in Tsavo East",
+    event_type: { primary: "poaching", secondary: [] },
+    severity: { level: 3 },
+    confidence: { extraction: 0.9, geolocation: 0.8 },
+    location: {
+      admin: { country: "Kenya", admin1: "Taita-Taveta", admin2: null, locality: "Tsavo East" },
+      geometry: { type: "Point", coordinates: [38.7, -2.9], precision: "approximate" },
+    },
+    summary: { short: "Rangers recovered two rhino horns.", detailed: null },
+    temporal: { start_date: "2026-10-01", end_date: null, is_ongoing: false },
+    ...overrides,
+  };
+}
+
+function givenExtraction(events: Array<Record<string, any>>): void {
+  extractEvents.mockResolvedValue({
+    valid: true,
+    extraction: { source_ref: { publisher: "Wildlife Wire" }, events },
+    response: { provider: "fake", model: "fake-1" },
+    failedAttempts: [],
+    errors: [],
+    repairs: { actions: [], llmRepair: false },
+  });
+}
+
+function extractMessage(sourceId = 7): ExtractJobMessage {
+  return createJobMessage<ExtractJobMessage>("EXTRACT", { source_id: sourceId });
+}
+
+function statementsMatching(fragment: string): Statement[] {
+  return mockDb.statements.filter((s) => s.sql.includes(fragment));
+}
+
+beforeEach(() => {
+  mockDb.statements = [];
+  mockDb.createdEvents = [];
+  mockDb.source = {
+    id: 7n,
+    url: "https://example.org/news/rhino",
+    publisher: "Wildlife Wire",
+    title: "Rhino horns recovered",
+    source_type: "news",
+    published_at: new Date("2026-10-02T00:00:00Z"),
+    retrieved_at: new Date("2026-10-02T01:00:00Z"),
+    language: "en",
+    raw_text: "Short feed summary.",
+    raw_html: `<html><body><article><h1>Rhino horns recovered</h1><p>${ARTICLE_TEXT}</p></article></body></html>`,
+    credibility_score: null,
+  };
+  extractEvents.mockReset();
+  enqueueJob.mockClear();
+  releaseSyndicatedCopies.mockClear();
+  givenExtraction([extractedEvent()]);
+});
+
+describe("runExtractJob source loading", () => {
+  it("reads raw_html from sources and extracts from the cleaned article", async () => {
+    await runExtractJob(extractMessage());
+
+    expect(statementsMatching("FROM sources")[0].sql).toContain("raw_html");
+    expect(extractEvents).toHaveBeenCalledWith(
+      expect.objectContaining({ rawText: expect.stringContaining("Rangers in Tsavo East National Park") })
+    );
+    expect(mockDb.createdEvents).toHaveLength(1);
+  });
+
+  it("falls back to raw_text when the source has no article HTML", async () => {
+    mockDb.source = { ...mockDb.source, raw_html: null, raw_text: ARTICLE_TEXT };
+
+    await runExtractJob(extractMessage());
+
+    expect(extractEvents).toHaveBeenCalledWith(expect.objectContaining({ rawText: ARTICLE_TEXT }));
+  });
+
+  it("marks the source too_short on sources", async () => {
+    mockDb.source = { ...mockDb.source, raw_html: null };
+
+    await expect(runExtractJob(extractMessage())).resolves.toBeNull();
+
+    const [update] = statementsMatching("extraction_status");
+    expect(update.sql).toContain("UPDATE sources");
+    expect(update.values).toEqual(["too_short", 7]);
+    expect(extractEvents).not.toHaveBeenCalled();
+  });
+
+  it("fails for an unknown source", async () => {
+    mockDb.source = null;
+
+    await expect(runExtractJob(extractMessage(99))).rejects.toThrow("Source not found: 99");
+  });
+});
+
+describe("runExtractJob multi-event sources", () => {
+  it("creates an event per extracted incident, each linked to the source and sent to CLUSTER", async () => {
+    givenExtraction([
+      extractedEvent(),
+      extractedEvent({
+        title: "Elephant snared near Voi",
+        event_type: { primary: "poaching", secondary: [] },
+        location: {
+          admin: { country: "Kenya", admin1: "Taita-Taveta", admin2: null, locality: "Voi" },
+          geometry: { type: "Point", coordinates: [38.56, -3.39], precision: "approximate" },
+        },
+      }),
+    ]);
+
+    const result = await runExtractJob(extractMessage());
+
+    expect(mockDb.createdEvents.map((e) => e.title)).toEqual(["Rhino horns recovered in Tsavo East", "Elephant snared near Voi"]);
+    expect(statementsMatching("INSERT INTO event_sources").map((s) => s.values)).toEqual([
+      ["101", 7],
+      ["102", 7],
+    ]);
+    // The extraction row points at the first (most significant) event
+    expect(statementsMatching("INSERT INTO source_extractions")[0].values.slice(0, 2)).toEqual([7, "101"]);
+    expect(enqueueJob.mock.calls.map(([queue, msg]: [string, any]) => [queue, msg.payload])).toEqual([
+      ["q_cluster", { event_id: 101 }],
+      ["q_cluster", { event_id: 102 }],
+    ]);
+    expect(result?.events.map((e) => e.eventId)).toEqual(["101", "102"]);
+  });
+});
+
+describe("runExtractJob geometry", () => {
+  it("writes geom_point from the extracted coordinates", async () => {
+    await runExtractJob(extractMessage());
+
+    const [update] = statementsMatching("SET geom_point");
+    expect(update.sql).toContain("ST_SetSRID(ST_MakePoint(?, ?), 4326)");
+    expect(update.values).toEqual([38.7, -2.9, "101"]);
+  });
+
+  it("stores the footprint repaired with ST_MakeValid, keeping its polygonal part", async () => {
+    const footprint = {
+      type: "Polygon",
+      coordinates: [[[38.6, -2.8], [38.8, -2.8], [38.8, -3.0], [38.6, -3.0], [38.6, -2.8]]],
+    };
+    givenExtraction([extractedEvent({ location: { ...extractedEvent().location, footprint } })]);
+
+    await runExtractJob(extractMessage());
+
+    const [update] = statementsMatching("SET geom_footprint");
+    expect(update.sql).toContain("ST_Multi(ST_CollectionExtract(ST_MakeValid(raw.geom), 3))");
+    expect(update.sql).toContain("NOT ST_IsEmpty(f.geom)");
+    expect(update.values).toEqual([JSON.stringify(footprint), "101"]);
+  });
+
+  it("leaves geom_point empty for an event without coordinates", async () => {
+    givenExtraction([
+      extractedEvent({
+        location: { admin: { country: "Kenya", admin1: null, admin2: null, locality: null }, geometry: null },
+      }),
+    ]);
+
+    await runExtractJob(extractMessage());
+
+    expect(mockDb.createdEvents).toHaveLength(1);
+    expect(statementsMatching("SET geom_point")).toEqual([]);
+  });
+});
+
+describe("runExtractJob syndicated copies", () => {
+  it("attaches waiting copies to the new events", async () => {
+    await runExtractJob(extractMessage());
+
+    expect(attachSyndicatedCopies).toHaveBeenCalledWith(7, [101]);
+    expect(releaseSyndicatedCopies).not.toHaveBeenCalled();
+  });
+
+  it("hands waiting copies to EXTRACT when the canonical is too short", async () => {
+    mockDb.source = { ...mockDb.source, raw_html: null };
+    releaseSyndicatedCopies.mockResolvedValueOnce(8);
+    const msg = extractMessage();
+
+    await runExtractJob(msg);
+
+    expect(releaseSyndicatedCopies).toHaveBeenCalledWith(7);
+    expect(enqueueJob).toHaveBeenCalledWith(
+      "q_extract",
+      expect.objectContaining({ job_type: "EXTRACT", payload: { source_id: 8 }, correlation_id: msg.correlation_id })
+    );
+  });
+
+  it("hands waiting copies to EXTRACT when the extraction stays invalid", async () => {
+    extractEvents.mockResolvedValue({
+      valid: false,
+      extraction: null,
+      response: { provider: "fake", model: "fake-1" },
+      failedAttempts: [],
+      errors: [{ instancePath: "/events", message: "must NOT have fewer than 1 items" }],
+      repairs: { actions: [], llmRepair: true },
+    });
+    releaseSyndicatedCopies.mockResolvedValueOnce(8);
+
+    await expect(runExtractJob(extractMessage())).rejects.toThrow("Invalid event_extraction_v2 JSON");
+
+    expect(statementsMatching("extraction_status")[0].values).toEqual(["extraction_failed", 7]);
+    expect(enqueueJob).toHaveBeenCalledWith("q_extract", expect.objectContaining({ payload: { source_id: 8 } }));
+  });
+});
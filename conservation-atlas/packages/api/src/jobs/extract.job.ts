@@ -1,38 +1,47 @@
 // packages/api/src/jobs/extract.job.ts
 
-import Ajv, { ValidateFunction } from "ajv";
-import addFormats from "ajv-formats";
-import { OpenAI } from "openai";
-
 import type { ExtractJobMessage, ClusterJobMessage } from "@conservation-atlas/shared/types/queueMessages";
 import { createJobMessage } from "@conservation-atlas/shared/types/queueMessages";
-import eventSchema from "@conservation-atlas/shared/schemas/event_extraction_v1.schema.json";
+import { formatAjvErrors } from "@conservation-atlas/shared/validators/ajv";
 
 import { logger } from "../utils/logger";
 import { prisma } from "../db";
 import { enqueueJob } from "../services/queue/sqsService";
-import { validateGeolocation, type GeoValidationResult } from "../utils/geoValidation";
-import { calculateSourceQualityScore } from "../utils/sourceQuality";
+import type { GeoValidationResult } from "../utils/geoValidation";
+import { reportedArea } from "../utils/footprintValidation";
+import { calculateSourceQualityScore, type SourceQualityInput } from "../utils/sourceQuality";
+import { extractArticleContent, type ExtractedContent } from "../services/ingest/contentExtractor";
+import {
+  getCanonicalSourceId,
+  attachToCanonicalEvent,
+  attachSyndicatedCopies,
+  releaseSyndicatedCopies,
+} from "../services/ingest/nearDuplicate";
+import {
+  resolveProviderChain,
+  type ChainResponse,
+  type FailedAttempt,
+} from "../services/extraction/providerChain";
+import { extractEvents, applyGeoValidation, SCHEMA_VERSION } from "../services/extraction/extractEvents";
+import { applyGazetteerFallback, geocodeAdmin } from "../services/geo/gazetteer";
+import { getGeoReference } from "../services/geo/naturalEarthReference";
+import { getPrompt } from "../services/extraction/promptRegistry";
+import type { RepairRecord } from "../services/extraction/repairExtraction";
+import {
+  recordUsage,
+  sumUsage,
+  usageRecordsFor,
+  type UsageContext,
+  type UsageRecord,
+  type UsageTotals,
+} from "../services/extraction/usageTracker";
 
 // ============================================
 // Configuration
 // ============================================
-const OPENAI_MODEL = process.env.OPENAI_EXTRACT_MODEL || "gpt-4-turbo";
 const MAX_SOURCE_CHARS = 20_000;
 const MIN_SOURCE_CHARS = 200;
 
-// ============================================
-// AJV Validator Setup
-// ============================================
-const ajv = new Ajv({ allErrors: true, strict: false });
-addFormats(ajv);
-const validateEventSchema = ajv.compile(eventSchema) as ValidateFunction;
-
-// ============================================
-// OpenAI Client
-// ============================================
-const openai = new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
-
 // ============================================
 // Types
 // ============================================
@@ -46,15 +55,21 @@ interface SourceRow {
   scrapedAt: Date;
   language: string | null;
   snippet: string | null;
+  rawHtml: string | null;
   credibilityScore: number | null;
 }
 
-interface ExtractionResult {
+interface ExtractedEventResult {
   eventId: string;
   confidence: number;
   geoValidation: GeoValidationResult;
 }
 
+interface ExtractionResult {
+  events: ExtractedEventResult[];
+  usage: UsageTotals;
+}
+
 // ============================================
 // Main Job Handler
 // ============================================
@@ -78,92 +93,124 @@ export async function runExtractJob(msg: ExtractJobMessage): Promise<ExtractionR
     }
   }
 
-  // 3. Validate source text
-  const rawText = truncateText(source.snippet ?? "", MAX_SOURCE_CHARS);
+  // 3. Syndicated copies reuse their canonical source's extraction
+  if (!force_reextract) {
+    const canonicalSourceId = await getCanonicalSourceId(source_id);
+    if (canonicalSourceId !== null) {
+      const eventIds = await attachToCanonicalEvent(source_id, canonicalSourceId);
+      logger.info(
+        { source_id, canonicalSourceId, eventIds },
+        eventIds.length ? "Near-duplicate attached to canonical events" : "Near-duplicate waiting on canonical extraction"
+      );
+      return null;
+    }
+  }
+
+  // 4. Clean the article HTML when we have it; fall back to the feed snippet
+  const content = source.rawHtml ? extractArticleContent(source.rawHtml, source.url) : null;
+  const sourceText = content && content.text.length >= MIN_SOURCE_CHARS ? content.text : source.snippet ?? "";
+  const rawText = truncateText(sourceText, MAX_SOURCE_CHARS);
   if (!rawText || rawText.trim().length < MIN_SOURCE_CHARS) {
     logger.warn({ source_id, length: rawText.length }, "Source text too short");
     await markSourceStatus(source_id, "too_short");
+    await handOffSyndicatedCopies(source_id, msg.correlation_id);
     return null;
   }
 
-  // 4. Calculate source quality score
+  // 5. Calculate source quality score
   const qualityScore = calculateSourceQualityScore({
     sourceType: source.sourceType,
     publisher: source.publisher,
     credibilityScore: source.credibilityScore,
+    ...contentSignals(content, source),
   });
 
-  // 5. Call OpenAI for extraction
-  const systemPrompt = buildSystemPrompt();
-  
-  // First attempt
-  let extraction = await callOpenAIForExtraction({
-    system: systemPrompt,
-    user: buildUserPrompt(source, rawText, false),
+  // 6. Call the LLM (model_hint picks the first provider; falls back on failure)
+  const providers = resolveProviderChain(model_hint);
+  const prompt = getPrompt();
+  const usageCtx: UsageContext = { sourceId: source_id, jobId: msg.job_id, correlationId: msg.correlation_id };
+  const usageLog: UsageRecord[] = [];
+
+  const { valid, extraction, response, failedAttempts, errors, repairs } = await extractEvents({
+    providers,
+    prompt,
+    source,
+    rawText,
+    // Record token usage for every call made, whether or not it succeeded
+    onProviderCall: async (callKind, attempts, chainResponse) => {
+      const records = usageRecordsFor(callKind, attempts, chainResponse);
+      usageLog.push(...records);
+      await recordUsage(usageCtx, records);
+    },
   });
-  
-  let valid = validateEventSchema(extraction);
 
-  // Retry with stricter prompt if validation failed
   if (!valid) {
-    logger.warn(
-      { source_id, errors: validateEventSchema.errors?.slice(0, 3) },
-      "Validation failed on attempt 1; retrying with strict prompt"
+    logger.error(
+      { source_id, promptVersion: prompt.version, errors: formatAjvErrors(errors.slice(0, 5)), repairs },
+      "Extraction invalid after repair"
     );
-
-    extraction = await callOpenAIForExtraction({
-      system: systemPrompt,
-      user: buildUserPrompt(source, rawText, true),
-    });
-    
-    valid = validateEventSchema(extraction);
-  }
-
-  if (!valid) {
-    const errors = validateEventSchema.errors ?? [];
-    logger.error({ source_id, errors: errors.slice(0, 5) }, "Extraction invalid after retries");
     await markSourceStatus(source_id, "extraction_failed");
-    throw new Error(`Invalid event_extraction_v1 JSON for source_id=${source_id}`);
+    await handOffSyndicatedCopies(source_id, msg.correlation_id);
+    throw new Error(`Invalid ${SCHEMA_VERSION} JSON for source_id=${source_id}`);
   }
 
-  // 6. Validate geolocation
-  const geoValidation = validateGeolocation(extraction);
-  
-  if (!geoValidation.valid) {
-    logger.warn({ source_id, geoValidation }, "Geolocation validation issues");
-    // Downgrade confidence but don't fail
-    extraction.confidence.geolocation = geoValidation.adjustedConfidence;
-    
-    if (geoValidation.shouldNullifyCoords) {
-      extraction.location.geometry = null;
-    }
-  }
+  // 7. Validate geolocation of each event (downgrades confidence, applies suggested fixes)
+  const geoValidations = await applyGeoValidation(source_id, extraction, getGeoReference(), geocodeAdmin);
+
+  // 7b. Geocode events left without coordinates from the gazetteer (admin names -> point)
+  await applyGazetteerFallback(source_id, extraction, geoValidations);
 
-  // 7. Save extraction result
-  const { eventId } = await saveExtractionResult({
+  // 8. Save extraction result (one event row per extracted event)
+  const usage = sumUsage(usageLog);
+  const { eventIds } = await saveExtractionResult({
     sourceId: source_id,
+    jobId: msg.job_id,
+    promptVersion: prompt.version,
     extraction,
-    model: model_hint === "anthropic" ? "claude" : OPENAI_MODEL,
+    response,
+    failedAttempts,
+    usage,
     qualityScore,
-    geoValidation,
+    geoValidations,
+    repairs,
   });
 
-  logger.info({ source_id, eventId }, "Extraction saved successfully");
-
-  // 8. Enqueue next stage (CLUSTER for deduplication)
-  const clusterMsg = createJobMessage<ClusterJobMessage>(
-    "CLUSTER",
-    { event_id: parseInt(eventId) },
-    msg.correlation_id
+  logger.info(
+    {
+      source_id,
+      eventIds,
+      provider: response.provider,
+      model: response.model,
+      promptVersion: prompt.version,
+      costUsd: usage.costUsd,
+      repairs: repairs.actions.length,
+      llmRepair: repairs.llmRepair,
+    },
+    "Extraction saved successfully"
   );
-  
-  await enqueueJob("CLUSTER", clusterMsg);
-  logger.info({ source_id, eventId }, "CLUSTER job enqueued");
+
+  // 9. Attach syndicated copies that were waiting on this source
+  await attachSyndicatedCopies(source_id, eventIds.map((id) => parseInt(id)));
+
+  // 10. Enqueue next stage (CLUSTER for deduplication), once per event
+  for (const eventId of eventIds) {
+    const clusterMsg = createJobMessage<ClusterJobMessage>(
+      "CLUSTER",
+      { event_id: parseInt(eventId) },
+      msg.correlation_id
+    );
+
+    await enqueueJob("q_cluster", clusterMsg);
+  }
+  logger.info({ source_id, eventIds }, "CLUSTER jobs enqueued");
 
   return {
-    eventId,
-    confidence: extraction.confidence.extraction,
-    geoValidation,
+    events: eventIds.map((eventId, i) => ({
+      eventId,
+      confidence: extraction.events[i].confidence.extraction,
+      geoValidation: geoValidations[i],
+    })),
+    usage,
   };
 }
 
@@ -171,23 +218,28 @@ export async function runExtractJob(msg: ExtractJobMessage): Promise<ExtractionR
 // Database Helpers
 // ============================================
 async function loadSource(sourceId: number): Promise<SourceRow | null> {
-  const source = await prisma.eventSource.findUnique({
-    where: { id: sourceId.toString() },
-  });
-  
+  // INGEST writes feed items and fetched articles (raw_html) to sources
+  const rows = await prisma.$queryRaw<any[]>`
+    SELECT id, url, publisher, title, source_type, published_at, retrieved_at, language,
+           raw_text, raw_html, credibility_score
+    FROM sources
+    WHERE id = ${sourceId}
+  `;
+  const source = rows[0];
   if (!source) return null;
-  
+
   return {
-    id: parseInt(source.id),
+    id: Number(source.id),
     url: source.url,
     publisher: source.publisher,
     title: source.title,
-    sourceType: source.sourceType,
-    publishedAt: source.publishedAt,
-    scrapedAt: source.scrapedAt,
+    sourceType: source.source_type ?? "news",
+    publishedAt: source.published_at,
+    scrapedAt: source.retrieved_at,
     language: source.language,
-    snippet: source.snippet,
-    credibilityScore: source.credibilityScore ? parseFloat(source.credibilityScore.toString()) : null,
+    snippet: source.raw_text,
+    rawHtml: source.raw_html,
+    credibilityScore: source.credibility_score ?? null,
   };
 }
 
@@ -199,168 +251,150 @@ async function hasExistingExtraction(sourceId: number): Promise<boolean> {
 }
 
 async function markSourceStatus(sourceId: number, status: string): Promise<void> {
-  // Update source with extraction status
   await prisma.$executeRaw`
-    UPDATE event_sources 
+    UPDATE sources
     SET extraction_status = ${status}, updated_at = NOW()
-    WHERE id = ${sourceId.toString()}
+    WHERE id = ${sourceId}
   `;
 }
 
+/**
+ * Copies waiting on a source that produced no events would wait forever;
+ * one of them is extracted instead
+ */
+async function handOffSyndicatedCopies(sourceId: number, correlationId: string): Promise<void> {
+  const promotedSourceId = await releaseSyndicatedCopies(sourceId);
+  if (promotedSourceId === null) return;
+
+  const extractMsg = createJobMessage<ExtractJobMessage>("EXTRACT", { source_id: promotedSourceId }, correlationId);
+  await enqueueJob("q_extract", extractMsg);
+}
+
 async function saveExtractionResult(args: {
   sourceId: number;
+  jobId: string;
+  promptVersion: string;
   extraction: any;
-  model: string;
+  response: ChainResponse;
+  failedAttempts: FailedAttempt[];
+  usage: UsageTotals;
   qualityScore: number;
-  geoValidation: GeoValidationResult;
-}): Promise<{ eventId: string }> {
-  const { sourceId, extraction, model, qualityScore, geoValidation } = args;
+  geoValidations: GeoValidationResult[];
+  repairs: RepairRecord;
+}): Promise<{ eventIds: string[] }> {
+  const { sourceId, jobId, promptVersion, extraction, response, failedAttempts, usage, qualityScore, geoValidations, repairs } = args;
+  const sourceRef = extraction.source_ref;
   
-  // Use transaction to create event and link to source
+  // Use transaction to create the events and link them to the source
   const result = await prisma.$transaction(async (tx) => {
-    // Create the event
-    const event = await tx.event.create({
-      data: {
-        title: extraction.title,
-        eventTypePrimary: extraction.event_type.primary,
-        eventTypeSecondary: extraction.event_type.secondary,
-        severityLevel: extraction.severity.level,
-        confidenceExtraction: extraction.confidence.extraction,
-        
-        // Geography
-        country: extraction.location.admin.country,
-        admin1: extraction.location.admin.admin1,
-        admin2: extraction.location.admin.admin2,
-        locationName: extraction.location.admin.locality,
-        latitude: extraction.location.geometry?.coordinates?.[1],
-        longitude: extraction.location.geometry?.coordinates?.[0],
-        
-        // Content
-        summaryShort: extraction.summary.short,
-        summaryDetailed: extraction.summary.detailed,
-        
-        // Classification
-        isClassroomSafe: extraction.classification?.is_classroom_safe ?? false,
-        classroomTopicTags: extraction.classification?.classroom_topic_tags ?? [],
-        
-        // Temporal
-        startDate: extraction.temporal?.start_date ? new Date(extraction.temporal.start_date) : null,
-        endDate: extraction.temporal?.end_date ? new Date(extraction.temporal.end_date) : null,
-        isOngoing: extraction.temporal?.is_ongoing ?? true,
-        
-        // Metadata
-        sourceCount: 1,
-        primarySourceType: extraction.source_ref.publisher ? 
-          categorizePublisher(extraction.source_ref.publisher) : 'news',
-        episodeEligible: shouldMarkEpisodeEligible(extraction, qualityScore),
-      },
-    });
-
-    // Link source to event
-    await tx.eventSource.update({
-      where: { id: sourceId.toString() },
-      data: { eventId: event.id },
-    });
-
-    // Store raw extraction for debugging/auditing
+    const eventIds: string[] = [];
+
+    for (const extracted of extraction.events) {
+      const event = await tx.event.create({
+        data: {
+          title: extracted.title,
+          eventTypePrimary: extracted.event_type.primary,
+          eventTypeSecondary: extracted.event_type.secondary,
+          severityLevel: extracted.severity.level,
+          confidenceExtraction: extracted.confidence.extraction,
+          
+          // Geography
+          country: extracted.location.admin.country,
+          admin1: extracted.location.admin.admin1,
+          admin2: extracted.location.admin.admin2,
+          locationName: extracted.location.admin.locality,
+          latitude: extracted.location.geometry?.coordinates?.[1],
+          longitude: extracted.location.geometry?.coordinates?.[0],
+          geoPrecision: extracted.location.geometry?.precision ?? null,
+          confidenceGeolocation: extracted.confidence.geolocation ?? null,
+          areaAffectedHectares: reportedArea(extracted.metrics),
+          
+          // Content
+          summaryShort: extracted.summary.short,
+          summaryDetailed: extracted.summary.detailed,
+          
+          // Classification
+          isClassroomSafe: extracted.classification?.is_classroom_safe ?? false,
+          classroomTopicTags: extracted.classification?.classroom_topic_tags ?? [],
+          
+          // Temporal
+          startDate: extracted.temporal?.start_date ? new Date(extracted.temporal.start_date) : null,
+          endDate: extracted.temporal?.end_date ? new Date(extracted.temporal.end_date) : null,
+          isOngoing: extracted.temporal?.is_ongoing ?? true,
+          
+          // Metadata
+          sourceCount: 1,
+          primarySourceType: sourceRef.publisher ? 
+            categorizePublisher(sourceRef.publisher) : 'news',
+          episodeEligible: shouldMarkEpisodeEligible(extracted, qualityScore),
+        },
+      });
+
+      // Prisma cannot write geometry columns
+      const coordinates = extracted.location.geometry?.coordinates;
+      if (coordinates) {
+        const [lng, lat] = coordinates;
+        await tx.$executeRaw`
+          UPDATE events
+          SET geom_point = ST_SetSRID(ST_MakePoint(${lng}, ${lat}), 4326)
+          WHERE id = ${event.id}
+        `;
+      }
+
+      // Footprints are repaired as the WDPA import repairs boundaries:
+      // ST_MakeValid, keeping only the polygonal (or linear) part, and
+      // dropped when nothing of that dimension is left
+      const footprint = extracted.location.footprint;
+      if (footprint) {
+        await tx.$executeRaw`
+          UPDATE events
+          SET geom_footprint = f.geom,
+              footprint_area_hectares = CASE
+                WHEN GeometryType(f.geom) = 'LINESTRING' THEN NULL
+                ELSE ST_Area(f.geom::geography) / 10000.0
+              END
+          FROM (
+            SELECT CASE
+              WHEN ST_Dimension(raw.geom) = 2 THEN ST_Multi(ST_CollectionExtract(ST_MakeValid(raw.geom), 3))
+              ELSE ST_CollectionExtract(ST_MakeValid(raw.geom), 2)
+            END AS geom
+            FROM (SELECT ST_SetSRID(ST_GeomFromGeoJSON(${JSON.stringify(footprint)}), 4326) AS geom) raw
+          ) f
+          WHERE events.id = ${event.id}
+            AND NOT ST_IsEmpty(f.geom)
+        `;
+      }
+
+      // The source is the primary source of every event it describes
+      await tx.$executeRaw`
+        INSERT INTO event_sources (event_id, source_id, relation, weight)
+        VALUES (${event.id}, ${sourceId}, 'primary', 1.0)
+        ON CONFLICT (event_id, source_id) DO NOTHING
+      `;
+
+      eventIds.push(event.id);
+    }
+
+    // Store raw extraction for debugging/auditing; event_id is the most significant event
+    const [saved] = await tx.$queryRaw<Array<{ id: bigint }>>`
+      INSERT INTO source_extractions (source_id, event_id, schema_version, prompt_version, provider, model, provider_attempts, extraction_json, quality_score, geo_validation, repairs, input_tokens, output_tokens, cost_usd, created_at)
+      VALUES (${sourceId}, ${eventIds[0]}, ${SCHEMA_VERSION}, ${promptVersion}, ${response.provider}, ${response.model}, ${JSON.stringify(failedAttempts)}::jsonb, ${JSON.stringify(extraction)}::jsonb, ${qualityScore}, ${JSON.stringify(geoValidations)}::jsonb, ${JSON.stringify(repairs)}::jsonb, ${usage.inputTokens}, ${usage.outputTokens}, ${usage.costUsd}, NOW())
+      RETURNING id
+    `;
+
+    // Link this job's usage rows (every call, including failed ones) to the extraction
     await tx.$executeRaw`
-      INSERT INTO source_extractions (source_id, event_id, schema_version, model, extraction_json, quality_score, geo_validation, created_at)
-      VALUES (${sourceId}, ${event.id}, 'event_extraction_v1', ${model}, ${JSON.stringify(extraction)}::jsonb, ${qualityScore}, ${JSON.stringify(geoValidation)}::jsonb, NOW())
+      UPDATE extraction_usage
+      SET source_extraction_id = ${saved.id}
+      WHERE source_id = ${sourceId} AND job_id = ${jobId}
     `;
 
-    return { eventId: event.id };
+    return { eventIds };
   });
 
   return result;
 }
 
-// ============================================
-// OpenAI Helpers
-// ============================================
-async function callOpenAIForExtraction(args: { 
-  system: string; 
-  user: string 
-}): Promise<any> {
-  const response = await openai.chat.completions.create({
-    model: OPENAI_MODEL,
-    temperature: 0.2,
-    max_tokens: 4000,
-    messages: [
-      { role: "system", content: args.system },
-      { role: "user", content: args.user },
-    ],
-    response_format: { type: "json_object" },
-  });
-
-  const content = response.choices?.[0]?.message?.content;
-  if (!content) {
-    throw new Error("OpenAI returned empty content");
-  }
-
-  try {
-    return JSON.parse(content);
-  } catch (e) {
-    throw new Error(`Failed to parse JSON from OpenAI: ${(e as Error).message}`);
-  }
-}
-
-function buildSystemPrompt(): string {
-  return `You are a conservation event data extraction engine.
-
-TASK: Extract structured event data from news articles and reports about conservation, environmental events, and wildlife.
-
-OUTPUT: Return ONLY valid JSON matching the event_extraction_v1 schema. No markdown fences or explanations.
-
-RULES:
-1. Extract exactly ONE event per source (the most significant/newsworthy one)
-2. Coordinates must be [longitude, latitude] (GeoJSON order)
-3. All dates must be ISO 8601 format (YYYY-MM-DD or full datetime)
-4. Use null for unknown fields, not empty strings
-5. severity.level: 1=minimal, 2=low, 3=moderate, 4=high, 5=severe/crisis
-6. confidence.extraction: Your confidence in the overall extraction (0-1)
-7. is_classroom_safe: False if contains graphic violence, animal death details, or disturbing content
-
-EVENT TYPES (pick most appropriate):
-- wildfire, deforestation, illegal_logging, poaching
-- pollution, oil_spill, disease_outbreak, coral_bleaching
-- invasive_species, habitat_loss, climate_impact
-- policy_change, restoration, conservation_win, species_discovery
-- other (only if nothing else fits)
-
-SEVERITY GUIDELINES:
-- 1: Minor, localized, quickly resolved
-- 2: Limited scope, manageable impact
-- 3: Regional concern, moderate damage
-- 4: Significant damage, widespread impact
-- 5: Major disaster, crisis-level, international concern`;
-}
-
-function buildUserPrompt(source: SourceRow, rawText: string, strict: boolean): string {
-  const metadata = {
-    url: source.url,
-    publisher: source.publisher,
-    title: source.title,
-    published_at: source.publishedAt?.toISOString(),
-    language: source.language,
-  };
-
-  return `Extract a conservation event from this source.
-
-SOURCE METADATA:
-${JSON.stringify(metadata, null, 2)}
-
-SOURCE TEXT:
-${rawText}
-
-${strict ? `
-IMPORTANT: Your previous response was invalid. This time:
-- Include ALL required fields (schema_version, title, event_type, severity, confidence, location, temporal, summary, source_ref)
-- schema_version MUST be exactly "event_extraction_v1"
-- coordinates MUST be [longitude, latitude] if provided
-- severity.level MUST be an integer 1-5
-- Output ONLY the JSON object, nothing else` : ''}`;
-}
-
 // ============================================
 // Utility Functions
 // ============================================
@@ -369,6 +403,23 @@ function truncateText(text: string, maxChars: number): string {
   return text.slice(0, maxChars) + "\n\n[TRUNCATED]";
 }
 
+/**
+ * Content-based quality signals; only available once the article HTML is fetched
+ */
+function contentSignals(
+  content: ExtractedContent | null,
+  source: SourceRow
+): Pick<SourceQualityInput, "hasAuthor" | "hasPublishDate" | "wordCount" | "hasCitations"> {
+  if (!content) return {};
+
+  return {
+    hasAuthor: content.byline !== null,
+    hasPublishDate: (content.publishedAt ?? source.publishedAt) !== null,
+    wordCount: content.wordCount,
+    hasCitations: content.citationCount > 0,
+  };
+}
+
 function categorizePublisher(publisher: string): string {
   const lower = publisher.toLowerCase();
   if (lower.includes('gov') || lower.includes('department') || lower.includes('ministry')) {
@@ -392,4 +443,4 @@ function shouldMarkEpisodeEligible(extraction: any, qualityScore: number): boole
   );
 }
 
-export { validateEventSchema };
+export { validateEventSchema } from "../services/extraction/extractEvents";
@@ -0,0 +1,97 @@
+// packages/api/src/jobs/geojoin.job.test.ts
+//
+// runGeoJoinJob with the protected-area join, the queue and the database
+// replaced by fakes; covers both payload modes and the job_logs summary.
+
+import type { GeoJoinJobMessage } from "@conservation-atlas/shared/types/queueMessages";
+import { createJobMessage } from "@conservation-atlas/shared/types/queueMessages";
+
+import type { GeoJoinResult } from "../services/geo/protectedAreaJoin";
+import { runGeoJoinJob } from "./geojoin.job";
+
+const mockDb = {
+  jobLogs: [] as unknown[][],
+};
+
+jest.mock("../db", () => ({
+  prisma: {
+    $executeRaw: jest.fn(async (_strings: TemplateStringsArray, ...values: unknown[]) => {
+      mockDb.jobLogs.push(values);
+      return 1;
+    }),
+  },
+}));
+
+jest.mock("../services/queue/sqsService", () => ({
+  enqueueJob: jest.fn(async () => "message-id"),
+}));
+
+jest.mock("../services/geo/protectedAreaJoin", () => ({
+  joinProtectedAreas: jest.fn(),
+  backfillProtectedAreaJoins: jest.fn(),
+}));
+
+const { joinProtectedAreas, backfillProtectedAreaJoins } = jest.requireMock("../services/geo/protectedAreaJoin");
+const { enqueueJob } = jest.requireMock("../services/queue/sqsService");
+
+function joined(eventId: string, overrides: Partial<GeoJoinResult> = {}): GeoJoinResult {
+  return {
+    eventId,
+    wdpaRelease: "2026-01",
+    located: true,
+    isInside: false,
+    nearestProtectedAreaId: null,
+    distanceKm: null,
+    overlaps: [],
+    ...overrides,
+  };
+}
+
+function geoJoinMessage(payload: GeoJoinJobMessage["payload"]): GeoJoinJobMessage {
+  return createJobMessage<GeoJoinJobMessage>("GEO_JOIN", payload);
+}
+
+beforeEach(() => {
+  mockDb.jobLogs = [];
+  enqueueJob.mockClear();
+  joinProtectedAreas.mockReset();
+  backfillProtectedAreaJoins.mockReset();
+});
+
+describe("runGeoJoinJob", () => {
+  it("joins one event and logs it among the inside events", async () => {
+    joinProtectedAreas.mockResolvedValue(joined("12", { isInside: true, nearestProtectedAreaId: "3", distanceKm: 0 }));
+
+    const result = await runGeoJoinJob(geoJoinMessage({ event_id: 12 }));
+
+    expect(joinProtectedAreas).toHaveBeenCalledWith("12");
+    expect(result).toMatchObject({ mode: "event", wdpaRelease: "2026-01", eventsProcessed: 1, inside: 1, near: 0 });
+    const [, , , status, , , summary] = mockDb.jobLogs[0];
+    expect(status).toBe("completed");
+    expect(JSON.parse(summary as string)).toMatchObject({ inside: 1, insideEvents: [{ eventId: "12", isInside: true }] });
+  });
+
+  it("counts a backfill batch and enqueues the continuation", async () => {
+    backfillProtectedAreaJoins.mockResolvedValue({
+      wdpaRelease: "2026-01",
+      results: [joined("1"), joined("2", { nearestProtectedAreaId: "3", distanceKm: 4.2 })],
+      failures: [{ eventId: "5", error: "invalid geometry" }],
+      lastEventId: "5",
+      done: false,
+    });
+
+    const result = await runGeoJoinJob(geoJoinMessage({ backfill: true }));
+
+    expect(result).toMatchObject({ mode: "backfill", eventsProcessed: 2, inside: 0, near: 1, failed: 1, continueAfterEventId: "5" });
+    expect(enqueueJob).toHaveBeenCalledWith(
+      "q_geojoin",
+      expect.objectContaining({ payload: { backfill: true, after_event_id: 5 } })
+    );
+  });
+
+  it("logs the failure and rethrows for a payload without a mode", async () => {
+    await expect(runGeoJoinJob(geoJoinMessage({}))).rejects.toThrow("Invalid GEO_JOIN payload");
+
+    expect(mockDb.jobLogs[0][3]).toBe("failed");
+  });
+});
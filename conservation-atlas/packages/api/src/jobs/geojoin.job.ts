@@ -0,0 +1,119 @@
+// packages/api/src/jobs/geojoin.job.ts
+
+import type { GeoJoinJobMessage } from "@conservation-atlas/shared/types/queueMessages";
+import { createJobMessage } from "@conservation-atlas/shared/types/queueMessages";
+
+import { logger } from "../utils/logger";
+import { enqueueJob } from "../services/queue/sqsService";
+import {
+  joinProtectedAreas,
+  backfillProtectedAreaJoins,
+  type GeoJoinResult,
+} from "../services/geo/protectedAreaJoin";
+import { emptyJobResult, recordResult, summarizeResult, writeJobLog, type EventJobResult } from "./jobLog";
+
+// ============================================
+// Configuration
+// ============================================
+const BACKFILL_BATCH_SIZE = Number(process.env.GEO_JOIN_BACKFILL_BATCH ?? 500);
+
+// ============================================
+// Types
+// ============================================
+export interface GeoJoinJobResult extends EventJobResult<GeoJoinResult> {
+  mode: "event" | "backfill";
+  wdpaRelease: string | null;
+  inside: number;
+  near: number;
+  /** Backfill only: cursor of the continuation message, if one was enqueued */
+  continueAfterEventId?: string | null;
+}
+
+// ============================================
+// Main Job Handler
+// ============================================
+
+/**
+ * GEO_JOIN computes an event's protected-area relationship (see
+ * protectedAreaJoin.ts). Payload modes:
+ * - event_id: join one event (enqueued by CLUSTER for the surviving primary)
+ * - backfill: join the next batch of events never joined, or joined against
+ *   an older WDPA release, then enqueue a continuation for the rest. Run it
+ *   after each WDPA import (or use tools/geo_join_backfill.ts).
+ */
+export async function runGeoJoinJob(msg: GeoJoinJobMessage): Promise<GeoJoinJobResult> {
+  const { event_id, backfill, after_event_id } = msg.payload;
+  const startTime = Date.now();
+
+  logger.info({ job_id: msg.job_id, event_id, backfill, after_event_id }, "GEO_JOIN job started");
+
+  try {
+    let result: GeoJoinJobResult;
+    if (event_id !== undefined) {
+      // Errors propagate so the consumer can retry the message
+      const joined = await joinProtectedAreas(String(event_id));
+      result = emptyResult("event", joined.wdpaRelease);
+      record(result, joined);
+    } else if (backfill) {
+      result = await backfillBatch(msg);
+    } else {
+      throw new Error("Invalid GEO_JOIN payload: needs event_id or backfill");
+    }
+
+    // A backfill joins hundreds of events, most far from any area
+    const summary = summarizeResult(result, "insideEvents", (r) => r.isInside);
+    await writeJobLog(msg, "completed", Date.now() - startTime, summary, null);
+
+    logger.info({
+      job_id: msg.job_id,
+      mode: result.mode,
+      wdpaRelease: result.wdpaRelease,
+      eventsProcessed: result.eventsProcessed,
+      inside: result.inside,
+      failed: result.failed,
+    }, "GEO_JOIN job completed");
+
+    return result;
+  } catch (err) {
+    await writeJobLog(msg, "failed", Date.now() - startTime, null, err as Error);
+    throw err;
+  }
+}
+
+// ============================================
+// Modes
+// ============================================
+async function backfillBatch(msg: GeoJoinJobMessage): Promise<GeoJoinJobResult> {
+  const afterEventId = msg.payload.after_event_id !== undefined ? String(msg.payload.after_event_id) : null;
+
+  const batch = await backfillProtectedAreaJoins({ afterEventId, limit: BACKFILL_BATCH_SIZE });
+
+  const result = emptyResult("backfill", batch.wdpaRelease);
+  for (const joined of batch.results) record(result, joined);
+  result.failed = batch.failures.length;
+  result.failures = batch.failures;
+  result.continueAfterEventId = null;
+
+  if (!batch.done && batch.lastEventId !== null) {
+    const next = createJobMessage<GeoJoinJobMessage>(
+      "GEO_JOIN",
+      { backfill: true, after_event_id: parseInt(batch.lastEventId) },
+      msg.correlation_id
+    );
+    await enqueueJob("q_geojoin", next);
+    result.continueAfterEventId = batch.lastEventId;
+  }
+
+  return result;
+}
+
+// ============================================
+// Helpers
+// ============================================
+function record(result: GeoJoinJobResult, joined: GeoJoinResult): void {
+  recordResult(result, joined, joined.isInside ? "inside" : joined.nearestProtectedAreaId !== null ? "near" : null);
+}
+
+function emptyResult(mode: GeoJoinJobResult["mode"], wdpaRelease: string | null): GeoJoinJobResult {
+  return emptyJobResult({ mode, wdpaRelease, inside: 0, near: 0 });
+}
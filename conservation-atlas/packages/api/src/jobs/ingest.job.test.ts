@@ -0,0 +1,197 @@
+// packages/api/src/jobs/ingest.job.test.ts
+//
+// End-to-end INGEST run against a fixture feed served over local HTTP.
+// The database and queue are replaced by in-memory fakes.
+
+import { readFileSync } from "node:fs";
+import { createServer, type Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import path from "node:path";
+
+import type { IngestJobMessage } from "@conservation-atlas/shared/types/queueMessages";
+import { createJobMessage } from "@conservation-atlas/shared/types/queueMessages";
+
+import type { runIngestJob as RunIngestJob } from "./ingest.job";
+
+type SourceRow = {
+  id: number;
+  url: string;
+  title: string | null;
+  contentHash: string;
+  feedId: number;
+  rawHtml?: string;
+};
+
+const mockDb = {
+  feeds: [] as Array<{ id: bigint; url: string; name: string; source_type: string; priority: string }>,
+  sources: [] as SourceRow[],
+  scraped: [] as Array<{ feedId: number; error: string | null }>,
+};
+
+jest.mock("../db", () => ({
+  prisma: {
+    $queryRaw: jest.fn(async (strings: TemplateStringsArray, ...values: any[]) => {
+      const sql = strings.join("?");
+      if (sql.includes("FROM rss_feed_configs")) return mockDb.feeds;
+      if (sql.includes("INSERT INTO sources")) {
+        const [url, , title, , , , , contentHash, feedId] = values;
+        if (mockDb.sources.some((s) => s.url === url || s.contentHash === contentHash)) return [];
+        const id = mockDb.sources.length + 1;
+        mockDb.sources.push({ id, url, title, contentHash, feedId });
+        return [{ id: BigInt(id) }];
+      }
+      throw new Error(`Unexpected query: ${sql}`);
+    }),
+    $executeRaw: jest.fn(async (strings: TemplateStringsArray, ...values: any[]) => {
+      const sql = strings.join("?");
+      if (sql.includes("UPDATE rss_feed_configs")) {
+        const [error, feedId] = values;
+        mockDb.scraped.push({ feedId, error });
+        return 1;
+      }
+      if (sql.includes("UPDATE sources")) {
+        const [rawHtml] = values;
+        const source = mockDb.sources.find((s) => s.id === values[values.length - 1]);
+        if (source) source.rawHtml = rawHtml;
+        return 1;
+      }
+      throw new Error(`Unexpected statement: ${sql}`);
+    }),
+  },
+}));
+
+jest.mock("../services/queue/sqsService", () => ({
+  enqueueJob: jest.fn(async () => "message-id"),
+}));
+
+jest.mock("../services/ingest/nearDuplicate", () => ({
+  detectNearDuplicate: jest.fn(async () => null),
+  attachToCanonicalEvent: jest.fn(),
+}));
+
+const feedXml = readFileSync(path.join(__dirname, "../services/ingest/__fixtures__/rss.xml"), "utf8");
+
+let server: Server;
+let baseUrl: string;
+
+/**
+ * Configuration is read at import time, so each scenario loads a fresh copy
+ */
+async function loadIngestJob(env: Record<string, string>): Promise<typeof RunIngestJob> {
+  jest.resetModules();
+  Object.assign(process.env, {
+    INGEST_FETCH_ARTICLES: "false",
+    INGEST_TIME_BUDGET_MS: "75000",
+    ARTICLE_FETCHER: "",
+    SCRAPERBEE_API_KEY: "",
+    FETCH_MIN_INTERVAL_MS: "0",
+    FETCH_RESPECT_ROBOTS: "false",
+    ...env,
+  });
+  return (await import("./ingest.job")).runIngestJob;
+}
+
+beforeAll(async () => {
+  server = createServer((req, res) => {
+    if (req.url === "/feed.xml") {
+      res.writeHead(200, { "content-type": "application/rss+xml" });
+      res.end(feedXml.replaceAll("http://localhost", baseUrl));
+    } else if (req.url?.startsWith("/articles/")) {
+      res.writeHead(200, { "content-type": "text/html" });
+      res.end(`<html><head><title>${req.url}</title></head><body><article><p>Full story.</p></article></body></html>`);
+    } else {
+      res.writeHead(404);
+      res.end();
+    }
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+  await new Promise((resolve) => server.close(resolve));
+});
+
+beforeEach(() => {
+  mockDb.sources = [];
+  mockDb.scraped = [];
+  mockDb.feeds = [
+    { id: 1n, url: `${baseUrl}/feed.xml`, name: "Wildlife Wire", source_type: "news", priority: "high" },
+  ];
+});
+
+function ingestMessage(maxItems?: number): IngestJobMessage {
+  return createJobMessage<IngestJobMessage>("INGEST", { source_group: "global", max_items: maxItems });
+}
+
+describe("runIngestJob", () => {
+  let runIngestJob: typeof RunIngestJob;
+
+  beforeAll(async () => {
+    // Feed items only; article fetching is covered below
+    runIngestJob = await loadIngestJob({});
+  });
+
+  it("creates a source per feed item and enqueues EXTRACT for each", async () => {
+    const { enqueueJob } = jest.requireMock("../services/queue/sqsService");
+    enqueueJob.mockClear();
+    const msg = ingestMessage();
+
+    const result = await runIngestJob(msg);
+
+    expect(result).toMatchObject({ feedsProcessed: 1, feedsFailed: 0, sourcesCreated: 2, extractJobsEnqueued: 2 });
+    // Newest first; the title "007" survives as a string
+    expect(mockDb.sources.map((s) => s.title)).toEqual(["Elephant corridor reopened", "007"]);
+    expect(mockDb.scraped).toEqual([{ feedId: 1, error: null }]);
+    expect(enqueueJob).toHaveBeenCalledTimes(2);
+    expect(enqueueJob).toHaveBeenCalledWith(
+      "q_extract",
+      expect.objectContaining({ job_type: "EXTRACT", payload: { source_id: 1 }, correlation_id: msg.correlation_id })
+    );
+  });
+
+  it("skips items already stored on a second run", async () => {
+    await runIngestJob(ingestMessage());
+    const second = await runIngestJob(ingestMessage());
+
+    expect(second.sourcesCreated).toBe(0);
+    expect(second.feeds[0]).toMatchObject({ itemsSeen: 2, duplicates: 2 });
+  });
+
+  it("stops at max_items", async () => {
+    const result = await runIngestJob(ingestMessage(1));
+
+    expect(result.sourcesCreated).toBe(1);
+    expect(mockDb.sources).toHaveLength(1);
+  });
+
+  it("records the error on the feed when it cannot be fetched", async () => {
+    mockDb.feeds[0].url = `${baseUrl}/missing.xml`;
+
+    const result = await runIngestJob(ingestMessage());
+
+    expect(result).toMatchObject({ feedsProcessed: 1, feedsFailed: 1, sourcesCreated: 0 });
+    expect(mockDb.scraped).toEqual([{ feedId: 1, error: "Feed request failed: HTTP 404" }]);
+  });
+});
+
+describe("runIngestJob article fetching", () => {
+  it("falls back to plain HTTP when ScraperBee has no API key", async () => {
+    const runIngestJob = await loadIngestJob({ INGEST_FETCH_ARTICLES: "true", ARTICLE_FETCHER: "scraperbee" });
+
+    const result = await runIngestJob(ingestMessage());
+
+    expect(result).toMatchObject({ feedsFailed: 0, sourcesCreated: 2 });
+    expect(result.feeds[0].fetchFailures).toBe(0);
+    expect(mockDb.sources.every((s) => s.rawHtml?.includes("Full story."))).toBe(true);
+  });
+
+  it("defers remaining items once the time budget is spent and leaves the feed due", async () => {
+    const runIngestJob = await loadIngestJob({ INGEST_TIME_BUDGET_MS: "0" });
+
+    const result = await runIngestJob(ingestMessage());
+
+    expect(result).toMatchObject({ feedsProcessed: 0, sourcesCreated: 0 });
+    expect(mockDb.scraped).toEqual([]);
+  });
+});
@@ -0,0 +1,398 @@
+// packages/api/src/jobs/ingest.job.ts
+
+import { createHash } from "node:crypto";
+
+import type { IngestJobMessage, ExtractJobMessage } from "@conservation-atlas/shared/types/queueMessages";
+import { createJobMessage } from "@conservation-atlas/shared/types/queueMessages";
+
+import { logger } from "../utils/logger";
+import { prisma } from "../db";
+import { enqueueJob } from "../services/queue/sqsService";
+import { parseFeed, stripHtml, type FeedItem } from "../services/ingest/feedParser";
+import { createArticleFetcher, type ArticleFetcher } from "../services/ingest/articleFetcher";
+import { detectNearDuplicate, attachToCanonicalEvent } from "../services/ingest/nearDuplicate";
+
+// ============================================
+// Configuration
+// ============================================
+const DEFAULT_MAX_ITEMS = Number(process.env.INGEST_MAX_ITEMS ?? 200);
+const MAX_FEEDS_PER_RUN = Number(process.env.INGEST_MAX_FEEDS ?? 50);
+const FEED_TIMEOUT_MS = Number(process.env.INGEST_FEED_TIMEOUT_MS ?? 15_000);
+const USER_AGENT = process.env.INGEST_USER_AGENT || "ConservationAtlasBot/0.1 (+https://conservation-atlas.org/bot)";
+const FETCH_ARTICLES = process.env.INGEST_FETCH_ARTICLES !== "false";
+// Stop taking new items after this long, so a run (plus one article fetch
+// in flight, FETCH_TIMEOUT_MS) ends inside the queue visibility timeout.
+// Items left over stay in the feed, which stays due for the next run.
+const TIME_BUDGET_MS = Number(process.env.INGEST_TIME_BUDGET_MS ?? 75_000);
+
+// ============================================
+// Types
+// ============================================
+interface FeedConfigRow {
+  id: number;
+  url: string;
+  name: string;
+  sourceType: string;
+  priority: string;
+}
+
+interface FeedIngestResult {
+  feedId: number;
+  itemsSeen: number;
+  sourcesCreated: number;
+  duplicates: number;
+  nearDuplicates: number;
+  fetchFailures: number;
+  error: string | null;
+  /** Time budget ran out before every item was seen */
+  deferred: boolean;
+}
+
+export interface IngestResult {
+  feedsProcessed: number;
+  feedsFailed: number;
+  sourcesCreated: number;
+  extractJobsEnqueued: number;
+  feeds: FeedIngestResult[];
+}
+
+// ============================================
+// Main Job Handler
+// ============================================
+export async function runIngestJob(msg: IngestJobMessage): Promise<IngestResult> {
+  const { source_group, max_items } = msg.payload;
+  const maxItems = Math.max(0, max_items ?? DEFAULT_MAX_ITEMS);
+  const deadline = Date.now() + TIME_BUDGET_MS;
+
+  logger.info({ job_id: msg.job_id, source_group, maxItems }, "INGEST job started");
+
+  // 1. Pick feeds that are due, highest priority first
+  const feeds = await loadDueFeeds(source_group);
+  if (!feeds.length) {
+    logger.info({ source_group }, "No feeds due for scraping");
+    return { feedsProcessed: 0, feedsFailed: 0, sourcesCreated: 0, extractJobsEnqueued: 0, feeds: [] };
+  }
+
+  const fetcher = FETCH_ARTICLES ? loadArticleFetcher() : null;
+
+  const result: IngestResult = {
+    feedsProcessed: 0,
+    feedsFailed: 0,
+    sourcesCreated: 0,
+    extractJobsEnqueued: 0,
+    feeds: [],
+  };
+
+  // 2. Process feeds sequentially until the item budget runs out
+  for (const feed of feeds) {
+    const remaining = maxItems - result.sourcesCreated;
+    if (remaining <= 0) {
+      logger.info({ source_group, maxItems }, "max_items reached; remaining feeds deferred");
+      break;
+    }
+    if (Date.now() >= deadline) {
+      logger.info({ source_group, budgetMs: TIME_BUDGET_MS }, "Time budget spent; remaining feeds deferred");
+      break;
+    }
+
+    const feedResult = await ingestFeed(feed, remaining, fetcher, deadline);
+    result.feeds.push(feedResult);
+    result.feedsProcessed++;
+
+    if (feedResult.error) {
+      result.feedsFailed++;
+    }
+
+    // 3. Enqueue one EXTRACT per new source under the same correlation_id
+    //    (syndicated copies reuse their canonical source's extraction instead)
+    for (const sourceId of feedResult.extractSourceIds) {
+      const extractMsg = createJobMessage<ExtractJobMessage>(
+        "EXTRACT",
+        { source_id: sourceId },
+        msg.correlation_id
+      );
+      await enqueueJob("q_extract", extractMsg);
+      result.extractJobsEnqueued++;
+    }
+
+    result.sourcesCreated += feedResult.sourcesCreated;
+  }
+
+  logger.info({
+    job_id: msg.job_id,
+    feedsProcessed: result.feedsProcessed,
+    feedsFailed: result.feedsFailed,
+    sourcesCreated: result.sourcesCreated,
+  }, "INGEST job completed");
+
+  return result;
+}
+
+// ============================================
+// Feed Processing
+// ============================================
+async function ingestFeed(
+  feed: FeedConfigRow,
+  limit: number,
+  fetcher: ArticleFetcher | null,
+  deadline: number
+): Promise<FeedIngestResult & { extractSourceIds: number[] }> {
+  const newSourceIds: number[] = [];
+  const extractSourceIds: number[] = [];
+  let itemsSeen = 0;
+  let duplicates = 0;
+  let nearDuplicates = 0;
+  let fetchFailures = 0;
+  let deferred = false;
+
+  try {
+    const xml = await fetchFeed(feed.url);
+    const parsed = parseFeed(xml);
+    itemsSeen = parsed.items.length;
+
+    // Newest first, so a capped run keeps the freshest items
+    const items = [...parsed.items].sort(
+      (a, b) => (b.publishedAt?.getTime() ?? 0) - (a.publishedAt?.getTime() ?? 0)
+    );
+
+    for (const item of items) {
+      if (newSourceIds.length >= limit) break;
+      if (Date.now() >= deadline) {
+        deferred = true;
+        break;
+      }
+
+      const sourceId = await insertSource(feed, item, parsed.title, parsed.language);
+      if (sourceId === null) {
+        duplicates++;
+        continue;
+      }
+
+      newSourceIds.push(sourceId);
+
+      // Fill raw_html/raw_text and metadata from the full article page
+      if (fetcher && !(await fetchArticleIntoSource(fetcher, sourceId, item.url))) {
+        fetchFailures++;
+      }
+
+      // Syndicated wire copies: link to the canonical source rather than re-extracting
+      if (await linkNearDuplicate(sourceId)) {
+        nearDuplicates++;
+        continue;
+      }
+
+      extractSourceIds.push(sourceId);
+    }
+
+    // A deferred feed stays due so the next run picks up the rest
+    if (!deferred) {
+      await markFeedScraped(feed.id, null);
+    }
+
+    logger.info({
+      feed_id: feed.id,
+      feed: feed.name,
+      itemsSeen,
+      created: newSourceIds.length,
+      duplicates,
+      nearDuplicates,
+      fetchFailures,
+      deferred,
+    }, "Feed ingested");
+
+    return {
+      feedId: feed.id,
+      itemsSeen,
+      sourcesCreated: newSourceIds.length,
+      duplicates,
+      nearDuplicates,
+      fetchFailures,
+      error: null,
+      deferred,
+      extractSourceIds,
+    };
+  } catch (err) {
+    const error = (err as Error).message;
+    logger.warn({ feed_id: feed.id, feed: feed.name, error }, "Feed ingest failed");
+    await markFeedScraped(feed.id, error);
+
+    // Sources inserted before the failure are kept and still sent to EXTRACT
+    return {
+      feedId: feed.id,
+      itemsSeen,
+      sourcesCreated: newSourceIds.length,
+      duplicates,
+      nearDuplicates,
+      fetchFailures,
+      error,
+      deferred,
+      extractSourceIds,
+    };
+  }
+}
+
+async function fetchFeed(url: string): Promise<string> {
+  const response = await fetch(url, {
+    headers: {
+      "User-Agent": USER_AGENT,
+      Accept: "application/rss+xml, application/atom+xml, application/xml;q=0.9, text/xml;q=0.8, */*;q=0.5",
+    },
+    signal: AbortSignal.timeout(FEED_TIMEOUT_MS),
+  });
+
+  if (!response.ok) {
+    throw new Error(`Feed request failed: HTTP ${response.status}`);
+  }
+
+  return response.text();
+}
+
+/**
+ * Build the configured article fetcher once per run. A misconfigured
+ * fetcher (e.g. ScraperBee without an API key) falls back to plain HTTP
+ * instead of failing every feed.
+ */
+function loadArticleFetcher(): ArticleFetcher {
+  try {
+    return createArticleFetcher();
+  } catch (err) {
+    logger.error({ error: (err as Error).message }, "Article fetcher misconfigured; falling back to http");
+    return createArticleFetcher("http");
+  }
+}
+
+/**
+ * Fetch the article behind a feed item and store it on the source.
+ * Failures are logged and leave the feed summary in place as raw_text.
+ */
+async function fetchArticleIntoSource(fetcher: ArticleFetcher, sourceId: number, url: string): Promise<boolean> {
+  try {
+    const article = await fetcher.fetch(url);
+
+    await prisma.$executeRaw`
+      UPDATE sources
+      SET raw_html = ${article.rawHtml},
+          raw_text = COALESCE(NULLIF(${article.rawText}, ''), raw_text),
+          title = COALESCE(title, ${article.title}),
+          publisher = COALESCE(${article.publisher}, publisher),
+          published_at = COALESCE(published_at, ${article.publishedAt}),
+          language = COALESCE(${article.language}, language),
+          retrieved_at = NOW(),
+          updated_at = NOW()
+      WHERE id = ${sourceId}
+    `;
+    return true;
+  } catch (err) {
+    logger.warn({
+      source_id: sourceId,
+      url,
+      fetcher: fetcher.name,
+      error: (err as Error).message,
+    }, "Article fetch failed; keeping feed summary");
+    return false;
+  }
+}
+
+/**
+ * Returns true when the source was linked to a canonical source.
+ * Detection errors are non-fatal; the source then goes through EXTRACT as usual.
+ */
+async function linkNearDuplicate(sourceId: number): Promise<boolean> {
+  try {
+    const match = await detectNearDuplicate(sourceId);
+    if (!match) return false;
+
+    await attachToCanonicalEvent(sourceId, match.canonicalSourceId);
+    return true;
+  } catch (err) {
+    logger.warn({ source_id: sourceId, error: (err as Error).message }, "Near-duplicate check failed");
+    return false;
+  }
+}
+
+// ============================================
+// Database Helpers
+// ============================================
+async function loadDueFeeds(sourceGroup: string): Promise<FeedConfigRow[]> {
+  // "global" covers every active feed; any other group filters by rss_feed_configs.source_group
+  const rows = await prisma.$queryRaw<any[]>`
+    SELECT id, url, name, source_type, priority
+    FROM rss_feed_configs
+    WHERE is_active = true
+      AND (${sourceGroup} = 'global' OR source_group = ${sourceGroup})
+      AND (
+        last_scraped_at IS NULL
+        OR last_scraped_at + make_interval(mins => COALESCE(scrape_interval, 120)) <= NOW()
+      )
+    ORDER BY
+      CASE priority WHEN 'high' THEN 0 WHEN 'normal' THEN 1 ELSE 2 END,
+      last_scraped_at ASC NULLS FIRST
+    LIMIT ${MAX_FEEDS_PER_RUN}
+  `;
+
+  return rows.map((r: any) => ({
+    id: Number(r.id),
+    url: r.url,
+    name: r.name,
+    sourceType: r.source_type,
+    priority: r.priority ?? "normal",
+  }));
+}
+
+/**
+ * Insert a feed item as a new source.
+ * Returns null when the URL or the content hash already exists.
+ */
+async function insertSource(
+  feed: FeedConfigRow,
+  item: FeedItem,
+  feedTitle: string | null,
+  feedLanguage: string | null
+): Promise<number | null> {
+  const rawText = item.summary ? stripHtml(item.summary) : null;
+  const contentHash = computeContentHash(item.title, rawText);
+
+  const rows = await prisma.$queryRaw<Array<{ id: bigint }>>`
+    INSERT INTO sources (
+      url, publisher, title, language, published_at,
+      raw_text, source_type, content_hash, feed_id, extraction_status
+    )
+    SELECT
+      ${item.url}, ${feedTitle ?? feed.name}, ${item.title}, ${normalizeLanguage(feedLanguage)},
+      ${item.publishedAt}, ${rawText}, ${feed.sourceType}, ${contentHash}, ${feed.id}, 'pending'
+    WHERE NOT EXISTS (SELECT 1 FROM sources WHERE content_hash = ${contentHash})
+    ON CONFLICT (url) DO NOTHING
+    RETURNING id
+  `;
+
+  return rows.length ? Number(rows[0].id) : null;
+}
+
+async function markFeedScraped(feedId: number, error: string | null): Promise<void> {
+  await prisma.$executeRaw`
+    UPDATE rss_feed_configs
+    SET last_scraped_at = NOW(), last_error = ${error}
+    WHERE id = ${feedId}
+  `;
+}
+
+// ============================================
+// Utility Functions
+// ============================================
+
+/**
+ * Hash of normalized title + text, so re-published items with new URLs
+ * (tracking params, AMP pages) are still caught.
+ */
+export function computeContentHash(title: string | null, text: string | null): string {
+  const normalized = `${title ?? ""}\n${text ?? ""}`
+    .toLowerCase()
+    .replace(/\s+/g, " ")
+    .trim();
+  return createHash("sha256").update(normalized).digest("hex");
+}
+
+function normalizeLanguage(lang: string | null): string {
+  if (!lang) return "en";
+  return lang.toLowerCase().split(/[-_]/)[0] || "en";
+}
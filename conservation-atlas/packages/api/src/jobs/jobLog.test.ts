@@ -0,0 +1,75 @@
+// packages/api/src/jobs/jobLog.test.ts
+
+import type { ThreadJobMessage } from "@conservation-atlas/shared/types/queueMessages";
+import { createJobMessage } from "@conservation-atlas/shared/types/queueMessages";
+
+import { logger } from "../utils/logger";
+import { emptyJobResult, recordFailure, recordResult, summarizeResult, writeJobLog, type EventJobResult } from "./jobLog";
+
+jest.mock("../db", () => ({
+  prisma: {
+    $executeRaw: jest.fn(async () => 1),
+  },
+}));
+
+const { prisma } = jest.requireMock("../db");
+
+interface CheckResult extends EventJobResult<{ id: string; ok: boolean }> {
+  passed: number;
+}
+
+function threadMessage(): ThreadJobMessage {
+  return createJobMessage<ThreadJobMessage>("THREAD", { event_id: 7 });
+}
+
+describe("job results", () => {
+  it("counts processed events, their outcomes and failures", () => {
+    const result: CheckResult = emptyJobResult({ passed: 0 });
+
+    recordResult(result, { id: "1", ok: true }, "passed");
+    recordResult(result, { id: "2", ok: false });
+    recordFailure(result, "3", new Error("bad geometry"));
+
+    expect(result).toEqual({
+      passed: 1,
+      eventsProcessed: 2,
+      failed: 1,
+      results: [{ id: "1", ok: true }, { id: "2", ok: false }],
+      failures: [{ eventId: "3", error: "bad geometry" }],
+    });
+  });
+
+  it("summarizes the counters with only the results worth keeping", () => {
+    const result: CheckResult = emptyJobResult({ passed: 0 });
+    recordResult(result, { id: "1", ok: true }, "passed");
+    recordResult(result, { id: "2", ok: false });
+
+    expect(summarizeResult(result, "passes", (r) => r.ok)).toEqual({
+      passed: 1,
+      eventsProcessed: 2,
+      failed: 0,
+      failures: [],
+      passes: [{ id: "1", ok: true }],
+    });
+  });
+});
+
+describe("writeJobLog", () => {
+  it("writes the job, its payload and summary to job_logs", async () => {
+    const msg = threadMessage();
+
+    await writeJobLog(msg, "completed", 42, { linked: 1 }, null);
+
+    const [strings, ...values] = prisma.$executeRaw.mock.calls[0];
+    expect(strings.join("?")).toContain("INSERT INTO job_logs");
+    expect(values).toEqual([msg.job_id, "THREAD", msg.correlation_id, "completed", 42, '{"event_id":7}', '{"linked":1}', null, null]);
+  });
+
+  it("never fails the job when the row cannot be written", async () => {
+    prisma.$executeRaw.mockRejectedValueOnce(new Error("connection reset"));
+    const warn = jest.spyOn(logger, "warn").mockImplementation(() => logger);
+
+    await expect(writeJobLog(threadMessage(), "failed", 5, null, new Error("boom"))).resolves.toBeUndefined();
+    expect(warn).toHaveBeenCalledWith(expect.objectContaining({ error: "connection reset" }), "Failed to write job_logs row");
+  });
+});
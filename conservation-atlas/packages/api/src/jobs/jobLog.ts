@@ -0,0 +1,103 @@
+// packages/api/src/jobs/jobLog.ts
+//
+// Bookkeeping shared by the jobs that process events one at a time or in
+// sweeps (CLUSTER, THREAD, GEO_JOIN): the per-event counters of their
+// result and the job_logs row written when they finish.
+
+import type { JobMessage } from "@conservation-atlas/shared/types/queueMessages";
+
+import { logger } from "../utils/logger";
+import { prisma } from "../db";
+
+// ============================================
+// Types
+// ============================================
+export interface JobFailure {
+  eventId: string;
+  error: string;
+}
+
+/**
+ * Counters every event job reports; each job adds its own outcome counts
+ */
+export interface EventJobResult<T> {
+  eventsProcessed: number;
+  failed: number;
+  results: T[];
+  failures: JobFailure[];
+}
+
+/** Keys of a job result that hold a count */
+type CountKey<R> = { [K in keyof R]: R[K] extends number ? K : never }[keyof R];
+
+// ============================================
+// Results
+// ============================================
+
+/**
+ * A fresh result: the shared counters at zero plus the job's own fields
+ */
+export function emptyJobResult<F extends object>(fields: F): F & EventJobResult<never> {
+  return {
+    ...fields,
+    eventsProcessed: 0,
+    failed: 0,
+    results: [],
+    failures: [],
+  };
+}
+
+/**
+ * Count one processed event, and the outcome counter it falls under
+ */
+export function recordResult<T, R extends EventJobResult<T>>(result: R, item: T, outcome: CountKey<R> | null = null): void {
+  result.eventsProcessed++;
+  result.results.push(item);
+
+  if (outcome !== null) (result[outcome] as number)++;
+}
+
+/**
+ * Count an event that failed inside a sweep; one bad event should not stop it
+ */
+export function recordFailure(result: EventJobResult<unknown>, eventId: string, err: Error): void {
+  result.failed++;
+  result.failures.push({ eventId, error: err.message });
+}
+
+/**
+ * job_logs.output_summary: the counters plus only the results worth keeping
+ * under `key` (sweeps can process hundreds of uneventful events)
+ */
+export function summarizeResult<T>(
+  result: EventJobResult<T>,
+  key: string,
+  keep: (item: T) => boolean
+): Record<string, unknown> {
+  const { results, ...counts } = result;
+  return {
+    ...counts,
+    [key]: results.filter(keep),
+  };
+}
+
+// ============================================
+// job_logs
+// ============================================
+export async function writeJobLog(
+  msg: JobMessage,
+  status: "completed" | "failed",
+  durationMs: number,
+  summary: Record<string, unknown> | null,
+  error: Error | null
+): Promise<void> {
+  try {
+    await prisma.$executeRaw`
+      INSERT INTO job_logs (job_id, job_type, correlation_id, status, duration_ms, input_payload, output_summary, error_message, error_stack)
+      VALUES (${msg.job_id}, ${msg.job_type}, ${msg.correlation_id}, ${status}, ${durationMs}, ${JSON.stringify(msg.payload)}::jsonb, ${summary ? JSON.stringify(summary) : null}::jsonb, ${error?.message ?? null}, ${error?.stack ?? null})
+    `;
+  } catch (err) {
+    // Monitoring only; never fail the job over it
+    logger.warn({ job_id: msg.job_id, error: (err as Error).message }, "Failed to write job_logs row");
+  }
+}
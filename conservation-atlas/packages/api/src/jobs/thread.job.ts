@@ -0,0 +1,118 @@
+// packages/api/src/jobs/thread.job.ts
+
+import type { ThreadJobMessage } from "@conservation-atlas/shared/types/queueMessages";
+
+import { logger } from "../utils/logger";
+import { prisma } from "../db";
+import { proposeThreadLink, type ThreadLinkProposal } from "../services/threads/threadLinker";
+import {
+  emptyJobResult,
+  recordFailure,
+  recordResult,
+  summarizeResult,
+  writeJobLog,
+  type EventJobResult,
+} from "./jobLog";
+
+// ============================================
+// Configuration
+// ============================================
+const DEFAULT_WINDOW_HOURS = Number(process.env.THREAD_SWEEP_WINDOW_HOURS ?? 24);
+const MAX_SWEEP_EVENTS = Number(process.env.THREAD_MAX_SWEEP_EVENTS ?? 500);
+
+// ============================================
+// Types
+// ============================================
+export interface ThreadJobResult extends EventJobResult<ThreadLinkProposal> {
+  mode: "event" | "sweep";
+  linked: number;
+  skipped: number;
+}
+
+// ============================================
+// Main Job Handler
+// ============================================
+
+/**
+ * THREAD proposes storyline links and has the same payload modes as CLUSTER:
+ * - event_id: link one event (enqueued by CLUSTER for the surviving primary)
+ * - window_hours: link every unmerged event created in the window, oldest
+ *   first, so an event can become the parent of one later in the sweep
+ */
+export async function runThreadJob(msg: ThreadJobMessage): Promise<ThreadJobResult> {
+  const { event_id, window_hours } = msg.payload;
+  const startTime = Date.now();
+
+  logger.info({ job_id: msg.job_id, event_id, window_hours }, "THREAD job started");
+
+  try {
+    const result = event_id !== undefined
+      ? await threadSingleEvent(String(event_id))
+      : await threadWindow(window_hours ?? DEFAULT_WINDOW_HOURS);
+
+    // Only the links actually proposed
+    const summary = summarizeResult(result, "links", (l) => l.threadId !== null);
+    await writeJobLog(msg, "completed", Date.now() - startTime, summary, null);
+
+    logger.info({
+      job_id: msg.job_id,
+      mode: result.mode,
+      eventsProcessed: result.eventsProcessed,
+      linked: result.linked,
+      failed: result.failed,
+    }, "THREAD job completed");
+
+    return result;
+  } catch (err) {
+    await writeJobLog(msg, "failed", Date.now() - startTime, null, err as Error);
+    throw err;
+  }
+}
+
+// ============================================
+// Modes
+// ============================================
+async function threadSingleEvent(eventId: string): Promise<ThreadJobResult> {
+  const result = emptyResult("event");
+
+  // Errors propagate so the consumer can retry the message
+  const proposal = await proposeThreadLink(eventId);
+  recordResult(result, proposal, proposal.threadId !== null ? "linked" : "skipped");
+
+  return result;
+}
+
+async function threadWindow(windowHours: number): Promise<ThreadJobResult> {
+  const result = emptyResult("sweep");
+  const since = new Date(Date.now() - windowHours * 60 * 60 * 1000);
+
+  const events = await prisma.event.findMany({
+    where: { createdAt: { gte: since }, mergedIntoId: null },
+    select: { id: true },
+    orderBy: { createdAt: "asc" },
+    take: MAX_SWEEP_EVENTS,
+  });
+
+  if (events.length === MAX_SWEEP_EVENTS) {
+    logger.warn({ windowHours, max: MAX_SWEEP_EVENTS }, "Sweep hit the event cap; newest events deferred");
+  }
+
+  for (const { id } of events) {
+    try {
+      const proposal = await proposeThreadLink(id);
+      recordResult(result, proposal, proposal.threadId !== null ? "linked" : "skipped");
+    } catch (err) {
+      recordFailure(result, id, err as Error);
+      logger.error({ eventId: id, error: (err as Error).message }, "Threading failed for event");
+    }
+  }
+
+  return result;
+}
+
+// ============================================
+// Helpers
+// ============================================
+function emptyResult(mode: ThreadJobResult["mode"]): ThreadJobResult {
+  return emptyJobResult({ mode, linked: 0, skipped: 0 });
+}
@@ -0,0 +1,166 @@
+// packages/api/src/routes/eventMerges.route.test.ts
+//
+// Route handlers called directly with a recording router and fake pg.
+
+import type { Request, Response, Router } from "express";
+import type { Pool } from "pg";
+
+import { registerEventMergesRoute } from "./eventMerges.route";
+
+type Handler = (req: Request, res: Response, next: () => void) => unknown;
+
+jest.mock("../services/deduplication/unmergeEvent", () => {
+  class UnmergeError extends Error {
+    constructor(public readonly eventId: string, public readonly code: string, message: string) {
+      super(message);
+    }
+  }
+  return { UnmergeError, unmergeEvent: jest.fn() };
+});
+
+const routes = new Map<string, Handler[]>();
+const router = {
+  get: (path: string, ...handlers: Handler[]) => routes.set(`GET ${path}`, handlers),
+  post: (path: string, ...handlers: Handler[]) => routes.set(`POST ${path}`, handlers),
+} as unknown as Router;
+
+const rows: Record<string, unknown[]> = {};
+const pg = {
+  query: jest.fn(async (sql: string) => {
+    if (sql.includes("FROM event_merges")) return { rows: rows.merges ?? [] };
+    if (sql.includes("field_provenance")) return { rows: rows.provenance ?? [] };
+    return { rows: rows.events ?? [] };
+  }),
+} as unknown as Pool;
+
+registerEventMergesRoute(router, { pg });
+
+/**
+ * Run a route's handlers in order, like express would
+ */
+async function call(route: string, req: Partial<Request>): Promise<{ status: number; body: any }> {
+  const reply = { status: 200, body: undefined as any };
+  const res = {
+    status(code: number) {
+      reply.status = code;
+      return res;
+    },
+    json(body: unknown) {
+      reply.body = body;
+      return res;
+    },
+  } as unknown as Response;
+
+  for (const handler of routes.get(route)!) {
+    let next = false;
+    await handler({ headers: {}, ...req } as Request, res, () => (next = true));
+    if (!next) break;
+  }
+  return reply;
+}
+
+const MERGE_ROW = {
+  id: "1",
+  primary_event_id: "5",
+  primary_title: "Oil spill reaches mangroves",
+  merged_event_id: "9",
+  merged_title: "Pipeline leak near Port Harcourt",
+  action: "merge",
+  similarity_score: "0.82",
+  merge_reason: "cluster_similarity",
+  feature_scores: { score: 0.82, features: { geo: 0.9 } },
+  thresholds: { MIN_SIMILARITY_SCORE: 0.7 },
+  algorithm_version: "cluster-v3",
+  cluster_profile: "default",
+  field_changes: null,
+  reverted_at: null,
+  performed_by: null,
+  merged_at: "2026-10-01T06:00:00.000Z",
+};
+
+describe("GET /events/:id/merges", () => {
+  beforeEach(() => {
+    rows.events = [];
+    rows.merges = [];
+    rows.provenance = [];
+  });
+
+  it("returns the cluster's merges with their score breakdown, starting from a merged event", async () => {
+    rows.events = [{ id: "9", title: "Pipeline leak", status: "merged", merged_into_id: "5" }];
+    rows.merges = [MERGE_ROW];
+    rows.provenance = [{ field_provenance: { title: { eventId: "5" } } }];
+
+    const { status, body } = await call("GET /events/:id/merges", { params: { id: "9" } });
+
+    expect(status).toBe(200);
+    expect(pg.query).toHaveBeenCalledWith(expect.stringContaining("FROM event_merges"), ["5", "9"]);
+    expect(body).toMatchObject({ event_id: "9", status: "merged", primary_event_id: "5" });
+    expect(body.merges[0]).toMatchObject({
+      primary_event: { id: "5", title: "Oil spill reaches mangroves" },
+      merged_event: { id: "9", title: "Pipeline leak near Port Harcourt" },
+      similarity_score: 0.82,
+      feature_scores: { score: 0.82, features: { geo: 0.9 } },
+      thresholds: { MIN_SIMILARITY_SCORE: 0.7 },
+      algorithm_version: "cluster-v3",
+    });
+  });
+
+  it("rejects a malformed id and reports an unknown event", async () => {
+    expect((await call("GET /events/:id/merges", { params: { id: "abc" } })).status).toBe(400);
+    expect((await call("GET /events/:id/merges", { params: { id: "404" } })).status).toBe(404);
+  });
+});
+
+describe("POST /admin/events/:id/unmerge", () => {
+  const { unmergeEvent, UnmergeError } = jest.requireMock("../services/deduplication/unmergeEvent");
+  const admin = { headers: { authorization: "Bearer admin-token" } };
+
+  beforeAll(() => {
+    process.env.ADMIN_API_TOKEN = "admin-token";
+  });
+
+  afterAll(() => {
+    delete process.env.ADMIN_API_TOKEN;
+  });
+
+  it("requires the admin token", async () => {
+    const { status } = await call("POST /admin/events/:id/unmerge", { params: { id: "9" } });
+
+    expect(status).toBe(401);
+    expect(unmergeEvent).not.toHaveBeenCalled();
+  });
+
+  it("splits the event and returns the recomputed primary", async () => {
+    unmergeEvent.mockResolvedValueOnce({
+      eventId: "9",
+      primaryEventId: "5",
+      restoredSourceIds: ["31"],
+      restoredFields: ["title"],
+      primary: { confidenceExtraction: 0.8, sourceCount: 2, severityLevel: 3 },
+    });
+
+    const { status, body } = await call("POST /admin/events/:id/unmerge", {
+      ...admin,
+      params: { id: "9" },
+      body: { reason: "different rivers", performed_by: "analyst@example.org" },
+    });
+
+    expect(status).toBe(200);
+    expect(unmergeEvent).toHaveBeenCalledWith("9", { reason: "different rivers", performedBy: "analyst@example.org" });
+    expect(body).toEqual({
+      event_id: "9",
+      primary_event_id: "5",
+      restored_source_ids: ["31"],
+      restored_fields: ["title"],
+      primary: { confidence_extraction: 0.8, source_count: 2, severity_level: 3 },
+    });
+  });
+
+  it("answers 409 for an event that is not merged", async () => {
+    unmergeEvent.mockRejectedValueOnce(new UnmergeError("5", "not_merged", "Event 5 is not merged into another event"));
+
+    const { status } = await call("POST /admin/events/:id/unmerge", { ...admin, params: { id: "5" } });
+
+    expect(status).toBe(409);
+  });
+});
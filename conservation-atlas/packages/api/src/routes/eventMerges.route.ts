@@ -0,0 +1,157 @@
+// packages/api/src/routes/eventMerges.route.ts
+//
+// Merge audit trail (why deduplication collapsed incidents into an event)
+// and the admin unmerge operation that reverses a wrong merge
+
+import type { Request, Response, Router } from "express";
+import type { Pool } from "pg";
+import { logger } from "../utils/logger";
+import { requireAdmin } from "../utils/adminAuth";
+import { unmergeEvent, UnmergeError } from "../services/deduplication/unmergeEvent";
+
+// ============================================
+// Types
+// ============================================
+
+type EventMergesDeps = {
+  pg: Pool;
+};
+
+// ============================================
+// SQL
+// ============================================
+
+const EVENT_SQL = `
+  SELECT id::text, title, status, merged_into_id::text
+  FROM events
+  WHERE id = $1
+`;
+
+// Which merged event each of the primary's fields came from (reconcileFields)
+const PROVENANCE_SQL = `
+  SELECT field_provenance FROM events WHERE id = $1
+`;
+
+// Every merge into the cluster's primary, plus the event's own merge(s)
+const MERGES_SQL = `
+  SELECT
+    m.id::text,
+    m.primary_event_id::text,
+    p.title AS primary_title,
+    m.merged_event_id::text,
+    me.title AS merged_title,
+    m.action,
+    m.similarity_score,
+    m.merge_reason,
+    m.feature_scores,
+    m.thresholds,
+    m.algorithm_version,
+    m.cluster_profile,
+    m.field_changes,
+    m.reverted_at,
+    m.performed_by,
+    m.merged_at
+  FROM event_merges m
+  JOIN events p ON p.id = m.primary_event_id
+  JOIN events me ON me.id = m.merged_event_id
+  WHERE m.primary_event_id = $1 OR m.merged_event_id = $2
+  ORDER BY m.merged_at ASC, m.id ASC
+`;
+
+// ============================================
+// Route Registration
+// ============================================
+
+export function registerEventMergesRoute(router: Router, deps: EventMergesDeps) {
+  const { pg } = deps;
+
+  /**
+   * GET /events/:id/merges
+   * Merge history of the event's cluster with similarity breakdowns and
+   * the primary's field provenance.
+   * Works for the primary event and for any event merged into it.
+   */
+  router.get("/events/:id/merges", async (req: Request, res: Response) => {
+    const eventId = req.params.id;
+    if (!/^\d+$/.test(eventId)) {
+      return res.status(400).json({ error: "Invalid event id" });
+    }
+
+    try {
+      const { rows: events } = await pg.query(EVENT_SQL, [eventId]);
+      if (!events.length) {
+        return res.status(404).json({ error: "Event not found" });
+      }
+
+      const event = events[0];
+      const primaryEventId: string = event.merged_into_id ?? event.id;
+      const [{ rows }, { rows: provenance }] = await Promise.all([
+        pg.query(MERGES_SQL, [primaryEventId, eventId]),
+        pg.query(PROVENANCE_SQL, [primaryEventId]),
+      ]);
+
+      return res.json({
+        event_id: event.id,
+        status: event.status,
+        primary_event_id: primaryEventId,
+        field_provenance: provenance[0]?.field_provenance ?? null,
+        merges: rows.map((r: any) => ({
+          id: r.id,
+          primary_event: { id: r.primary_event_id, title: r.primary_title },
+          merged_event: { id: r.merged_event_id, title: r.merged_title },
+          action: r.action,
+          similarity_score: Number(r.similarity_score),
+          merge_reason: r.merge_reason,
+          // Null for merges recorded before the breakdown was stored
+          feature_scores: r.feature_scores,
+          thresholds: r.thresholds,
+          algorithm_version: r.algorithm_version,
+          cluster_profile: r.cluster_profile,
+          field_changes: r.field_changes,
+          reverted_at: r.reverted_at,
+          performed_by: r.performed_by,
+          merged_at: r.merged_at,
+        })),
+      });
+    } catch (err) {
+      logger.error({ error: (err as Error).message, eventId }, "Event merge history failed");
+      return res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  /**
+   * POST /admin/events/:id/unmerge  { reason?, performed_by? }
+   * Split a wrongly merged event back out of its primary
+   */
+  router.post("/admin/events/:id/unmerge", requireAdmin, async (req: Request, res: Response) => {
+    const eventId = req.params.id;
+    if (!/^\d+$/.test(eventId)) {
+      return res.status(400).json({ error: "Invalid event id" });
+    }
+
+    const reason = typeof req.body?.reason === "string" ? req.body.reason.slice(0, 500) : null;
+    const performedBy = typeof req.body?.performed_by === "string" ? req.body.performed_by.slice(0, 200) : null;
+
+    try {
+      const result = await unmergeEvent(eventId, { reason, performedBy });
+
+      return res.json({
+        event_id: result.eventId,
+        primary_event_id: result.primaryEventId,
+        restored_source_ids: result.restoredSourceIds,
+        restored_fields: result.restoredFields,
+        primary: {
+          confidence_extraction: result.primary.confidenceExtraction,
+          source_count: result.primary.sourceCount,
+          severity_level: result.primary.severityLevel,
+        },
+      });
+    } catch (err) {
+      if (err instanceof UnmergeError) {
+        return res.status(err.code === "not_found" ? 404 : 409).json({ error: err.message });
+      }
+      logger.error({ error: (err as Error).message, eventId }, "Unmerge failed");
+      return res.status(500).json({ error: "Internal server error" });
+    }
+  });
+}
@@ -0,0 +1,146 @@
+// packages/api/src/routes/eventThreads.route.ts
+//
+// Event storylines: the thread an event belongs to, as a timeline of its
+// member events and the typed links between them
+
+import type { Request, Response, Router } from "express";
+import type { Pool } from "pg";
+import { logger } from "../utils/logger";
+
+// ============================================
+// Types
+// ============================================
+
+type EventThreadsDeps = {
+  pg: Pool;
+};
+
+// ============================================
+// SQL
+// ============================================
+
+const EVENT_SQL = `
+  SELECT id::text, merged_into_id::text
+  FROM events
+  WHERE id = $1
+`;
+
+const THREAD_SQL = `
+  SELECT t.id::text, t.title, t.status, t.started_at, t.last_event_at, t.event_count
+  FROM event_thread_members m
+  JOIN event_threads t ON t.id = m.thread_id
+  WHERE m.event_id = $1
+`;
+
+const TIMELINE_SQL = `
+  SELECT
+    e.id::text,
+    e.title,
+    e.event_type_primary,
+    e.severity_level,
+    e.summary_short,
+    e.status,
+    e.event_start,
+    e.event_end,
+    e.is_ongoing,
+    e.location_name,
+    e.country,
+    e.created_at
+  FROM event_thread_members m
+  JOIN events e ON e.id = m.event_id
+  WHERE m.thread_id = $1
+  ORDER BY COALESCE(e.event_start, e.created_at) ASC, e.id ASC
+`;
+
+// Rejected links are kept to stop re-proposal but are not part of the story
+const LINKS_SQL = `
+  SELECT id::text, from_event_id::text, to_event_id::text, link_type, score, status, proposed_by, created_at
+  FROM event_thread_links
+  WHERE thread_id = $1 AND status <> 'rejected'
+  ORDER BY created_at ASC, id ASC
+`;
+
+// ============================================
+// Route Registration
+// ============================================
+
+export function registerEventThreadsRoute(router: Router, deps: EventThreadsDeps) {
+  const { pg } = deps;
+
+  /**
+   * GET /events/:id/thread
+   * The event's storyline as a timeline. A merged event resolves to its
+   * primary; `thread` is null when the event is not part of a storyline.
+   */
+  router.get("/events/:id/thread", async (req: Request, res: Response) => {
+    const eventId = req.params.id;
+    if (!/^\d+$/.test(eventId)) {
+      return res.status(400).json({ error: "Invalid event id" });
+    }
+
+    try {
+      const { rows: events } = await pg.query(EVENT_SQL, [eventId]);
+      if (!events.length) {
+        return res.status(404).json({ error: "Event not found" });
+      }
+
+      const resolvedEventId: string = events[0].merged_into_id ?? events[0].id;
+      const { rows: threads } = await pg.query(THREAD_SQL, [resolvedEventId]);
+      if (!threads.length) {
+        return res.json({ event_id: eventId, resolved_event_id: resolvedEventId, thread: null });
+      }
+
+      const thread = threads[0];
+      const [{ rows: timeline }, { rows: links }] = await Promise.all([
+        pg.query(TIMELINE_SQL, [thread.id]),
+        pg.query(LINKS_SQL, [thread.id]),
+      ]);
+
+      // Each event's incoming link explains how it continues the story
+      const linkTo = new Map<string, any>(links.map((l: any) => [l.to_event_id, l]));
+
+      return res.json({
+        event_id: eventId,
+        resolved_event_id: resolvedEventId,
+        thread: {
+          id: thread.id,
+          title: thread.title,
+          status: thread.status,
+          started_at: thread.started_at,
+          last_event_at: thread.last_event_at,
+          event_count: thread.event_count,
+          timeline: timeline.map((e: any) => {
+            const link = linkTo.get(e.id);
+            return {
+              id: e.id,
+              title: e.title,
+              event_type: e.event_type_primary,
+              severity_level: e.severity_level,
+              summary_short: e.summary_short,
+              status: e.status,
+              event_start: e.event_start,
+              event_end: e.event_end,
+              is_ongoing: e.is_ongoing,
+              location_name: e.location_name,
+              country: e.country,
+              created_at: e.created_at,
+              link: link
+                ? {
+                    id: link.id,
+                    from_event_id: link.from_event_id,
+                    link_type: link.link_type,
+                    score: Number(link.score),
+                    status: link.status,
+                    proposed_by: link.proposed_by,
+                  }
+                : null,
+            };
+          }),
+        },
+      });
+    } catch (err) {
+      logger.error({ error: (err as Error).message, eventId }, "Event thread lookup failed");
+      return res.status(500).json({ error: "Internal server error" });
+    }
+  });
+}
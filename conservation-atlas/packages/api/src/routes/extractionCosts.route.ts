@@ -0,0 +1,141 @@
+// packages/api/src/routes/extractionCosts.route.ts
+//
+// LLM extraction cost rollups (from extraction_usage) and daily budget status
+
+import type { Request, Response, Router } from "express";
+import type { Pool } from "pg";
+import { logger } from "../utils/logger";
+import { getExtractBudgetStatus } from "../services/extraction/usageTracker";
+
+// ============================================
+// Types
+// ============================================
+
+type ExtractionCostsDeps = {
+  pg: Pool;
+};
+
+type GroupBy = "day" | "provider" | "model" | "feed" | "event_type";
+
+// ============================================
+// SQL
+// ============================================
+
+// Whitelisted grouping expressions; never interpolate user input
+const GROUP_EXPRESSIONS: Record<GroupBy, string> = {
+  day: "to_char(date_trunc('day', u.created_at AT TIME ZONE 'UTC'), 'YYYY-MM-DD')",
+  provider: "u.provider",
+  model: "u.provider || ':' || u.model",
+  feed: "COALESCE(f.name, 'unknown')",
+  event_type: "COALESCE(e.event_type_primary, 'none')",
+};
+
+function rollupSql(groupBy: GroupBy): string {
+  return `
+    SELECT
+      ${GROUP_EXPRESSIONS[groupBy]} AS key,
+      COUNT(*)::int AS calls,
+      COUNT(*) FILTER (WHERE NOT u.succeeded)::int AS failed_calls,
+      COUNT(DISTINCT u.source_id)::int AS sources,
+      COALESCE(SUM(u.input_tokens), 0)::bigint AS input_tokens,
+      COALESCE(SUM(u.output_tokens), 0)::bigint AS output_tokens,
+      COALESCE(SUM(u.cost_usd), 0)::float8 AS cost_usd
+    FROM extraction_usage u
+    LEFT JOIN sources s ON s.id = u.source_id
+    LEFT JOIN rss_feed_configs f ON f.id = s.feed_id
+    LEFT JOIN source_extractions se ON se.id = u.source_extraction_id
+    LEFT JOIN events e ON e.id = se.event_id
+    WHERE u.created_at >= $1::date
+      AND u.created_at < ($2::date + INTERVAL '1 day')
+    GROUP BY 1
+    ORDER BY ${groupBy === "day" ? "1 DESC" : "cost_usd DESC"}
+    LIMIT 500
+  `;
+}
+
+// ============================================
+// Utility Functions
+// ============================================
+
+function isoDate(v: unknown, fallback: Date): string {
+  if (typeof v === "string" && /^\d{4}-\d{2}-\d{2}$/.test(v) && !Number.isNaN(Date.parse(v))) {
+    return v;
+  }
+  return fallback.toISOString().slice(0, 10);
+}
+
+function daysAgo(n: number): Date {
+  return new Date(Date.now() - n * 24 * 60 * 60 * 1000);
+}
+
+// ============================================
+// Route Registration
+// ============================================
+
+export function registerExtractionCostsRoute(router: Router, deps: ExtractionCostsDeps) {
+  const { pg } = deps;
+
+  /**
+   * GET /extraction-costs?group_by=day|provider|model|feed|event_type&from=YYYY-MM-DD&to=YYYY-MM-DD
+   * Token and estimated USD cost rollups. Defaults to the last 30 days by day.
+   */
+  router.get("/extraction-costs", async (req: Request, res: Response) => {
+    const groupBy = (typeof req.query.group_by === "string" ? req.query.group_by : "day") as GroupBy;
+    if (!(groupBy in GROUP_EXPRESSIONS)) {
+      return res.status(400).json({
+        error: "Invalid group_by",
+        allowed: Object.keys(GROUP_EXPRESSIONS),
+      });
+    }
+
+    const from = isoDate(req.query.from, daysAgo(30));
+    const to = isoDate(req.query.to, new Date());
+
+    try {
+      const { rows } = await pg.query(rollupSql(groupBy), [from, to]);
+
+      const items = rows.map((r: any) => ({
+        key: r.key,
+        calls: r.calls,
+        failed_calls: r.failed_calls,
+        sources: r.sources,
+        input_tokens: Number(r.input_tokens),
+        output_tokens: Number(r.output_tokens),
+        cost_usd: Math.round(Number(r.cost_usd) * 10_000) / 10_000,
+      }));
+
+      const total_cost_usd = Math.round(items.reduce((sum: number, i: any) => sum + i.cost_usd, 0) * 10_000) / 10_000;
+
+      return res.json({
+        group_by: groupBy,
+        from,
+        to,
+        total_cost_usd,
+        items,
+      });
+    } catch (err) {
+      logger.error({ error: (err as Error).message, groupBy }, "Extraction cost rollup failed");
+      return res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  /**
+   * GET /extraction-costs/budget
+   * Today's (UTC) spend against EXTRACT_DAILY_BUDGET_USD
+   */
+  router.get("/extraction-costs/budget", async (_req: Request, res: Response) => {
+    try {
+      const status = await getExtractBudgetStatus();
+      return res.json({
+        enabled: status.enabled,
+        budget_usd: status.budgetUsd,
+        spent_usd: status.spentUsd,
+        exceeded: status.exceeded,
+        extract_paused: status.exceeded,
+      });
+    } catch (err) {
+      logger.error({ error: (err as Error).message }, "Budget status failed");
+      return res.status(500).json({ error: "Internal server error" });
+    }
+  });
+}
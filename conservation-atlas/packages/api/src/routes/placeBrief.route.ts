@@ -80,17 +80,16 @@ const SQL = {
       pa.name,
       pa.designation,
       pa.iucn_category,
-      pa.country,
+      pa.iso3 AS country,
       pa.wdpa_id AS external_id,
       'wdpa' AS source,
       'inside' AS relation,
       0.0::double precision AS distance_km,
-      ST_Y(COALESCE(pa.geom_centroid, ST_Centroid(pa.geom_boundary))) AS centroid_lat,
-      ST_X(COALESCE(pa.geom_centroid, ST_Centroid(pa.geom_boundary))) AS centroid_lng,
-      pa.area_km2
+      ST_Y(pa.centroid) AS centroid_lat,
+      ST_X(pa.centroid) AS centroid_lng,
+      COALESCE(pa.gis_area_km2, pa.reported_area_km2) AS area_km2
     FROM protected_areas pa, params
-    WHERE pa.geom_boundary IS NOT NULL 
-      AND ST_Contains(pa.geom_boundary, params.pt)
+    WHERE ST_Contains(pa.geom, params.pt)
     ORDER BY pa.name
     LIMIT 50;
   `,
@@ -107,23 +106,19 @@ const SQL = {
       pa.name,
       pa.designation,
       pa.iucn_category,
-      pa.country,
+      pa.iso3 AS country,
       pa.wdpa_id AS external_id,
       'wdpa' AS source,
       'near' AS relation,
-      (ST_DistanceSphere(
-        COALESCE(pa.geom_centroid, ST_Centroid(pa.geom_boundary)), 
-        params.pt
-      ) / 1000.0) AS distance_km,
-      ST_Y(COALESCE(pa.geom_centroid, ST_Centroid(pa.geom_boundary))) AS centroid_lat,
-      ST_X(COALESCE(pa.geom_centroid, ST_Centroid(pa.geom_boundary))) AS centroid_lng,
-      pa.area_km2
+      (ST_DistanceSphere(pa.centroid, params.pt) / 1000.0) AS distance_km,
+      ST_Y(pa.centroid) AS centroid_lat,
+      ST_X(pa.centroid) AS centroid_lng,
+      COALESCE(pa.gis_area_km2, pa.reported_area_km2) AS area_km2
     FROM protected_areas pa, params
     WHERE
-      (pa.geom_boundary IS NOT NULL OR pa.geom_centroid IS NOT NULL)
-      AND NOT COALESCE(ST_Contains(pa.geom_boundary, params.pt), false)
+      NOT ST_Contains(pa.geom, params.pt)
       AND ST_DWithin(
-        COALESCE(pa.geom_centroid, ST_Centroid(pa.geom_boundary))::geography,
+        pa.centroid::geography,
         params.pt::geography,
         params.radius_m
       )
@@ -158,7 +153,8 @@ const SQL = {
       e.admin2,
       ST_Y(e.geom_point) AS lat,
       ST_X(e.geom_point) AS lng,
-      (ST_DistanceSphere(e.geom_point, params.pt) / 1000.0) AS distance_km,
+      ST_AsGeoJSON(e.geom_footprint)::jsonb AS footprint,
+      (ST_Distance(e.geom_extent::geography, params.pt::geography) / 1000.0) AS distance_km,
       e.nearest_protected_area_id,
       e.is_inside_protected_area,
       e.distance_to_protected_km,
@@ -168,9 +164,9 @@ const SQL = {
     FROM events e, params
     WHERE
       e.status = 'active'
-      AND e.geom_point IS NOT NULL
+      AND e.geom_extent IS NOT NULL
       AND e.created_at >= params.since_ts
-      AND ST_DWithin(e.geom_point::geography, params.pt::geography, params.radius_m)
+      AND ST_DWithin(e.geom_extent::geography, params.pt::geography, params.radius_m)
     ORDER BY e.severity_level DESC, e.created_at DESC
     LIMIT $5 OFFSET $6;
   `,
@@ -227,9 +223,9 @@ const SQL = {
       FROM events e, params
       WHERE
         e.status = 'active'
-        AND e.geom_point IS NOT NULL
+        AND e.geom_extent IS NOT NULL
         AND e.created_at >= params.since_ts
-        AND ST_DWithin(e.geom_point::geography, params.pt::geography, params.radius_m)
+        AND ST_DWithin(e.geom_extent::geography, params.pt::geography, params.radius_m)
     ),
     org_events AS (
       SELECT
@@ -366,9 +362,9 @@ const SQL = {
       FROM events e, params
       WHERE
         e.status = 'active'
-        AND e.geom_point IS NOT NULL
+        AND e.geom_extent IS NOT NULL
         AND e.created_at >= params.since_ts
-        AND ST_DWithin(e.geom_point::geography, params.pt::geography, params.radius_m)
+        AND ST_DWithin(e.geom_extent::geography, params.pt::geography, params.radius_m)
     ),
     org_event_sources AS (
       SELECT
@@ -419,9 +415,9 @@ const SQL = {
       FROM events e, params
       WHERE
         e.status = 'active'
-        AND e.geom_point IS NOT NULL
+        AND e.geom_extent IS NOT NULL
         AND e.created_at >= params.since_ts
-        AND ST_DWithin(e.geom_point::geography, params.pt::geography, params.radius_m)
+        AND ST_DWithin(e.geom_extent::geography, params.pt::geography, params.radius_m)
     ),
     org_events AS (
       SELECT
@@ -516,9 +512,9 @@ const SQL = {
       SELECT e.id
       FROM events e, params
       WHERE e.status = 'active'
-        AND e.geom_point IS NOT NULL
+        AND e.geom_extent IS NOT NULL
         AND e.created_at >= params.since_ts
-        AND ST_DWithin(e.geom_point::geography, params.pt::geography, params.radius_m)
+        AND ST_DWithin(e.geom_extent::geography, params.pt::geography, params.radius_m)
     )
     SELECT
       COUNT(DISTINCT ae.id) AS events_count,
@@ -762,6 +758,7 @@ export function registerPlaceBriefRoute(router: Router, deps: PlaceBriefDeps) {
               location: {
                 name: e.location_name || `${e.admin1 || ''}, ${e.country || ''}`.trim(),
                 coordinates: { lat: Number(e.lat), lng: Number(e.lng) },
+                footprint: e.footprint ?? null,
                 geocoding_precision: "approximate" as const,
                 distance_km: Math.round(Number(e.distance_km) * 10) / 10,
               },
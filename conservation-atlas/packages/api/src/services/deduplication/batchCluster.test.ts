@@ -0,0 +1,106 @@
+// packages/api/src/services/deduplication/batchCluster.test.ts
+
+import { batchCluster } from "./batchCluster";
+import type { EventForClustering } from "./eventCluster";
+
+const mockDb = {
+  events: [] as EventForClustering[],
+  childCounts: [] as Array<{ id: string; count: number }>,
+  splitPairs: [] as Array<{ a: string; b: string }>,
+};
+
+jest.mock("../../db", () => ({
+  prisma: {
+    event: {
+      findMany: jest.fn(async () => mockDb.events),
+    },
+    $queryRaw: jest.fn(async (strings: TemplateStringsArray) => {
+      const sql = strings.join("?");
+      if (sql.includes("merged_into_id = ANY")) return mockDb.childCounts;
+      if (sql.includes("action = 'unmerge'")) return mockDb.splitPairs;
+      return [];
+    }),
+  },
+}));
+
+jest.mock("./eventCluster", () => ({
+  ...jest.requireActual("./eventCluster"),
+  mergeEvents: jest.fn(),
+}));
+
+// Lexical features only; embeddings are covered in embeddingProvider.test.ts
+jest.mock("./embeddingProvider", () => ({
+  ...jest.requireActual("./embeddingProvider"),
+  getEmbeddingProvider: jest.fn(() => null),
+}));
+
+const { mergeEvents } = jest.requireMock("./eventCluster");
+
+function event(overrides: Partial<EventForClustering> = {}): EventForClustering {
+  return {
+    id: "1",
+    title: "Oil spill reaches mangroves in the Niger Delta",
+    eventTypePrimary: "oil_spill",
+    severityLevel: 3,
+    confidenceExtraction: 0.8,
+    country: "Nigeria",
+    admin1: "Rivers",
+    latitude: 4.75,
+    longitude: 7.0,
+    startDate: new Date("2026-10-01T00:00:00Z"),
+    summaryShort: "Crude oil from a ruptured pipeline reached mangroves near Port Harcourt.",
+    sourceCount: 1,
+    mergedIntoId: null,
+    createdAt: new Date("2026-10-01T06:00:00Z"),
+    ...overrides,
+  };
+}
+
+const SINCE = new Date("2026-09-30T00:00:00Z");
+const UNTIL = new Date("2026-10-05T00:00:00Z");
+
+beforeEach(() => {
+  mockDb.childCounts = [];
+  mockDb.splitPairs = [];
+  mockDb.events = [
+    event({ id: "1" }),
+    event({ id: "2", sourceCount: 3, createdAt: new Date("2026-10-01T08:00:00Z") }),
+    event({ id: "3", createdAt: new Date("2026-10-01T09:00:00Z") }),
+    event({ id: "4", title: "Forest fire in Yankari", eventTypePrimary: "wildfire", createdAt: new Date("2026-10-01T10:00:00Z") }),
+  ];
+  mergeEvents.mockReset();
+});
+
+describe("batchCluster", () => {
+  it("proposes one cluster per component on a dry run without merging", async () => {
+    const result = await batchCluster({ since: SINCE, until: UNTIL, dryRun: true });
+
+    expect(result).toMatchObject({ eventsConsidered: 4, merged: 0, dryRun: true });
+    expect(result.clusters).toEqual([
+      expect.objectContaining({ primaryEventId: "2", eventIds: ["1", "2", "3"], conflicts: [], applied: false }),
+    ]);
+    expect(result.clusters[0].merges.map((m) => m.mergedEventId)).toEqual(["1", "3"]);
+    expect(mergeEvents).not.toHaveBeenCalled();
+  });
+
+  it("prefers an existing cluster primary and flags components joining two clusters", async () => {
+    mockDb.childCounts = [{ id: "3", count: 2 }];
+    const single = await batchCluster({ since: SINCE, until: UNTIL, dryRun: true });
+    expect(single.clusters[0].primaryEventId).toBe("3");
+
+    mockDb.childCounts = [{ id: "1", count: 1 }, { id: "3", count: 2 }];
+    const joined = await batchCluster({ since: SINCE, until: UNTIL });
+
+    expect(joined.clusters[0].conflicts).toEqual(["multiple_primaries"]);
+    expect(mergeEvents).not.toHaveBeenCalled();
+  });
+
+  it("reports a component that contains an unmerged pair instead of applying it", async () => {
+    mockDb.splitPairs = [{ a: "1", b: "3" }];
+
+    const result = await batchCluster({ since: SINCE, until: UNTIL });
+
+    expect(result.clusters[0]).toMatchObject({ eventIds: ["1", "2", "3"], conflicts: ["split_pair"], applied: false });
+    expect(result.merged).toBe(0);
+  });
+});
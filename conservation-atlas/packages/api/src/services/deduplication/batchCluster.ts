@@ -0,0 +1,395 @@
+// packages/api/src/services/deduplication/batchCluster.ts
+//
+// Batch re-clustering over a time window. clusterEvent decides one event at
+// a time against whatever has already been merged, so its outcome depends
+// on arrival order. Here every pair of unmerged events in the window is
+// scored up front, pairs above the profile's threshold become edges, and
+// each connected component is one cluster. The primary is chosen from the
+// whole component (existing cluster primary, then most sources, then
+// oldest), so the result is the same in any ingestion order.
+//
+// Components are transitive: A~B and B~C put A and C together even when
+// A and C alone would not merge. Every proposed merge therefore carries its
+// direct score against the primary and the edge that linked it, and dry
+// runs report them without touching the database.
+
+import { prisma } from "../../db";
+import { logger } from "../../utils/logger";
+import { getEmbeddingProvider, cosineSimilarity } from "./embeddingProvider";
+import { getEventEmbeddings } from "./eventEmbeddings";
+import { typeCompatibility } from "./typeCompatibility";
+import {
+  calculateSimilarity,
+  loadEventForClustering,
+  mapToClusteringEvent,
+  mergeEvents,
+  DEFAULT_CLUSTER_PROFILE,
+  type ClusterProfile,
+  type ClusterResult,
+  type EventForClustering,
+  type SimilarityBreakdown,
+} from "./eventCluster";
+
+// ============================================
+// Configuration
+// ============================================
+const MAX_BATCH_EVENTS = Number(process.env.CLUSTER_MAX_BATCH_EVENTS ?? 2000);
+
+// ============================================
+// Types
+// ============================================
+export interface BatchClusterOptions {
+  since: Date;
+  until?: Date;
+  profile?: ClusterProfile;
+  /** Report proposed merges without applying them */
+  dryRun?: boolean;
+}
+
+/**
+ * Why a component is reported but not applied:
+ * - multiple_primaries: it would fold one existing cluster into another
+ * - split_pair: it contains a pair an analyst unmerged
+ */
+export type ClusterConflict = "multiple_primaries" | "split_pair";
+
+export interface ProposedMerge {
+  primaryEventId: string;
+  mergedEventId: string;
+  /** Direct score against the primary (may be below threshold for transitive members) */
+  similarity: SimilarityBreakdown;
+  /** Strongest edge that put the event in the component */
+  linkedVia: { eventId: string; score: number };
+}
+
+export interface ProposedCluster {
+  primaryEventId: string;
+  eventIds: string[];
+  merges: ProposedMerge[];
+  conflicts: ClusterConflict[];
+  applied: boolean;
+}
+
+export interface BatchClusterResult {
+  profile: string;
+  dryRun: boolean;
+  since: string;
+  until: string;
+  eventsConsidered: number;
+  pairsScored: number;
+  edges: number;
+  clusters: ProposedCluster[];
+  /** Merges applied (0 on dry runs) */
+  merged: number;
+  /** mergeEvents results, for downstream jobs */
+  mergeResults: ClusterResult[];
+  failures: Array<{ primaryEventId: string; error: string }>;
+}
+
+interface Edge {
+  a: number;
+  b: number;
+  similarity: SimilarityBreakdown;
+}
+
+// ============================================
+// Main Entry
+// ============================================
+
+export async function batchCluster(opts: BatchClusterOptions): Promise<BatchClusterResult> {
+  const profile = opts.profile ?? DEFAULT_CLUSTER_PROFILE;
+  const dryRun = opts.dryRun ?? false;
+  const until = opts.until ?? new Date();
+
+  const rows = await prisma.event.findMany({
+    where: { createdAt: { gte: opts.since, lte: until }, mergedIntoId: null },
+    orderBy: { createdAt: "asc" },
+    take: MAX_BATCH_EVENTS,
+  });
+  if (rows.length === MAX_BATCH_EVENTS) {
+    logger.warn({ since: opts.since, until, max: MAX_BATCH_EVENTS }, "Batch clustering hit the event cap; newest events left out");
+  }
+  const events: EventForClustering[] = rows.map(mapToClusteringEvent);
+  const ids = events.map((e) => e.id);
+
+  const [childCounts, splitPairs, embeddings] = await Promise.all([
+    loadChildCounts(ids),
+    loadSplitPairs(ids),
+    loadEmbeddings(events),
+  ]);
+
+  // 1. Score every plausible pair
+  const { edges, pairsScored } = buildEdges(events, profile, splitPairs, embeddings);
+
+  // 2. Connected components over the edges
+  const components = connectedComponents(events.length, edges);
+
+  // 3. One proposed cluster per multi-event component
+  const clusters = components
+    .filter((members) => members.length > 1)
+    .map((members) => proposeCluster(members.map((i) => events[i]), edges, events, childCounts, splitPairs, embeddings, profile));
+
+  const result: BatchClusterResult = {
+    profile: profile.name,
+    dryRun,
+    since: opts.since.toISOString(),
+    until: until.toISOString(),
+    eventsConsidered: events.length,
+    pairsScored,
+    edges: edges.length,
+    clusters,
+    merged: 0,
+    mergeResults: [],
+    failures: [],
+  };
+
+  // 4. Apply
+  if (!dryRun) {
+    for (const cluster of clusters) {
+      if (cluster.conflicts.length) continue;
+      await applyCluster(cluster, profile, result);
+    }
+  }
+
+  logger.info({
+    profile: profile.name,
+    dryRun,
+    eventsConsidered: result.eventsConsidered,
+    edges: result.edges,
+    clusters: clusters.length,
+    needsReview: clusters.filter((c) => c.conflicts.length).length,
+    merged: result.merged,
+  }, "Batch clustering finished");
+
+  return result;
+}
+
+// ============================================
+// Graph
+// ============================================
+
+function buildEdges(
+  events: EventForClustering[],
+  profile: ClusterProfile,
+  splitPairs: Set<string>,
+  embeddings: Embeddings
+): { edges: Edge[]; pairsScored: number } {
+  const { config } = profile;
+  const windowMs = config.TIME_WINDOW_HOURS * 60 * 60 * 1000;
+  const edges: Edge[] = [];
+  let pairsScored = 0;
+
+  for (let i = 0; i < events.length; i++) {
+    for (let j = i + 1; j < events.length; j++) {
+      const a = events[i];
+      const b = events[j];
+
+      // Sorted by createdAt: later j are only further away in time
+      if (b.createdAt.getTime() - a.createdAt.getTime() > windowMs) break;
+      if (typeCompatibility(a.eventTypePrimary, b.eventTypePrimary) === 0) continue;
+      if (splitPairs.has(pairKey(a.id, b.id))) continue;
+
+      const semantic = embeddings.similarity(a.id, b.id);
+      const similarity = calculateSimilarity(b, a, semantic, embeddings.model, profile);
+      pairsScored++;
+
+      if (!isCandidatePair(a, b, similarity, semantic, profile)) continue;
+      if (similarity.score < config.MIN_SIMILARITY_SCORE) continue;
+
+      edges.push({ a: i, b: j, similarity });
+    }
+  }
+
+  return { edges, pairsScored };
+}
+
+/**
+ * The location rules of findCandidateMatches, applied to a pair
+ */
+function isCandidatePair(
+  a: EventForClustering,
+  b: EventForClustering,
+  similarity: SimilarityBreakdown,
+  semantic: number | null,
+  profile: ClusterProfile
+): boolean {
+  const { config } = profile;
+  const semanticMatch = (semantic ?? 0) >= config.SEMANTIC_CANDIDATE_MIN;
+
+  if (similarity.distanceKm !== null) {
+    if (similarity.distanceKm > config.CANDIDATE_RADIUS_KM) return false;
+    return similarity.distanceKm <= config.MAX_DISTANCE_KM || semanticMatch;
+  }
+
+  // Nothing to measure: same country, and same admin1 when both have one
+  if (a.country !== b.country) return false;
+  return !a.admin1 || !b.admin1 || a.admin1 === b.admin1 || semanticMatch;
+}
+
+function connectedComponents(size: number, edges: Edge[]): number[][] {
+  const parent = Array.from({ length: size }, (_, i) => i);
+  const find = (i: number): number => {
+    while (parent[i] !== i) {
+      parent[i] = parent[parent[i]];
+      i = parent[i];
+    }
+    return i;
+  };
+
+  for (const { a, b } of edges) {
+    const ra = find(a);
+    const rb = find(b);
+    // Lower index (older event) as root keeps components in time order
+    if (ra !== rb) parent[Math.max(ra, rb)] = Math.min(ra, rb);
+  }
+
+  const components = new Map<number, number[]>();
+  for (let i = 0; i < size; i++) {
+    const root = find(i);
+    if (!components.has(root)) components.set(root, []);
+    components.get(root)!.push(i);
+  }
+  return [...components.values()];
+}
+
+function proposeCluster(
+  members: EventForClustering[],
+  edges: Edge[],
+  events: EventForClustering[],
+  childCounts: Map<string, number>,
+  splitPairs: Set<string>,
+  embeddings: Embeddings,
+  profile: ClusterProfile
+): ProposedCluster {
+  // Existing cluster primary first, then most sources, then oldest
+  const primary = [...members].sort((x, y) =>
+    (childCounts.get(y.id) ?? 0) - (childCounts.get(x.id) ?? 0) ||
+    y.sourceCount - x.sourceCount ||
+    x.createdAt.getTime() - y.createdAt.getTime() ||
+    Number(x.id) - Number(y.id)
+  )[0];
+
+  const conflicts: ClusterConflict[] = [];
+  if (members.filter((m) => (childCounts.get(m.id) ?? 0) > 0).length > 1) {
+    conflicts.push("multiple_primaries");
+  }
+  const memberIds = members.map((m) => m.id);
+  if (memberIds.some((x, i) => memberIds.slice(i + 1).some((y) => splitPairs.has(pairKey(x, y))))) {
+    conflicts.push("split_pair");
+  }
+
+  const merges = members
+    .filter((m) => m.id !== primary.id)
+    .map((member) => ({
+      primaryEventId: primary.id,
+      mergedEventId: member.id,
+      similarity: calculateSimilarity(member, primary, embeddings.similarity(member.id, primary.id), embeddings.model, profile),
+      linkedVia: strongestEdge(member.id, edges, events),
+    }));
+
+  return { primaryEventId: primary.id, eventIds: memberIds, merges, conflicts, applied: false };
+}
+
+function strongestEdge(eventId: string, edges: Edge[], events: EventForClustering[]): ProposedMerge["linkedVia"] {
+  let best = { eventId: "", score: 0 };
+  for (const { a, b, similarity } of edges) {
+    const other = events[a].id === eventId ? events[b].id : events[b].id === eventId ? events[a].id : null;
+    if (other && similarity.score > best.score) best = { eventId: other, score: similarity.score };
+  }
+  return best;
+}
+
+// ============================================
+// Apply
+// ============================================
+
+async function applyCluster(cluster: ProposedCluster, profile: ClusterProfile, result: BatchClusterResult): Promise<void> {
+  try {
+    for (const merge of cluster.merges) {
+      // Reload both: the primary changes with every merge, and a live
+      // CLUSTER job may have merged the member since the batch was scored
+      const [primary, member] = await Promise.all([
+        loadEventForClustering(merge.primaryEventId),
+        loadEventForClustering(merge.mergedEventId),
+      ]);
+      if (!primary || !member || primary.mergedIntoId || member.mergedIntoId) {
+        logger.info({ ...merge, similarity: merge.similarity.score }, "Batch merge skipped; event changed since scoring");
+        continue;
+      }
+
+      const mergeResult = await mergeEvents(primary, member, merge.similarity, profile, "batch_cluster");
+      result.mergeResults.push(mergeResult);
+      result.merged++;
+    }
+    cluster.applied = true;
+  } catch (err) {
+    result.failures.push({ primaryEventId: cluster.primaryEventId, error: (err as Error).message });
+    logger.error({ primaryEventId: cluster.primaryEventId, error: (err as Error).message }, "Batch cluster merge failed");
+  }
+}
+
+// ============================================
+// Database Helpers
+// ============================================
+
+/**
+ * Events that are already the primary of a cluster, with their member counts
+ */
+async function loadChildCounts(ids: string[]): Promise<Map<string, number>> {
+  if (!ids.length) return new Map();
+  const rows = await prisma.$queryRaw<Array<{ id: string; count: number }>>`
+    SELECT merged_into_id::text AS id, COUNT(*)::int AS count
+    FROM events
+    WHERE merged_into_id = ANY(${ids}::bigint[])
+    GROUP BY merged_into_id
+  `;
+  return new Map<string, number>(rows.map((r: { id: string; count: number }) => [r.id, r.count]));
+}
+
+/**
+ * Pairs an analyst unmerged (never re-merged, see loadSplitEventIds)
+ */
+async function loadSplitPairs(ids: string[]): Promise<Set<string>> {
+  if (!ids.length) return new Set();
+  const rows = await prisma.$queryRaw<Array<{ a: string; b: string }>>`
+    SELECT primary_event_id::text AS a, merged_event_id::text AS b
+    FROM event_merges
+    WHERE action = 'unmerge'
+      AND (primary_event_id = ANY(${ids}::bigint[]) OR merged_event_id = ANY(${ids}::bigint[]))
+  `;
+  return new Set(rows.map((r: { a: string; b: string }) => pairKey(r.a, r.b)));
+}
+
+interface Embeddings {
+  model: string | null;
+  similarity(a: string, b: string): number | null;
+}
+
+/**
+ * Embeddings for the whole window in one provider call. Failures only cost
+ * the semantic feature, as in clusterEvent.
+ */
+async function loadEmbeddings(events: EventForClustering[]): Promise<Embeddings> {
+  const none: Embeddings = { model: null, similarity: () => null };
+  const provider = getEmbeddingProvider();
+  if (!provider || !events.length) return none;
+
+  try {
+    const vectors = await getEventEmbeddings(events, provider);
+    return {
+      model: provider.model,
+      similarity: (a, b) => {
+        const va = vectors.get(a);
+        const vb = vectors.get(b);
+        return va && vb ? cosineSimilarity(va, vb) : null;
+      },
+    };
+  } catch (err) {
+    logger.warn({ provider: provider.name, error: (err as Error).message }, "Embedding lookup failed - batch clustering without semantic similarity");
+    return none;
+  }
+}
+
+function pairKey(a: string, b: string): string {
+  return a < b ? `${a}|${b}` : `${b}|${a}`;
+}
@@ -0,0 +1,71 @@
+// packages/api/src/services/deduplication/clusterProfiles.test.ts
+
+import { writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+
+import { ClusterProfileError, buildProfile, loadClusterProfile } from "./clusterProfiles";
+import { CLUSTER_CONFIG, DEFAULT_CLUSTER_PROFILE } from "./eventCluster";
+
+const mockDb = {
+  profiles: new Map<string, Record<string, unknown>>(),
+};
+
+jest.mock("../../db", () => ({
+  prisma: {
+    clusterProfile: {
+      findUnique: jest.fn(async ({ where }: { where: { name: string } }) => {
+        const config = mockDb.profiles.get(where.name);
+        return config ? { name: where.name, config } : null;
+      }),
+    },
+  },
+}));
+
+beforeEach(() => {
+  mockDb.profiles.clear();
+  delete process.env.CLUSTER_PROFILES_FILE;
+});
+
+describe("buildProfile", () => {
+  it("overrides only the given thresholds and weights", () => {
+    const profile = buildProfile("strict", "db", { MIN_SIMILARITY_SCORE: 0.8, weights: { semantic: 0.4 } });
+
+    expect(profile.config).toEqual({ ...CLUSTER_CONFIG, MIN_SIMILARITY_SCORE: 0.8 });
+    expect(profile.weights).toEqual({ ...DEFAULT_CLUSTER_PROFILE.weights, semantic: 0.4 });
+  });
+
+  it("rejects unknown keys", () => {
+    expect(() => buildProfile("typo", "file", { MIN_SIMILARITY: 0.8 } as never)).toThrow("unknown config key MIN_SIMILARITY");
+  });
+
+  it("rejects negative values", () => {
+    expect(() => buildProfile("bad", "file", { weights: { geo: -1 } })).toThrow(ClusterProfileError);
+  });
+
+  it("rejects a profile with every weight at 0", () => {
+    const zero = Object.fromEntries(Object.keys(DEFAULT_CLUSTER_PROFILE.weights).map((k) => [k, 0]));
+
+    expect(() => buildProfile("off", "db", { weights: zero })).toThrow("all weights are 0");
+  });
+});
+
+describe("loadClusterProfile", () => {
+  it("returns the built-in profile for no name", async () => {
+    await expect(loadClusterProfile(null)).resolves.toBe(DEFAULT_CLUSTER_PROFILE);
+  });
+
+  it("prefers the cluster_profiles table over the file", async () => {
+    const path = join(tmpdir(), `cluster-profiles-${process.pid}.json`);
+    writeFileSync(path, JSON.stringify({ strict: { MIN_SIMILARITY_SCORE: 0.9 }, loose: { MIN_SIMILARITY_SCORE: 0.5 } }));
+    process.env.CLUSTER_PROFILES_FILE = path;
+    mockDb.profiles.set("strict", { MIN_SIMILARITY_SCORE: 0.8 });
+
+    await expect(loadClusterProfile("strict")).resolves.toMatchObject({ source: "db", config: { MIN_SIMILARITY_SCORE: 0.8 } });
+    await expect(loadClusterProfile("loose")).resolves.toMatchObject({ source: "file", config: { MIN_SIMILARITY_SCORE: 0.5 } });
+  });
+
+  it("fails with not_found for an unknown name", async () => {
+    await expect(loadClusterProfile("missing")).rejects.toMatchObject({ code: "not_found", profile: "missing" });
+  });
+});
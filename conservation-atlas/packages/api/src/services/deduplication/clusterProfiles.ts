@@ -0,0 +1,117 @@
+// packages/api/src/services/deduplication/clusterProfiles.ts
+//
+// Named clustering profiles: overrides of the built-in 'default'
+// CLUSTER_CONFIG and similarity weights, e.g. a stricter profile for a
+// backfill or a looser one to review borderline pairs. Profiles come from
+// the cluster_profiles table, then from the JSON file at
+// CLUSTER_PROFILES_FILE:
+//   {"strict": {"MIN_SIMILARITY_SCORE": 0.8, "weights": {"semantic": 0.4}}}
+
+import { existsSync, readFileSync } from "node:fs";
+
+import { prisma } from "../../db";
+import { logger } from "../../utils/logger";
+import {
+  CLUSTER_CONFIG,
+  DEFAULT_CLUSTER_PROFILE,
+  type ClusterConfig,
+  type ClusterProfile,
+  type SimilarityWeights,
+} from "./eventCluster";
+
+type ProfileOverrides = Partial<ClusterConfig> & { weights?: Partial<SimilarityWeights> };
+
+export class ClusterProfileError extends Error {
+  public readonly profile: string;
+  public readonly code: "not_found" | "invalid";
+
+  constructor(profile: string, code: ClusterProfileError["code"], message: string) {
+    super(message);
+    this.name = "ClusterProfileError";
+    this.profile = profile;
+    this.code = code;
+    Error.captureStackTrace?.(this, ClusterProfileError);
+  }
+}
+
+/**
+ * Resolve a profile by name ('default' or unset is the built-in profile)
+ */
+export async function loadClusterProfile(name?: string | null): Promise<ClusterProfile> {
+  if (!name || name === DEFAULT_CLUSTER_PROFILE.name) return DEFAULT_CLUSTER_PROFILE;
+
+  const fromDb = await loadDbOverrides(name);
+  if (fromDb) return buildProfile(name, "db", fromDb);
+
+  const fromFile = loadFileOverrides()[name];
+  if (fromFile) return buildProfile(name, "file", fromFile);
+
+  throw new ClusterProfileError(name, "not_found", `Unknown cluster profile: ${name}`);
+}
+
+/**
+ * Apply overrides to the default profile, rejecting unknown keys and
+ * values that are not non-negative numbers
+ */
+export function buildProfile(name: string, source: ClusterProfile["source"], overrides: ProfileOverrides): ClusterProfile {
+  const { weights: weightOverrides = {}, ...configOverrides } = overrides;
+
+  const config = mergeNumbers(name, { ...CLUSTER_CONFIG }, configOverrides, "config");
+  const weights = mergeNumbers(name, { ...DEFAULT_CLUSTER_PROFILE.weights }, weightOverrides, "weights");
+
+  if (Object.values(weights).every((w) => w === 0)) {
+    throw new ClusterProfileError(name, "invalid", `Cluster profile ${name}: all weights are 0`);
+  }
+
+  return { name, source, config, weights };
+}
+
+// ============================================
+// Helpers
+// ============================================
+
+function mergeNumbers<T extends Record<string, number>>(
+  profile: string,
+  base: T,
+  overrides: Record<string, unknown>,
+  section: string
+): T {
+  for (const [key, value] of Object.entries(overrides)) {
+    if (!(key in base)) {
+      throw new ClusterProfileError(profile, "invalid", `Cluster profile ${profile}: unknown ${section} key ${key}`);
+    }
+    if (typeof value !== "number" || !(value >= 0)) {
+      throw new ClusterProfileError(profile, "invalid", `Cluster profile ${profile}: ${section}.${key} must be a non-negative number`);
+    }
+    (base as Record<string, number>)[key] = value;
+  }
+  return base;
+}
+
+async function loadDbOverrides(name: string): Promise<ProfileOverrides | null> {
+  try {
+    const row = await prisma.clusterProfile.findUnique({ where: { name } });
+    return row ? (row.config as ProfileOverrides) : null;
+  } catch (err) {
+    // Table not migrated yet; the file may still define the profile
+    logger.warn({ profile: name, error: (err as Error).message }, "Could not read cluster_profiles");
+    return null;
+  }
+}
+
+function loadFileOverrides(): Record<string, ProfileOverrides> {
+  const path = process.env.CLUSTER_PROFILES_FILE;
+  if (!path) return {};
+
+  if (!existsSync(path)) {
+    logger.error({ path }, "CLUSTER_PROFILES_FILE does not exist");
+    return {};
+  }
+
+  try {
+    return JSON.parse(readFileSync(path, "utf8"));
+  } catch (err) {
+    logger.error({ path, error: (err as Error).message }, "Invalid CLUSTER_PROFILES_FILE; ignoring");
+    return {};
+  }
+}
@@ -0,0 +1,56 @@
+// packages/api/src/services/deduplication/embeddingProvider.test.ts
+
+import { cosineSimilarity, embeddingText } from "./embeddingProvider";
+import { LocalEmbeddingProvider } from "./localEmbeddingProvider";
+
+const provider = new LocalEmbeddingProvider();
+
+async function similarity(a: string, b: string): Promise<number> {
+  const [va, vb] = await provider.embed([a, b]);
+  return cosineSimilarity(va, vb);
+}
+
+describe("LocalEmbeddingProvider", () => {
+  it("returns the same unit-length vector for the same text", async () => {
+    const [a, b] = await provider.embed(["Wildfire burns near Manaus", "Wildfire burns near Manaus"]);
+
+    expect(a).toHaveLength(256);
+    expect(a).toEqual(b);
+    expect(Math.hypot(...a)).toBeCloseTo(1);
+  });
+
+  it("scores paraphrased coverage above unrelated stories", async () => {
+    const paraphrase = await similarity(
+      "Wildfire burning near Manaus forces evacuations",
+      "Wildfires burn close to Manaus; residents evacuated"
+    );
+    const unrelated = await similarity(
+      "Wildfire burning near Manaus forces evacuations",
+      "Coral bleaching recorded on the Great Barrier Reef"
+    );
+
+    expect(paraphrase).toBeGreaterThan(unrelated + 0.2);
+  });
+
+  it("ignores accents and punctuation", async () => {
+    expect(await similarity("Incêndio em Manaus!", "incendio em manaus")).toBeCloseTo(1);
+  });
+});
+
+describe("cosineSimilarity", () => {
+  it("clamps opposed vectors to 0 and handles mismatched or empty input", () => {
+    expect(cosineSimilarity([1, 0], [1, 0])).toBe(1);
+    expect(cosineSimilarity([1, 0], [-1, 0])).toBe(0);
+    expect(cosineSimilarity([1, 0], [1, 0, 0])).toBe(0);
+    expect(cosineSimilarity([0, 0], [1, 0])).toBe(0);
+  });
+});
+
+describe("embeddingText", () => {
+  it("joins title and summary, skipping a missing summary", () => {
+    expect(embeddingText({ title: "Oil spill", summaryShort: "Crude reached the coast." })).toBe(
+      "Oil spill\nCrude reached the coast."
+    );
+    expect(embeddingText({ title: "Oil spill", summaryShort: null })).toBe("Oil spill");
+  });
+});
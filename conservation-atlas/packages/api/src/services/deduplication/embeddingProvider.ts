@@ -0,0 +1,85 @@
+// packages/api/src/services/deduplication/embeddingProvider.ts
+//
+// Common contract for text embedding backends used by event clustering.
+// EMBEDDING_PROVIDER selects the backend: openai (multilingual, catches
+// paraphrased and non-English coverage), local (deterministic hashed
+// n-grams for tests and offline runs) or none (semantic feature disabled).
+
+import { OpenAIEmbeddingProvider } from "./openaiEmbeddingProvider";
+import { LocalEmbeddingProvider } from "./localEmbeddingProvider";
+
+// ============================================
+// Types
+// ============================================
+
+export type EmbeddingProviderName = "openai" | "local";
+
+export interface EmbeddingProvider {
+  readonly name: EmbeddingProviderName;
+  readonly model: string;
+  readonly dimensions: number;
+  /** One unit-length vector per input text, in input order */
+  embed(texts: string[]): Promise<number[][]>;
+}
+
+// ============================================
+// Provider Registry
+// ============================================
+let instance: EmbeddingProvider | null | undefined;
+
+/**
+ * The configured provider, or null when EMBEDDING_PROVIDER=none
+ */
+export function getEmbeddingProvider(): EmbeddingProvider | null {
+  if (instance !== undefined) return instance;
+
+  const name = process.env.EMBEDDING_PROVIDER || "local";
+  switch (name) {
+    case "openai":
+      instance = new OpenAIEmbeddingProvider(
+        process.env.OPENAI_API_KEY ?? "",
+        process.env.OPENAI_EMBEDDING_MODEL || "text-embedding-3-small"
+      );
+      break;
+    case "local":
+      instance = new LocalEmbeddingProvider();
+      break;
+    case "none":
+      instance = null;
+      break;
+    default:
+      throw new Error(`Unknown embedding provider: ${name}`);
+  }
+
+  return instance;
+}
+
+// ============================================
+// Utility Functions
+// ============================================
+
+/**
+ * Text embedded for an event: title plus short summary
+ */
+export function embeddingText(event: { title: string; summaryShort: string | null }): string {
+  return [event.title, event.summaryShort].filter(Boolean).join("\n");
+}
+
+/**
+ * Cosine similarity clamped to 0-1 (opposed vectors are just "unrelated")
+ */
+export function cosineSimilarity(a: number[], b: number[]): number {
+  if (a.length !== b.length || !a.length) return 0;
+
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+
+  if (normA === 0 || normB === 0) return 0;
+  return Math.max(0, Math.min(1, dot / Math.sqrt(normA * normB)));
+}
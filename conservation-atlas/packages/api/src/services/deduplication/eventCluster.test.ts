@@ -0,0 +1,291 @@
+// packages/api/src/services/deduplication/eventCluster.test.ts
+
+import {
+  CLUSTER_ALGORITHM_VERSION,
+  CLUSTER_CONFIG,
+  DEFAULT_CLUSTER_PROFILE,
+  calculateSimilarity,
+  clusterEvent,
+  mergeEvents,
+  type EventForClustering,
+} from "./eventCluster";
+
+type Statement = { sql: string; values: unknown[] };
+
+const mockDb = {
+  events: new Map<string, EventForClustering>(),
+  nearbyIds: [] as string[],
+  sameSourceIds: [] as string[],
+  linkedSourceIds: [] as string[],
+  statements: [] as Statement[],
+  updates: [] as Array<{ where: { id: string }; data: Record<string, unknown> }>,
+};
+
+jest.mock("../../db", () => {
+  const tx = {
+    event: {
+      update: jest.fn(async (args: { where: { id: string }; data: Record<string, unknown> }) => {
+        mockDb.updates.push(args);
+        return {};
+      }),
+    },
+    $queryRaw: jest.fn(async (strings: TemplateStringsArray, ...values: unknown[]) => {
+      const sql = strings.join("?");
+      mockDb.statements.push({ sql, values });
+      if (sql.includes("ST_DWithin")) return mockDb.nearbyIds.map((id) => ({ id }));
+      if (sql.includes("JOIN event_sources other")) return mockDb.sameSourceIds.map((event_id) => ({ event_id }));
+      if (sql.includes("INSERT INTO event_sources")) return mockDb.linkedSourceIds.map((source_id) => ({ source_id }));
+      return [];
+    }),
+    $executeRaw: jest.fn(async (strings: TemplateStringsArray, ...values: unknown[]) => {
+      mockDb.statements.push({ sql: strings.join("?"), values });
+      return 1;
+    }),
+  };
+  return {
+    prisma: {
+      ...tx,
+      event: {
+        ...tx.event,
+        findUnique: jest.fn(async ({ where }: { where: { id: string } }) => mockDb.events.get(where.id) ?? null),
+        findMany: jest.fn(async ({ where }: { where: { id: { in: string[] } } }) =>
+          where.id.in.map((id) => mockDb.events.get(id))
+        ),
+      },
+      $transaction: jest.fn(async (fn: (client: typeof tx) => Promise<unknown>) => fn(tx)),
+    },
+  };
+});
+
+jest.mock("./reconcileFields", () => ({
+  ...jest.requireActual("./reconcileFields"),
+  reconcileMerge: jest.fn(async () => ({ data: {}, provenance: {}, changes: {} })),
+}));
+
+const { reconcileMerge } = jest.requireMock("./reconcileFields");
+
+// Lexical features only; embeddings are covered in embeddingProvider.test.ts
+jest.mock("./embeddingProvider", () => ({
+  ...jest.requireActual("./embeddingProvider"),
+  getEmbeddingProvider: jest.fn(() => null),
+}));
+
+function event(overrides: Partial<EventForClustering> = {}): EventForClustering {
+  return {
+    id: "1",
+    title: "Oil spill reaches mangroves in the Niger Delta",
+    eventTypePrimary: "oil_spill",
+    severityLevel: 3,
+    confidenceExtraction: 0.8,
+    country: "Nigeria",
+    admin1: "Rivers",
+    latitude: 4.75,
+    longitude: 7.0,
+    startDate: new Date("2026-10-01T00:00:00Z"),
+    summaryShort: "Crude oil from a ruptured pipeline reached mangroves near Port Harcourt.",
+    sourceCount: 1,
+    mergedIntoId: null,
+    createdAt: new Date("2026-10-01T06:00:00Z"),
+    ...overrides,
+  };
+}
+
+describe("calculateSimilarity", () => {
+  it("scores identical reports as a perfect lexical match", () => {
+    const breakdown = calculateSimilarity(event(), event({ id: "2" }));
+
+    expect(breakdown.score).toBeCloseTo(1);
+    expect(breakdown).toMatchObject({ geoMethod: "distance", distanceKm: 0, daysApart: 0, embeddingModel: null });
+    expect(breakdown.features).toEqual({ eventType: 1, geo: 1, title: 1, summary: 1, temporal: 1, semantic: null });
+  });
+
+  it("leaves the semantic weight out when there is no embedding", () => {
+    const other = event({ id: "2", latitude: 4.95, startDate: new Date("2026-10-04T00:00:00Z") });
+    const { score, features, weights } = calculateSimilarity(event(), other);
+
+    const lexicalWeight = 1 - weights.semantic;
+    const expected =
+      (features.eventType * weights.eventType +
+        features.geo * weights.geo +
+        features.title * weights.title +
+        features.summary * weights.summary +
+        features.temporal * weights.temporal) /
+      lexicalWeight;
+    expect(score).toBeCloseTo(expected);
+    expect(features.temporal).toBeCloseTo(1 - 3 / 7);
+  });
+
+  it("gives partial geo credit for a shared admin1 without coordinates", () => {
+    const { features, geoMethod } = calculateSimilarity(event({ latitude: null, longitude: null }), event({ id: "2" }));
+
+    expect(geoMethod).toBe("admin1");
+    expect(features.geo).toBeCloseTo(2 / 3);
+  });
+
+  it("counts the embedding similarity with its weight and records the model", () => {
+    const breakdown = calculateSimilarity(event(), event({ id: "2" }), 0.5, "text-embedding-3-small");
+
+    expect(breakdown.score).toBeCloseTo(1 - 0.5 * breakdown.weights.semantic);
+    expect(breakdown.embeddingModel).toBe("text-embedding-3-small");
+  });
+});
+
+describe("mergeEvents", () => {
+  beforeEach(() => {
+    mockDb.statements = [];
+    mockDb.updates = [];
+    mockDb.linkedSourceIds = ["31", "32"];
+  });
+
+  it("records the real score, its breakdown, the thresholds and the algorithm version", async () => {
+    const existing = event({ id: "1", sourceCount: 2 });
+    const incoming = event({ id: "2", severityLevel: 4 });
+    const similarity = calculateSimilarity(existing, incoming);
+
+    const result = await mergeEvents(existing, incoming, similarity);
+
+    const [merge] = mockDb.statements.filter((s) => s.sql.includes("INSERT INTO event_merges"));
+    const [primaryId, mergedId, action, score, reason, featureScores, thresholds, version, profile, movedSources] =
+      merge.values;
+    expect([primaryId, mergedId, action, reason, version, profile]).toEqual([
+      "1", "2", "merge", "cluster_similarity", CLUSTER_ALGORITHM_VERSION, DEFAULT_CLUSTER_PROFILE.name,
+    ]);
+    expect(score).toBe(similarity.score);
+    expect(score).toBeGreaterThan(0);
+    expect(JSON.parse(featureScores as string)).toMatchObject({ score: similarity.score, features: similarity.features });
+    expect(JSON.parse(thresholds as string)).toEqual(CLUSTER_CONFIG);
+    expect(JSON.parse(movedSources as string)).toEqual(["31", "32"]);
+    expect(result).toMatchObject({ action: "merged", primaryEventId: "1", mergedEventIds: ["2"], sourceCount: 3 });
+  });
+
+  it("boosts the primary's confidence per added source and keeps the higher severity", async () => {
+    await mergeEvents(event({ id: "1" }), event({ id: "2", severityLevel: 4 }), calculateSimilarity(event(), event()));
+
+    const primaryUpdate = mockDb.updates.find((u) => u.where.id === "1")!;
+    expect(primaryUpdate.data).toMatchObject({ sourceCount: 2, severityLevel: 4 });
+    expect(primaryUpdate.data.confidenceExtraction).toBeCloseTo(0.8 + CLUSTER_CONFIG.SOURCE_CONFIDENCE_BOOST);
+    expect(mockDb.updates.find((u) => u.where.id === "2")!.data).toEqual({ mergedIntoId: "1", status: "merged" });
+  });
+
+  it("rewrites the primary's geom_point when it takes the merged event's location", async () => {
+    reconcileMerge.mockResolvedValueOnce({
+      data: { latitude: 4.8, longitude: 7.1 },
+      provenance: {},
+      changes: { location: { before: { latitude: null, longitude: null }, after: { latitude: 4.8, longitude: 7.1 }, beforeProvenance: null } },
+    });
+
+    await mergeEvents(event({ id: "1", latitude: null, longitude: null }), event({ id: "2" }), calculateSimilarity(event(), event()));
+
+    expect(mockDb.updates.find((u) => u.where.id === "1")!.data).toMatchObject({ latitude: 4.8, longitude: 7.1 });
+    const [geom] = mockDb.statements.filter((s) => s.sql.includes("SET geom_point"));
+    expect(geom.sql).toContain("ST_SetSRID(ST_MakePoint(longitude::double precision, latitude::double precision), 4326)");
+    expect(geom.values).toEqual(["1"]);
+  });
+
+  it("leaves geom_point alone when the primary keeps its location", async () => {
+    await mergeEvents(event({ id: "1" }), event({ id: "2" }), calculateSimilarity(event(), event()));
+
+    expect(mockDb.statements.some((s) => s.sql.includes("SET geom_point"))).toBe(false);
+  });
+
+  it("links the merged event's sources to the primary without duplicating a shared source", async () => {
+    // 33 was already linked to the primary, so the insert skips it
+    mockDb.linkedSourceIds = ["31"];
+
+    await mergeEvents(event({ id: "1" }), event({ id: "2" }), calculateSimilarity(event(), event()));
+
+    const [link] = mockDb.statements.filter((s) => s.sql.includes("INSERT INTO event_sources"));
+    expect(link.sql).toContain("ON CONFLICT (event_id, source_id) DO NOTHING");
+    expect(link.values).toEqual(["1", "2"]);
+    const [unlink] = mockDb.statements.filter((s) => s.sql.includes("DELETE FROM event_sources"));
+    expect(unlink.values).toEqual(["2", ["31"]]);
+    const [merge] = mockDb.statements.filter((s) => s.sql.includes("INSERT INTO event_merges"));
+    expect(JSON.parse(merge.values[9] as string)).toEqual(["31"]);
+  });
+});
+
+describe("clusterEvent candidate search", () => {
+  const fire = event({
+    id: "9",
+    title: "Wildfire spreads along the Brazil-Bolivia border",
+    eventTypePrimary: "wildfire",
+    country: "Brazil",
+    admin1: "Rondonia",
+    latitude: -10.5,
+    longitude: -65.3,
+    summaryShort: "Fire crews battled a blaze in the dry forest near Guajara-Mirim.",
+  });
+
+  beforeEach(() => {
+    mockDb.statements = [];
+    mockDb.updates = [];
+    mockDb.events = new Map([
+      ["9", fire],
+      // Same report filed under a related type across the border
+      ["5", { ...fire, id: "5", eventTypePrimary: "habitat_loss", country: "Bolivia", admin1: "Beni" }],
+      // Same type, looser wording
+      ["7", { ...fire, id: "7", title: "Border wildfire spreads in Bolivia", country: "Bolivia", admin1: "Beni" }],
+    ]);
+    mockDb.nearbyIds = ["5", "7"];
+    mockDb.sameSourceIds = [];
+  });
+
+  it("searches by distance across borders, including related types", async () => {
+    await clusterEvent("9");
+
+    const [search] = mockDb.statements.filter((s) => s.sql.includes("ST_DWithin"));
+    expect(search.values).toEqual(
+      expect.arrayContaining([
+        ["wildfire", "habitat_loss", "deforestation", "climate_impact"],
+        CLUSTER_CONFIG.CANDIDATE_RADIUS_KM * 1000,
+      ])
+    );
+    // The country only narrows candidates that have no point
+    expect(search.sql).toContain("e.geom_point IS NULL AND e.country = ");
+  });
+
+  it("prefers an exact-type match over a related type that scored higher", async () => {
+    const related = calculateSimilarity(fire, mockDb.events.get("5")!).score;
+    const exact = calculateSimilarity(fire, mockDb.events.get("7")!).score;
+    expect(related).toBeGreaterThan(exact);
+    expect(exact).toBeGreaterThanOrEqual(CLUSTER_CONFIG.MIN_SIMILARITY_SCORE);
+
+    const result = await clusterEvent("9");
+
+    expect(result).toMatchObject({ action: "merged", primaryEventId: "7", mergedEventIds: ["9"] });
+  });
+
+  it("merges into a related type when no exact type is close enough", async () => {
+    mockDb.nearbyIds = ["5"];
+
+    const result = await clusterEvent("9");
+
+    expect(result).toMatchObject({ action: "merged", primaryEventId: "5" });
+    expect(result.similarity!.features.eventType).toBe(0.6);
+  });
+
+  it("skips candidates extracted from the same source", async () => {
+    // 7 and 9 came out of the same multi-event roundup
+    mockDb.sameSourceIds = ["7"];
+
+    const result = await clusterEvent("9");
+
+    expect(result).toMatchObject({ action: "merged", primaryEventId: "5" });
+  });
+
+  it("searches by distance for events on the equator and the prime meridian", async () => {
+    const gulf = { ...fire, id: "9", latitude: 0, longitude: 0 };
+    mockDb.events = new Map([
+      ["9", gulf],
+      ["7", { ...gulf, id: "7", latitude: 0.1 }],
+    ]);
+    mockDb.nearbyIds = ["7"];
+
+    const result = await clusterEvent("9");
+
+    expect(mockDb.statements.some((s) => s.sql.includes("ST_DWithin"))).toBe(true);
+    expect(result).toMatchObject({ action: "merged", primaryEventId: "7" });
+    expect(result.similarity).toMatchObject({ geoMethod: "distance" });
+    expect(result.similarity!.distanceKm).toBeCloseTo(11.1, 0);
+  });
+});
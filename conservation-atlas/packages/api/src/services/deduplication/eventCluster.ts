@@ -0,0 +1,658 @@
+// packages/api/src/services/deduplication/eventCluster.ts
+
+/**
+ * Event Deduplication & Clustering Service
+ * 
+ * Handles:
+ * 1. Finding duplicate/similar events
+ * 2. Merging events that describe the same incident
+ * 3. Multi-source confirmation (boosting confidence)
+ * 4. Maintaining event clusters
+ */
+
+import type { Prisma } from '@prisma/client';
+
+import { prisma } from '../../db';
+import { logger } from '../../utils/logger';
+import { cosineSimilarity, getEmbeddingProvider } from './embeddingProvider';
+import { getEventEmbeddings } from './eventEmbeddings';
+import { compatibleTypes, typeCompatibility } from './typeCompatibility';
+import { reconcileMerge, syncGeomPoint } from './reconcileFields';
+
+export interface ClusterResult {
+  action: 'new' | 'merged' | 'duplicate';
+  primaryEventId: string;
+  mergedEventIds: string[];
+  confidenceBoost: number;
+  sourceCount: number;
+  /** Score of the merge, when one happened */
+  similarity?: SimilarityBreakdown;
+}
+
+/**
+ * How a pair of events scored. Feature scores are 0-1 before weighting;
+ * `score` is the weighted total compared against MIN_SIMILARITY_SCORE.
+ * `semantic` is null when no embedding was available; its weight is then
+ * left out, which reproduces the cluster-v1 lexical score exactly.
+ * Stored on event_merges so analysts can see why incidents were collapsed.
+ */
+export interface SimilarityBreakdown {
+  score: number;
+  features: {
+    eventType: number;
+    geo: number;
+    title: number;
+    summary: number;
+    temporal: number;
+    semantic: number | null;
+  };
+  /** How `geo` was scored: coordinate distance, shared admin1, or nothing to compare */
+  geoMethod: 'distance' | 'admin1' | 'none';
+  distanceKm: number | null;
+  daysApart: number | null;
+  weights: SimilarityWeights;
+  /** Embedding model behind `semantic` */
+  embeddingModel: string | null;
+}
+
+export interface EventForClustering {
+  id: string;
+  title: string;
+  eventTypePrimary: string;
+  severityLevel: number;
+  confidenceExtraction: number;
+  country: string;
+  admin1: string | null;
+  latitude: number | null;
+  longitude: number | null;
+  startDate: Date | null;
+  summaryShort: string;
+  sourceCount: number;
+  mergedIntoId: string | null;
+  createdAt: Date;
+}
+
+// Bump when the scoring changes so merges stay explainable
+export const CLUSTER_ALGORITHM_VERSION = 'cluster-v3';
+
+// Configuration
+export const CLUSTER_CONFIG = {
+  // Time window for considering events as potentially related
+  TIME_WINDOW_HOURS: 72,
+  
+  // Maximum distance (km) for events to be considered same location
+  MAX_DISTANCE_KM: 50,
+  
+  // PostGIS search radius (km), across borders. Candidates beyond
+  // MAX_DISTANCE_KM survive only on SEMANTIC_CANDIDATE_MIN.
+  CANDIDATE_RADIUS_KM: 200,
+  
+  // Minimum similarity score to consider merging
+  MIN_SIMILARITY_SCORE: 0.7,
+  
+  // Confidence boost per additional source
+  SOURCE_CONFIDENCE_BOOST: 0.05,
+  
+  // Maximum confidence after boosting
+  MAX_BOOSTED_CONFIDENCE: 0.98,
+  
+  // Embedding similarity that keeps a candidate the location filter would
+  // drop (coverage geocoded to a different town or region)
+  SEMANTIC_CANDIDATE_MIN: 0.85,
+};
+
+// Feature weights in calculateSimilarity (sum to 1). The lexical weights
+// are the cluster-v1 weights scaled by 0.7 to make room for `semantic`.
+const SIMILARITY_WEIGHTS = {
+  eventType: 0.14,
+  geo: 0.21,
+  title: 0.175,
+  summary: 0.105,
+  temporal: 0.07,
+  semantic: 0.3,
+};
+
+export type ClusterConfig = typeof CLUSTER_CONFIG;
+export type SimilarityWeights = typeof SIMILARITY_WEIGHTS;
+
+/**
+ * A named set of thresholds and weights. Everything that scores or merges
+ * takes a profile; named profiles are loaded by clusterProfiles.ts.
+ */
+export interface ClusterProfile {
+  name: string;
+  source: 'builtin' | 'db' | 'file';
+  config: ClusterConfig;
+  weights: SimilarityWeights;
+}
+
+export const DEFAULT_CLUSTER_PROFILE: ClusterProfile = {
+  name: 'default',
+  source: 'builtin',
+  config: CLUSTER_CONFIG,
+  weights: SIMILARITY_WEIGHTS,
+};
+
+/**
+ * Main clustering function - called after extraction
+ */
+export async function clusterEvent(
+  eventId: string,
+  profile: ClusterProfile = DEFAULT_CLUSTER_PROFILE
+): Promise<ClusterResult> {
+  logger.info({ eventId, profile: profile.name }, 'Starting event clustering');
+  
+  // 1. Load the new event
+  const newEvent = await loadEventForClustering(eventId);
+  if (!newEvent) {
+    throw new Error(`Event not found: ${eventId}`);
+  }
+
+  // Already folded into another event (e.g. a redelivered CLUSTER message)
+  if (newEvent.mergedIntoId) {
+    logger.info({ eventId, mergedIntoId: newEvent.mergedIntoId }, 'Event already merged - skipping');
+    return {
+      action: 'duplicate',
+      primaryEventId: newEvent.mergedIntoId,
+      mergedEventIds: [],
+      confidenceBoost: 0,
+      sourceCount: newEvent.sourceCount,
+    };
+  }
+  
+  // 2. Find candidate matches
+  const { candidates, semantic, embeddingModel } = await findCandidateMatches(newEvent, profile);
+  
+  if (candidates.length === 0) {
+    // No potential duplicates - this is a new unique event
+    logger.info({ eventId }, 'No duplicates found - event is unique');
+    return {
+      action: 'new',
+      primaryEventId: eventId,
+      mergedEventIds: [],
+      confidenceBoost: 0,
+      sourceCount: newEvent.sourceCount,
+    };
+  }
+  
+  // 3. Score similarity with each candidate (never re-merge a pair an analyst split)
+  const splitIds = await loadSplitEventIds(eventId);
+  const scoredCandidates = candidates.filter(candidate => !splitIds.has(candidate.id)).map(candidate => ({
+    candidate,
+    similarity: calculateSimilarity(newEvent, candidate, semantic.get(candidate.id) ?? null, embeddingModel, profile),
+  }));
+  
+  // 4. Find best match above threshold; an exact-type match beats a related-type one
+  const isExactType = (c: EventForClustering) => (c.eventTypePrimary === newEvent.eventTypePrimary ? 1 : 0);
+  const bestMatch = scoredCandidates
+    .filter(sc => sc.similarity.score >= profile.config.MIN_SIMILARITY_SCORE)
+    .sort((a, b) =>
+      isExactType(b.candidate) - isExactType(a.candidate) ||
+      b.similarity.score - a.similarity.score
+    )[0];
+  
+  if (!bestMatch) {
+    // Candidates found but none similar enough
+    logger.info({ eventId, candidateCount: candidates.length }, 'Candidates found but similarity too low');
+    return {
+      action: 'new',
+      primaryEventId: eventId,
+      mergedEventIds: [],
+      confidenceBoost: 0,
+      sourceCount: newEvent.sourceCount,
+    };
+  }
+  
+  // 5. Decide: merge into existing or mark as duplicate
+  const existingEvent = bestMatch.candidate;
+  
+  logger.info({
+    eventId,
+    existingEventId: existingEvent.id,
+    similarity: bestMatch.similarity.score,
+  }, 'Found matching event - merging');
+  
+  // 6. Merge: update existing event with additional source info
+  const mergeResult = await mergeEvents(existingEvent, newEvent, bestMatch.similarity, profile);
+  
+  return mergeResult;
+}
+
+/**
+ * Find events that could potentially be duplicates, with the embedding
+ * similarity of each to `event` (empty when embeddings are unavailable)
+ */
+async function findCandidateMatches(event: EventForClustering, profile: ClusterProfile): Promise<{
+  candidates: EventForClustering[];
+  semantic: Map<string, number>;
+  embeddingModel: string | null;
+}> {
+  const timeWindowStart = new Date(event.createdAt);
+  timeWindowStart.setHours(timeWindowStart.getHours() - profile.config.TIME_WINDOW_HOURS);
+  
+  // Criteria: compatible event type, within time window, nearby (or same
+  // country when there is nothing to measure), exact types first
+  const types = compatibleTypes(event.eventTypePrimary);
+  const rows = event.latitude !== null && event.longitude !== null
+    ? await findNearbyEvents(event, types, timeWindowStart, profile.config.CANDIDATE_RADIUS_KM)
+    : await prisma.event.findMany({
+        where: {
+          id: { not: event.id },
+          mergedIntoId: null,
+          eventTypePrimary: { in: types },
+          country: event.country,
+          createdAt: { gte: timeWindowStart },
+        },
+        orderBy: { createdAt: 'desc' },
+        take: 50, // Limit candidates
+      });
+  // Events extracted from the same source (e.g. a multi-event roundup) are
+  // separate incidents, and share event_sources rows a merge could not move
+  const sameSource = await loadSameSourceEventIds(event.id);
+  const all: EventForClustering[] = rows.map(mapToClusteringEvent).filter((c: EventForClustering) => !sameSource.has(c.id));
+  
+  const { semantic, embeddingModel } = await loadSemanticScores(event, all);
+  const semanticMatch = (c: EventForClustering) =>
+    (semantic.get(c.id) ?? 0) >= profile.config.SEMANTIC_CANDIDATE_MIN;
+  
+  // Filter by geographic proximity if coordinates available
+  if (event.latitude !== null && event.longitude !== null) {
+    const candidates = all.filter(c => {
+      if (c.latitude === null || c.longitude === null) return true; // Include if no coords
+      
+      const distance = calculateDistanceKm(
+        event.latitude!, event.longitude!,
+        c.latitude, c.longitude
+      );
+      
+      return distance <= profile.config.MAX_DISTANCE_KM || semanticMatch(c);
+    });
+    return { candidates, semantic, embeddingModel };
+  }
+  
+  // If no coordinates, filter by admin1 region
+  const candidates = all.filter(c => c.admin1 === event.admin1 || !event.admin1 || !c.admin1 || semanticMatch(c));
+  return { candidates, semantic, embeddingModel };
+}
+
+/**
+ * Events within `radiusKm` (CANDIDATE_RADIUS_KM) of `event` regardless of
+ * country, so transboundary incidents can cluster. Events without a point
+ * only come from the same country.
+ */
+async function findNearbyEvents(event: EventForClustering, types: string[], since: Date, radiusKm: number): Promise<any[]> {
+  const radiusMeters = radiusKm * 1000;
+  
+  const nearby = await prisma.$queryRaw<Array<{ id: string }>>`
+    WITH params AS (
+      SELECT ST_SetSRID(ST_MakePoint(${event.longitude}::double precision, ${event.latitude}::double precision), 4326)::geography AS pt
+    )
+    SELECT e.id::text AS id
+    FROM events e, params
+    WHERE e.id <> ${event.id}::bigint
+      AND e.merged_into_id IS NULL
+      AND e.event_type_primary = ANY(${types}::text[])
+      AND e.created_at >= ${since}
+      AND (
+        (e.geom_point IS NOT NULL AND ST_DWithin(e.geom_point::geography, params.pt, ${radiusMeters}))
+        OR (e.geom_point IS NULL AND e.country = ${event.country})
+      )
+    ORDER BY
+      (e.event_type_primary = ${event.eventTypePrimary}) DESC,
+      ST_Distance(e.geom_point::geography, params.pt) ASC NULLS LAST,
+      e.created_at DESC
+    LIMIT 50
+  `;
+  if (!nearby.length) return [];
+  
+  // Keep the SQL ranking
+  const ids = nearby.map((r: { id: string }) => r.id);
+  const events = await prisma.event.findMany({ where: { id: { in: ids } } });
+  return events.sort((a: any, b: any) => ids.indexOf(a.id) - ids.indexOf(b.id));
+}
+
+/**
+ * Cosine similarity of each candidate's embedding to the event's.
+ * Embedding failures only cost the semantic feature, never the clustering.
+ */
+async function loadSemanticScores(
+  event: EventForClustering,
+  candidates: EventForClustering[]
+): Promise<{ semantic: Map<string, number>; embeddingModel: string | null }> {
+  const semantic = new Map<string, number>();
+  const provider = getEmbeddingProvider();
+  if (!provider || !candidates.length) return { semantic, embeddingModel: null };
+  
+  try {
+    const embeddings = await getEventEmbeddings([event, ...candidates], provider);
+    const own = embeddings.get(event.id);
+    if (!own) return { semantic, embeddingModel: null };
+    
+    for (const candidate of candidates) {
+      const other = embeddings.get(candidate.id);
+      if (other) semantic.set(candidate.id, cosineSimilarity(own, other));
+    }
+    return { semantic, embeddingModel: provider.model };
+  } catch (err) {
+    logger.warn({ eventId: event.id, provider: provider.name, error: (err as Error).message }, 'Embedding lookup failed - clustering without semantic similarity');
+    return { semantic, embeddingModel: null };
+  }
+}
+
+/**
+ * Events that were unmerged from (or split off) this event
+ * (batchCluster.ts loads the same pairs for a whole window)
+ */
+async function loadSplitEventIds(eventId: string): Promise<Set<string>> {
+  const rows = await prisma.$queryRaw<Array<{ other_id: string }>>`
+    SELECT CASE WHEN primary_event_id = ${eventId} THEN merged_event_id ELSE primary_event_id END::text AS other_id
+    FROM event_merges
+    WHERE action = 'unmerge'
+      AND (primary_event_id = ${eventId} OR merged_event_id = ${eventId})
+  `;
+  return new Set(rows.map((r: { other_id: string }) => r.other_id));
+}
+
+/**
+ * Events that share an event_sources source with this event
+ */
+async function loadSameSourceEventIds(eventId: string): Promise<Set<string>> {
+  const rows = await prisma.$queryRaw<Array<{ event_id: string }>>`
+    SELECT DISTINCT other.event_id::text AS event_id
+    FROM event_sources own
+    JOIN event_sources other ON other.source_id = own.source_id AND other.event_id <> own.event_id
+    WHERE own.event_id = ${eventId}::bigint
+  `;
+  return new Set(rows.map((r: { event_id: string }) => r.event_id));
+}
+
+/**
+ * Calculate similarity between two events (0-1) with its per-feature breakdown.
+ * `semantic` is the embedding cosine similarity of the pair, when known.
+ */
+export function calculateSimilarity(
+  event1: EventForClustering,
+  event2: EventForClustering,
+  semantic: number | null = null,
+  embeddingModel: string | null = null,
+  profile: ClusterProfile = DEFAULT_CLUSTER_PROFILE
+): SimilarityBreakdown {
+  const features: SimilarityBreakdown['features'] = { eventType: 0, geo: 0, title: 0, summary: 0, temporal: 0, semantic };
+  let geoMethod: SimilarityBreakdown['geoMethod'] = 'none';
+  let distanceKm: number | null = null;
+  let daysApart: number | null = null;
+  
+  // 1. Event type compatibility (1 for the same type, a penalty for related types)
+  features.eventType = typeCompatibility(event1.eventTypePrimary, event2.eventTypePrimary);
+  
+  // 2. Geographic similarity
+  if (event1.latitude !== null && event1.longitude !== null && event2.latitude !== null && event2.longitude !== null) {
+    distanceKm = calculateDistanceKm(
+      event1.latitude, event1.longitude,
+      event2.latitude, event2.longitude
+    );
+    
+    // Closer = higher score
+    features.geo = Math.max(0, 1 - distanceKm / profile.config.MAX_DISTANCE_KM);
+    geoMethod = 'distance';
+  } else if (event1.admin1 && event2.admin1 && event1.admin1 === event2.admin1) {
+    // Same admin1 region: partial credit (two thirds of the geo weight)
+    features.geo = 2 / 3;
+    geoMethod = 'admin1';
+  }
+  
+  // 3. Title similarity (Jaccard on words)
+  features.title = calculateTextSimilarity(event1.title, event2.title);
+  
+  // 4. Summary similarity
+  features.summary = calculateTextSimilarity(event1.summaryShort, event2.summaryShort);
+  
+  // 5. Temporal proximity
+  if (event1.startDate && event2.startDate) {
+    daysApart = Math.abs(
+      (event1.startDate.getTime() - event2.startDate.getTime()) / (1000 * 60 * 60 * 24)
+    );
+    
+    // Closer in time = higher score (within a week)
+    features.temporal = Math.max(0, 1 - daysApart / 7);
+  }
+  
+  // 6. Weighted total over the features that could be scored
+  let score = 0;
+  let weights = 0;
+  for (const [feature, weight] of Object.entries(profile.weights)) {
+    const value = features[feature as keyof typeof features];
+    if (value === null) continue;
+    score += value * weight;
+    weights += weight;
+  }
+  
+  return {
+    score: weights > 0 ? score / weights : 0,
+    features,
+    geoMethod,
+    distanceKm,
+    daysApart,
+    weights: profile.weights,
+    embeddingModel: semantic === null ? null : embeddingModel,
+  };
+}
+
+/**
+ * Calculate text similarity using Jaccard index on words
+ */
+function calculateTextSimilarity(text1: string, text2: string): number {
+  const words1 = new Set(tokenize(text1));
+  const words2 = new Set(tokenize(text2));
+  
+  if (words1.size === 0 && words2.size === 0) return 1;
+  if (words1.size === 0 || words2.size === 0) return 0;
+  
+  const intersection = new Set([...words1].filter(w => words2.has(w)));
+  const union = new Set([...words1, ...words2]);
+  
+  return intersection.size / union.size;
+}
+
+/**
+ * Tokenize text into words for comparison
+ */
+function tokenize(text: string): string[] {
+  return text
+    .toLowerCase()
+    .replace(/[^\w\s]/g, ' ')
+    .split(/\s+/)
+    .filter(w => w.length > 2) // Skip short words
+    .filter(w => !STOP_WORDS.has(w));
+}
+
+const STOP_WORDS = new Set([
+  'the', 'a', 'an', 'and', 'or', 'but', 'in', 'on', 'at', 'to', 'for',
+  'of', 'with', 'by', 'from', 'as', 'is', 'was', 'are', 'were', 'been',
+  'be', 'have', 'has', 'had', 'do', 'does', 'did', 'will', 'would', 'could',
+  'should', 'may', 'might', 'must', 'shall', 'can', 'need', 'this', 'that',
+  'these', 'those', 'than', 'when', 'where', 'which', 'who', 'whom', 'whose',
+]);
+
+/**
+ * Calculate distance between two coordinates in km (Haversine)
+ */
+function calculateDistanceKm(lat1: number, lon1: number, lat2: number, lon2: number): number {
+  const R = 6371; // Earth radius in km
+  const dLat = toRad(lat2 - lat1);
+  const dLon = toRad(lon2 - lon1);
+  
+  const a = Math.sin(dLat / 2) ** 2 +
+            Math.cos(toRad(lat1)) * Math.cos(toRad(lat2)) *
+            Math.sin(dLon / 2) ** 2;
+  
+  const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+  return R * c;
+}
+
+function toRad(deg: number): number {
+  return deg * (Math.PI / 180);
+}
+
+/**
+ * Merge new event into existing event
+ */
+export async function mergeEvents(
+  existing: EventForClustering,
+  newEvent: EventForClustering,
+  similarity: SimilarityBreakdown,
+  profile: ClusterProfile = DEFAULT_CLUSTER_PROFILE,
+  mergeReason: string = 'cluster_similarity'
+): Promise<ClusterResult> {
+  // Calculate confidence boost from additional source
+  const newSourceCount = existing.sourceCount + newEvent.sourceCount;
+  const additionalSources = newEvent.sourceCount;
+  
+  let confidenceBoost = additionalSources * profile.config.SOURCE_CONFIDENCE_BOOST;
+  const newConfidence = Math.min(
+    existing.confidenceExtraction + confidenceBoost,
+    profile.config.MAX_BOOSTED_CONFIDENCE
+  );
+  
+  await prisma.$transaction(async (tx) => {
+    // 1. Pick each field from the best-supported event (before sources move)
+    const reconciled = await reconcileMerge(tx, existing.id, newEvent.id);
+    
+    // 2. Update existing event
+    await tx.event.update({
+      where: { id: existing.id },
+      data: {
+        ...reconciled.data,
+        fieldProvenance: reconciled.provenance as Prisma.InputJsonValue,
+        confidenceExtraction: newConfidence,
+        sourceCount: newSourceCount,
+        updatedAt: new Date(),
+        // Optionally update severity if new event has higher severity
+        ...(newEvent.severityLevel > existing.severityLevel ? {
+          severityLevel: newEvent.severityLevel,
+        } : {}),
+      },
+    });
+    if (reconciled.changes.location) {
+      // The primary took the merged event's coordinates
+      await syncGeomPoint(tx, existing.id);
+    }
+    
+    // 3. Transfer sources from new event to existing. A source the existing
+    //    event already has stays linked to both (UNIQUE(event_id, source_id));
+    //    the moved source ids are recorded so unmergeEvent can move them back.
+    const movedSources = await tx.$queryRaw<Array<{ source_id: string }>>`
+      INSERT INTO event_sources (event_id, source_id, relation, weight)
+      SELECT ${existing.id}::bigint, source_id, 'supporting', weight
+      FROM event_sources
+      WHERE event_id = ${newEvent.id}::bigint
+      ON CONFLICT (event_id, source_id) DO NOTHING
+      RETURNING source_id::text AS source_id
+    `;
+    const movedSourceIds = movedSources.map((s: { source_id: string }) => s.source_id);
+    if (movedSourceIds.length) {
+      await tx.$executeRaw`
+        DELETE FROM event_sources
+        WHERE event_id = ${newEvent.id}::bigint AND source_id = ANY(${movedSourceIds}::bigint[])
+      `;
+    }
+    
+    // 4. Mark new event as merged/duplicate
+    await tx.event.update({
+      where: { id: newEvent.id },
+      data: {
+        mergedIntoId: existing.id,
+        status: 'merged',
+      },
+    });
+    
+    // 5. Create merge record for audit trail, with the primary's pre-merge values
+    //    and the fields reconciliation replaced
+    const primaryBefore = {
+      confidenceExtraction: existing.confidenceExtraction,
+      sourceCount: existing.sourceCount,
+      severityLevel: existing.severityLevel,
+    };
+    await tx.$executeRaw`
+      INSERT INTO event_merges (primary_event_id, merged_event_id, action, similarity_score, merge_reason, feature_scores, thresholds, algorithm_version, cluster_profile, moved_source_ids, primary_before, field_changes, merged_at)
+      VALUES (${existing.id}, ${newEvent.id}, ${'merge'}, ${similarity.score}, ${mergeReason}, ${JSON.stringify(similarity)}::jsonb, ${JSON.stringify(profile.config)}::jsonb, ${CLUSTER_ALGORITHM_VERSION}, ${profile.name}, ${JSON.stringify(movedSourceIds)}::jsonb, ${JSON.stringify(primaryBefore)}::jsonb, ${JSON.stringify(reconciled.changes)}::jsonb, NOW())
+    `;
+  });
+  
+  logger.info({
+    primaryEventId: existing.id,
+    mergedEventId: newEvent.id,
+    newSourceCount,
+    confidenceBoost,
+  }, 'Events merged successfully');
+  
+  return {
+    action: 'merged',
+    primaryEventId: existing.id,
+    mergedEventIds: [newEvent.id],
+    confidenceBoost,
+    sourceCount: newSourceCount,
+    similarity,
+  };
+}
+
+/**
+ * Map Prisma event to clustering interface
+ */
+export function mapToClusteringEvent(event: any): EventForClustering {
+  return {
+    id: event.id,
+    title: event.title,
+    eventTypePrimary: event.eventTypePrimary,
+    severityLevel: event.severityLevel,
+    confidenceExtraction: parseFloat(event.confidenceExtraction?.toString() ?? '0.5'),
+    country: event.country,
+    admin1: event.admin1,
+    latitude: event.latitude != null ? parseFloat(event.latitude.toString()) : null,
+    longitude: event.longitude != null ? parseFloat(event.longitude.toString()) : null,
+    startDate: event.startDate,
+    summaryShort: event.summaryShort,
+    sourceCount: event.sourceCount,
+    mergedIntoId: event.mergedIntoId ?? null,
+    createdAt: event.createdAt,
+  };
+}
+
+/**
+ * Load event for clustering
+ */
+export async function loadEventForClustering(eventId: string): Promise<EventForClustering | null> {
+  const event = await prisma.event.findUnique({
+    where: { id: eventId },
+  });
+  
+  if (!event) return null;
+  return mapToClusteringEvent(event);
+}
+
+/**
+ * Find all events in a cluster
+ */
+export async function getEventCluster(eventId: string): Promise<EventForClustering[]> {
+  // Find the primary event (might be this one or one this was merged into)
+  const event = await prisma.event.findUnique({
+    where: { id: eventId },
+    select: { id: true, mergedIntoId: true },
+  });
+  
+  if (!event) return [];
+  
+  const primaryId = event.mergedIntoId ?? event.id;
+  
+  // Get primary + all merged events
+  const clusterEvents = await prisma.event.findMany({
+    where: {
+      OR: [
+        { id: primaryId },
+        { mergedIntoId: primaryId },
+      ],
+    },
+  });
+  
+  return clusterEvents.map(mapToClusteringEvent);
+}
@@ -0,0 +1,72 @@
+// packages/api/src/services/deduplication/eventEmbeddings.test.ts
+
+import { createHash } from "node:crypto";
+
+import { embeddingText } from "./embeddingProvider";
+import { getEventEmbeddings } from "./eventEmbeddings";
+import { LocalEmbeddingProvider } from "./localEmbeddingProvider";
+
+type Statement = { sql: string; values: unknown[] };
+
+const mockDb = {
+  stored: [] as Array<{ event_id: string; model: string; text_hash: string; embedding: number[] }>,
+  statements: [] as Statement[],
+};
+
+jest.mock("../../db", () => ({
+  prisma: {
+    $queryRaw: jest.fn(async () => mockDb.stored),
+    $executeRaw: jest.fn(async (strings: TemplateStringsArray, ...values: unknown[]) => {
+      mockDb.statements.push({ sql: strings.join("?"), values });
+      return 1;
+    }),
+  },
+}));
+
+const provider = new LocalEmbeddingProvider(8);
+const EVENT = { id: "5", title: "Oil spill reaches mangroves", summaryShort: "Crude reached the Niger Delta." };
+
+function hashOf(event: typeof EVENT): string {
+  return createHash("sha256").update(embeddingText(event)).digest("hex");
+}
+
+beforeEach(() => {
+  mockDb.stored = [];
+  mockDb.statements = [];
+});
+
+describe("getEventEmbeddings", () => {
+  it("embeds and stores events without a vector", async () => {
+    const embed = jest.spyOn(provider, "embed");
+
+    const vectors = await getEventEmbeddings([EVENT], provider);
+
+    expect(embed).toHaveBeenCalledWith([embeddingText(EVENT)]);
+    expect(vectors.get("5")).toHaveLength(8);
+    const [insert] = mockDb.statements;
+    expect(insert.sql).toContain("INSERT INTO event_embeddings");
+    expect(insert.values.slice(0, 4)).toEqual(["5", "local", "local-hash-8", 8]);
+    expect(insert.values[5]).toBe(hashOf(EVENT));
+    embed.mockRestore();
+  });
+
+  it("reuses a stored vector while the model and text are unchanged", async () => {
+    mockDb.stored = [{ event_id: "5", model: "local-hash-8", text_hash: hashOf(EVENT), embedding: [1, 0, 0, 0, 0, 0, 0, 0] }];
+
+    const vectors = await getEventEmbeddings([EVENT], provider);
+
+    expect(vectors.get("5")).toEqual([1, 0, 0, 0, 0, 0, 0, 0]);
+    expect(mockDb.statements).toEqual([]);
+  });
+
+  it("re-embeds when the title changed or the model switched", async () => {
+    mockDb.stored = [
+      { event_id: "5", model: "local-hash-8", text_hash: "stale", embedding: [1, 0, 0, 0, 0, 0, 0, 0] },
+      { event_id: "6", model: "text-embedding-3-small", text_hash: hashOf({ ...EVENT, id: "6" }), embedding: [1] },
+    ];
+
+    await getEventEmbeddings([EVENT, { ...EVENT, id: "6" }], provider);
+
+    expect(mockDb.statements.map((s) => s.values[0])).toEqual(["5", "6"]);
+  });
+});
@@ -0,0 +1,83 @@
+// packages/api/src/services/deduplication/eventEmbeddings.ts
+//
+// Event embeddings cached in event_embeddings (REAL[] per event).
+// A row is reused while its model and text hash match; otherwise the event
+// is re-embedded (e.g. after a title change or an embedding model switch).
+
+import { createHash } from "node:crypto";
+
+import { prisma } from "../../db";
+import { embeddingText, type EmbeddingProvider } from "./embeddingProvider";
+
+export interface EmbeddableEvent {
+  id: string;
+  title: string;
+  summaryShort: string | null;
+}
+
+interface StoredEmbedding {
+  event_id: string;
+  model: string;
+  text_hash: string;
+  embedding: number[];
+}
+
+/**
+ * Embeddings for the given events, computing and storing any that are
+ * missing or stale in a single provider call
+ */
+export async function getEventEmbeddings(
+  events: EmbeddableEvent[],
+  provider: EmbeddingProvider
+): Promise<Map<string, number[]>> {
+  const result = new Map<string, number[]>();
+  if (!events.length) return result;
+
+  const ids = events.map((e) => e.id);
+  const stored = await prisma.$queryRaw<StoredEmbedding[]>`
+    SELECT event_id::text, model, text_hash, embedding
+    FROM event_embeddings
+    WHERE event_id = ANY(${ids}::bigint[])
+  `;
+  const byId = new Map<string, StoredEmbedding>(stored.map((row: StoredEmbedding) => [row.event_id, row]));
+
+  const missing: Array<{ event: EmbeddableEvent; text: string; hash: string }> = [];
+  for (const event of events) {
+    const text = embeddingText(event);
+    const hash = textHash(text);
+    const row = byId.get(event.id);
+
+    if (row && row.model === provider.model && row.text_hash === hash) {
+      result.set(event.id, row.embedding.map(Number));
+    } else {
+      missing.push({ event, text, hash });
+    }
+  }
+
+  if (!missing.length) return result;
+
+  const vectors = await provider.embed(missing.map((m) => m.text));
+
+  for (const [i, { event, hash }] of missing.entries()) {
+    const vector = vectors[i];
+    result.set(event.id, vector);
+
+    await prisma.$executeRaw`
+      INSERT INTO event_embeddings (event_id, provider, model, dimensions, embedding, text_hash, created_at, updated_at)
+      VALUES (${event.id}::bigint, ${provider.name}, ${provider.model}, ${vector.length}, ${vector}::real[], ${hash}, NOW(), NOW())
+      ON CONFLICT (event_id) DO UPDATE SET
+        provider = EXCLUDED.provider,
+        model = EXCLUDED.model,
+        dimensions = EXCLUDED.dimensions,
+        embedding = EXCLUDED.embedding,
+        text_hash = EXCLUDED.text_hash,
+        updated_at = NOW()
+    `;
+  }
+
+  return result;
+}
+
+function textHash(text: string): string {
+  return createHash("sha256").update(text).digest("hex");
+}
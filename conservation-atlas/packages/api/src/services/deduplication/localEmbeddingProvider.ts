@@ -0,0 +1,73 @@
+// packages/api/src/services/deduplication/localEmbeddingProvider.ts
+//
+// Deterministic, offline embedding provider for tests and local runs.
+// Hashes words and character trigrams into a fixed-size signed vector
+// (the "hashing trick"), so the same text always yields the same vector and
+// no network or API key is needed. Trigrams give some robustness to
+// inflection ("burns"/"burning"); it does not bridge languages.
+
+import type { EmbeddingProvider } from "./embeddingProvider";
+
+const DEFAULT_DIMENSIONS = 256;
+
+// Word features count more than the many overlapping trigrams
+const WORD_WEIGHT = 2;
+const TRIGRAM_WEIGHT = 1;
+
+export class LocalEmbeddingProvider implements EmbeddingProvider {
+  readonly name = "local" as const;
+  readonly model: string;
+
+  constructor(readonly dimensions: number = DEFAULT_DIMENSIONS) {
+    this.model = `local-hash-${dimensions}`;
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    return texts.map((text) => this.embedOne(text));
+  }
+
+  private embedOne(text: string): number[] {
+    const vector = new Array<number>(this.dimensions).fill(0);
+
+    for (const word of normalize(text).split(" ").filter((w) => w.length > 2)) {
+      addFeature(vector, `w:${word}`, WORD_WEIGHT);
+
+      const padded = ` ${word} `;
+      for (let i = 0; i + 3 <= padded.length; i++) {
+        addFeature(vector, `t:${padded.slice(i, i + 3)}`, TRIGRAM_WEIGHT);
+      }
+    }
+
+    const norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0));
+    return norm === 0 ? vector : vector.map((v) => v / norm);
+  }
+}
+
+// ============================================
+// Utility Functions
+// ============================================
+
+function normalize(text: string): string {
+  return text
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}]+/gu, " ")
+    .trim();
+}
+
+function addFeature(vector: number[], feature: string, weight: number) {
+  const hash = fnv1a(feature);
+  // Low bit picks the sign so collisions tend to cancel out
+  const sign = hash & 1 ? 1 : -1;
+  vector[(hash >>> 1) % vector.length] += sign * weight;
+}
+
+function fnv1a(s: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < s.length; i++) {
+    hash ^= s.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
@@ -0,0 +1,43 @@
+// packages/api/src/services/deduplication/openaiEmbeddingProvider.ts
+
+import { OpenAI } from "openai";
+
+import type { EmbeddingProvider } from "./embeddingProvider";
+
+// Output sizes of the OpenAI embedding models we use
+const MODEL_DIMENSIONS: Record<string, number> = {
+  "text-embedding-3-small": 1536,
+  "text-embedding-3-large": 3072,
+  "text-embedding-ada-002": 1536,
+};
+
+/**
+ * OpenAI embeddings (multilingual; vectors are already unit length)
+ */
+export class OpenAIEmbeddingProvider implements EmbeddingProvider {
+  readonly name = "openai" as const;
+  readonly dimensions: number;
+  private readonly client: OpenAI;
+
+  constructor(apiKey: string, readonly model: string) {
+    if (!apiKey) throw new Error("Missing env var: OPENAI_API_KEY");
+    this.client = new OpenAI({ apiKey });
+    this.dimensions = MODEL_DIMENSIONS[model] ?? 1536;
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    if (!texts.length) return [];
+
+    const response = await this.client.embeddings.create({
+      model: this.model,
+      input: texts,
+    });
+
+    // The API may return items out of order; index is authoritative
+    const vectors: number[][] = new Array(texts.length);
+    for (const item of response.data) {
+      vectors[item.index] = item.embedding;
+    }
+    return vectors;
+  }
+}
@@ -0,0 +1,164 @@
+// packages/api/src/services/deduplication/reconcileFields.test.ts
+
+import { readFileSync } from "node:fs";
+import { join } from "node:path";
+
+import { Prisma, type Event } from "@prisma/client";
+
+import { reconcileFields, reconcileMerge, type FieldProvenance, type FieldSupport } from "./reconcileFields";
+
+const NOW = new Date("2026-10-19T12:00:00Z");
+const SCHEMA_SQL = readFileSync(join(__dirname, "../../../../shared/db/schema.sql"), "utf8");
+
+function event(overrides: Partial<Event> = {}): Event {
+  return {
+    id: "1",
+    title: "Oil spill in the delta",
+    summaryShort: "Oil reached the mangroves.",
+    summaryDetailed: null,
+    latitude: new Prisma.Decimal(4.75),
+    longitude: new Prisma.Decimal(7.0),
+    country: "Nigeria",
+    admin1: "Rivers",
+    admin2: null,
+    locationName: "Port Harcourt",
+    confidenceExtraction: new Prisma.Decimal(0.8),
+    confidenceGeolocation: new Prisma.Decimal(0.6),
+    geoPrecision: "approximate",
+    startDate: new Date("2026-10-01T00:00:00Z"),
+    endDate: null,
+    fieldProvenance: null,
+    ...overrides,
+  } as Event;
+}
+
+/**
+ * Column names of a schema.sql table
+ */
+function tableColumns(table: string): string[] {
+  const body = SCHEMA_SQL.match(new RegExp(`CREATE TABLE IF NOT EXISTS ${table} \\(([\\s\\S]*?)\\n\\);`))![1];
+  return body
+    .split("\n")
+    .map((line) => line.trim().split(/\s+/)[0])
+    .filter((word) => /^[a-z_]+$/.test(word) && !["unique", "primary", "check", "constraint"].includes(word));
+}
+
+function support(overrides: Partial<FieldSupport> = {}): FieldSupport {
+  return {
+    eventId: "1",
+    tier: "medium",
+    qualityScore: 0.6,
+    confidenceExtraction: 0.8,
+    precision: "approximate",
+    confidenceGeolocation: 0.6,
+    hasCoordinates: true,
+    adminDetail: 1,
+    ...overrides,
+  };
+}
+
+describe("reconcileFields", () => {
+  it("takes text from the better-supported source and records what it replaced", () => {
+    const merged = event({ id: "2", title: "Pipeline rupture spills crude into Bonny River mangroves" });
+
+    const result = reconcileFields(event(), support(), merged, support({ eventId: "2", tier: "high", qualityScore: 0.9 }), NOW);
+
+    expect(result.data.title).toBe("Pipeline rupture spills crude into Bonny River mangroves");
+    expect(result.provenance.title).toMatchObject({ eventId: "2", rule: "quality", updatedAt: NOW.toISOString() });
+    expect(result.changes.title).toEqual({ before: "Oil spill in the delta", after: merged.title, beforeProvenance: null });
+  });
+
+  it("keeps the primary's values on a tie and marks them extracted", () => {
+    const result = reconcileFields(event(), support(), event({ id: "2", title: "Other title" }), support({ eventId: "2" }), NOW);
+
+    expect(result.data).toEqual({});
+    expect(result.provenance.title).toMatchObject({ eventId: "1", rule: "extracted" });
+    expect(result.changes).toEqual({});
+  });
+
+  it("moves the whole location together when the merged event is better geolocated", () => {
+    const merged = event({ id: "2", latitude: new Prisma.Decimal(4.43), longitude: new Prisma.Decimal(7.17), admin2: "Bonny", locationName: "Bonny Island", geoPrecision: "exact" });
+
+    const result = reconcileFields(event(), support(), merged, support({ eventId: "2", precision: "exact", adminDetail: 2 }), NOW);
+
+    expect(result.data).toMatchObject({ latitude: merged.latitude, admin2: "Bonny", locationName: "Bonny Island", geoPrecision: "exact" });
+    expect(result.provenance.location).toMatchObject({ eventId: "2", rule: "geolocation" });
+    expect(result.changes.location?.before).toMatchObject({ admin2: null, locationName: "Port Harcourt" });
+  });
+
+  it("widens the dates to span both events", () => {
+    const merged = event({ id: "2", startDate: new Date("2026-09-28T00:00:00Z"), endDate: new Date("2026-10-05T00:00:00Z") });
+
+    const { data, provenance } = reconcileFields(event(), support(), merged, support({ eventId: "2" }), NOW);
+
+    expect(data).toEqual({ startDate: merged.startDate, endDate: merged.endDate });
+    expect(provenance.startDate).toMatchObject({ eventId: "2", rule: "span", support: null });
+  });
+
+  it("compares against the support recorded for an earlier winner", () => {
+    const fieldProvenance: FieldProvenance = {
+      title: { eventId: "9", rule: "quality", support: support({ eventId: "9", tier: "high", qualityScore: 0.95 }), updatedAt: NOW.toISOString() },
+    };
+
+    const result = reconcileFields(
+      event({ fieldProvenance: fieldProvenance as Prisma.JsonObject }),
+      support({ tier: "low" }),
+      event({ id: "2", title: "A better-sourced title" }),
+      support({ eventId: "2", tier: "high", qualityScore: 0.9 }),
+      NOW
+    );
+
+    expect(result.data.title).toBeUndefined();
+    expect(result.provenance.title?.eventId).toBe("9");
+  });
+});
+
+describe("reconcileMerge", () => {
+  it("supports each side with its own sources", async () => {
+    const rows = new Map([
+      ["1", event({ title: "Spill", fieldProvenance: null })],
+      ["2", event({ id: "2", title: "Shell pipeline spill confirmed by regulator" })],
+    ]);
+    const sources: Record<string, Array<Record<string, unknown>>> = {
+      "1": [{ source_type: "social", publisher: null, credibility_score: null }],
+      "2": [{ source_type: "government", publisher: "NOSDRA", credibility_score: 0.9 }],
+    };
+    const tx = {
+      event: { findUnique: jest.fn(async ({ where }: { where: { id: string } }) => rows.get(where.id) ?? null) },
+      $queryRaw: jest.fn(async (_strings: TemplateStringsArray, eventId: string) => sources[eventId]),
+    } as unknown as Prisma.TransactionClient;
+
+    const result = await reconcileMerge(tx, "1", "2");
+
+    expect(result.data.title).toBe("Shell pipeline spill confirmed by regulator");
+    expect(result.provenance.title).toMatchObject({ eventId: "2", rule: "quality", support: { eventId: "2" } });
+  });
+
+  it("reads source quality from sources through event_sources, with columns the schema has", async () => {
+    const queryRaw = jest.fn(async (_strings: TemplateStringsArray, ..._values: unknown[]) => []);
+    const tx = {
+      event: { findUnique: jest.fn(async ({ where }: { where: { id: string } }) => event({ id: where.id })) },
+      $queryRaw: queryRaw,
+    } as unknown as Prisma.TransactionClient;
+
+    await reconcileMerge(tx, "1", "2");
+
+    const sql = queryRaw.mock.calls[0][0].join("?");
+    expect(sql).toContain("FROM event_sources es");
+    expect(sql).toContain("JOIN sources s ON s.id = es.source_id");
+    expect(queryRaw.mock.calls.map((call) => call[1])).toEqual(["1", "2"]);
+    for (const [alias, table] of [["s", "sources"], ["es", "event_sources"]]) {
+      const used = [...sql.matchAll(new RegExp(`\\b${alias}\\.(\\w+)`, "g"))].map((m) => m[1]);
+      expect(used.length).toBeGreaterThan(0);
+      expect(tableColumns(table)).toEqual(expect.arrayContaining(used));
+    }
+  });
+
+  it("fails for a missing event", async () => {
+    const tx = {
+      event: { findUnique: jest.fn(async () => null) },
+    } as unknown as Prisma.TransactionClient;
+
+    await expect(reconcileMerge(tx, "1", "2")).rejects.toThrow("Cannot reconcile missing event: 1");
+  });
+});
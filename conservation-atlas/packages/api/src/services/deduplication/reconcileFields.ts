@@ -0,0 +1,281 @@
+// packages/api/src/services/deduplication/reconcileFields.ts
+//
+// Field-level reconciliation when an event is merged into a primary.
+// Each field is taken from the best-supported contributor instead of always
+// keeping the primary's first extraction:
+// - title / summaries: source quality tier, then score, then extraction confidence
+// - location (coordinates, admin fields, place name as one unit so they
+//   never mix): coordinates present, geometry precision, geolocation
+//   confidence, admin detail, then source quality
+// - start / end dates: widened to span every contributor
+// Ties keep the primary's value. The winner of every field is recorded in
+// events.field_provenance, and what a merge changed goes on its
+// event_merges row so unmergeEvent can put it back.
+
+import type { Event, Prisma } from "@prisma/client";
+
+import { getSourceQuality, type SourceQualityResult } from "../../utils/sourceQuality";
+
+// ============================================
+// Types
+// ============================================
+const TEXT_FIELDS = ["title", "summaryShort", "summaryDetailed"] as const;
+const LOCATION_FIELDS = [
+  "latitude",
+  "longitude",
+  "country",
+  "admin1",
+  "admin2",
+  "locationName",
+  "confidenceGeolocation",
+  "geoPrecision",
+] as const;
+
+type TextField = (typeof TEXT_FIELDS)[number];
+export type ProvenanceKey = TextField | "location" | "startDate" | "endDate";
+
+/**
+ * What backs one contributor's values
+ */
+export interface FieldSupport {
+  eventId: string;
+  tier: SourceQualityResult["tier"];
+  qualityScore: number;
+  confidenceExtraction: number;
+  precision: string | null;
+  confidenceGeolocation: number | null;
+  hasCoordinates: boolean;
+  /** 0 = country only, 1 = admin1, 2 = admin2 */
+  adminDetail: number;
+}
+
+export interface ProvenanceEntry {
+  eventId: string;
+  rule: "extracted" | "quality" | "geolocation" | "span";
+  /** null for span fields (they come from whichever contributor reaches furthest) */
+  support: FieldSupport | null;
+  updatedAt: string;
+}
+
+export type FieldProvenance = Partial<Record<ProvenanceKey, ProvenanceEntry>>;
+
+export interface FieldChange {
+  before: unknown;
+  after: unknown;
+  beforeProvenance: ProvenanceEntry | null;
+}
+
+export type FieldChanges = Partial<Record<ProvenanceKey, FieldChange>>;
+
+export interface ReconcileResult {
+  /** Prisma update data for the primary (only fields that change) */
+  data: Record<string, unknown>;
+  provenance: FieldProvenance;
+  changes: FieldChanges;
+}
+
+const TIER_RANK: Record<SourceQualityResult["tier"], number> = { high: 3, medium: 2, low: 1 };
+const PRECISION_RANK: Record<string, number> = { exact: 3, approximate: 2, centroid: 1, unknown: 0 };
+
+// ============================================
+// Main Entry
+// ============================================
+
+/**
+ * Reconcile `mergedId` into `primaryId`. Runs inside the merge transaction
+ * before sources move, so each side is supported by its own sources.
+ */
+export async function reconcileMerge(tx: Prisma.TransactionClient, primaryId: string, mergedId: string): Promise<ReconcileResult> {
+  const [primary, merged] = await Promise.all([
+    tx.event.findUnique({ where: { id: primaryId } }),
+    tx.event.findUnique({ where: { id: mergedId } }),
+  ]);
+  if (!primary || !merged) {
+    throw new Error(`Cannot reconcile missing event: ${!primary ? primaryId : mergedId}`);
+  }
+
+  const [primarySupport, mergedSupport] = await Promise.all([
+    loadSupport(tx, primary),
+    loadSupport(tx, merged),
+  ]);
+
+  return reconcileFields(primary, primarySupport, merged, mergedSupport);
+}
+
+/**
+ * Pure reconciliation of two event rows. `primarySupport` only backs
+ * fields without a provenance entry yet (events merged before
+ * reconciliation existed, or the first merge into a primary).
+ */
+export function reconcileFields(
+  primary: Event,
+  primarySupport: FieldSupport,
+  merged: Event,
+  mergedSupport: FieldSupport,
+  now: Date = new Date()
+): ReconcileResult {
+  const existing = (primary.fieldProvenance as FieldProvenance | null) ?? {};
+  const provenance: FieldProvenance = { ...existing };
+  const changes: FieldChanges = {};
+  const data: Record<string, unknown> = {};
+
+  const entry = (eventId: string, rule: ProvenanceEntry["rule"], support: FieldSupport | null): ProvenanceEntry => ({
+    eventId,
+    rule,
+    support,
+    updatedAt: now.toISOString(),
+  });
+
+  const take = (key: ProvenanceKey, before: unknown, after: unknown, next: ProvenanceEntry) => {
+    changes[key] = { before, after, beforeProvenance: existing[key] ?? null };
+    provenance[key] = next;
+  };
+
+  // 1. Text fields
+  for (const field of TEXT_FIELDS) {
+    const current = primary[field];
+    const incoming = merged[field];
+    const currentSupport = existing[field]?.support ?? primarySupport;
+
+    const better = !isBlank(incoming) && (isBlank(current) || compareQuality(mergedSupport, currentSupport) > 0);
+    if (better && incoming !== current) {
+      data[field] = incoming;
+      take(field, current, incoming, entry(merged.id, "quality", mergedSupport));
+    } else if (!existing[field]) {
+      provenance[field] = entry(primary.id, "extracted", primarySupport);
+    }
+  }
+
+  // 2. Location, as one unit
+  const currentLocationSupport = existing.location?.support ?? primarySupport;
+  if (compareGeo(mergedSupport, currentLocationSupport) > 0) {
+    const before = pick(primary, LOCATION_FIELDS);
+    const after = pick(merged, LOCATION_FIELDS);
+    Object.assign(data, after);
+    take("location", before, after, entry(merged.id, "geolocation", mergedSupport));
+  } else if (!existing.location) {
+    provenance.location = entry(primary.id, "extracted", primarySupport);
+  }
+
+  // 3. Dates span every contributor
+  const spans: Array<["startDate" | "endDate", (a: Date, b: Date) => boolean]> = [
+    ["startDate", (incoming, current) => incoming < current],
+    ["endDate", (incoming, current) => incoming > current],
+  ];
+  for (const [field, widens] of spans) {
+    const current: Date | null = primary[field] ?? null;
+    const incoming: Date | null = merged[field] ?? null;
+
+    if (incoming && (!current || widens(incoming, current))) {
+      data[field] = incoming;
+      take(field, current, incoming, entry(merged.id, "span", null));
+    } else if (!existing[field] && current) {
+      provenance[field] = entry(primary.id, "extracted", null);
+    }
+  }
+
+  return { data, provenance, changes };
+}
+
+// ============================================
+// Ranking
+// ============================================
+
+/**
+ * > 0 when `a` is the better-supported text source
+ */
+function compareQuality(a: FieldSupport, b: FieldSupport): number {
+  return compareTuples(
+    [TIER_RANK[a.tier], a.qualityScore, a.confidenceExtraction],
+    [TIER_RANK[b.tier], b.qualityScore, b.confidenceExtraction]
+  );
+}
+
+/**
+ * > 0 when `a` is the better-geolocated source
+ */
+function compareGeo(a: FieldSupport, b: FieldSupport): number {
+  const key = (s: FieldSupport) => [
+    s.hasCoordinates ? 1 : 0,
+    PRECISION_RANK[s.precision ?? "unknown"] ?? 0,
+    s.confidenceGeolocation ?? 0,
+    s.adminDetail,
+    TIER_RANK[s.tier],
+    s.qualityScore,
+  ];
+  return compareTuples(key(a), key(b));
+}
+
+function compareTuples(a: number[], b: number[]): number {
+  for (let i = 0; i < a.length; i++) {
+    if (a[i] !== b[i]) return a[i] - b[i];
+  }
+  return 0;
+}
+
+// ============================================
+// Helpers
+// ============================================
+
+/**
+ * Best quality among the event's own sources. event_sources only links
+ * events to sources; the quality signals live on sources.
+ */
+async function loadSupport(tx: Prisma.TransactionClient, event: Event): Promise<FieldSupport> {
+  const sources = await tx.$queryRaw<Array<{ source_type: string | null; publisher: string | null; credibility_score: number | null }>>`
+    SELECT s.source_type, s.publisher, s.credibility_score
+    FROM event_sources es
+    JOIN sources s ON s.id = es.source_id
+    WHERE es.event_id = ${event.id}::bigint
+  `;
+
+  const qualities = sources.map((s) =>
+    getSourceQuality({
+      sourceType: s.source_type ?? "unknown",
+      publisher: s.publisher,
+      credibilityScore: s.credibility_score,
+    })
+  );
+  const best: SourceQualityResult = qualities.length
+    ? qualities.reduce((a, b) => (b.score > a.score ? b : a))
+    : getSourceQuality({ sourceType: "unknown", publisher: null, credibilityScore: null });
+
+  return {
+    eventId: event.id,
+    tier: best.tier,
+    qualityScore: best.score,
+    confidenceExtraction: toNumber(event.confidenceExtraction) ?? 0.5,
+    precision: event.geoPrecision ?? null,
+    confidenceGeolocation: toNumber(event.confidenceGeolocation),
+    hasCoordinates: event.latitude !== null && event.longitude !== null,
+    adminDetail: event.admin2 ? 2 : event.admin1 ? 1 : 0,
+  };
+}
+
+/**
+ * Rewrite geom_point from the event's latitude/longitude (NULL without
+ * both) after its location unit changed. Spatial queries, GEO_JOIN (through
+ * geom_extent) and the place brief read geom_point, not the columns.
+ */
+export async function syncGeomPoint(tx: Prisma.TransactionClient, eventId: string): Promise<void> {
+  await tx.$executeRaw`
+    UPDATE events
+    SET geom_point = CASE
+      WHEN latitude IS NOT NULL AND longitude IS NOT NULL
+        THEN ST_SetSRID(ST_MakePoint(longitude::double precision, latitude::double precision), 4326)
+    END
+    WHERE id = ${eventId}::bigint
+  `;
+}
+
+function pick(event: Event, fields: readonly (keyof Event)[]): Record<string, unknown> {
+  return Object.fromEntries(fields.map((f) => [f, event[f] ?? null]));
+}
+
+function isBlank(value: unknown): boolean {
+  return value === null || value === undefined || (typeof value === "string" && value.trim() === "");
+}
+
+function toNumber(value: Prisma.Decimal | null): number | null {
+  return value === null || value === undefined ? null : parseFloat(value.toString());
+}
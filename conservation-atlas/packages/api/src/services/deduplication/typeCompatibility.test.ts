@@ -0,0 +1,51 @@
+// packages/api/src/services/deduplication/typeCompatibility.test.ts
+
+type Module = typeof import("./typeCompatibility");
+
+/**
+ * Overrides are read at import time, so each scenario loads a fresh copy
+ */
+async function loadWith(overrides?: string): Promise<Module> {
+  jest.resetModules();
+  if (overrides === undefined) delete process.env.CLUSTER_TYPE_COMPATIBILITY_JSON;
+  else process.env.CLUSTER_TYPE_COMPATIBILITY_JSON = overrides;
+  return import("./typeCompatibility");
+}
+
+afterAll(() => {
+  delete process.env.CLUSTER_TYPE_COMPATIBILITY_JSON;
+});
+
+describe("typeCompatibility", () => {
+  it("matches equal types fully and related types with a penalty, in either order", async () => {
+    const { typeCompatibility } = await loadWith();
+
+    expect(typeCompatibility("wildfire", "wildfire")).toBe(1);
+    expect(typeCompatibility("wildfire", "habitat_loss")).toBe(0.6);
+    expect(typeCompatibility("habitat_loss", "wildfire")).toBe(0.6);
+    expect(typeCompatibility("oil_spill", "poaching")).toBe(0);
+  });
+
+  it("applies overrides, where 0 removes a default pair", async () => {
+    const { typeCompatibility } = await loadWith('{"poaching|illegal_logging": 0.3, "habitat_loss|wildfire": 0}');
+
+    expect(typeCompatibility("illegal_logging", "poaching")).toBe(0.3);
+    expect(typeCompatibility("wildfire", "habitat_loss")).toBe(0);
+  });
+
+  it("ignores malformed overrides and out-of-range entries", async () => {
+    expect((await loadWith("{not json")).typeCompatibility("wildfire", "habitat_loss")).toBe(0.6);
+
+    const { typeCompatibility } = await loadWith('{"wildfire|habitat_loss": 1.5, "wildfire": 0.5}');
+    expect(typeCompatibility("wildfire", "habitat_loss")).toBe(0.6);
+  });
+});
+
+describe("compatibleTypes", () => {
+  it("lists the type itself first, then every related type", async () => {
+    const { compatibleTypes } = await loadWith();
+
+    expect(compatibleTypes("oil_spill")).toEqual(["oil_spill", "pollution"]);
+    expect(compatibleTypes("species_discovery")).toEqual(["species_discovery"]);
+  });
+});
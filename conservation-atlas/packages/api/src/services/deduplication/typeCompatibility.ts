@@ -0,0 +1,89 @@
+// packages/api/src/services/deduplication/typeCompatibility.ts
+//
+// Which event types may describe the same incident. Outlets classify a
+// compound incident differently (a fire reported as wildfire by one and
+// habitat_loss by another), so clustering compares related types with a
+// penalty instead of requiring equality. The matrix is symmetric; pairs
+// not listed never match. Override or extend with
+// CLUSTER_TYPE_COMPATIBILITY_JSON, e.g.
+//   {"wildfire|climate_impact": 0.5, "poaching|illegal_logging": 0}
+
+import { logger } from "../../utils/logger";
+
+// 1 = same incident type; lower values are multiplied into the type feature
+const DEFAULT_COMPATIBILITY: Record<string, number> = {
+  "wildfire|habitat_loss": 0.6,
+  "wildfire|deforestation": 0.6,
+  "wildfire|climate_impact": 0.4,
+  "deforestation|illegal_logging": 0.8,
+  "deforestation|habitat_loss": 0.7,
+  "illegal_logging|habitat_loss": 0.5,
+  "oil_spill|pollution": 0.8,
+  "pollution|habitat_loss": 0.4,
+  "coral_bleaching|climate_impact": 0.7,
+  "disease_outbreak|invasive_species": 0.4,
+  "invasive_species|habitat_loss": 0.4,
+  "restoration|conservation_win": 0.7,
+  "policy_change|conservation_win": 0.5,
+};
+
+const COMPATIBILITY = buildMatrix([DEFAULT_COMPATIBILITY, loadCompatibilityOverrides()]);
+
+/**
+ * Compatibility of two event types (1 when equal, 0 when unrelated)
+ */
+export function typeCompatibility(a: string, b: string): number {
+  if (a === b) return 1;
+  return COMPATIBILITY.get(a)?.get(b) ?? 0;
+}
+
+/**
+ * Types that can cluster with `type`, including itself
+ */
+export function compatibleTypes(type: string): string[] {
+  const related = COMPATIBILITY.get(type);
+  return [type, ...(related ? [...related.keys()] : [])];
+}
+
+// ============================================
+// Helpers
+// ============================================
+
+/**
+ * Later tables win; a value of 0 removes a pair (in either key order)
+ */
+function buildMatrix(tables: Array<Record<string, number>>): Map<string, Map<string, number>> {
+  const matrix = new Map<string, Map<string, number>>();
+
+  const set = (a: string, b: string, value: number) => {
+    if (!matrix.has(a)) matrix.set(a, new Map());
+    if (value > 0) matrix.get(a)!.set(b, value);
+    else matrix.get(a)!.delete(b);
+  };
+
+  for (const pairs of tables) {
+    for (const [key, value] of Object.entries(pairs)) {
+      const [a, b] = key.split("|");
+      if (!a || !b || a === b || typeof value !== "number" || !(value >= 0 && value <= 1)) {
+        logger.warn({ key, value }, "Ignoring invalid event type compatibility entry");
+        continue;
+      }
+      set(a, b, value);
+      set(b, a, value);
+    }
+  }
+
+  return matrix;
+}
+
+function loadCompatibilityOverrides(): Record<string, number> {
+  const raw = process.env.CLUSTER_TYPE_COMPATIBILITY_JSON;
+  if (!raw) return {};
+
+  try {
+    return JSON.parse(raw);
+  } catch (err) {
+    logger.error({ error: (err as Error).message }, "Invalid CLUSTER_TYPE_COMPATIBILITY_JSON; using defaults");
+    return {};
+  }
+}
@@ -0,0 +1,177 @@
+// packages/api/src/services/deduplication/unmergeEvent.test.ts
+
+import { CLUSTER_CONFIG } from "./eventCluster";
+import { UnmergeError, unmergeEvent } from "./unmergeEvent";
+
+type Statement = { sql: string; values: unknown[] };
+type EventRow = {
+  id: string;
+  mergedIntoId: string | null;
+  sourceCount: number;
+  severityLevel: number;
+  confidenceExtraction: number;
+  fieldProvenance?: Record<string, unknown> | null;
+};
+
+const mockDb = {
+  events: new Map<string, EventRow>(),
+  mergeRow: null as Record<string, unknown> | null,
+  primaryBefore: null as Record<string, unknown> | null,
+  primarySourceCount: 0,
+  statements: [] as Statement[],
+  updates: [] as Array<{ where: { id: string }; data: Record<string, unknown> }>,
+};
+
+jest.mock("../../db", () => {
+  const findUnique = jest.fn(async ({ where }: { where: { id: string } }) => mockDb.events.get(where.id) ?? null);
+  const tx = {
+    $queryRaw: jest.fn(async (strings: TemplateStringsArray, ...values: unknown[]) => {
+      const sql = strings.join("?");
+      mockDb.statements.push({ sql, values });
+      if (sql.includes("moved_source_ids")) return mockDb.mergeRow ? [mockDb.mergeRow] : [];
+      if (sql.includes("SELECT primary_before")) return [{ primary_before: mockDb.primaryBefore }];
+      return [];
+    }),
+    $executeRaw: jest.fn(async (strings: TemplateStringsArray, ...values: unknown[]) => {
+      mockDb.statements.push({ sql: strings.join("?"), values });
+      return 1;
+    }),
+    event: {
+      findUnique,
+      findUniqueOrThrow: findUnique,
+      findMany: jest.fn(async ({ where }: { where: { mergedIntoId: string; id: { not: string } } }) =>
+        [...mockDb.events.values()].filter((e) => e.mergedIntoId === where.mergedIntoId && e.id !== where.id.not)
+      ),
+      update: jest.fn(async (args: { where: { id: string }; data: Record<string, unknown> }) => {
+        mockDb.updates.push(args);
+        return {};
+      }),
+    },
+    eventSource: {
+      count: jest.fn(async () => mockDb.primarySourceCount),
+    },
+  };
+  return {
+    prisma: {
+      ...tx,
+      $transaction: jest.fn(async (fn: (client: typeof tx) => Promise<unknown>) => fn(tx)),
+    },
+  };
+});
+
+jest.mock("../queue/sqsService", () => ({
+  enqueueJob: jest.fn(async () => "message-id"),
+}));
+
+jest.mock("./clusterProfiles", () => ({
+  ...jest.requireActual("./clusterProfiles"),
+  loadClusterProfile: jest.fn(),
+}));
+
+const { loadClusterProfile, ClusterProfileError } = jest.requireMock("./clusterProfiles");
+const { enqueueJob } = jest.requireMock("../queue/sqsService");
+
+function primaryUpdate(): Record<string, unknown> {
+  return mockDb.updates.find((u) => u.where.id === "5" && "sourceCount" in u.data)!.data;
+}
+
+beforeEach(() => {
+  // 5 <- 9 (being split off) and 5 <- 11 (stays merged)
+  mockDb.events = new Map([
+    ["5", { id: "5", mergedIntoId: null, sourceCount: 3, severityLevel: 3, confidenceExtraction: 0.9 }],
+    ["9", { id: "9", mergedIntoId: "5", sourceCount: 1, severityLevel: 5, confidenceExtraction: 0.6 }],
+    ["11", { id: "11", mergedIntoId: "5", sourceCount: 1, severityLevel: 3, confidenceExtraction: 0.7 }],
+  ]);
+  mockDb.mergeRow = {
+    id: "40",
+    similarity_score: 0.74,
+    moved_source_ids: ["31"],
+    field_changes: null,
+    thresholds: { ...CLUSTER_CONFIG, SOURCE_CONFIDENCE_BOOST: 0.1 },
+    cluster_profile: "loose",
+  };
+  mockDb.primaryBefore = { confidenceExtraction: 0.7, sourceCount: 1, severityLevel: 2 };
+  mockDb.primarySourceCount = 2;
+  mockDb.statements = [];
+  mockDb.updates = [];
+  loadClusterProfile.mockReset();
+  enqueueJob.mockClear();
+});
+
+describe("unmergeEvent", () => {
+  it("moves the sources back and reactivates the merged event", async () => {
+    const result = await unmergeEvent("9", { performedBy: "analyst@example.org", reason: "different rivers" });
+
+    const [move] = mockDb.statements.filter((s) => s.sql.includes("UPDATE event_sources"));
+    expect(move.values).toEqual(["9", "5", ["31"]]);
+    expect(mockDb.updates.find((u) => u.where.id === "9")!.data).toMatchObject({ mergedIntoId: null, status: "active" });
+    expect(result).toMatchObject({ eventId: "9", primaryEventId: "5", restoredSourceIds: ["31"] });
+  });
+
+  it("recomputes the primary with the thresholds stored on the merge", async () => {
+    const { primary } = await unmergeEvent("9");
+
+    // primary_before 0.7 plus one remaining extra source at the stored boost of 0.1
+    expect(primary.confidenceExtraction).toBeCloseTo(0.8);
+    expect(primary).toMatchObject({ sourceCount: 2, severityLevel: 3 });
+    expect(primaryUpdate()).toMatchObject({ sourceCount: 2, severityLevel: 3 });
+    expect(loadClusterProfile).not.toHaveBeenCalled();
+  });
+
+  it("falls back to the merge's named profile when no thresholds were stored", async () => {
+    mockDb.mergeRow = { ...mockDb.mergeRow, thresholds: null };
+    loadClusterProfile.mockResolvedValue({ name: "loose", config: { ...CLUSTER_CONFIG, SOURCE_CONFIDENCE_BOOST: 0.2 } });
+
+    const { primary } = await unmergeEvent("9");
+
+    expect(loadClusterProfile).toHaveBeenCalledWith("loose");
+    expect(primary.confidenceExtraction).toBeCloseTo(0.9);
+  });
+
+  it("uses the default config when the merge's profile no longer exists", async () => {
+    mockDb.mergeRow = { ...mockDb.mergeRow, thresholds: null };
+    loadClusterProfile.mockRejectedValue(new ClusterProfileError("loose", "not_found", "Unknown cluster profile: loose"));
+
+    const { primary } = await unmergeEvent("9");
+
+    expect(primary.confidenceExtraction).toBeCloseTo(0.7 + CLUSTER_CONFIG.SOURCE_CONFIDENCE_BOOST);
+  });
+
+  it("closes the merge row and logs the reversal", async () => {
+    await unmergeEvent("9", { performedBy: "analyst@example.org", reason: "different rivers" });
+
+    expect(mockDb.statements.find((s) => s.sql.includes("SET reverted_at"))!.values).toEqual(["40"]);
+    const unmerge = mockDb.statements.find((s) => s.sql.includes("INSERT INTO event_merges"))!;
+    expect(unmerge.values).toEqual(["5", "9", "unmerge", 0.74, "different rivers", '["31"]', "analyst@example.org"]);
+  });
+
+  it("puts back the primary's location with its geom_point and re-queues GEO_JOIN", async () => {
+    const before = { latitude: 4.75, longitude: 7.0, country: "Nigeria", admin1: "Rivers", admin2: null };
+    mockDb.events.get("5")!.fieldProvenance = { location: { eventId: "9", rule: "geolocation", support: null, updatedAt: "2026-10-02T00:00:00Z" } };
+    mockDb.mergeRow = {
+      ...mockDb.mergeRow,
+      field_changes: { location: { before, after: { ...before, latitude: 5.1 }, beforeProvenance: null } },
+    };
+
+    const { restoredFields } = await unmergeEvent("9");
+
+    expect(restoredFields).toEqual(["location"]);
+    expect(mockDb.updates.find((u) => u.where.id === "5" && "fieldProvenance" in u.data)!.data).toMatchObject(before);
+    const [geom] = mockDb.statements.filter((s) => s.sql.includes("SET geom_point"));
+    expect(geom.sql).toContain("ST_SetSRID(ST_MakePoint(longitude::double precision, latitude::double precision), 4326)");
+    expect(geom.values).toEqual(["5"]);
+    expect(enqueueJob).toHaveBeenCalledWith("q_geojoin", expect.objectContaining({ job_type: "GEO_JOIN", payload: { event_id: 5 } }));
+  });
+
+  it("leaves geom_point and GEO_JOIN alone when the location is not restored", async () => {
+    await unmergeEvent("9");
+
+    expect(mockDb.statements.some((s) => s.sql.includes("SET geom_point"))).toBe(false);
+    expect(enqueueJob).not.toHaveBeenCalled();
+  });
+
+  it("refuses an event that is not merged", async () => {
+    await expect(unmergeEvent("5")).rejects.toMatchObject({ code: "not_merged" });
+    await expect(unmergeEvent("404")).rejects.toThrow(UnmergeError);
+  });
+});
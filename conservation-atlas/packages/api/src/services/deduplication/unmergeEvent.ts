@@ -0,0 +1,330 @@
+// packages/api/src/services/deduplication/unmergeEvent.ts
+//
+// Reverses a clustering merge that collapsed two different incidents.
+// The merged event gets its sources and 'active' status back, the primary's
+// confidence, source count and severity are recomputed from what is left in
+// its cluster, fields that reconciliation took from the merged event are put
+// back, and the reversal is logged in event_merges. The pair is then
+// excluded from clustering so a sweep does not merge it again. A restored
+// location rewrites the primary's geom_point and re-queues its GEO_JOIN.
+
+import type { Prisma } from "@prisma/client";
+import type { GeoJoinJobMessage } from "@conservation-atlas/shared/types/queueMessages";
+import { createJobMessage } from "@conservation-atlas/shared/types/queueMessages";
+
+import { prisma } from "../../db";
+import { logger } from "../../utils/logger";
+import { enqueueJob } from "../queue/sqsService";
+import { ClusterProfileError, loadClusterProfile } from "./clusterProfiles";
+import { CLUSTER_CONFIG, type ClusterConfig } from "./eventCluster";
+import { syncGeomPoint, type FieldChange, type FieldChanges, type FieldProvenance, type ProvenanceKey } from "./reconcileFields";
+
+// ============================================
+// Types
+// ============================================
+
+export interface UnmergeOptions {
+  /** Analyst performing the split (stored on the unmerge row) */
+  performedBy?: string | null;
+  reason?: string | null;
+}
+
+export interface UnmergeResult {
+  eventId: string;
+  primaryEventId: string;
+  restoredSourceIds: string[];
+  /** Primary fields reverted to their pre-merge values */
+  restoredFields: ProvenanceKey[];
+  primary: {
+    confidenceExtraction: number;
+    sourceCount: number;
+    severityLevel: number;
+  };
+}
+
+interface MergeRow {
+  id: string;
+  similarity_score: number;
+  moved_source_ids: string[] | null;
+  field_changes: FieldChanges | null;
+  /** CLUSTER_CONFIG snapshot and profile name the merge was made with */
+  thresholds: ClusterConfig | null;
+  cluster_profile: string | null;
+}
+
+interface PrimaryBefore {
+  confidenceExtraction: number;
+  sourceCount: number;
+  severityLevel: number;
+}
+
+export class UnmergeError extends Error {
+  public readonly eventId: string;
+  public readonly code: "not_found" | "not_merged";
+
+  constructor(eventId: string, code: UnmergeError["code"], message: string) {
+    super(message);
+    this.name = "UnmergeError";
+    this.eventId = eventId;
+    this.code = code;
+    Error.captureStackTrace?.(this, UnmergeError);
+  }
+}
+
+// ============================================
+// Main Entry
+// ============================================
+
+/**
+ * Split `eventId` back out of the event it was merged into
+ */
+export async function unmergeEvent(eventId: string, opts: UnmergeOptions = {}): Promise<UnmergeResult> {
+  const event = await prisma.event.findUnique({
+    where: { id: eventId },
+    select: { id: true, mergedIntoId: true, sourceCount: true },
+  });
+
+  if (!event) {
+    throw new UnmergeError(eventId, "not_found", `Event not found: ${eventId}`);
+  }
+  if (!event.mergedIntoId) {
+    throw new UnmergeError(eventId, "not_merged", `Event ${eventId} is not merged into another event`);
+  }
+
+  const primaryEventId: string = event.mergedIntoId;
+
+  const result = await prisma.$transaction(async (tx) => {
+    const [merge] = await tx.$queryRaw<MergeRow[]>`
+      SELECT id::text, similarity_score, moved_source_ids, field_changes, thresholds, cluster_profile
+      FROM event_merges
+      WHERE primary_event_id = ${primaryEventId}
+        AND merged_event_id = ${eventId}
+        AND action = 'merge'
+        AND reverted_at IS NULL
+      ORDER BY merged_at DESC
+      LIMIT 1
+    `;
+
+    // 1. Move the merged event's sources (source ids) back. Merges recorded
+    //    before moved_source_ids existed fall back to the sources it was
+    //    extracted from.
+    const sourceIds = merge?.moved_source_ids ?? (await extractedSourceIds(tx, eventId));
+    if (sourceIds.length) {
+      await tx.$executeRaw`
+        UPDATE event_sources SET event_id = ${eventId}::bigint
+        WHERE event_id = ${primaryEventId}::bigint AND source_id = ANY(${sourceIds}::bigint[])
+      `;
+    }
+
+    // 2. Restore the merged event
+    await tx.event.update({
+      where: { id: eventId },
+      data: {
+        mergedIntoId: null,
+        status: "active",
+        updatedAt: new Date(),
+      },
+    });
+
+    // 3. Recompute the primary from what remains in its cluster, with the
+    //    thresholds the merge was made under
+    const config = await mergeConfig(merge);
+    const primary = await recomputePrimary(tx, primaryEventId, eventId, config);
+    const restoredFields = await restoreReconciledFields(tx, primaryEventId, eventId, merge?.field_changes ?? null);
+
+    // 4. Audit trail: close the merge and record the reversal
+    if (merge) {
+      await tx.$executeRaw`
+        UPDATE event_merges SET reverted_at = NOW() WHERE id = ${merge.id}
+      `;
+    }
+    await tx.$executeRaw`
+      INSERT INTO event_merges (primary_event_id, merged_event_id, action, similarity_score, merge_reason, moved_source_ids, performed_by, merged_at)
+      VALUES (${primaryEventId}, ${eventId}, ${"unmerge"}, ${merge?.similarity_score ?? 0}, ${opts.reason ?? null}, ${JSON.stringify(sourceIds)}::jsonb, ${opts.performedBy ?? null}, NOW())
+    `;
+
+    return { restoredSourceIds: sourceIds, restoredFields, primary };
+  });
+
+  // The primary's protected-area join was computed for the merged location
+  if (result.restoredFields.includes("location")) {
+    await enqueueJob(
+      "q_geojoin",
+      createJobMessage<GeoJoinJobMessage>("GEO_JOIN", { event_id: parseInt(primaryEventId) })
+    );
+  }
+
+  logger.info({
+    eventId,
+    primaryEventId,
+    restoredSources: result.restoredSourceIds.length,
+    restoredFields: result.restoredFields,
+    primary: result.primary,
+    performedBy: opts.performedBy,
+  }, "Event unmerged");
+
+  return {
+    eventId,
+    primaryEventId,
+    restoredSourceIds: result.restoredSourceIds,
+    restoredFields: result.restoredFields,
+    primary: result.primary,
+  };
+}
+
+// ============================================
+// Helpers
+// ============================================
+
+/**
+ * Same arithmetic as mergeEvents, replayed over the remaining cluster:
+ * the primary's own pre-cluster values plus one boost per additional
+ * remaining source, and the highest severity still in the cluster.
+ */
+async function recomputePrimary(
+  tx: Prisma.TransactionClient,
+  primaryEventId: string,
+  removedEventId: string,
+  config: ClusterConfig
+): Promise<UnmergeResult["primary"]> {
+  const primary = await tx.event.findUniqueOrThrow({
+    where: { id: primaryEventId },
+    select: { confidenceExtraction: true, sourceCount: true, severityLevel: true },
+  });
+  const members = await tx.event.findMany({
+    where: { mergedIntoId: primaryEventId, id: { not: removedEventId } },
+    select: { severityLevel: true },
+  });
+  const sourceCount = await tx.eventSource.count({ where: { eventId: primaryEventId } });
+
+  const base = await loadPrimaryBase(tx, primaryEventId, primary, removedEventId, config);
+
+  const additionalSources = Math.max(0, sourceCount - base.sourceCount);
+  const confidenceExtraction = Math.min(
+    base.confidenceExtraction + additionalSources * config.SOURCE_CONFIDENCE_BOOST,
+    Math.max(base.confidenceExtraction, config.MAX_BOOSTED_CONFIDENCE)
+  );
+  const severityLevel = Math.max(base.severityLevel, ...members.map((m) => m.severityLevel));
+
+  await tx.event.update({
+    where: { id: primaryEventId },
+    data: {
+      confidenceExtraction,
+      sourceCount,
+      severityLevel,
+      updatedAt: new Date(),
+    },
+  });
+
+  return { confidenceExtraction, sourceCount, severityLevel };
+}
+
+/**
+ * The primary's values before anything was merged into it: primary_before
+ * of its earliest merge. Older merges have no snapshot, so the removed
+ * event's boost is subtracted from the current values instead.
+ */
+async function loadPrimaryBase(
+  tx: Prisma.TransactionClient,
+  primaryEventId: string,
+  current: { confidenceExtraction: Prisma.Decimal; sourceCount: number; severityLevel: number },
+  removedEventId: string,
+  config: ClusterConfig
+): Promise<PrimaryBefore> {
+  const [first] = await tx.$queryRaw<Array<{ primary_before: PrimaryBefore | null }>>`
+    SELECT primary_before
+    FROM event_merges
+    WHERE primary_event_id = ${primaryEventId} AND action = 'merge'
+    ORDER BY merged_at ASC
+    LIMIT 1
+  `;
+
+  if (first?.primary_before) {
+    return first.primary_before;
+  }
+
+  const removed = await tx.event.findUnique({
+    where: { id: removedEventId },
+    select: { sourceCount: true },
+  });
+  const removedSources = removed?.sourceCount ?? 1;
+  const confidence = parseFloat(current.confidenceExtraction?.toString() ?? "0.5");
+
+  return {
+    confidenceExtraction: Math.max(0, confidence - removedSources * config.SOURCE_CONFIDENCE_BOOST),
+    sourceCount: Math.max(1, current.sourceCount - removedSources),
+    severityLevel: current.severityLevel,
+  };
+}
+
+/**
+ * Undo what reconciliation took from the removed event. Fields a later
+ * merge has since replaced (provenance points elsewhere) are left alone.
+ */
+async function restoreReconciledFields(
+  tx: Prisma.TransactionClient,
+  primaryEventId: string,
+  removedEventId: string,
+  changes: FieldChanges | null
+): Promise<ProvenanceKey[]> {
+  if (!changes) return [];
+
+  const primary = await tx.event.findUnique({
+    where: { id: primaryEventId },
+    select: { fieldProvenance: true },
+  });
+  const provenance: FieldProvenance = { ...((primary?.fieldProvenance ?? {}) as FieldProvenance) };
+  const data: Record<string, unknown> = {};
+  const restored: ProvenanceKey[] = [];
+
+  for (const [key, change] of Object.entries(changes) as Array<[ProvenanceKey, FieldChange]>) {
+    if (provenance[key]?.eventId !== removedEventId) continue;
+
+    if (key === "location") {
+      Object.assign(data, change.before);
+    } else if (key === "startDate" || key === "endDate") {
+      data[key] = change.before ? new Date(change.before as string) : null;
+    } else {
+      data[key] = change.before;
+    }
+
+    if (change.beforeProvenance) provenance[key] = change.beforeProvenance;
+    else delete provenance[key];
+    restored.push(key);
+  }
+
+  if (restored.length) {
+    await tx.event.update({
+      where: { id: primaryEventId },
+      data: { ...data, fieldProvenance: provenance as Prisma.InputJsonValue },
+    });
+    if (restored.includes("location")) await syncGeomPoint(tx, primaryEventId);
+  }
+  return restored;
+}
+
+/**
+ * Thresholds the merge was made with: the stored CLUSTER_CONFIG snapshot,
+ * else the named profile it ran under, else the built-in config
+ */
+async function mergeConfig(merge: MergeRow | undefined): Promise<ClusterConfig> {
+  if (merge?.thresholds) return { ...CLUSTER_CONFIG, ...merge.thresholds };
+
+  try {
+    return (await loadClusterProfile(merge?.cluster_profile)).config;
+  } catch (err) {
+    if (!(err instanceof ClusterProfileError)) throw err;
+    logger.warn(
+      { mergeId: merge?.id, profile: merge?.cluster_profile, error: err.message },
+      "Merge profile unavailable; using the default cluster config"
+    );
+    return CLUSTER_CONFIG;
+  }
+}
+
+async function extractedSourceIds(tx: Prisma.TransactionClient, eventId: string): Promise<string[]> {
+  const rows = await tx.$queryRaw<Array<{ id: string }>>`
+    SELECT source_id::text AS id FROM source_extractions WHERE event_id = ${eventId}
+  `;
+  return rows.map((r) => r.id);
+}
@@ -0,0 +1,86 @@
+// packages/api/src/services/extraction/anthropicProvider.ts
+//
+// Anthropic Messages API over plain fetch.
+// There is no JSON mode, so the assistant turn is prefilled with "{" to
+// force the reply to start as a JSON object.
+
+import {
+  DEFAULT_MAX_TOKENS,
+  DEFAULT_TEMPERATURE,
+  ProviderError,
+  errorKindForStatus,
+  parseJsonContent,
+  type ExtractionProvider,
+  type ExtractionRequest,
+  type ExtractionResponse,
+} from "./extractionProvider";
+
+const ANTHROPIC_API_URL = process.env.ANTHROPIC_API_URL || "https://api.anthropic.com/v1/messages";
+const ANTHROPIC_VERSION = "2023-06-01";
+const REQUEST_TIMEOUT_MS = 120_000;
+
+export class AnthropicExtractionProvider implements ExtractionProvider {
+  readonly name = "anthropic" as const;
+
+  constructor(private readonly apiKey: string, readonly model: string) {
+    if (!apiKey) throw new Error("Missing env var: ANTHROPIC_API_KEY");
+  }
+
+  async extract(request: ExtractionRequest): Promise<ExtractionResponse> {
+    let response: Response;
+
+    try {
+      response = await fetch(ANTHROPIC_API_URL, {
+        method: "POST",
+        headers: {
+          "content-type": "application/json",
+          "x-api-key": this.apiKey,
+          "anthropic-version": ANTHROPIC_VERSION,
+        },
+        body: JSON.stringify({
+          model: this.model,
+          max_tokens: request.maxTokens ?? DEFAULT_MAX_TOKENS,
+          temperature: request.temperature ?? DEFAULT_TEMPERATURE,
+          system: request.system,
+          messages: [
+            { role: "user", content: request.user },
+            { role: "assistant", content: "{" },
+          ],
+        }),
+        signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+      });
+    } catch (err) {
+      throw new ProviderError(this.name, "unavailable", (err as Error).message);
+    }
+
+    const body: any = await response.json().catch(() => null);
+
+    if (!response.ok) {
+      // 529 = overloaded; treat like a 5xx
+      const message = body?.error?.message ?? `HTTP ${response.status}`;
+      throw new ProviderError(this.name, errorKindForStatus(response.status), message, response.status);
+    }
+
+    const usage = {
+      inputTokens: body?.usage?.input_tokens ?? 0,
+      outputTokens: body?.usage?.output_tokens ?? 0,
+    };
+
+    if (body?.stop_reason === "max_tokens") {
+      throw new ProviderError(this.name, "invalid_response", "output truncated at max_tokens", null, usage);
+    }
+
+    const text = (body?.content ?? [])
+      .filter((block: any) => block.type === "text")
+      .map((block: any) => block.text)
+      .join("");
+
+    return {
+      // Re-attach the prefilled opening brace
+      json: parseJsonContent(this.name, `{${text}`, usage),
+      provider: this.name,
+      model: body?.model ?? this.model,
+      usage,
+    };
+  }
+}
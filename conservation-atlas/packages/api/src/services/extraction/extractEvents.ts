@@ -0,0 +1,236 @@
+// packages/api/src/services/extraction/extractEvents.ts
+//
+// One extraction attempt for a source: prompt -> provider chain -> schema
+// validation. Invalid replies get deterministic repairs first and, if still
+// invalid, one repair turn that sends the AJV errors back to the model.
+// Then per-event geolocation checks. Shared by the EXTRACT job and the
+// offline evaluation tools so both measure the same pipeline. Persistence
+// is left to the caller.
+
+import Ajv, { ValidateFunction, ErrorObject } from "ajv";
+import addFormats from "ajv-formats";
+
+import eventSchema from "@conservation-atlas/shared/validators/schemas/event_extraction_v2.schema.json";
+import { formatAjvErrors } from "@conservation-atlas/shared/validators/ajv";
+
+import { logger } from "../../utils/logger";
+import {
+  boundsGeoReference,
+  validateGeolocation,
+  type GeoReference,
+  type GeoValidationResult,
+} from "../../utils/geoValidation";
+import { footprintCentroid, validateFootprint } from "../../utils/footprintValidation";
+import { countryCentroidGeocoder, type AdminGeocoder } from "../geo/gazetteer";
+import { correctGeolocation } from "../geo/geoCorrection";
+import {
+  extractWithFallback,
+  ProviderChainError,
+  type ChainResponse,
+  type FailedAttempt,
+} from "./providerChain";
+import type { ExtractionProvider } from "./extractionProvider";
+import { buildRepairPrompt, type PromptSource, type PromptTemplate } from "./promptRegistry";
+import { applyDeterministicRepairs, type RepairRecord } from "./repairExtraction";
+import type { CallKind } from "./usageTracker";
+
+export const SCHEMA_VERSION = "event_extraction_v2";
+
+// ============================================
+// AJV Validator Setup
+// ============================================
+const ajv = new Ajv({ allErrors: true, strict: false });
+addFormats(ajv);
+export const validateEventSchema = ajv.compile(eventSchema) as ValidateFunction;
+
+// ============================================
+// Types
+// ============================================
+
+/** Called after every provider chain call, successful or not */
+export type ProviderCallHook = (
+  callKind: CallKind,
+  failedAttempts: FailedAttempt[],
+  response: ChainResponse | null
+) => Promise<void>;
+
+export interface ExtractEventsInput {
+  providers: ExtractionProvider[];
+  prompt: PromptTemplate;
+  source: PromptSource;
+  rawText: string;
+  onProviderCall?: ProviderCallHook;
+}
+
+export interface ExtractEventsResult {
+  valid: boolean;
+  /** Normalized to event_extraction_v2 */
+  extraction: any;
+  /** Response that produced `extraction` (the repair turn's, if one was needed) */
+  response: ChainResponse;
+  /** Failed providers across all calls */
+  failedAttempts: FailedAttempt[];
+  errors: ErrorObject[];
+  repairs: RepairRecord;
+}
+
+// ============================================
+// Main Entry
+// ============================================
+
+/**
+ * Run the prompt through the provider chain and validate the reply.
+ * Throws ProviderChainError when no provider answered; an answer that
+ * stays invalid after repair is returned with valid=false.
+ */
+export async function extractEvents(input: ExtractEventsInput): Promise<ExtractEventsResult> {
+  const { providers, prompt, source, rawText, onProviderCall } = input;
+  const system = prompt.buildSystem();
+  const user = prompt.buildUser(source, rawText);
+  const repairs: RepairRecord = { initialErrors: null, actions: [], llmRepair: false };
+
+  // First attempt
+  let response = await callProviders(providers, system, user, "initial", onProviderCall);
+  const failedAttempts: FailedAttempt[] = [...response.failedAttempts];
+
+  let extraction = normalizeExtraction(response.json);
+  let checked = validateAndRepair(extraction, repairs);
+  if (checked.errorsBeforeRepair.length) {
+    repairs.initialErrors = formatAjvErrors(checked.errorsBeforeRepair);
+  }
+
+  // Send the remaining errors back to the model
+  if (!checked.valid) {
+    const errorText = formatAjvErrors(checked.errors);
+    logger.warn(
+      { source_id: source.id, promptVersion: prompt.version, errors: errorText },
+      "Extraction invalid after deterministic repair; asking model to fix"
+    );
+
+    response = await callProviders(providers, system, buildRepairPrompt(user, extraction, errorText), "repair", onProviderCall);
+    failedAttempts.push(...response.failedAttempts);
+    repairs.llmRepair = true;
+
+    extraction = normalizeExtraction(response.json);
+    checked = validateAndRepair(extraction, repairs);
+  }
+
+  return {
+    valid: checked.valid,
+    extraction,
+    response,
+    failedAttempts,
+    errors: checked.errors,
+    repairs,
+  };
+}
+
+/**
+ * Wrap a single-event (event_extraction_v1 shaped) reply into v2.
+ * Models occasionally fall back to the old shape; anything else is
+ * passed through for schema validation to reject.
+ */
+export function normalizeExtraction(json: any): any {
+  if (!json || typeof json !== "object" || Array.isArray(json.events)) return json;
+  if (json.schema_version !== "event_extraction_v1" && typeof json.title !== "string") return json;
+
+  const { schema_version: _version, source_ref, ...event } = json;
+  return { schema_version: SCHEMA_VERSION, events: [event], source_ref };
+}
+
+/**
+ * Run validateGeolocation on every event of a valid extraction. Events
+ * with issues get a lower confidence.geolocation, and the suggested fix
+ * (swap, geocoded centroid, or a null geometry) is applied and recorded on
+ * the result. Footprints are checked first; an unusable one is dropped,
+ * and an event with only a footprint gets its centroid as the point.
+ * Mutates `extraction` in place.
+ */
+export async function applyGeoValidation(
+  sourceId: number,
+  extraction: any,
+  reference: GeoReference = boundsGeoReference,
+  geocode: AdminGeocoder = countryCentroidGeocoder
+): Promise<GeoValidationResult[]> {
+  const results: GeoValidationResult[] = [];
+
+  for (const [index, event] of (extraction.events as any[]).entries()) {
+    const footprintValidation = event.location.footprint ? validateFootprint(event) : null;
+    if (footprintValidation && !footprintValidation.valid) {
+      logger.warn({ source_id: sourceId, eventIndex: index, footprintValidation }, "Footprint validation issues");
+    }
+    if (footprintValidation?.shouldDropFootprint) {
+      event.location.footprint = null;
+    }
+    if (event.location.footprint && !event.location.geometry?.coordinates) {
+      event.location.geometry = { type: "Point", coordinates: footprintCentroid(event.location.footprint), precision: "centroid" };
+    }
+
+    const geoValidation = await validateGeolocation(event, reference);
+    if (footprintValidation) {
+      geoValidation.footprint = footprintValidation;
+    }
+
+    if (!geoValidation.valid) {
+      logger.warn({ source_id: sourceId, eventIndex: index, geoValidation }, "Geolocation validation issues");
+      // Downgrade confidence but don't fail
+      event.confidence.geolocation = geoValidation.adjustedConfidence;
+
+      if (geoValidation.suggestedFix) {
+        geoValidation.correction = await correctGeolocation(event, geoValidation, reference, geocode);
+      } else if (geoValidation.shouldNullifyCoords) {
+        event.location.geometry = null;
+      }
+    }
+
+    results.push(geoValidation);
+  }
+
+  return results;
+}
+
+// ============================================
+// Helpers
+// ============================================
+
+/**
+ * Validate, apply deterministic repairs in place (recorded on `repairs`)
+ * and re-validate when anything changed
+ */
+function validateAndRepair(
+  extraction: any,
+  repairs: RepairRecord
+): { valid: boolean; errors: ErrorObject[]; errorsBeforeRepair: ErrorObject[] } {
+  let valid = validateEventSchema(extraction) as boolean;
+  const errorsBeforeRepair: ErrorObject[] = valid ? [] : [...(validateEventSchema.errors ?? [])];
+
+  const actions = applyDeterministicRepairs(extraction, errorsBeforeRepair);
+  if (!actions.length) {
+    return { valid, errors: errorsBeforeRepair, errorsBeforeRepair };
+  }
+
+  repairs.actions.push(...actions);
+  valid = validateEventSchema(extraction) as boolean;
+  return { valid, errors: valid ? [] : [...(validateEventSchema.errors ?? [])], errorsBeforeRepair };
+}
+async function callProviders(
+  providers: ExtractionProvider[],
+  system: string,
+  user: string,
+  callKind: CallKind,
+  onProviderCall?: ProviderCallHook
+): Promise<ChainResponse> {
+  let response: ChainResponse | null = null;
+  let attempts: FailedAttempt[] = [];
+
+  try {
+    response = await extractWithFallback(providers, { system, user });
+    attempts = response.failedAttempts;
+    return response;
+  } catch (err) {
+    if (err instanceof ProviderChainError) attempts = err.attempts;
+    throw err;
+  } finally {
+    await onProviderCall?.(callKind, attempts, response);
+  }
+}
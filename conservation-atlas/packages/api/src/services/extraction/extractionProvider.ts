@@ -0,0 +1,128 @@
+// packages/api/src/services/extraction/extractionProvider.ts
+//
+// Common contract for LLM extraction backends.
+// Each provider turns a system + user prompt into a parsed JSON object and
+// reports which model actually answered, so provenance can be stored.
+
+// ============================================
+// Types
+// ============================================
+
+// "fake" and "recorded" are offline providers for tests and the gold-set tools
+export type ProviderName = "openai" | "anthropic" | "gemini" | "fake" | "recorded";
+
+export interface ExtractionRequest {
+  system: string;
+  user: string;
+  temperature?: number;
+  maxTokens?: number;
+}
+
+export interface TokenUsage {
+  inputTokens: number;
+  outputTokens: number;
+}
+
+export interface ExtractionResponse {
+  json: any;
+  provider: ProviderName;
+  model: string;
+  usage: TokenUsage;
+}
+
+export interface ExtractionProvider {
+  readonly name: ProviderName;
+  readonly model: string;
+  extract(request: ExtractionRequest): Promise<ExtractionResponse>;
+}
+
+export type ProviderErrorKind =
+  | "rate_limit"      // 429 / quota exhausted
+  | "unavailable"     // 5xx, overloaded, network, timeout
+  | "auth"            // missing or rejected credentials
+  | "bad_request"     // prompt rejected (too long, invalid params)
+  | "invalid_response"; // empty content or non-JSON output
+
+export const DEFAULT_TEMPERATURE = 0.2;
+export const DEFAULT_MAX_TOKENS = 4000;
+
+// ============================================
+// Errors
+// ============================================
+
+/**
+ * Error raised by a provider adapter. `kind` lets the fallback chain and
+ * logs distinguish rate limiting from hard failures.
+ */
+export class ProviderError extends Error {
+  public readonly provider: ProviderName;
+  public readonly kind: ProviderErrorKind;
+  public readonly status: number | null;
+  /** Tokens billed for the failed call (e.g. a response that was not valid JSON) */
+  public readonly usage: TokenUsage | null;
+
+  constructor(
+    provider: ProviderName,
+    kind: ProviderErrorKind,
+    message: string,
+    status: number | null = null,
+    usage: TokenUsage | null = null
+  ) {
+    super(`${provider}: ${message}`);
+    this.name = "ProviderError";
+    this.provider = provider;
+    this.kind = kind;
+    this.status = status;
+    this.usage = usage;
+
+    if (Error.captureStackTrace) {
+      Error.captureStackTrace(this, ProviderError);
+    }
+  }
+}
+
+/**
+ * Map an HTTP status to the error kind used for fallback decisions
+ */
+export function errorKindForStatus(status: number): ProviderErrorKind {
+  if (status === 429) return "rate_limit";
+  if (status === 401 || status === 403) return "auth";
+  if (status >= 500) return "unavailable";
+  return "bad_request";
+}
+
+// ============================================
+// Helpers
+// ============================================
+
+/**
+ * Parse model output as a JSON object.
+ * Tolerates markdown fences and leading/trailing prose some models add
+ * even when asked for JSON only.
+ */
+export function parseJsonContent(
+  provider: ProviderName,
+  content: string | null | undefined,
+  usage: TokenUsage | null = null
+): any {
+  if (!content || !content.trim()) {
+    throw new ProviderError(provider, "invalid_response", "empty content", null, usage);
+  }
+
+  let text = content.trim().replace(/^```(?:json)?\s*/i, "").replace(/\s*```$/, "");
+  const start = text.indexOf("{");
+  const end = text.lastIndexOf("}");
+  if (start > 0 || (end !== -1 && end < text.length - 1)) {
+    text = text.slice(Math.max(0, start), end + 1);
+  }
+
+  try {
+    const parsed = JSON.parse(text);
+    if (!parsed || typeof parsed !== "object" || Array.isArray(parsed)) {
+      throw new Error("top-level value is not an object");
+    }
+    return parsed;
+  } catch (e) {
+    throw new ProviderError(provider, "invalid_response", `failed to parse JSON: ${(e as Error).message}`, null, usage);
+  }
+}
@@ -0,0 +1,83 @@
+// packages/api/src/services/extraction/geminiProvider.ts
+//
+// Google Gemini generateContent over plain fetch.
+// JSON mode is requested via generationConfig.responseMimeType.
+
+import {
+  DEFAULT_MAX_TOKENS,
+  DEFAULT_TEMPERATURE,
+  ProviderError,
+  errorKindForStatus,
+  parseJsonContent,
+  type ExtractionProvider,
+  type ExtractionRequest,
+  type ExtractionResponse,
+} from "./extractionProvider";
+
+const GEMINI_API_URL = process.env.GEMINI_API_URL || "https://generativelanguage.googleapis.com/v1beta";
+const REQUEST_TIMEOUT_MS = 120_000;
+
+export class GeminiExtractionProvider implements ExtractionProvider {
+  readonly name = "gemini" as const;
+
+  constructor(private readonly apiKey: string, readonly model: string) {
+    if (!apiKey) throw new Error("Missing env var: GEMINI_API_KEY");
+  }
+
+  async extract(request: ExtractionRequest): Promise<ExtractionResponse> {
+    let response: Response;
+
+    try {
+      response = await fetch(`${GEMINI_API_URL}/models/${encodeURIComponent(this.model)}:generateContent`, {
+        method: "POST",
+        headers: {
+          "content-type": "application/json",
+          "x-goog-api-key": this.apiKey,
+        },
+        body: JSON.stringify({
+          systemInstruction: { parts: [{ text: request.system }] },
+          contents: [{ role: "user", parts: [{ text: request.user }] }],
+          generationConfig: {
+            temperature: request.temperature ?? DEFAULT_TEMPERATURE,
+            maxOutputTokens: request.maxTokens ?? DEFAULT_MAX_TOKENS,
+            responseMimeType: "application/json",
+          },
+        }),
+        signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+      });
+    } catch (err) {
+      throw new ProviderError(this.name, "unavailable", (err as Error).message);
+    }
+
+    const body: any = await response.json().catch(() => null);
+
+    if (!response.ok) {
+      const message = body?.error?.message ?? `HTTP ${response.status}`;
+      throw new ProviderError(this.name, errorKindForStatus(response.status), message, response.status);
+    }
+
+    const usage = {
+      inputTokens: body?.usageMetadata?.promptTokenCount ?? 0,
+      outputTokens: body?.usageMetadata?.candidatesTokenCount ?? 0,
+    };
+
+    const candidate = body?.candidates?.[0];
+    if (!candidate) {
+      // Prompt blocked by safety filters returns no candidates
+      const reason = body?.promptFeedback?.blockReason ?? "no candidates";
+      throw new ProviderError(this.name, "invalid_response", `empty response (${reason})`, null, usage);
+    }
+    if (candidate.finishReason === "MAX_TOKENS") {
+      throw new ProviderError(this.name, "invalid_response", "output truncated at maxOutputTokens", null, usage);
+    }
+
+    const text = (candidate.content?.parts ?? []).map((part: any) => part.text ?? "").join("");
+
+    return {
+      json: parseJsonContent(this.name, text, usage),
+      provider: this.name,
+      model: body?.modelVersion ?? this.model,
+      usage,
+    };
+  }
+}
@@ -0,0 +1,107 @@
+// packages/api/src/services/extraction/goldRegression.test.ts
+//
+// The checked-in gold set replayed from its recordings, plus the baseline
+// comparison that gates CI (npm run test:extraction).
+
+import { readFileSync } from "node:fs";
+import { join } from "node:path";
+
+import { FakeExtractionProvider } from "./fakeProvider";
+import {
+  compareToBaseline,
+  loadGoldCases,
+  runGoldSet,
+  type Baseline,
+  type GoldCase,
+  type RegressionReport,
+} from "./goldRegression";
+import { getPrompt } from "./promptRegistry";
+import { loadRecordedProvider } from "./recordedProvider";
+
+const GOLD_DIR = join(__dirname, "../../../gold/extraction");
+const PROMPT = getPrompt("extract-v2");
+
+function readBaseline(): Baseline {
+  return JSON.parse(readFileSync(join(GOLD_DIR, "baselines", `recorded-${PROMPT.version}.json`), "utf8"));
+}
+
+describe("runGoldSet on the recorded gold set", () => {
+  const cases = loadGoldCases(GOLD_DIR);
+  let report: RegressionReport;
+
+  beforeAll(async () => {
+    const provider = loadRecordedProvider(GOLD_DIR, PROMPT.version, cases.map((c) => c.id));
+    report = await runGoldSet(cases, { providers: [provider], prompt: PROMPT });
+  });
+
+  it("extracts every case", () => {
+    expect(report).toMatchObject({ cases: cases.length, valid: cases.length, invalid: 0, providerErrors: 0 });
+    expect(report.usage.costUsd).toBe(0);
+  });
+
+  it("finds every event of the multi-event roundup", () => {
+    const roundup = report.results.find((r) => r.id === "roundup-multi-01")!;
+
+    expect(roundup.goldEvents).toBeGreaterThan(1);
+    expect(roundup.matchedEvents).toBe(roundup.goldEvents);
+  });
+
+  it("stays within the stored baseline", () => {
+    expect(compareToBaseline(report, readBaseline())).toEqual([]);
+  });
+});
+
+describe("runGoldSet failures", () => {
+  const goldCase: GoldCase = {
+    id: "missing-recording",
+    source: { url: "https://news.example.org/not-recorded" },
+    text: "A wildfire burned through dry forest near the park boundary on Sunday.",
+    expected: { events: [{ event_type: { primary: "wildfire" }, severity: { level: 3 } }] },
+  };
+
+  it("counts a case without a recording as a provider error and its gold events as missed", async () => {
+    const provider = loadRecordedProvider(GOLD_DIR, PROMPT.version, []);
+
+    const report = await runGoldSet([goldCase], { providers: [provider], prompt: PROMPT });
+
+    expect(report).toMatchObject({ valid: 0, providerErrors: 1, events: { precision: null, recall: 0 } });
+    expect(report.results[0].error).toContain("no recording for https://news.example.org/not-recorded");
+    expect(report.fields["event_type.primary"]).toMatchObject({ n: 1, fn: 1, recall: 0 });
+  });
+
+  it("scores whatever the provider returns against the expected events", async () => {
+    const report = await runGoldSet([goldCase], { providers: [new FakeExtractionProvider()], prompt: PROMPT });
+
+    expect(report.valid).toBe(1);
+    expect(report.fields["event_type.primary"]).toMatchObject({ n: 1, tp: 1, accuracy: 1 });
+    expect(report.fields["severity.level"]).toMatchObject({ n: 1, tp: 1 });
+  });
+});
+
+describe("compareToBaseline", () => {
+  function withAccuracy(base: Baseline, field: string, accuracy: number | null): Baseline {
+    return { ...base, fields: { ...base.fields, [field]: { ...base.fields[field], accuracy } } };
+  }
+
+  const report = {
+    events: { precision: 1, recall: 1 },
+    fields: { "severity.level": { precision: 0.8, recall: 0.8, accuracy: 0.8 } },
+  } as unknown as RegressionReport;
+  const baseline: Baseline = {
+    prompt_version: "extract-v2",
+    updated_at: "2026-10-01T00:00:00.000Z",
+    events: { precision: 1, recall: 1 },
+    fields: { "severity.level": { precision: 0.8, recall: 0.8, accuracy: 0.8 } },
+  };
+
+  it("flags a metric that dropped more than the allowed margin", () => {
+    expect(compareToBaseline(report, withAccuracy(baseline, "severity.level", 0.9))).toEqual([
+      { metric: "severity.level.accuracy", baseline: 0.9, current: 0.8, drop: 0.1 },
+    ]);
+  });
+
+  it("tolerates drops within the margin and metrics without a baseline value", () => {
+    expect(compareToBaseline(report, withAccuracy(baseline, "severity.level", 0.81))).toEqual([]);
+    expect(compareToBaseline(report, withAccuracy(baseline, "severity.level", null))).toEqual([]);
+  });
+});
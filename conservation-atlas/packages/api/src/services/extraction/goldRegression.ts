@@ -0,0 +1,443 @@
+// packages/api/src/services/extraction/goldRegression.ts
+//
+// Gold-set regression scoring for the extraction pipeline.
+// Runs gold-labelled sources through extractEvents() + applyGeoValidation()
+// (the same steps as the EXTRACT job), scores precision / recall / accuracy
+// per schema field, and compares the result with a stored baseline.
+// Geolocation is checked against the bundled country bounds, so runs need
+// no database.
+//
+// Gold case: <gold dir>/cases/<id>.json
+//   {"id": "amazon-fire-01",
+//    "source": {"url": "...", "publisher": "...", "title": "...", "published_at": "2024-08-02"},
+//    "text": "Article text ...",
+//    "expected": {"events": [
+//      {"event_type": {"primary": "wildfire"}, "severity": {"level": 4},
+//       "location": {"admin": {"country": "Brazil"}, "geometry": {"coordinates": [-60.02, -3.1]}}}
+//    ]}}
+// Expected events are partial event_extraction_v2 events: a field that is
+// absent is not scored, an explicit null means the model should return null.
+
+import { readdirSync, readFileSync } from "node:fs";
+import { join } from "node:path";
+
+import { distanceKm } from "../../utils/geoValidation";
+import { applyGeoValidation, extractEvents } from "./extractEvents";
+import type { ExtractionProvider } from "./extractionProvider";
+import type { PromptSource, PromptTemplate } from "./promptRegistry";
+import type { ChainResponse } from "./providerChain";
+import type { RepairRecord } from "./repairExtraction";
+import { sumUsage, usageRecordsFor, type UsageRecord, type UsageTotals } from "./usageTracker";
+
+export const DEFAULT_COORD_TOLERANCE_KM = 50;
+export const DEFAULT_MAX_DROP = 0.02;
+
+// ============================================
+// Types
+// ============================================
+
+export interface GoldCase {
+  id: string;
+  source: {
+    url: string;
+    publisher?: string | null;
+    title?: string | null;
+    published_at?: string | null;
+    language?: string | null;
+  };
+  text: string;
+  expected: { events: any[] };
+}
+
+interface FieldSpec {
+  name: string;
+  get(event: any): unknown;
+  equals(gold: any, predicted: any, toleranceKm: number): boolean;
+}
+
+export interface FieldCounts {
+  n: number;    // scored values
+  tp: number;   // both set and equal
+  fp: number;   // predicted set but wrong (or gold expects null)
+  fn: number;   // gold set but predicted missing or wrong
+  tn: number;   // both null
+}
+
+export interface FieldMetrics extends FieldCounts {
+  precision: number | null;
+  recall: number | null;
+  accuracy: number | null;
+}
+
+export interface CaseResult {
+  id: string;
+  status: "valid" | "invalid" | "provider_error";
+  goldEvents: number;
+  predictedEvents: number;
+  matchedEvents: number;
+  fields: Record<string, FieldCounts>;
+  /** Final provider response, kept so live runs can be recorded */
+  response: ChainResponse | null;
+  /** What the repair stage had to fix; null when no provider answered */
+  repairs: RepairRecord | null;
+  error: string | null;
+}
+
+export interface RegressionReport {
+  promptVersion: string;
+  providers: string[];
+  cases: number;
+  valid: number;
+  invalid: number;
+  providerErrors: number;
+  /** Cases whose reply needed any deterministic or model repair */
+  repaired: number;
+  events: { precision: number | null; recall: number | null };
+  fields: Record<string, FieldMetrics>;
+  usage: UsageTotals;
+  results: CaseResult[];
+}
+
+export interface Baseline {
+  prompt_version: string;
+  updated_at: string;
+  events: { precision: number | null; recall: number | null };
+  fields: Record<string, { precision: number | null; recall: number | null; accuracy: number | null }>;
+}
+
+export interface Regression {
+  metric: string;
+  baseline: number;
+  current: number;
+  drop: number;
+}
+
+export interface RunOptions {
+  providers: ExtractionProvider[];
+  prompt: PromptTemplate;
+  coordToleranceKm?: number;
+  onCase?: (result: CaseResult, index: number) => void;
+}
+
+// ============================================
+// Scored Fields
+// ============================================
+
+const sameText = (a: string, b: string) =>
+  normalizeText(a) === normalizeText(b);
+
+export const SCORED_FIELDS: FieldSpec[] = [
+  { name: "event_type.primary", get: (e) => pick(e, ["event_type", "primary"]), equals: (g, p) => g === p },
+  { name: "event_type.secondary", get: (e) => pick(e, ["event_type", "secondary"]), equals: (g, p) => g === p },
+  { name: "severity.level", get: (e) => pick(e, ["severity", "level"]), equals: (g, p) => g === p },
+  { name: "location.admin.country", get: (e) => pick(e, ["location", "admin", "country"]), equals: sameText },
+  { name: "location.admin.admin1", get: (e) => pick(e, ["location", "admin", "admin1"]), equals: sameText },
+  {
+    name: "location.geometry",
+    get: (e) => pick(e, ["location", "geometry", "coordinates"]),
+    equals: (g, p, toleranceKm) => distanceKm(g, p) <= toleranceKm,
+  },
+  {
+    name: "temporal.start_date",
+    get: (e) => pick(e, ["temporal", "start_date"]),
+    equals: (g, p) => String(g).slice(0, 10) === String(p).slice(0, 10),
+  },
+  { name: "temporal.is_ongoing", get: (e) => pick(e, ["temporal", "is_ongoing"]), equals: (g, p) => g === p },
+  {
+    name: "classification.is_classroom_safe",
+    get: (e) => pick(e, ["classification", "is_classroom_safe"]),
+    equals: (g, p) => g === p,
+  },
+];
+
+// ============================================
+// Gold Cases
+// ============================================
+
+export function loadGoldCases(goldDir: string): GoldCase[] {
+  const casesDir = join(goldDir, "cases");
+  const files = readdirSync(casesDir).filter((f) => f.endsWith(".json")).sort();
+
+  return files.map((file) => {
+    const path = join(casesDir, file);
+    let gold: GoldCase;
+    try {
+      gold = JSON.parse(readFileSync(path, "utf8"));
+    } catch (err) {
+      throw new Error(`${path}: invalid JSON (${(err as Error).message})`);
+    }
+    if (!gold.id || !gold.text || !gold.source?.url || !Array.isArray(gold.expected?.events)) {
+      throw new Error(`${path}: case needs id, text, source.url and expected.events`);
+    }
+    return gold;
+  });
+}
+
+// ============================================
+// Run
+// ============================================
+
+export async function runGoldSet(cases: GoldCase[], opts: RunOptions): Promise<RegressionReport> {
+  const toleranceKm = opts.coordToleranceKm ?? DEFAULT_COORD_TOLERANCE_KM;
+  const usageLog: UsageRecord[] = [];
+  const results: CaseResult[] = [];
+
+  for (const [index, gold] of cases.entries()) {
+    let result: CaseResult;
+
+    try {
+      const source = toPromptSource(gold, index);
+      const { valid, extraction, response, repairs } = await extractEvents({
+        providers: opts.providers,
+        prompt: opts.prompt,
+        source,
+        rawText: gold.text,
+        onProviderCall: async (callKind, attempts, chainResponse) => {
+          usageLog.push(...usageRecordsFor(callKind, attempts, chainResponse));
+        },
+      });
+
+      if (valid) {
+        await applyGeoValidation(source.id, extraction);
+        result = scoreCase(gold, extraction.events, toleranceKm, response, repairs);
+      } else {
+        result = scoreCase(gold, [], toleranceKm, response, repairs, "invalid", "schema validation failed after repair");
+      }
+    } catch (err) {
+      result = scoreCase(gold, [], toleranceKm, null, null, "provider_error", (err as Error).message);
+    }
+
+    results.push(result);
+    opts.onCase?.(result, index);
+  }
+
+  const goldEvents = sum(results, (r) => r.goldEvents);
+  const predictedEvents = sum(results, (r) => r.predictedEvents);
+  const matchedEvents = sum(results, (r) => r.matchedEvents);
+
+  const fields: Record<string, FieldMetrics> = {};
+  for (const spec of SCORED_FIELDS) {
+    const counts = emptyCounts();
+    for (const r of results) {
+      counts.n += r.fields[spec.name].n;
+      counts.tp += r.fields[spec.name].tp;
+      counts.fp += r.fields[spec.name].fp;
+      counts.fn += r.fields[spec.name].fn;
+      counts.tn += r.fields[spec.name].tn;
+    }
+    fields[spec.name] = withMetrics(counts);
+  }
+
+  return {
+    promptVersion: opts.prompt.version,
+    providers: opts.providers.map((p) => `${p.name}:${p.model}`),
+    cases: results.length,
+    valid: results.filter((r) => r.status === "valid").length,
+    invalid: results.filter((r) => r.status === "invalid").length,
+    providerErrors: results.filter((r) => r.status === "provider_error").length,
+    repaired: results.filter((r) => r.repairs && (r.repairs.actions.length > 0 || r.repairs.llmRepair)).length,
+    events: {
+      precision: ratio(matchedEvents, predictedEvents),
+      recall: ratio(matchedEvents, goldEvents),
+    },
+    fields,
+    usage: sumUsage(usageLog),
+    results,
+  };
+}
+
+// ============================================
+// Baseline
+// ============================================
+
+export function toBaseline(report: RegressionReport): Baseline {
+  const fields: Baseline["fields"] = {};
+  for (const [name, m] of Object.entries(report.fields)) {
+    fields[name] = { precision: m.precision, recall: m.recall, accuracy: m.accuracy };
+  }
+
+  return {
+    prompt_version: report.promptVersion,
+    updated_at: new Date().toISOString(),
+    events: report.events,
+    fields,
+  };
+}
+
+/**
+ * Metrics that fell more than `maxDrop` below the baseline.
+ * Metrics that are null on either side (nothing to score) are skipped.
+ */
+export function compareToBaseline(report: RegressionReport, baseline: Baseline, maxDrop = DEFAULT_MAX_DROP): Regression[] {
+  const pairs: Array<[string, number | null, number | null]> = [
+    ["events.precision", baseline.events.precision, report.events.precision],
+    ["events.recall", baseline.events.recall, report.events.recall],
+  ];
+
+  for (const [name, base] of Object.entries(baseline.fields)) {
+    const current = report.fields[name];
+    if (!current) continue;
+    pairs.push([`${name}.precision`, base.precision, current.precision]);
+    pairs.push([`${name}.recall`, base.recall, current.recall]);
+    pairs.push([`${name}.accuracy`, base.accuracy, current.accuracy]);
+  }
+
+  const regressions: Regression[] = [];
+  for (const [metric, base, current] of pairs) {
+    if (base === null || current === null) continue;
+
+    const drop = round(base - current);
+    if (drop > maxDrop) regressions.push({ metric, baseline: base, current, drop });
+  }
+
+  return regressions;
+}
+
+// ============================================
+// Scoring
+// ============================================
+
+/**
+ * Pair gold events with predicted events (greedy, best field agreement
+ * first), then count every scored field. Unmatched gold events count as
+ * missed; extra predicted events only lower event precision.
+ */
+function scoreCase(
+  gold: GoldCase,
+  predicted: any[],
+  toleranceKm: number,
+  response: ChainResponse | null,
+  repairs: RepairRecord | null,
+  status: CaseResult["status"] = "valid",
+  error: string | null = null
+): CaseResult {
+  const expected = gold.expected.events;
+  const fields: Record<string, FieldCounts> = {};
+  for (const spec of SCORED_FIELDS) fields[spec.name] = emptyCounts();
+
+  const candidates: Array<{ g: number; p: number; score: number }> = [];
+  expected.forEach((goldEvent, g) => {
+    predicted.forEach((predEvent, p) => {
+      candidates.push({ g, p, score: agreementScore(goldEvent, predEvent, toleranceKm) });
+    });
+  });
+  candidates.sort((a, b) => b.score - a.score || a.g - b.g || a.p - b.p);
+
+  const pairedGold = new Map<number, number>();
+  const usedPredicted = new Set<number>();
+  for (const c of candidates) {
+    if (pairedGold.has(c.g) || usedPredicted.has(c.p)) continue;
+    pairedGold.set(c.g, c.p);
+    usedPredicted.add(c.p);
+  }
+
+  expected.forEach((goldEvent, g) => {
+    const p = pairedGold.get(g);
+    const predEvent = p === undefined ? null : predicted[p];
+
+    for (const spec of SCORED_FIELDS) {
+      const goldValue = spec.get(goldEvent);
+      if (goldValue === undefined) continue;
+      countField(fields[spec.name], spec, goldValue, predEvent ? spec.get(predEvent) : null, toleranceKm);
+    }
+  });
+
+  return {
+    id: gold.id,
+    status,
+    goldEvents: expected.length,
+    predictedEvents: predicted.length,
+    matchedEvents: pairedGold.size,
+    fields,
+    response,
+    repairs,
+    error,
+  };
+}
+
+function countField(counts: FieldCounts, spec: FieldSpec, goldValue: unknown, predValue: unknown, toleranceKm: number) {
+  counts.n++;
+  const goldSet = goldValue !== null;
+  const predSet = predValue !== null && predValue !== undefined;
+
+  if (!goldSet && !predSet) counts.tn++;
+  else if (!goldSet) counts.fp++;
+  else if (!predSet) counts.fn++;
+  else if (spec.equals(goldValue, predValue, toleranceKm)) counts.tp++;
+  else {
+    // A wrong value is both a false positive and a missed true value
+    counts.fp++;
+    counts.fn++;
+  }
+}
+
+function agreementScore(goldEvent: any, predEvent: any, toleranceKm: number): number {
+  let score = 0;
+  for (const spec of SCORED_FIELDS) {
+    const goldValue = spec.get(goldEvent);
+    const predValue = spec.get(predEvent);
+    if (goldValue == null || predValue == null) continue;
+    if (spec.equals(goldValue, predValue, toleranceKm)) score++;
+  }
+  return score;
+}
+
+function withMetrics(counts: FieldCounts): FieldMetrics {
+  return {
+    ...counts,
+    precision: ratio(counts.tp, counts.tp + counts.fp),
+    recall: ratio(counts.tp, counts.tp + counts.fn),
+    accuracy: ratio(counts.tp + counts.tn, counts.n),
+  };
+}
+
+// ============================================
+// Utility Functions
+// ============================================
+
+/**
+ * Walk a nested path: undefined when the gold case does not mention the
+ * field, null when it (or a parent object) is explicitly null
+ */
+function pick(obj: any, path: string[]): unknown {
+  let current = obj;
+  for (const key of path) {
+    if (current === null) return null;
+    if (current === undefined || typeof current !== "object") return undefined;
+    current = current[key];
+  }
+  return current;
+}
+
+function toPromptSource(gold: GoldCase, index: number): PromptSource {
+  return {
+    // Gold cases are not in the sources table; a stable positive id keeps source_ref valid
+    id: index + 1,
+    url: gold.source.url,
+    publisher: gold.source.publisher ?? null,
+    title: gold.source.title ?? null,
+    publishedAt: gold.source.published_at ? new Date(gold.source.published_at) : null,
+    language: gold.source.language ?? null,
+  };
+}
+
+function normalizeText(value: string): string {
+  return value.normalize("NFKD").replace(/[\u0300-\u036f]/g, "").trim().toLowerCase();
+}
+
+function emptyCounts(): FieldCounts {
+  return { n: 0, tp: 0, fp: 0, fn: 0, tn: 0 };
+}
+
+function sum<T>(items: T[], fn: (item: T) => number): number {
+  return items.reduce((acc, item) => acc + fn(item), 0);
+}
+
+function ratio(numerator: number, denominator: number): number | null {
+  return denominator ? round(numerator / denominator) : null;
+}
+
+function round(n: number, digits = 3): number {
+  const f = 10 ** digits;
+  return Math.round(n * f) / f;
+}
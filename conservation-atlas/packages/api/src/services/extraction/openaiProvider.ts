@@ -0,0 +1,67 @@
+// packages/api/src/services/extraction/openaiProvider.ts
+
+import { OpenAI } from "openai";
+
+import {
+  DEFAULT_MAX_TOKENS,
+  DEFAULT_TEMPERATURE,
+  ProviderError,
+  errorKindForStatus,
+  parseJsonContent,
+  type ExtractionProvider,
+  type ExtractionRequest,
+  type ExtractionResponse,
+} from "./extractionProvider";
+
+/**
+ * OpenAI chat completions with native JSON mode (response_format json_object)
+ */
+export class OpenAIExtractionProvider implements ExtractionProvider {
+  readonly name = "openai" as const;
+  private readonly client: OpenAI;
+
+  constructor(apiKey: string, readonly model: string) {
+    if (!apiKey) throw new Error("Missing env var: OPENAI_API_KEY");
+    this.client = new OpenAI({ apiKey });
+  }
+
+  async extract(request: ExtractionRequest): Promise<ExtractionResponse> {
+    let response: OpenAI.Chat.Completions.ChatCompletion;
+
+    try {
+      response = await this.client.chat.completions.create({
+        model: this.model,
+        temperature: request.temperature ?? DEFAULT_TEMPERATURE,
+        max_tokens: request.maxTokens ?? DEFAULT_MAX_TOKENS,
+        messages: [
+          { role: "system", content: request.system },
+          { role: "user", content: request.user },
+        ],
+        response_format: { type: "json_object" },
+      });
+    } catch (err) {
+      if (err instanceof OpenAI.APIError && typeof err.status === "number") {
+        throw new ProviderError(this.name, errorKindForStatus(err.status), err.message, err.status);
+      }
+      throw new ProviderError(this.name, "unavailable", (err as Error).message);
+    }
+
+    const usage = {
+      inputTokens: response.usage?.prompt_tokens ?? 0,
+      outputTokens: response.usage?.completion_tokens ?? 0,
+    };
+
+    const choice = response.choices?.[0];
+    if (choice?.finish_reason === "length") {
+      throw new ProviderError(this.name, "invalid_response", "output truncated at max_tokens", null, usage);
+    }
+
+    return {
+      json: parseJsonContent(this.name, choice?.message?.content, usage),
+      provider: this.name,
+      // The API echoes the resolved snapshot (e.g. gpt-4-turbo-2024-04-09)
+      model: response.model || this.model,
+      usage,
+    };
+  }
+}
@@ -0,0 +1,88 @@
+// packages/api/src/services/extraction/pricing.ts
+//
+// Estimated USD cost of an LLM call from its token counts.
+// Prices are per 1M tokens and matched by model-id prefix, so dated
+// snapshots (gpt-4o-2024-08-06, claude-3-5-sonnet-20241022) resolve to
+// their family. Override or extend with EXTRACT_PRICING_JSON, e.g.
+//   {"gpt-4o": {"input": 2.5, "output": 10}}
+
+import { logger } from "../../utils/logger";
+import type { ProviderName, TokenUsage } from "./extractionProvider";
+
+export interface ModelPrice {
+  input: number;   // USD per 1M input tokens
+  output: number;  // USD per 1M output tokens
+}
+
+// Longest matching prefix wins
+const DEFAULT_PRICING: Record<string, ModelPrice> = {
+  // OpenAI
+  "gpt-4o-mini": { input: 0.15, output: 0.6 },
+  "gpt-4o": { input: 2.5, output: 10 },
+  "gpt-4-turbo": { input: 10, output: 30 },
+  "gpt-4": { input: 30, output: 60 },
+  "gpt-3.5-turbo": { input: 0.5, output: 1.5 },
+
+  // Anthropic
+  "claude-3-5-haiku": { input: 0.8, output: 4 },
+  "claude-3-5-sonnet": { input: 3, output: 15 },
+  "claude-3-haiku": { input: 0.25, output: 1.25 },
+  "claude-3-opus": { input: 15, output: 75 },
+
+  // Google
+  "gemini-1.5-flash": { input: 0.075, output: 0.3 },
+  "gemini-1.5-pro": { input: 1.25, output: 5 },
+  "gemini-2.0-flash": { input: 0.1, output: 0.4 },
+
+  // Local
+  "fake": { input: 0, output: 0 },
+};
+
+const PRICING: Record<string, ModelPrice> = { ...DEFAULT_PRICING, ...loadPricingOverrides() };
+
+// Warn once per unknown model rather than on every call
+const warnedModels = new Set<string>();
+
+/**
+ * Resolve the price entry for a model id (null when unknown)
+ */
+export function getModelPrice(provider: ProviderName, model: string): ModelPrice | null {
+  if (provider === "fake" || provider === "recorded") return PRICING.fake;
+
+  const id = model.toLowerCase().replace(/^models\//, "");
+  let best: string | null = null;
+  for (const prefix of Object.keys(PRICING)) {
+    if (id.startsWith(prefix) && (!best || prefix.length > best.length)) best = prefix;
+  }
+  return best ? PRICING[best] : null;
+}
+
+/**
+ * Estimated cost in USD, rounded to 1/1,000,000 of a dollar.
+ * Unknown models cost 0 and log a warning so the table gets updated.
+ */
+export function estimateCostUsd(provider: ProviderName, model: string, usage: TokenUsage): number {
+  const price = getModelPrice(provider, model);
+  if (!price) {
+    if (!warnedModels.has(model)) {
+      warnedModels.add(model);
+      logger.warn({ provider, model }, "No pricing for model; recording cost as 0");
+    }
+    return 0;
+  }
+
+  const cost = (usage.inputTokens * price.input + usage.outputTokens * price.output) / 1_000_000;
+  return Math.round(cost * 1_000_000) / 1_000_000;
+}
+
+function loadPricingOverrides(): Record<string, ModelPrice> {
+  const raw = process.env.EXTRACT_PRICING_JSON;
+  if (!raw) return {};
+
+  try {
+    return JSON.parse(raw);
+  } catch (err) {
+    logger.error({ error: (err as Error).message }, "Invalid EXTRACT_PRICING_JSON; using defaults");
+    return {};
+  }
+}
@@ -0,0 +1,87 @@
+// packages/api/src/services/extraction/promptEval.test.ts
+
+import { join } from "node:path";
+
+import type { ExtractionProvider, ExtractionRequest, ExtractionResponse } from "./extractionProvider";
+import { FakeExtractionProvider } from "./fakeProvider";
+import { comparePrompts, evaluatePrompt, loadGoldSet, type GoldSample } from "./promptEval";
+import { getPrompt } from "./promptRegistry";
+
+const SAMPLE: GoldSample = {
+  id: "br-fire-01",
+  source: { url: "https://news.example.org/br-fire", title: "Wildfire spreads near Manaus", published_at: "2024-08-02" },
+  text: "A wildfire spread through forest near Manaus on Friday, firefighters said.",
+  gold: { event_type: "wildfire", severity: 4, country: "Brazil", coordinates: [-60.02, -3.1] },
+};
+
+/**
+ * Answers the v1 prompt with the wrong country and the v2 prompt with the
+ * gold labels, so the two versions disagree on exactly two fields
+ */
+class PromptAwareProvider implements ExtractionProvider {
+  readonly name = "fake" as const;
+  readonly model = "prompt-aware";
+  private readonly fake = new FakeExtractionProvider();
+
+  async extract(request: ExtractionRequest): Promise<ExtractionResponse> {
+    const response = await this.fake.extract(request);
+    const isV1 = request.system.includes("Extract exactly ONE event");
+    const [event] = response.json.events;
+
+    event.severity.level = 4;
+    event.location.admin.country = isV1 ? "Peru" : "Brazil";
+    event.location.geometry = isV1 ? null : { type: "Point", coordinates: [-60.1, -3.2], precision: "approximate" };
+    return response;
+  }
+}
+
+describe("evaluatePrompt", () => {
+  it("scores each labelled field and skips unlabelled ones", async () => {
+    const sample: GoldSample = { ...SAMPLE, gold: { event_type: "wildfire", severity: 2 } };
+
+    const report = await evaluatePrompt(getPrompt("extract-v2"), [sample], { providers: [new FakeExtractionProvider()] });
+
+    expect(report).toMatchObject({ promptVersion: "extract-v2", samples: 1, valid: 1 });
+    expect(report.results[0].fields).toEqual({
+      event_type: "match",
+      severity: "mismatch",
+      country: "unscored",
+      coordinates: "unscored",
+    });
+    expect(report.fields.severity).toEqual({ match: 0, scored: 1, agreement: 0 });
+    expect(report.fields.country.agreement).toBeNull();
+  });
+
+  it("counts a provider failure as a mismatch on every labelled field", async () => {
+    const providers = [new FakeExtractionProvider({ failWith: "unavailable" })];
+
+    const report = await evaluatePrompt(getPrompt("extract-v2"), [SAMPLE], { providers });
+
+    expect(report.providerErrors).toBe(1);
+    expect(Object.values(report.results[0].fields)).toEqual(["mismatch", "mismatch", "mismatch", "mismatch"]);
+  });
+});
+
+describe("comparePrompts", () => {
+  it("reports per-field deltas and the samples that flipped", async () => {
+    const comparison = await comparePrompts(getPrompt("extract-v1"), getPrompt("extract-v2"), [SAMPLE], {
+      providers: [new PromptAwareProvider()],
+    });
+
+    expect(comparison.delta).toEqual({ event_type: 0, severity: 0, country: 1, coordinates: 1 });
+    expect(comparison.flips).toEqual([
+      { id: "br-fire-01", field: "country", a: "mismatch", b: "match" },
+      { id: "br-fire-01", field: "coordinates", a: "mismatch", b: "match" },
+    ]);
+    expect(comparison.b.results[0].coordErrorKm).toBeLessThan(50);
+  });
+});
+
+describe("loadGoldSet", () => {
+  it("reads a gold-set directory, labelling each case by its first expected event", () => {
+    const samples = loadGoldSet(join(__dirname, "../../../gold/extraction"));
+    const poaching = samples.find((s) => s.id === "kenya-poaching-01")!;
+
+    expect(poaching.gold).toEqual({ event_type: "poaching", severity: 3, country: "Kenya", coordinates: null });
+  });
+});
@@ -0,0 +1,319 @@
+// packages/api/src/services/extraction/promptEval.ts
+//
+// Offline A/B evaluation of extraction prompt versions.
+// Replays gold-labelled sources through extractEvents() once per prompt
+// version and scores per-field agreement with the labels. Nothing is
+// written to the database.
+//
+// Gold set: JSONL, one sample per line:
+//   {"id": "br-fire-01",
+//    "source": {"url": "...", "publisher": "...", "title": "...", "published_at": "2024-08-02"},
+//    "text": "Article text ...",
+//    "gold": {"event_type": "wildfire", "severity": 4, "country": "Brazil", "coordinates": [-60.02, -3.1]}}
+// A gold field that is absent is not scored; "coordinates": null means the
+// source gives no usable location and the model should not invent one.
+// A gold-set directory (see goldRegression.ts) works too: each case is
+// scored on its first expected event.
+
+import { readFileSync, statSync } from "node:fs";
+
+import { distanceKm } from "../../utils/geoValidation";
+import { applyGeoValidation, extractEvents } from "./extractEvents";
+import { DEFAULT_COORD_TOLERANCE_KM, loadGoldCases, type GoldCase } from "./goldRegression";
+import type { ExtractionProvider } from "./extractionProvider";
+import type { PromptSource, PromptTemplate } from "./promptRegistry";
+import { sumUsage, usageRecordsFor, type UsageRecord, type UsageTotals } from "./usageTracker";
+
+// ============================================
+// Types
+// ============================================
+
+export interface GoldLabel {
+  event_type?: string;
+  severity?: number;
+  country?: string;
+  coordinates?: [number, number] | null;
+}
+
+export interface GoldSample {
+  id: string;
+  source: {
+    url: string;
+    publisher?: string | null;
+    title?: string | null;
+    published_at?: string | null;
+    language?: string | null;
+  };
+  text: string;
+  gold: GoldLabel;
+}
+
+export type EvalField = "event_type" | "severity" | "country" | "coordinates";
+
+export const EVAL_FIELDS: EvalField[] = ["event_type", "severity", "country", "coordinates"];
+
+export type FieldOutcome = "match" | "mismatch" | "unscored";
+
+export interface SampleResult {
+  id: string;
+  status: "valid" | "invalid" | "provider_error";
+  eventCount: number;
+  fields: Record<EvalField, FieldOutcome>;
+  /** Predicted values of the first (most significant) event, for diffing */
+  predicted: GoldLabel | null;
+  coordErrorKm: number | null;
+  error: string | null;
+}
+
+export interface FieldScore {
+  match: number;
+  scored: number;
+  /** match / scored; null when no sample labels the field */
+  agreement: number | null;
+}
+
+export interface PromptEvalReport {
+  promptVersion: string;
+  samples: number;
+  valid: number;
+  invalid: number;
+  providerErrors: number;
+  fields: Record<EvalField, FieldScore>;
+  usage: UsageTotals;
+  results: SampleResult[];
+}
+
+export interface PromptComparison {
+  a: PromptEvalReport;
+  b: PromptEvalReport;
+  /** b.agreement - a.agreement per field */
+  delta: Record<EvalField, number | null>;
+  /** Samples where a field matched under one version but not the other */
+  flips: Array<{ id: string; field: EvalField; a: FieldOutcome; b: FieldOutcome }>;
+}
+
+export interface EvalOptions {
+  providers: ExtractionProvider[];
+  coordToleranceKm?: number;
+  onSample?: (promptVersion: string, result: SampleResult, index: number) => void;
+}
+
+// ============================================
+// Gold Set
+// ============================================
+
+export function loadGoldSet(path: string): GoldSample[] {
+  if (statSync(path).isDirectory()) return loadGoldCases(path).map(caseToSample);
+
+  const lines = readFileSync(path, "utf8").split("\n");
+  const samples: GoldSample[] = [];
+
+  lines.forEach((line, i) => {
+    if (!line.trim() || line.trimStart().startsWith("//")) return;
+
+    let sample: GoldSample;
+    try {
+      sample = JSON.parse(line);
+    } catch (err) {
+      throw new Error(`${path}:${i + 1}: invalid JSON (${(err as Error).message})`);
+    }
+    if (!sample.id || !sample.text || !sample.source?.url || !sample.gold) {
+      throw new Error(`${path}:${i + 1}: sample needs id, text, source.url and gold`);
+    }
+    samples.push(sample);
+  });
+
+  return samples;
+}
+
+function caseToSample(gold: GoldCase): GoldSample {
+  const event = gold.expected.events[0] ?? {};
+  const geometry = event.location?.geometry;
+
+  return {
+    id: gold.id,
+    source: gold.source,
+    text: gold.text,
+    gold: {
+      event_type: event.event_type?.primary,
+      severity: event.severity?.level,
+      country: event.location?.admin?.country ?? undefined,
+      coordinates: geometry === null ? null : geometry?.coordinates,
+    },
+  };
+}
+
+// ============================================
+// Evaluation
+// ============================================
+
+export async function evaluatePrompt(
+  prompt: PromptTemplate,
+  samples: GoldSample[],
+  opts: EvalOptions
+): Promise<PromptEvalReport> {
+  const toleranceKm = opts.coordToleranceKm ?? DEFAULT_COORD_TOLERANCE_KM;
+  const usageLog: UsageRecord[] = [];
+  const results: SampleResult[] = [];
+
+  for (const [index, sample] of samples.entries()) {
+    let result: SampleResult;
+
+    try {
+      const source = toPromptSource(sample, index);
+      const { valid, extraction } = await extractEvents({
+        providers: opts.providers,
+        prompt,
+        source,
+        rawText: sample.text,
+        onProviderCall: async (callKind, attempts, response) => {
+          usageLog.push(...usageRecordsFor(callKind, attempts, response));
+        },
+      });
+
+      if (valid) await applyGeoValidation(source.id, extraction);
+
+      result = valid
+        ? scoreSample(sample, extraction.events, toleranceKm)
+        : failedSample(sample, "invalid", "schema validation failed after repair");
+    } catch (err) {
+      result = failedSample(sample, "provider_error", (err as Error).message);
+    }
+
+    results.push(result);
+    opts.onSample?.(prompt.version, result, index);
+  }
+
+  return {
+    promptVersion: prompt.version,
+    samples: results.length,
+    valid: results.filter((r) => r.status === "valid").length,
+    invalid: results.filter((r) => r.status === "invalid").length,
+    providerErrors: results.filter((r) => r.status === "provider_error").length,
+    fields: aggregateFields(results),
+    usage: sumUsage(usageLog),
+    results,
+  };
+}
+
+/**
+ * Evaluate two prompt versions on the same samples (A first, then B)
+ */
+export async function comparePrompts(
+  a: PromptTemplate,
+  b: PromptTemplate,
+  samples: GoldSample[],
+  opts: EvalOptions
+): Promise<PromptComparison> {
+  const reportA = await evaluatePrompt(a, samples, opts);
+  const reportB = await evaluatePrompt(b, samples, opts);
+
+  const delta = {} as Record<EvalField, number | null>;
+  for (const field of EVAL_FIELDS) {
+    const scoreA = reportA.fields[field].agreement;
+    const scoreB = reportB.fields[field].agreement;
+    delta[field] = scoreA === null || scoreB === null ? null : round(scoreB - scoreA);
+  }
+
+  const flips: PromptComparison["flips"] = [];
+  reportA.results.forEach((resultA, i) => {
+    const resultB = reportB.results[i];
+    for (const field of EVAL_FIELDS) {
+      if (resultA.fields[field] !== resultB.fields[field]) {
+        flips.push({ id: resultA.id, field, a: resultA.fields[field], b: resultB.fields[field] });
+      }
+    }
+  });
+
+  return { a: reportA, b: reportB, delta, flips };
+}
+
+// ============================================
+// Scoring
+// ============================================
+
+/**
+ * Gold labels describe the source's most significant event, which the
+ * prompts place first in events[].
+ */
+function scoreSample(sample: GoldSample, events: any[], toleranceKm: number): SampleResult {
+  const event = events[0];
+  const gold = sample.gold;
+  const coordinates: [number, number] | null = event.location?.geometry?.coordinates ?? null;
+
+  const predicted: GoldLabel = {
+    event_type: event.event_type?.primary,
+    severity: event.severity?.level,
+    country: event.location?.admin?.country ?? undefined,
+    coordinates,
+  };
+
+  const coordErrorKm = gold.coordinates && coordinates
+    ? round(distanceKm(gold.coordinates, coordinates), 1)
+    : null;
+
+  const fields: Record<EvalField, FieldOutcome> = {
+    event_type: compare(gold.event_type, () => predicted.event_type === gold.event_type),
+    severity: compare(gold.severity, () => predicted.severity === gold.severity),
+    country: compare(gold.country, () => normalizeCountry(predicted.country) === normalizeCountry(gold.country)),
+    coordinates: compare(gold.coordinates, () =>
+      gold.coordinates === null ? coordinates === null : coordErrorKm !== null && coordErrorKm <= toleranceKm
+    ),
+  };
+
+  return { id: sample.id, status: "valid", eventCount: events.length, fields, predicted, coordErrorKm, error: null };
+}
+
+/**
+ * A sample the pipeline could not extract counts as a mismatch on every
+ * labelled field, so failures show up in the agreement rates.
+ */
+function failedSample(sample: GoldSample, status: SampleResult["status"], error: string): SampleResult {
+  const fields = {} as Record<EvalField, FieldOutcome>;
+  for (const field of EVAL_FIELDS) {
+    fields[field] = sample.gold[field] === undefined ? "unscored" : "mismatch";
+  }
+  return { id: sample.id, status, eventCount: 0, fields, predicted: null, coordErrorKm: null, error };
+}
+
+function compare(goldValue: unknown, matches: () => boolean): FieldOutcome {
+  if (goldValue === undefined) return "unscored";
+  return matches() ? "match" : "mismatch";
+}
+
+function aggregateFields(results: SampleResult[]): Record<EvalField, FieldScore> {
+  const fields = {} as Record<EvalField, FieldScore>;
+
+  for (const field of EVAL_FIELDS) {
+    const scored = results.filter((r) => r.fields[field] !== "unscored").length;
+    const match = results.filter((r) => r.fields[field] === "match").length;
+    fields[field] = { match, scored, agreement: scored ? round(match / scored) : null };
+  }
+
+  return fields;
+}
+
+// ============================================
+// Utility Functions
+// ============================================
+
+function toPromptSource(sample: GoldSample, index: number): PromptSource {
+  return {
+    // Gold samples are not in the sources table; a stable positive id keeps source_ref valid
+    id: index + 1,
+    url: sample.source.url,
+    publisher: sample.source.publisher ?? null,
+    title: sample.source.title ?? null,
+    publishedAt: sample.source.published_at ? new Date(sample.source.published_at) : null,
+    language: sample.source.language ?? null,
+  };
+}
+
+function normalizeCountry(country: string | null | undefined): string {
+  return (country ?? "").normalize("NFKD").replace(/[\u0300-\u036f]/g, "").trim().toLowerCase();
+}
+
+function round(n: number, digits = 3): number {
+  const f = 10 ** digits;
+  return Math.round(n * f) / f;
+}
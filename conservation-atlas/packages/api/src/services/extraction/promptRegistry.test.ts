@@ -0,0 +1,74 @@
+// packages/api/src/services/extraction/promptRegistry.test.ts
+
+import {
+  UnknownPromptVersionError,
+  buildRepairPrompt,
+  getPrompt,
+  listPromptVersions,
+  parseSourceMetadata,
+  type PromptSource,
+} from "./promptRegistry";
+
+const SOURCE: PromptSource = {
+  id: 42,
+  url: "https://example.org/news/fires",
+  publisher: "Wildlife Wire",
+  title: "Fires in two provinces",
+  publishedAt: new Date("2026-08-02T00:00:00Z"),
+  language: "en",
+};
+
+describe("getPrompt", () => {
+  it("resolves every registered version", () => {
+    expect(listPromptVersions()).toEqual(["extract-v1", "extract-v2", "extract-v3"]);
+    expect(getPrompt("extract-v1").schemaVersion).toBe("event_extraction_v1");
+    expect(getPrompt("extract-v3").schemaVersion).toBe("event_extraction_v2");
+  });
+
+  it("defaults to extract-v2", () => {
+    expect(getPrompt().version).toBe("extract-v2");
+  });
+
+  it("rejects an unknown version and names the known ones", () => {
+    expect(() => getPrompt("extract-v9")).toThrow(UnknownPromptVersionError);
+    expect(() => getPrompt("extract-v9")).toThrow("known: extract-v1, extract-v2, extract-v3");
+  });
+});
+
+describe("prompt templates", () => {
+  it("asks v1 for one event and v2 for every distinct event", () => {
+    expect(getPrompt("extract-v1").buildSystem()).toContain("Extract exactly ONE event per source");
+    expect(getPrompt("extract-v2").buildSystem()).toContain("Extract every DISTINCT event");
+  });
+
+  it("extends v2 with footprints in v3", () => {
+    const system = getPrompt("extract-v3").buildSystem();
+
+    expect(system.startsWith(getPrompt("extract-v2").buildSystem())).toBe(true);
+    expect(system).toContain("location.footprint");
+  });
+
+  it("embeds source metadata that can be read back from the user prompt", () => {
+    const user = getPrompt("extract-v2").buildUser(SOURCE, "Fires burned in two provinces.");
+
+    expect(parseSourceMetadata(user)).toEqual({
+      source_id: 42,
+      url: "https://example.org/news/fires",
+      publisher: "Wildlife Wire",
+      title: "Fires in two provinces",
+      published_at: "2026-08-02T00:00:00.000Z",
+      language: "en",
+    });
+    expect(user).toContain("SOURCE TEXT:\nFires burned in two provinces.");
+  });
+});
+
+describe("buildRepairPrompt", () => {
+  it("returns the original request, the failed reply and the validation errors", () => {
+    const repair = buildRepairPrompt("ORIGINAL REQUEST", { events: [] }, "/events: must NOT have fewer than 1 items");
+
+    expect(repair.startsWith("ORIGINAL REQUEST")).toBe(true);
+    expect(repair).toContain('YOUR PREVIOUS RESPONSE:\n{"events":[]}');
+    expect(repair).toContain("/events: must NOT have fewer than 1 items");
+  });
+});
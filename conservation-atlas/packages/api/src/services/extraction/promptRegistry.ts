@@ -0,0 +1,220 @@
+// packages/api/src/services/extraction/promptRegistry.ts
+//
+// Versioned extraction prompts.
+// A registered version is immutable: to change wording, add a new version
+// and point EXTRACT_PROMPT_VERSION at it. Every source_extractions row
+// stores the version that produced it, and tools/eval_prompts.ts compares
+// two versions against a gold set before switching.
+
+// ============================================
+// Types
+// ============================================
+
+export interface PromptSource {
+  id: number;
+  url: string;
+  publisher: string | null;
+  title: string | null;
+  publishedAt: Date | null;
+  language: string | null;
+}
+
+export interface PromptTemplate {
+  version: string;
+  /** Schema the model is asked to produce (v1 replies are upgraded to v2) */
+  schemaVersion: "event_extraction_v1" | "event_extraction_v2";
+  description: string;
+  buildSystem(): string;
+  buildUser(source: PromptSource, rawText: string): string;
+}
+
+export class UnknownPromptVersionError extends Error {
+  public readonly version: string;
+
+  constructor(version: string) {
+    super(`Unknown extraction prompt version: ${version} (known: ${listPromptVersions().join(", ")})`);
+    this.name = "UnknownPromptVersionError";
+    this.version = version;
+    Error.captureStackTrace?.(this, UnknownPromptVersionError);
+  }
+}
+
+// ============================================
+// Shared Prompt Sections
+// ============================================
+const ROLE = `You are a conservation event data extraction engine.
+
+TASK: Extract structured event data from news articles and reports about conservation, environmental events, and wildlife.`;
+
+const FIELD_RULES = [
+  "Coordinates must be [longitude, latitude] (GeoJSON order)",
+  "All dates must be ISO 8601 format (YYYY-MM-DD or full datetime)",
+  "Use null for unknown fields, not empty strings",
+  "severity.level: 1=minimal, 2=low, 3=moderate, 4=high, 5=severe/crisis",
+  "confidence.extraction: Your confidence in the overall extraction (0-1)",
+  "is_classroom_safe: False if contains graphic violence, animal death details, or disturbing content",
+];
+
+const EVENT_TYPES = `EVENT TYPES (pick most appropriate):
+- wildfire, deforestation, illegal_logging, poaching
+- pollution, oil_spill, disease_outbreak, coral_bleaching
+- invasive_species, habitat_loss, climate_impact
+- policy_change, restoration, conservation_win, species_discovery
+- other (only if nothing else fits)`;
+
+const SEVERITY_GUIDELINES = `SEVERITY GUIDELINES:
+- 1: Minor, localized, quickly resolved
+- 2: Limited scope, manageable impact
+- 3: Regional concern, moderate damage
+- 4: Significant damage, widespread impact
+- 5: Major disaster, crisis-level, international concern`;
+
+function numberedRules(rules: string[]): string {
+  return rules.map((rule, i) => `${i + 1}. ${rule}`).join("\n");
+}
+
+function sourceMetadata(source: PromptSource): string {
+  return JSON.stringify(
+    {
+      source_id: source.id,
+      url: source.url,
+      publisher: source.publisher,
+      title: source.title,
+      published_at: source.publishedAt?.toISOString(),
+      language: source.language,
+    },
+    null,
+    2
+  );
+}
+
+function userPrompt(instruction: string, source: PromptSource, rawText: string): string {
+  return `${instruction}
+
+SOURCE METADATA:
+${sourceMetadata(source)}
+
+SOURCE TEXT:
+${rawText}
+`;
+}
+
+// ============================================
+// Registered Versions
+// ============================================
+const EXTRACT_V1: PromptTemplate = {
+  version: "extract-v1",
+  schemaVersion: "event_extraction_v1",
+  description: "Original single-event prompt (most significant event only)",
+
+  buildSystem: () => `${ROLE}
+
+OUTPUT: Return ONLY valid JSON matching the event_extraction_v1 schema. No markdown fences or explanations.
+
+RULES:
+${numberedRules(["Extract exactly ONE event per source (the most significant/newsworthy one)", ...FIELD_RULES])}
+
+${EVENT_TYPES}
+
+${SEVERITY_GUIDELINES}`,
+
+  buildUser: (source, rawText) =>
+    userPrompt("Extract a conservation event from this source.", source, rawText),
+};
+
+const EXTRACT_V2: PromptTemplate = {
+  version: "extract-v2",
+  schemaVersion: "event_extraction_v2",
+  description: "Multi-event prompt: every distinct event, most significant first",
+
+  buildSystem: () => `${ROLE}
+
+OUTPUT: Return ONLY valid JSON matching the event_extraction_v2 schema: {"schema_version": "event_extraction_v2", "events": [...], "source_ref": {...}}. No markdown fences or explanations.
+
+RULES:
+${numberedRules([
+  `Extract every DISTINCT event the source reports (at most 10), most significant first.
+   Events are distinct when they differ in place, time, or kind (e.g. a roundup of fires in two countries).
+   Do NOT split one incident into several events, and skip passing background mentions.`,
+  ...FIELD_RULES,
+])}
+
+${EVENT_TYPES}
+
+${SEVERITY_GUIDELINES}`,
+
+  buildUser: (source, rawText) =>
+    userPrompt("Extract the conservation events described in this source.", source, rawText),
+};
+
+const EXTRACT_V3: PromptTemplate = {
+  version: "extract-v3",
+  schemaVersion: "event_extraction_v2",
+  description: "extract-v2 plus location.footprint for events that cover an area or a line",
+
+  buildSystem: () => `${EXTRACT_V2.buildSystem()}
+
+FOOTPRINTS:
+- location.footprint is an optional GeoJSON Polygon, MultiPolygon or LineString for events that cover an area or a line
+  (wildfire perimeter, oil slick, deforestation front, polluted river stretch)
+- Only give one when the source describes the extent concretely (named boundaries, river reaches, mapped perimeters); otherwise null
+- Polygon rings must be closed (first position repeated last); positions are [longitude, latitude]
+- Keep location.geometry as the event's point, inside or on the footprint
+- Put the reported size in metrics.area_affected_hectares or metrics.area_affected_km2`,
+
+  buildUser: EXTRACT_V2.buildUser,
+};
+
+const PROMPTS = new Map<string, PromptTemplate>(
+  [EXTRACT_V1, EXTRACT_V2, EXTRACT_V3].map((prompt) => [prompt.version, prompt])
+);
+
+// ============================================
+// Lookup
+// ============================================
+export const DEFAULT_PROMPT_VERSION = process.env.EXTRACT_PROMPT_VERSION || EXTRACT_V2.version;
+
+export function getPrompt(version: string = DEFAULT_PROMPT_VERSION): PromptTemplate {
+  const prompt = PROMPTS.get(version);
+  if (!prompt) throw new UnknownPromptVersionError(version);
+  return prompt;
+}
+
+export function listPromptVersions(): string[] {
+  return [...PROMPTS.keys()];
+}
+
+/**
+ * Repair turn for any version: the original request, the reply that failed
+ * validation (normalized to v2) and the exact AJV error paths, so the model
+ * fixes those fields instead of re-extracting from scratch.
+ */
+export function buildRepairPrompt(user: string, previous: unknown, errorText: string): string {
+  return `${user}
+YOUR PREVIOUS RESPONSE:
+${JSON.stringify(previous)}
+
+IMPORTANT: That response does not match the event_extraction_v2 schema. Validation errors (JSON path: problem):
+${errorText}
+
+Fix exactly these problems and keep every other field unchanged.
+- Return the whole event_extraction_v2 object: {"schema_version": "event_extraction_v2", "events": [...], "source_ref": {...}}
+- coordinates MUST be [longitude, latitude] if provided
+- Output ONLY the corrected JSON object, nothing else`;
+}
+
+/**
+ * Read the SOURCE METADATA block back out of a user prompt built by any
+ * registered version (offline providers use it to identify the source)
+ */
+export function parseSourceMetadata(user: string): Record<string, any> {
+  const start = user.indexOf("SOURCE METADATA:");
+  if (start === -1) return {};
+  const end = user.indexOf("SOURCE TEXT:", start);
+
+  try {
+    return JSON.parse(user.slice(start + "SOURCE METADATA:".length, end === -1 ? undefined : end));
+  } catch {
+    return {};
+  }
+}
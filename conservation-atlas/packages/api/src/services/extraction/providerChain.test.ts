@@ -0,0 +1,74 @@
+// packages/api/src/services/extraction/providerChain.test.ts
+
+import { FakeExtractionProvider } from "./fakeProvider";
+import { ProviderChainError, extractWithFallback, resolveProviderChain } from "./providerChain";
+
+const REQUEST = {
+  system: "Extract conservation events as JSON.",
+  user: 'SOURCE METADATA:\n{"title": "Oil spill off the coast"}\nSOURCE TEXT:\nAn oil spill reached the mangroves on Monday.',
+};
+
+describe("extractWithFallback", () => {
+  it("returns the first provider's response when it succeeds", async () => {
+    const response = await extractWithFallback([new FakeExtractionProvider()], REQUEST);
+
+    expect(response.provider).toBe("fake");
+    expect(response.failedAttempts).toEqual([]);
+  });
+
+  it("moves on after a failure and records the failed attempt", async () => {
+    const chain = [
+      new FakeExtractionProvider({ failWith: "rate_limit", model: "primary" }),
+      new FakeExtractionProvider({ model: "fallback" }),
+    ];
+
+    const response = await extractWithFallback(chain, REQUEST);
+
+    expect(response.model).toBe("fallback");
+    expect(response.failedAttempts).toEqual([
+      expect.objectContaining({ provider: "fake", model: "primary", kind: "rate_limit" }),
+    ]);
+  });
+
+  it("throws a ProviderChainError carrying every attempt when all providers fail", async () => {
+    const chain = [
+      new FakeExtractionProvider({ failWith: "unavailable" }),
+      new FakeExtractionProvider({ failWith: "auth" }),
+    ];
+
+    const err = await extractWithFallback(chain, REQUEST).catch((e) => e);
+
+    expect(err).toBeInstanceOf(ProviderChainError);
+    expect((err as ProviderChainError).attempts.map((a) => a.kind)).toEqual(["unavailable", "auth"]);
+  });
+});
+
+describe("resolveProviderChain", () => {
+  const env = { ...process.env };
+
+  afterEach(() => {
+    process.env = { ...env };
+  });
+
+  it("never falls through from the fake provider to a paid one", () => {
+    process.env.ANTHROPIC_API_KEY = "test-key";
+
+    expect(resolveProviderChain("fake").map((p) => p.name)).toEqual(["fake"]);
+  });
+
+  it("puts the hinted provider first and skips providers without a key", () => {
+    process.env.ANTHROPIC_API_KEY = "test-key";
+    process.env.GEMINI_API_KEY = "test-key";
+    delete process.env.OPENAI_API_KEY;
+
+    expect(resolveProviderChain("gemini").map((p) => p.name)).toEqual(["gemini", "anthropic"]);
+  });
+
+  it("fails clearly when no provider is configured", () => {
+    delete process.env.OPENAI_API_KEY;
+    delete process.env.ANTHROPIC_API_KEY;
+    delete process.env.GEMINI_API_KEY;
+
+    expect(() => resolveProviderChain("openai")).toThrow("No extraction provider configured");
+  });
+});
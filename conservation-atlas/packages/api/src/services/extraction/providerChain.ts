@@ -0,0 +1,174 @@
+// packages/api/src/services/extraction/providerChain.ts
+//
+// Provider selection and fallback for the EXTRACT stage.
+// Order: model_hint (or EXTRACT_PROVIDER) first, then EXTRACT_FALLBACK_PROVIDER,
+// or else any other provider with an API key configured.
+
+import { logger } from "../../utils/logger";
+import {
+  ProviderError,
+  type ExtractionProvider,
+  type ExtractionRequest,
+  type ExtractionResponse,
+  type ProviderErrorKind,
+  type ProviderName,
+  type TokenUsage,
+} from "./extractionProvider";
+import { OpenAIExtractionProvider } from "./openaiProvider";
+import { AnthropicExtractionProvider } from "./anthropicProvider";
+import { GeminiExtractionProvider } from "./geminiProvider";
+import { FakeExtractionProvider } from "./fakeProvider";
+
+// ============================================
+// Configuration
+// ============================================
+const DEFAULT_PROVIDER = (process.env.EXTRACT_PROVIDER || "openai") as ProviderName;
+const FALLBACK_PROVIDER = (process.env.EXTRACT_FALLBACK_PROVIDER || null) as ProviderName | null;
+
+const PROVIDER_ORDER: ProviderName[] = ["openai", "anthropic", "gemini"];
+
+const API_KEY_ENV: Record<Exclude<ProviderName, "fake" | "recorded">, string> = {
+  openai: "OPENAI_API_KEY",
+  anthropic: "ANTHROPIC_API_KEY",
+  gemini: "GEMINI_API_KEY",
+};
+
+// ============================================
+// Types
+// ============================================
+
+export interface FailedAttempt {
+  provider: ProviderName;
+  model: string;
+  kind: ProviderErrorKind;
+  status: number | null;
+  error: string;
+  usage: TokenUsage | null;
+}
+
+export interface ChainResponse extends ExtractionResponse {
+  /** Providers that failed before this response was obtained */
+  failedAttempts: FailedAttempt[];
+}
+
+/**
+ * Raised when every provider in the chain failed; keeps the attempts so
+ * callers can still account for tokens that were billed.
+ */
+export class ProviderChainError extends Error {
+  public readonly attempts: FailedAttempt[];
+
+  constructor(attempts: FailedAttempt[]) {
+    const summary = attempts.map((a) => `${a.provider} (${a.kind}): ${a.error}`).join("; ");
+    super(`All extraction providers failed: ${summary}`);
+    this.name = "ProviderChainError";
+    this.attempts = attempts;
+  }
+}
+
+// ============================================
+// Provider Registry
+// ============================================
+const instances = new Map<ProviderName, ExtractionProvider>();
+
+/**
+ * Get (or lazily build) the adapter for a provider
+ */
+export function getExtractionProvider(name: ProviderName): ExtractionProvider {
+  const cached = instances.get(name);
+  if (cached) return cached;
+
+  let provider: ExtractionProvider;
+  switch (name) {
+    case "openai":
+      provider = new OpenAIExtractionProvider(
+        process.env.OPENAI_API_KEY ?? "",
+        process.env.OPENAI_EXTRACT_MODEL || "gpt-4-turbo"
+      );
+      break;
+    case "anthropic":
+      provider = new AnthropicExtractionProvider(
+        process.env.ANTHROPIC_API_KEY ?? "",
+        process.env.ANTHROPIC_EXTRACT_MODEL || "claude-3-5-sonnet-latest"
+      );
+      break;
+    case "gemini":
+      provider = new GeminiExtractionProvider(
+        process.env.GEMINI_API_KEY ?? "",
+        process.env.GEMINI_EXTRACT_MODEL || "gemini-1.5-pro"
+      );
+      break;
+    case "fake":
+      provider = new FakeExtractionProvider();
+      break;
+    case "recorded":
+      throw new Error("Recorded providers replay a recordings directory; build one with loadRecordedProvider()");
+    default:
+      throw new Error(`Unknown extraction provider: ${name}`);
+  }
+
+  instances.set(name, provider);
+  return provider;
+}
+
+function isConfigured(name: ProviderName): boolean {
+  if (name === "fake") return true;
+  if (name === "recorded") return false;
+  return Boolean(process.env[API_KEY_ENV[name]]);
+}
+
+/**
+ * Ordered, de-duplicated list of providers to try for one extraction
+ */
+export function resolveProviderChain(hint?: ProviderName | null): ExtractionProvider[] {
+  const primary = hint ?? DEFAULT_PROVIDER;
+
+  // The fake provider never falls through to paid APIs
+  if (primary === "fake") return [getExtractionProvider("fake")];
+
+  const fallback = FALLBACK_PROVIDER
+    ? [FALLBACK_PROVIDER]
+    : PROVIDER_ORDER.filter((name) => name !== primary);
+
+  const names = [primary, ...fallback]
+    .filter((name, i, all) => all.indexOf(name) === i)
+    .filter(isConfigured)
+    .slice(0, 2);
+
+  if (!names.length) {
+    throw new Error(`No extraction provider configured (requested: ${primary})`);
+  }
+
+  return names.map(getExtractionProvider);
+}
+
+// ============================================
+// Fallback Execution
+// ============================================
+
+/**
+ * Try each provider in order until one returns parsed JSON.
+ * Any provider error (rate limit, outage, bad output) moves on to the next.
+ */
+export async function extractWithFallback(
+  chain: ExtractionProvider[],
+  request: ExtractionRequest
+): Promise<ChainResponse> {
+  const failedAttempts: FailedAttempt[] = [];
+
+  for (const provider of chain) {
+    try {
+      const response = await provider.extract(request);
+      return { ...response, failedAttempts };
+    } catch (err) {
+      const attempt: FailedAttempt = err instanceof ProviderError
+        ? { provider: provider.name, model: provider.model, kind: err.kind, status: err.status, error: err.message, usage: err.usage }
+        : { provider: provider.name, model: provider.model, kind: "unavailable", status: null, error: (err as Error).message, usage: null };
+
+      failedAttempts.push(attempt);
+      logger.warn(attempt, "Extraction provider failed; trying next provider");
+    }
+  }
+
+  throw new ProviderChainError(failedAttempts);
+}
@@ -0,0 +1,107 @@
+// packages/api/src/services/extraction/recordedProvider.ts
+//
+// Replays provider responses recorded from a live run, so the gold-set
+// regression suite measures prompt, schema and post-processing changes
+// without API keys or cost. Recordings live next to the gold cases:
+//   <gold dir>/recordings/<prompt version>/<case id>.json
+// A prompt change needs fresh recordings (tools/gold_regression.ts --record).
+
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from "node:fs";
+import { join } from "node:path";
+
+import {
+  ProviderError,
+  type ExtractionProvider,
+  type ExtractionRequest,
+  type ExtractionResponse,
+  type ProviderName,
+  type TokenUsage,
+} from "./extractionProvider";
+import { parseSourceMetadata } from "./promptRegistry";
+
+// ============================================
+// Types
+// ============================================
+
+export interface Recording {
+  case_id: string;
+  prompt_version: string;
+  source_url: string;
+  /** Provider and model that actually produced the response */
+  provider: ProviderName;
+  model: string;
+  recorded_at: string;
+  usage: TokenUsage;
+  json: any;
+}
+
+// ============================================
+// Provider
+// ============================================
+
+export class RecordedExtractionProvider implements ExtractionProvider {
+  readonly name = "recorded" as const;
+  readonly model: string;
+
+  /** @param recordings keyed by source URL (the only stable id in the prompt) */
+  constructor(private readonly recordings: Map<string, Recording>, promptVersion: string) {
+    this.model = promptVersion;
+  }
+
+  async extract(request: ExtractionRequest): Promise<ExtractionResponse> {
+    const url = parseSourceMetadata(request.user).url;
+    const recording = typeof url === "string" ? this.recordings.get(url) : undefined;
+
+    if (!recording) {
+      throw new ProviderError(this.name, "bad_request", `no recording for ${url ?? "unknown source"} (${this.model})`);
+    }
+
+    return {
+      // Callers mutate the extraction (geo validation); keep the recording pristine
+      json: structuredClone(recording.json),
+      provider: recording.provider,
+      model: recording.model,
+      usage: recording.usage,
+    };
+  }
+}
+
+// ============================================
+// Recording Files
+// ============================================
+
+export function recordingsDir(goldDir: string, promptVersion: string): string {
+  return join(goldDir, "recordings", promptVersion);
+}
+
+/**
+ * Build a replay provider from the recordings of the given cases
+ * (cases without a recording fail with a provider error when replayed)
+ */
+export function loadRecordedProvider(
+  goldDir: string,
+  promptVersion: string,
+  caseIds: string[]
+): RecordedExtractionProvider {
+  const dir = recordingsDir(goldDir, promptVersion);
+  const recordings = new Map<string, Recording>();
+
+  for (const caseId of caseIds) {
+    const file = join(dir, `${caseId}.json`);
+    if (!existsSync(file)) continue;
+
+    const recording: Recording = JSON.parse(readFileSync(file, "utf8"));
+    recordings.set(recording.source_url, recording);
+  }
+
+  return new RecordedExtractionProvider(recordings, promptVersion);
+}
+
+export function saveRecording(goldDir: string, recording: Recording): string {
+  const dir = recordingsDir(goldDir, recording.prompt_version);
+  mkdirSync(dir, { recursive: true });
+
+  const file = join(dir, `${recording.case_id}.json`);
+  writeFileSync(file, JSON.stringify(recording, null, 2) + "\n");
+  return file;
+}
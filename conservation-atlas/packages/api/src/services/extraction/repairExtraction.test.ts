@@ -0,0 +1,127 @@
+// packages/api/src/services/extraction/repairExtraction.test.ts
+
+import type { ErrorObject } from "ajv";
+
+import type { ExtractionProvider, ExtractionRequest, ExtractionResponse } from "./extractionProvider";
+import { extractEvents, validateEventSchema } from "./extractEvents";
+import { FakeExtractionProvider } from "./fakeProvider";
+import { getPrompt } from "./promptRegistry";
+import { applyDeterministicRepairs } from "./repairExtraction";
+
+const REQUEST: ExtractionRequest = {
+  system: "Extract conservation events as JSON.",
+  user:
+    'SOURCE METADATA:\n{"source_id": 3, "url": "https://example.org/spill", "title": "Oil spill reaches mangroves"}\n' +
+    "SOURCE TEXT:\nAn oil spill reached the mangroves near Lagos on Monday, officials said.",
+};
+
+async function validExtraction(): Promise<any> {
+  return (await new FakeExtractionProvider().extract(REQUEST)).json;
+}
+
+/**
+ * The kinds of mistakes models make, on an otherwise valid reply
+ */
+function breakExtraction(json: any): any {
+  const [event] = json.events;
+  event.event_type.primary = "Oil Spill";
+  event.severity.level = "4 - high";
+  event.summary.detailed = "  ";
+  // [latitude, longitude]
+  event.location.geometry = { type: "Point", coordinates: [6.45, 103.39], precision: "approximate" };
+  return json;
+}
+
+function schemaErrors(json: unknown): ErrorObject[] {
+  validateEventSchema(json);
+  return validateEventSchema.errors ?? [];
+}
+
+describe("applyDeterministicRepairs", () => {
+  it("fixes enum case, severity strings, empty strings and swapped coordinates", async () => {
+    const json = breakExtraction(await validExtraction());
+
+    const actions = applyDeterministicRepairs(json, schemaErrors(json));
+
+    expect(actions).toEqual(
+      expect.arrayContaining([
+        { kind: "empty_to_null", path: "/events/0/summary/detailed", from: "  ", to: null },
+        { kind: "enum_case", path: "/events/0/event_type/primary", from: "Oil Spill", to: "oil_spill" },
+        { kind: "severity_integer", path: "/events/0/severity/level", from: "4 - high", to: 4 },
+        {
+          kind: "coordinate_swap",
+          path: "/events/0/location/geometry/coordinates",
+          from: [6.45, 103.39],
+          to: [103.39, 6.45],
+        },
+      ])
+    );
+    expect(schemaErrors(json)).toEqual([]);
+  });
+
+  it("replaces a bare severity with a severity object", async () => {
+    const json = await validExtraction();
+    json.events[0].severity = "severe";
+
+    applyDeterministicRepairs(json, schemaErrors(json));
+
+    expect(json.events[0].severity).toEqual({ level: 5, rationale: null });
+  });
+
+  it("leaves values it cannot map for the model to fix", async () => {
+    const json = await validExtraction();
+    json.events[0].event_type.primary = "meteor strike";
+
+    expect(applyDeterministicRepairs(json, schemaErrors(json))).toEqual([]);
+    expect(json.events[0].event_type.primary).toBe("meteor strike");
+  });
+});
+
+describe("extractEvents repair stage", () => {
+  class ScriptedProvider implements ExtractionProvider {
+    readonly name = "fake" as const;
+    readonly model = "scripted";
+    readonly requests: ExtractionRequest[] = [];
+
+    constructor(private readonly replies: Array<(json: any) => any>) {}
+
+    async extract(request: ExtractionRequest): Promise<ExtractionResponse> {
+      this.requests.push(request);
+      const response = await new FakeExtractionProvider().extract(request);
+      const reply = this.replies[this.requests.length - 1] ?? ((json) => json);
+      return { ...response, json: reply(response.json) };
+    }
+  }
+
+  const source = { id: 3, url: "https://example.org/spill", publisher: null, title: null, publishedAt: null, language: "en" };
+  const input = { prompt: getPrompt("extract-v2"), source, rawText: "An oil spill reached the mangroves near Lagos." };
+
+  it("repairs common mistakes without another model call and records them", async () => {
+    const provider = new ScriptedProvider([breakExtraction]);
+
+    const result = await extractEvents({ ...input, providers: [provider] });
+
+    expect(result.valid).toBe(true);
+    expect(provider.requests).toHaveLength(1);
+    expect(result.repairs.llmRepair).toBe(false);
+    expect(result.repairs.initialErrors).toContain("/events/0/event_type/primary");
+    expect(result.repairs.actions.map((a) => a.kind)).toEqual(
+      expect.arrayContaining(["enum_case", "severity_integer", "coordinate_swap"])
+    );
+  });
+
+  it("asks the model to fix what is left, quoting the error paths", async () => {
+    const provider = new ScriptedProvider([
+      (json) => {
+        json.events[0].event_type.primary = "meteor strike";
+        return json;
+      },
+    ]);
+
+    const result = await extractEvents({ ...input, providers: [provider] });
+
+    expect(result.valid).toBe(true);
+    expect(result.repairs.llmRepair).toBe(true);
+    expect(provider.requests[1].user).toContain("/events/0/event_type/primary: must be equal to one of the allowed values");
+  });
+});
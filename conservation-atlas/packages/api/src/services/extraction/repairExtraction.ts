@@ -0,0 +1,198 @@
+// packages/api/src/services/extraction/repairExtraction.ts
+//
+// Deterministic repairs for extractions that fail schema validation.
+// Fixes the mistakes models make most often without another LLM call:
+// - empty strings where the schema wants null
+// - enum values with the wrong case or spacing ("Oil Spill" -> "oil_spill")
+// - severity given as a string or float ("4", "4 - high", 3.0)
+// - coordinates in [latitude, longitude] order
+// Anything left over goes back to the model with the AJV error paths.
+
+import type { ErrorObject } from "ajv";
+
+// ============================================
+// Types
+// ============================================
+
+export type RepairKind = "empty_to_null" | "enum_case" | "severity_integer" | "coordinate_swap";
+
+export interface RepairAction {
+  kind: RepairKind;
+  /** JSON pointer into the (v2-normalized) extraction */
+  path: string;
+  from: unknown;
+  to: unknown;
+}
+
+/** Stored on source_extractions.repairs */
+export interface RepairRecord {
+  /** formatAjvErrors() of the first reply; null when it was valid */
+  initialErrors: string | null;
+  actions: RepairAction[];
+  /** True when the model had to be asked to fix the reply */
+  llmRepair: boolean;
+}
+
+type EnumError = ErrorObject<"enum", { allowedValues: unknown[] }>;
+
+const SEVERITY_WORDS: Record<string, number> = {
+  minimal: 1,
+  minor: 1,
+  low: 2,
+  moderate: 3,
+  medium: 3,
+  high: 4,
+  severe: 5,
+  critical: 5,
+  crisis: 5,
+};
+
+// ============================================
+// Main Entry
+// ============================================
+
+/**
+ * Apply every safe fix in place and return what changed.
+ * `errors` are the AJV errors of the current document; enum and severity
+ * fixes only touch the paths they point at.
+ */
+export function applyDeterministicRepairs(extraction: any, errors: ErrorObject[]): RepairAction[] {
+  const actions: RepairAction[] = [];
+  if (!extraction || typeof extraction !== "object") return actions;
+
+  nullifyEmptyStrings(extraction, "", actions);
+
+  for (const err of errors) {
+    if (isEnumError(err)) {
+      foldEnum(extraction, err, actions);
+    } else if (err.keyword === "type" && /\/severity(\/level)?$/.test(err.instancePath)) {
+      coerceSeverity(extraction, err.instancePath, actions);
+    }
+  }
+
+  if (Array.isArray(extraction.events)) {
+    extraction.events.forEach((event: any, i: number) => swapCoordinates(event, `/events/${i}`, actions));
+  }
+
+  return actions;
+}
+
+// ============================================
+// Fixes
+// ============================================
+
+function nullifyEmptyStrings(node: any, path: string, actions: RepairAction[]) {
+  if (!node || typeof node !== "object") return;
+
+  for (const key of Object.keys(node)) {
+    const value = node[key];
+    const childPath = `${path}/${key}`;
+
+    if (typeof value === "string" && value.trim() === "") {
+      node[key] = null;
+      actions.push({ kind: "empty_to_null", path: childPath, from: value, to: null });
+    } else if (typeof value === "object") {
+      nullifyEmptyStrings(value, childPath, actions);
+    }
+  }
+}
+
+function foldEnum(root: any, err: EnumError, actions: RepairAction[]) {
+  const value = getAt(root, err.instancePath);
+  const allowed = err.params.allowedValues ?? [];
+  if (typeof value !== "string") return;
+
+  const folded = value.trim().toLowerCase().replace(/[\s-]+/g, "_");
+  if (folded !== value && allowed.includes(folded)) {
+    setAt(root, err.instancePath, folded);
+    actions.push({ kind: "enum_case", path: err.instancePath, from: value, to: folded });
+  }
+}
+
+function coerceSeverity(root: any, path: string, actions: RepairAction[]) {
+  // A bare number/string in place of the severity object
+  if (path.endsWith("/severity")) {
+    const value = getAt(root, path);
+    const level = parseSeverity(value);
+    if (level === null) return;
+
+    setAt(root, path, { level, rationale: null });
+    actions.push({ kind: "severity_integer", path, from: value, to: { level, rationale: null } });
+    return;
+  }
+
+  const value = getAt(root, path);
+  const level = parseSeverity(value);
+  if (level === null || level === value) return;
+
+  setAt(root, path, level);
+  actions.push({ kind: "severity_integer", path, from: value, to: level });
+}
+
+/**
+ * Latitude can never exceed 90; when only the second value does, the pair
+ * is [lat, lng]. Ambiguous pairs are left to validateGeolocation.
+ */
+function swapCoordinates(event: any, path: string, actions: RepairAction[]) {
+  const coords = event?.location?.geometry?.coordinates;
+  if (!Array.isArray(coords) || coords.length !== 2) return;
+
+  const [lng, lat] = coords;
+  if (typeof lng !== "number" || typeof lat !== "number") return;
+
+  if (Math.abs(lat) > 90 && Math.abs(lng) <= 90) {
+    event.location.geometry.coordinates = [lat, lng];
+    actions.push({ kind: "coordinate_swap", path: `${path}/location/geometry/coordinates`, from: coords, to: [lat, lng] });
+  }
+}
+
+// ============================================
+// Utility Functions
+// ============================================
+
+function isEnumError(err: ErrorObject): err is EnumError {
+  return err.keyword === "enum";
+}
+
+function parseSeverity(value: unknown): number | null {
+  let level: number | null = null;
+
+  if (typeof value === "number") {
+    level = Math.round(value);
+  } else if (typeof value === "string") {
+    const digit = value.match(/^\s*([1-5])(\.0+)?\b/);
+    const word = value.trim().toLowerCase().match(/^[a-z]+/)?.[0];
+    level = digit ? Number(digit[1]) : word ? SEVERITY_WORDS[word] ?? null : null;
+  }
+
+  return level !== null && level >= 1 && level <= 5 ? level : null;
+}
+
+function pointerKeys(path: string): string[] {
+  return path
+    .split("/")
+    .slice(1)
+    .map((key) => key.replace(/~1/g, "/").replace(/~0/g, "~"));
+}
+
+function getAt(root: any, path: string): unknown {
+  return walk(root, pointerKeys(path));
+}
+
+function setAt(root: any, path: string, value: unknown) {
+  const keys = pointerKeys(path);
+  const last = keys.pop();
+  const parent = walk(root, keys);
+  if (last !== undefined && parent && typeof parent === "object") {
+    (parent as Record<string, unknown>)[last] = value;
+  }
+}
+
+function walk(root: any, keys: string[]): unknown {
+  let node = root;
+  for (const key of keys) {
+    if (node === null || typeof node !== "object") return undefined;
+    node = node[key];
+  }
+  return node;
+}
@@ -0,0 +1,107 @@
+// packages/api/src/services/extraction/usageTracker.test.ts
+
+import { estimateCostUsd } from "./pricing";
+import type { ChainResponse, FailedAttempt } from "./providerChain";
+import { recordUsage, sumUsage, usageRecordsFor } from "./usageTracker";
+
+type Statement = { sql: string; values: unknown[] };
+
+const mockDb = {
+  statements: [] as Statement[],
+};
+
+jest.mock("../../db", () => ({
+  prisma: {
+    $executeRaw: jest.fn(async (strings: TemplateStringsArray, ...values: unknown[]) => {
+      mockDb.statements.push({ sql: strings.join("?"), values });
+      return 1;
+    }),
+  },
+}));
+
+const RATE_LIMITED: FailedAttempt = {
+  provider: "openai",
+  model: "gpt-4o-2024-08-06",
+  kind: "rate_limit",
+  status: 429,
+  error: "Too many requests",
+  usage: null,
+};
+
+const ANSWERED: ChainResponse = {
+  json: { events: [] },
+  provider: "anthropic",
+  model: "claude-3-5-sonnet-20241022",
+  usage: { inputTokens: 2_000, outputTokens: 500 },
+  failedAttempts: [RATE_LIMITED],
+};
+
+beforeEach(() => {
+  mockDb.statements = [];
+});
+
+describe("estimateCostUsd", () => {
+  it("prices dated snapshots by their model family", () => {
+    // 2,000 in * $3/M + 500 out * $15/M
+    expect(estimateCostUsd("anthropic", "claude-3-5-sonnet-20241022", { inputTokens: 2_000, outputTokens: 500 })).toBe(
+      0.0135
+    );
+  });
+
+  it("picks the longest matching prefix", () => {
+    expect(estimateCostUsd("openai", "gpt-4o-mini", { inputTokens: 1_000_000, outputTokens: 0 })).toBe(0.15);
+  });
+
+  it("records unknown models as free", () => {
+    expect(estimateCostUsd("openai", "o9-preview", { inputTokens: 1_000, outputTokens: 1_000 })).toBe(0);
+  });
+});
+
+describe("usageRecordsFor", () => {
+  it("lists failed attempts before the answering provider", () => {
+    const records = usageRecordsFor("initial", ANSWERED.failedAttempts, ANSWERED);
+
+    expect(records).toEqual([
+      expect.objectContaining({ provider: "openai", succeeded: false, errorKind: "rate_limit", costUsd: 0 }),
+      expect.objectContaining({ provider: "anthropic", succeeded: true, errorKind: null, costUsd: 0.0135 }),
+    ]);
+    expect(records[0].usage).toEqual({ inputTokens: 0, outputTokens: 0 });
+  });
+
+  it("bills failed attempts that reported usage", () => {
+    const truncated: FailedAttempt = { ...RATE_LIMITED, kind: "invalid_response", usage: { inputTokens: 1_000_000, outputTokens: 0 } };
+
+    const [record] = usageRecordsFor("repair", [truncated], null);
+
+    expect(record).toMatchObject({ callKind: "repair", succeeded: false, costUsd: 2.5 });
+  });
+});
+
+describe("sumUsage", () => {
+  it("totals calls, tokens and cost across attempts", () => {
+    const records = [
+      ...usageRecordsFor("initial", ANSWERED.failedAttempts, ANSWERED),
+      ...usageRecordsFor("repair", [], { ...ANSWERED, usage: { inputTokens: 1_000, outputTokens: 100 } }),
+    ];
+
+    expect(sumUsage(records)).toEqual({ calls: 3, inputTokens: 3_000, outputTokens: 600, costUsd: 0.018 });
+  });
+
+  it("is zero for no calls", () => {
+    expect(sumUsage([])).toEqual({ calls: 0, inputTokens: 0, outputTokens: 0, costUsd: 0 });
+  });
+});
+
+describe("recordUsage", () => {
+  it("writes one extraction_usage row per call", async () => {
+    const ctx = { sourceId: 7, jobId: "job-1", correlationId: "corr-1" };
+
+    await recordUsage(ctx, usageRecordsFor("initial", ANSWERED.failedAttempts, ANSWERED));
+
+    expect(mockDb.statements).toHaveLength(2);
+    expect(mockDb.statements[1].sql).toContain("INSERT INTO extraction_usage");
+    expect(mockDb.statements[1].values).toEqual([
+      7, "job-1", "corr-1", "anthropic", "claude-3-5-sonnet-20241022", "initial", true, null, 2_000, 500, 0.0135,
+    ]);
+  });
+});
@@ -0,0 +1,174 @@
+// packages/api/src/services/extraction/usageTracker.ts
+//
+// Token/cost accounting for LLM extraction calls.
+// Every provider call (including failed ones that were billed, and repair
+// turns) becomes one extraction_usage row keyed by source and job.
+// Also enforces the daily EXTRACT budget.
+
+import { prisma } from "../../db";
+import { logger } from "../../utils/logger";
+import type { ProviderName, TokenUsage } from "./extractionProvider";
+import { estimateCostUsd } from "./pricing";
+import type { ChainResponse, FailedAttempt } from "./providerChain";
+
+// ============================================
+// Configuration
+// ============================================
+
+// 0 / unset disables the budget
+const DAILY_BUDGET_USD = Number(process.env.EXTRACT_DAILY_BUDGET_USD ?? 0);
+const BUDGET_CACHE_MS = 60_000;
+
+// ============================================
+// Types
+// ============================================
+
+// Rows written before the repair stage may still say "strict_retry"
+export type CallKind = "initial" | "repair";
+
+export interface UsageContext {
+  sourceId: number;
+  jobId: string;
+  correlationId: string;
+}
+
+export interface UsageRecord {
+  provider: ProviderName;
+  model: string;
+  callKind: CallKind;
+  succeeded: boolean;
+  errorKind: string | null;
+  usage: TokenUsage;
+  costUsd: number;
+}
+
+export interface UsageTotals {
+  calls: number;
+  inputTokens: number;
+  outputTokens: number;
+  costUsd: number;
+}
+
+export interface BudgetStatus {
+  enabled: boolean;
+  budgetUsd: number;
+  spentUsd: number;
+  exceeded: boolean;
+}
+
+// ============================================
+// Recording
+// ============================================
+
+/**
+ * Build usage records for one extractWithFallback() outcome:
+ * failed attempts first, then the successful response (if any)
+ */
+export function usageRecordsFor(
+  callKind: CallKind,
+  failedAttempts: FailedAttempt[],
+  response: ChainResponse | null
+): UsageRecord[] {
+  const records: UsageRecord[] = failedAttempts.map((a) => {
+    const usage = a.usage ?? { inputTokens: 0, outputTokens: 0 };
+    return {
+      provider: a.provider,
+      model: a.model,
+      callKind,
+      succeeded: false,
+      errorKind: a.kind,
+      usage,
+      costUsd: estimateCostUsd(a.provider, a.model, usage),
+    };
+  });
+
+  if (response) {
+    records.push({
+      provider: response.provider,
+      model: response.model,
+      callKind,
+      succeeded: true,
+      errorKind: null,
+      usage: response.usage,
+      costUsd: estimateCostUsd(response.provider, response.model, response.usage),
+    });
+  }
+
+  return records;
+}
+
+/**
+ * Persist usage rows. Accounting must never fail the job, so errors are logged.
+ */
+export async function recordUsage(ctx: UsageContext, records: UsageRecord[]): Promise<void> {
+  if (!records.length) return;
+
+  try {
+    for (const r of records) {
+      await prisma.$executeRaw`
+        INSERT INTO extraction_usage (
+          source_id, job_id, correlation_id, provider, model, call_kind,
+          succeeded, error_kind, input_tokens, output_tokens, cost_usd
+        )
+        VALUES (
+          ${ctx.sourceId}, ${ctx.jobId}, ${ctx.correlationId}, ${r.provider}, ${r.model}, ${r.callKind},
+          ${r.succeeded}, ${r.errorKind}, ${r.usage.inputTokens}, ${r.usage.outputTokens}, ${r.costUsd}
+        )
+      `;
+    }
+    invalidateBudgetCache();
+  } catch (err) {
+    logger.error({ source_id: ctx.sourceId, job_id: ctx.jobId, error: (err as Error).message }, "Failed to record extraction usage");
+  }
+}
+
+export function sumUsage(records: UsageRecord[]): UsageTotals {
+  return records.reduce<UsageTotals>(
+    (acc, r) => ({
+      calls: acc.calls + 1,
+      inputTokens: acc.inputTokens + r.usage.inputTokens,
+      outputTokens: acc.outputTokens + r.usage.outputTokens,
+      costUsd: Math.round((acc.costUsd + r.costUsd) * 1_000_000) / 1_000_000,
+    }),
+    { calls: 0, inputTokens: 0, outputTokens: 0, costUsd: 0 }
+  );
+}
+
+// ============================================
+// Daily Budget
+// ============================================
+let budgetCache: { status: BudgetStatus; expiresAt: number } | null = null;
+
+function invalidateBudgetCache(): void {
+  budgetCache = null;
+}
+
+/**
+ * Spend so far for the current UTC day against EXTRACT_DAILY_BUDGET_USD.
+ * Cached briefly so the worker can check it on every poll.
+ */
+export async function getExtractBudgetStatus(): Promise<BudgetStatus> {
+  if (!(DAILY_BUDGET_USD > 0)) {
+    return { enabled: false, budgetUsd: 0, spentUsd: 0, exceeded: false };
+  }
+  if (budgetCache && budgetCache.expiresAt > Date.now()) {
+    return budgetCache.status;
+  }
+
+  const rows = await prisma.$queryRaw<Array<{ spent: number | null }>>`
+    SELECT COALESCE(SUM(cost_usd), 0)::float8 AS spent
+    FROM extraction_usage
+    WHERE created_at >= date_trunc('day', NOW() AT TIME ZONE 'UTC') AT TIME ZONE 'UTC'
+  `;
+
+  const spentUsd = Number(rows[0]?.spent ?? 0);
+  const status: BudgetStatus = {
+    enabled: true,
+    budgetUsd: DAILY_BUDGET_USD,
+    spentUsd: Math.round(spentUsd * 100) / 100,
+    exceeded: spentUsd >= DAILY_BUDGET_USD,
+  };
+
+  budgetCache = { status, expiresAt: Date.now() + BUDGET_CACHE_MS };
+  return status;
+}
@@ -0,0 +1,50 @@
+// packages/api/src/services/geo/countryNames.ts
+//
+// Country name normalization shared by the geo reference datasets
+// (Natural Earth, GeoNames). Both match on lowercased official names and
+// ISO codes; this maps the other names extractions use onto those.
+
+// Names extractions use that match no official name column, mapped to
+// ISO 3166-1 alpha-3
+const COUNTRY_ALIASES: Record<string, string> = {
+  "us": "usa",
+  "u.s.": "usa",
+  "united states": "usa",
+  "america": "usa",
+  "uk": "gbr",
+  "u.k.": "gbr",
+  "great britain": "gbr",
+  "britain": "gbr",
+  "england": "gbr",
+  "scotland": "gbr",
+  "wales": "gbr",
+  "drc": "cod",
+  "dr congo": "cod",
+  "congo-kinshasa": "cod",
+  "democratic republic of congo": "cod",
+  "congo": "cog",
+  "congo-brazzaville": "cog",
+  "republic of the congo": "cog",
+  "ivory coast": "civ",
+  "cote d'ivoire": "civ",
+  "czech republic": "cze",
+  "burma": "mmr",
+  "swaziland": "swz",
+  "east timor": "tls",
+  "cape verde": "cpv",
+  "macedonia": "mkd",
+  "the gambia": "gmb",
+  "the bahamas": "bhs",
+  "holland": "nld",
+  "the netherlands": "nld",
+  "uae": "are",
+};
+
+/**
+ * Lowercased, whitespace-collapsed name, or the ISO 3166-1 alpha-3 code
+ * for a known alias
+ */
+export function normalizeCountryName(country: string): string {
+  const normalized = country.toLowerCase().trim().replace(/\s+/g, " ");
+  return COUNTRY_ALIASES[normalized] ?? normalized;
+}
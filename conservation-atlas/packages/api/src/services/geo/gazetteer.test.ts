@@ -0,0 +1,101 @@
+// packages/api/src/services/geo/gazetteer.test.ts
+
+import { logger } from "../../utils/logger";
+import type { GeoValidationResult } from "../../utils/geoValidation";
+import { applyGazetteerFallback, geocodeAdmin } from "./gazetteer";
+
+type Statement = { sql: string; values: unknown[] };
+
+const AMAZONAS = { geoname_id: 3665361n, name: "Amazonas", latitude: -4, longitude: -64, admin1_code: "04" };
+const MANAUS = { geoname_id: 3663517n, name: "Manaus", latitude: -3.10194, longitude: -60.025, admin1_code: "04" };
+
+const mockDb = {
+  error: null as Error | null,
+  statements: [] as Statement[],
+};
+
+jest.mock("../../db", () => ({
+  prisma: {
+    $queryRaw: jest.fn(async (strings: TemplateStringsArray, ...values: unknown[]) => {
+      const sql = strings.join("?");
+      mockDb.statements.push({ sql, values });
+      if (mockDb.error) throw mockDb.error;
+      if (sql.includes("FROM geonames_countries")) return [{ iso_a2: "BR", geoname_id: 3469034n }];
+      if (values.includes("ADM1")) return [AMAZONAS];
+      if (values.some((v) => Array.isArray(v) && v.includes("manaus"))) return [MANAUS];
+      return [];
+    }),
+  },
+}));
+
+function extractionOf(...locations: Array<Record<string, any>>): { events: Array<Record<string, any>> } {
+  return { events: locations.map((location) => ({ location, confidence: { extraction: 0.9, geolocation: null } })) };
+}
+
+beforeEach(() => {
+  mockDb.error = null;
+  mockDb.statements = [];
+  delete process.env.GEOCODER;
+});
+
+describe("geocodeAdmin", () => {
+  it("resolves a locality within its admin1, matching names without the affix", async () => {
+    const result = await geocodeAdmin({ country: "Brazil", admin1: "State of Amazonas", locality: "Manaus" });
+
+    expect(result).toEqual({
+      coordinates: [-60.025, -3.10194],
+      precision: "approximate",
+      level: "locality",
+      name: "Manaus",
+      geonameId: 3663517,
+      confidence: 0.5,
+    });
+    const admin1Lookup = mockDb.statements.find((s) => s.values.includes("ADM1"))!;
+    expect(admin1Lookup.values).toContainEqual(["state of amazonas", "amazonas"]);
+  });
+
+  it("falls back to the admin1 point when the locality is unknown", async () => {
+    await expect(geocodeAdmin({ country: "Brazil", admin1: "Amazonas", locality: "Nowhere" })).resolves.toMatchObject({
+      level: "admin1",
+      precision: "centroid",
+      confidence: 0.3,
+    });
+  });
+
+  it("uses the built-in country centroid when the gazetteer is unavailable", async () => {
+    mockDb.error = new Error('relation "geonames_countries" does not exist');
+    const warn = jest.spyOn(logger, "warn").mockImplementation(() => undefined);
+
+    await expect(geocodeAdmin({ country: "Brazil", locality: "Manaus" })).resolves.toMatchObject({
+      level: "country",
+      geonameId: null,
+      confidence: 0.15,
+    });
+    expect(warn).toHaveBeenCalledTimes(1);
+    warn.mockRestore();
+  });
+
+  it("is off with GEOCODER=none", async () => {
+    process.env.GEOCODER = "none";
+
+    await expect(geocodeAdmin({ country: "Brazil", locality: "Manaus" })).resolves.toBeNull();
+    expect(mockDb.statements).toEqual([]);
+  });
+});
+
+describe("applyGazetteerFallback", () => {
+  it("geocodes only events without coordinates and records the match", async () => {
+    const extraction = extractionOf(
+      { admin: { country: "Brazil", admin1: "Amazonas", admin2: null, locality: "Manaus" }, geometry: null },
+      { admin: { country: "Brazil", admin1: null, admin2: null, locality: null }, geometry: { type: "Point", coordinates: [-47.9, -15.8] } }
+    );
+    const validations = [{ valid: true }, { valid: true }] as GeoValidationResult[];
+
+    await expect(applyGazetteerFallback(7, extraction, validations)).resolves.toBe(1);
+
+    expect(extraction.events[0].location.geometry).toEqual({ type: "Point", coordinates: [-60.025, -3.10194], precision: "approximate" });
+    expect(extraction.events[0].confidence.geolocation).toBe(0.5);
+    expect(validations[0].geocoded).toMatchObject({ level: "locality", name: "Manaus" });
+    expect(validations[1].geocoded).toBeUndefined();
+  });
+});
@@ -0,0 +1,251 @@
+// packages/api/src/services/geo/gazetteer.ts
+//
+// Offline geocoding from the GeoNames gazetteer (shared/db/geonames.sql,
+// loaded by tools/load_geonames.ts). Events the extraction left without
+// coordinates would never get a geom_point and so never appear in a place
+// brief; this resolves their admin names to a point instead:
+//   locality -> admin2 -> admin1 -> country
+// taking the most specific level that matches. A locality is a point
+// ('approximate'); an admin division or country is its GeoNames
+// representative point ('centroid'). Without the gazetteer only the
+// built-in country centroids are available.
+
+import { prisma } from "../../db";
+import { logger } from "../../utils/logger";
+import { getCountryCentroid, type GeoValidationResult } from "../../utils/geoValidation";
+import { normalizeCountryName } from "./countryNames";
+
+// ============================================
+// Types
+// ============================================
+
+export type GazetteerLevel = "locality" | "admin2" | "admin1" | "country";
+
+export interface AdminQuery {
+  country: string;
+  admin1?: string | null;
+  admin2?: string | null;
+  locality?: string | null;
+}
+
+export interface GeocodeResult {
+  coordinates: [number, number]; // [lng, lat]
+  precision: "approximate" | "centroid";
+  level: GazetteerLevel;
+  name: string;
+  /** null for the built-in country centroids */
+  geonameId: number | null;
+  /** confidence.geolocation for a point at this level */
+  confidence: number;
+}
+
+export type AdminGeocoder = (query: AdminQuery) => Promise<GeocodeResult | null>;
+
+interface PlaceRow {
+  geoname_id: bigint;
+  name: string;
+  latitude: number;
+  longitude: number;
+  admin1_code: string | null;
+}
+
+// ============================================
+// Configuration
+// ============================================
+
+// confidence.geolocation for a geocoded event, by the level that matched
+const GEOCODE_CONFIDENCE: Record<GazetteerLevel, number> = {
+  locality: 0.5,
+  admin2: 0.4,
+  admin1: 0.3,
+  country: 0.15,
+};
+
+// Feature classes a locality may name: populated places first, then parks
+// and reserves, water bodies and terrain ("Lake Naivasha", "Mount Elgon")
+const LOCALITY_FEATURE_CLASSES = ["P", "L", "H", "T"];
+
+// Words extractions add to admin names that GeoNames usually omits
+const ADMIN_AFFIXES = /^(state|province|region|county|district|department|prefecture) of |\s+(province|state|region|county|district|department|prefecture|municipality|governorate|oblast)$/;
+
+let fallbackWarned = false;
+
+// ============================================
+// Main Entry
+// ============================================
+
+/**
+ * Resolve admin names to a point at the most specific level available
+ */
+export async function geocodeAdmin(query: AdminQuery): Promise<GeocodeResult | null> {
+  if (process.env.GEOCODER === "none" || !query.country) return null;
+
+  try {
+    const fromGazetteer = await geocodeFromGazetteer(query);
+    if (fromGazetteer) return fromGazetteer;
+  } catch (err) {
+    if (!fallbackWarned) {
+      logger.warn(
+        { error: (err as Error).message },
+        "GeoNames lookup failed; geocoding to built-in country centroids only"
+      );
+      fallbackWarned = true;
+    }
+  }
+
+  return countryCentroidGeocoder(query);
+}
+
+/**
+ * Built-in country centroids only; needs no database (used by the offline
+ * evaluation tools)
+ */
+export const countryCentroidGeocoder: AdminGeocoder = async (query) => {
+  const centroid = query.country ? getCountryCentroid(query.country) : null;
+  return centroid
+    ? {
+        coordinates: centroid,
+        precision: "centroid",
+        level: "country",
+        name: query.country,
+        geonameId: null,
+        confidence: GEOCODE_CONFIDENCE.country,
+      }
+    : null;
+};
+
+/**
+ * Geocode every event of a validated extraction that has no usable
+ * coordinates (none extracted, or dropped by validation). Sets
+ * location.geometry and confidence.geolocation, and records the match on
+ * the event's geo validation result. Mutates both in place.
+ */
+export async function applyGazetteerFallback(
+  sourceId: number,
+  extraction: any,
+  geoValidations: GeoValidationResult[]
+): Promise<number> {
+  let geocoded = 0;
+
+  for (const [index, event] of (extraction.events as any[]).entries()) {
+    if (event.location.geometry?.coordinates) continue;
+
+    const result = await geocodeAdmin(event.location.admin);
+    if (!result) continue;
+
+    event.location.geometry = { type: "Point", coordinates: result.coordinates, precision: result.precision };
+    event.confidence.geolocation = result.confidence;
+    geoValidations[index] = { ...geoValidations[index], geocoded: result };
+    geocoded++;
+
+    logger.debug({ source_id: sourceId, eventIndex: index, geocoded: result }, "Geocoded event from gazetteer");
+  }
+
+  return geocoded;
+}
+
+// ============================================
+// Gazetteer Lookups
+// ============================================
+
+async function geocodeFromGazetteer(query: AdminQuery): Promise<GeocodeResult | null> {
+  const country = await findCountry(query.country);
+  if (!country) return null;
+
+  // admin1 narrows the lower levels (many "San José"s, one per province)
+  const admin1 = query.admin1
+    ? await findPlace(country.iso_a2, adminNames(query.admin1), { featureCode: "ADM1" })
+    : null;
+  const admin1Code = admin1?.admin1_code ?? null;
+
+  if (query.locality) {
+    const names = adminNames(query.locality);
+    const locality =
+      (admin1Code && await findPlace(country.iso_a2, names, { featureClasses: LOCALITY_FEATURE_CLASSES, admin1Code })) ||
+      await findPlace(country.iso_a2, names, { featureClasses: LOCALITY_FEATURE_CLASSES });
+    if (locality) return toResult(locality, "locality");
+  }
+
+  if (query.admin2) {
+    const admin2 = await findPlace(country.iso_a2, adminNames(query.admin2), { featureCode: "ADM2", admin1Code });
+    if (admin2) return toResult(admin2, "admin2");
+  }
+
+  if (admin1) return toResult(admin1, "admin1");
+
+  if (country.geoname_id !== null) {
+    const [place] = await prisma.$queryRaw<PlaceRow[]>`
+      SELECT geoname_id, name, latitude, longitude, admin1_code
+      FROM geonames_places
+      WHERE geoname_id = ${country.geoname_id}
+    `;
+    if (place) return toResult(place, "country");
+  }
+
+  return null;
+}
+
+async function findCountry(country: string): Promise<{ iso_a2: string; geoname_id: bigint | null } | null> {
+  const name = normalizeCountryName(country);
+
+  const [row] = await prisma.$queryRaw<Array<{ iso_a2: string; geoname_id: bigint | null }>>`
+    SELECT iso_a2, geoname_id
+    FROM geonames_countries
+    WHERE lower(iso_a3) = ${name}
+      OR lower(iso_a2) = ${name}
+      OR lower(name) = ${name}
+    LIMIT 1
+  `;
+
+  return row ?? null;
+}
+
+/**
+ * Best match by name within a country: populated places before natural
+ * features, then the most populous
+ */
+async function findPlace(
+  countryCode: string,
+  names: string[],
+  filter: { featureCode?: string; featureClasses?: string[]; admin1Code?: string | null }
+): Promise<PlaceRow | null> {
+  const [row] = await prisma.$queryRaw<PlaceRow[]>`
+    SELECT geoname_id, name, latitude, longitude, admin1_code
+    FROM geonames_places
+    WHERE country_code = ${countryCode}
+      AND search_names && ${names}::text[]
+      AND (${filter.featureCode ?? null}::text IS NULL OR feature_code = ${filter.featureCode ?? null})
+      AND (${filter.featureClasses ?? null}::text[] IS NULL OR feature_class = ANY(${filter.featureClasses ?? null}::text[]))
+      AND (${filter.admin1Code ?? null}::text IS NULL OR admin1_code = ${filter.admin1Code ?? null})
+    ORDER BY (feature_class = 'P') DESC, population DESC
+    LIMIT 1
+  `;
+
+  return row ?? null;
+}
+
+// ============================================
+// Helpers
+// ============================================
+
+/**
+ * Lowercased name variants to match against search_names: as given,
+ * without diacritics, and without affixes like "Province"
+ */
+function adminNames(name: string): string[] {
+  const lower = name.toLowerCase().trim().replace(/\s+/g, " ");
+  const ascii = lower.normalize("NFD").replace(/[\u0300-\u036f]/g, "");
+  const variants = [lower, ascii, lower.replace(ADMIN_AFFIXES, ""), ascii.replace(ADMIN_AFFIXES, "")];
+  return [...new Set(variants.filter(Boolean))];
+}
+
+function toResult(row: PlaceRow, level: GazetteerLevel): GeocodeResult {
+  return {
+    coordinates: [Number(row.longitude), Number(row.latitude)],
+    precision: level === "locality" ? "approximate" : "centroid",
+    level,
+    name: row.name,
+    geonameId: Number(row.geoname_id),
+    confidence: GEOCODE_CONFIDENCE[level],
+  };
+}
@@ -0,0 +1,95 @@
+// packages/api/src/services/geo/geoCorrection.test.ts
+
+import { boundsGeoReference, validateGeolocation } from "../../utils/geoValidation";
+import type { AdminGeocoder } from "./gazetteer";
+import { correctGeolocation } from "./geoCorrection";
+
+const MANAUS: AdminGeocoder = async () => ({
+  coordinates: [-60.025, -3.10194],
+  precision: "approximate",
+  level: "locality",
+  name: "Manaus",
+  geonameId: 3663517,
+  confidence: 0.5,
+});
+const NOTHING: AdminGeocoder = async () => null;
+
+function event(country: string, coordinates: [number, number], precision = "exact"): Record<string, any> {
+  return {
+    location: {
+      admin: { country, admin1: null, admin2: null, locality: null },
+      geometry: { type: "Point", coordinates, precision },
+    },
+    confidence: { extraction: 0.9, geolocation: 0.9 },
+  };
+}
+
+async function correct(extracted: Record<string, any>, geocode: AdminGeocoder = NOTHING) {
+  const validation = await validateGeolocation(extracted as any, boundsGeoReference);
+  return { validation, correction: await correctGeolocation(extracted, validation, boundsGeoReference, geocode) };
+}
+
+describe("correctGeolocation", () => {
+  it("swaps [lat, lng] back when the swapped point is inside the claimed country", async () => {
+    const extracted = event("Kenya", [-2.9, 38.7]);
+
+    const { validation, correction } = await correct(extracted);
+
+    expect(validation.suggestedFix?.action).toBe("swap");
+    expect(correction).toMatchObject({
+      action: "swap",
+      outcome: "corrected",
+      original: [-2.9, 38.7],
+      corrected: [38.7, -2.9],
+      precision: "approximate",
+      revalidation: { valid: true, issues: [] },
+    });
+    expect(correction?.confidence).toBeCloseTo(0.8);
+    expect(extracted.location.geometry).toEqual({ type: "Point", coordinates: [38.7, -2.9], precision: "approximate" });
+    expect(extracted.confidence.geolocation).toBeCloseTo(0.8);
+  });
+
+  it("replaces a point far outside the claimed country with the geocoded admin point", async () => {
+    const extracted = event("Brazil", [38.7, -2.9]);
+
+    const { validation, correction } = await correct(extracted, MANAUS);
+
+    expect(validation.suggestedFix?.action).toBe("use_centroid");
+    expect(correction).toMatchObject({
+      outcome: "corrected",
+      original: [38.7, -2.9],
+      corrected: [-60.025, -3.10194],
+      precision: "approximate",
+      geocoded: { name: "Manaus" },
+    });
+    expect(correction?.confidence).toBe(0.5);
+    expect(extracted.location.geometry.coordinates).toEqual([-60.025, -3.10194]);
+  });
+
+  it("drops the point when nothing can be geocoded", async () => {
+    const extracted = event("Brazil", [38.7, -2.9]);
+
+    const { correction } = await correct(extracted);
+
+    expect(correction).toMatchObject({ action: "use_centroid", outcome: "dropped", corrected: null, confidence: 0 });
+    expect(extracted.location.geometry).toBeNull();
+    expect(extracted.confidence.geolocation).toBe(0);
+  });
+
+  it("drops coordinates out of range", async () => {
+    const extracted = event("Kenya", [200, 10]);
+
+    const { correction } = await correct(extracted);
+
+    expect(correction).toMatchObject({ action: "nullify", outcome: "dropped", original: [200, 10], revalidation: null });
+  });
+
+  it("does nothing without a suggested fix", async () => {
+    const extracted = event("Kenya", [38.7, -2.9]);
+
+    const { correction } = await correct(extracted);
+
+    expect(correction).toBeNull();
+    expect(extracted.location.geometry.coordinates).toEqual([38.7, -2.9]);
+  });
+});
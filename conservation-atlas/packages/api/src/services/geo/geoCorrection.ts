@@ -0,0 +1,144 @@
+// packages/api/src/services/geo/geoCorrection.ts
+//
+// Geo-correction: applies the suggestedFix of a failed geolocation check
+// instead of storing a point known to be wrong.
+// - swap: [lat, lng] read as [lng, lat]; kept only if the swapped point
+//   validates better than the original
+// - use_centroid: coordinates far outside the claimed country; replaced by
+//   the geocoded admin point (precision 'centroid' for admin divisions)
+// - nullify: unusable coordinates are dropped
+// Corrected points are validated again, and the original and corrected
+// coordinates are recorded on the validation result (stored in
+// source_extractions.geo_validation) for auditing.
+
+import { validateGeolocation, type GeoReference, type GeoValidationResult } from "../../utils/geoValidation";
+import type { AdminGeocoder, GeocodeResult } from "./gazetteer";
+
+// ============================================
+// Types
+// ============================================
+
+export interface GeoCorrection {
+  action: NonNullable<GeoValidationResult["suggestedFix"]>["action"];
+  reason: string;
+  /** corrected: new point stored; dropped: no point stored; kept: fix did not help */
+  outcome: "corrected" | "dropped" | "kept";
+  /** Extracted [lng, lat] */
+  original: [number, number] | null;
+  /** Stored [lng, lat] after correction (null when dropped) */
+  corrected: [number, number] | null;
+  precision: string | null;
+  confidence: number;
+  /** Validation of the corrected point */
+  revalidation: Pick<GeoValidationResult, "valid" | "issues" | "adjustedConfidence"> | null;
+  geocoded?: GeocodeResult;
+}
+
+// ============================================
+// Configuration
+// ============================================
+
+// A swapped point validated clean is still a guess about what the model meant
+const SWAP_CONFIDENCE_FACTOR = 0.8;
+
+// ============================================
+// Main Entry
+// ============================================
+
+/**
+ * Apply `validation.suggestedFix` to one extracted event. Updates
+ * location.geometry and confidence.geolocation in place.
+ */
+export async function correctGeolocation(
+  event: any,
+  validation: GeoValidationResult,
+  reference: GeoReference,
+  geocode: AdminGeocoder
+): Promise<GeoCorrection | null> {
+  const fix = validation.suggestedFix;
+  if (!fix) return null;
+
+  const original: [number, number] | null = event.location.geometry?.coordinates ?? null;
+  const base = { action: fix.action, reason: fix.reason, original };
+
+  if (fix.action === "swap" && original) {
+    const candidate: [number, number] = [original[1], original[0]];
+    // A model that swapped its coordinates did not have an exact fix
+    const precision = event.location.geometry.precision === "exact" ? "approximate" : event.location.geometry.precision ?? null;
+    const revalidation = await validateAt(event, candidate, precision, reference);
+
+    // The original is unusable when it had to be nullified; otherwise the
+    // swap has to validate better than what was extracted
+    const before = validation.shouldNullifyCoords ? 0 : validation.adjustedConfidence;
+    if (!revalidation.shouldNullifyCoords && (revalidation.valid || revalidation.adjustedConfidence > before)) {
+      const confidence = revalidation.adjustedConfidence * SWAP_CONFIDENCE_FACTOR;
+      setPoint(event, candidate, precision, confidence);
+      return { ...base, outcome: "corrected", corrected: candidate, precision, confidence, revalidation: summarize(revalidation) };
+    }
+
+    if (validation.shouldNullifyCoords) {
+      return { ...base, ...drop(event), revalidation: summarize(revalidation) };
+    }
+    return {
+      ...base,
+      outcome: "kept",
+      corrected: original,
+      precision: event.location.geometry.precision ?? null,
+      confidence: validation.adjustedConfidence,
+      revalidation: summarize(revalidation),
+    };
+  }
+
+  if (fix.action === "use_centroid") {
+    const geocoded = await geocode(event.location.admin);
+    // Too far from the claimed country to keep either way
+    if (!geocoded) return { ...base, ...drop(event), revalidation: null };
+
+    const revalidation = await validateAt(event, geocoded.coordinates, geocoded.precision, reference);
+    const confidence = Math.min(geocoded.confidence, revalidation.adjustedConfidence);
+    setPoint(event, geocoded.coordinates, geocoded.precision, confidence);
+    return {
+      ...base,
+      outcome: "corrected",
+      corrected: geocoded.coordinates,
+      precision: geocoded.precision,
+      confidence,
+      revalidation: summarize(revalidation),
+      geocoded,
+    };
+  }
+
+  return { ...base, ...drop(event), revalidation: null };
+}
+
+// ============================================
+// Helpers
+// ============================================
+
+function validateAt(
+  event: any,
+  coordinates: [number, number],
+  precision: string | null,
+  reference: GeoReference
+): Promise<GeoValidationResult> {
+  const location = {
+    ...event.location,
+    geometry: { type: "Point", coordinates, ...(precision ? { precision } : {}) },
+  };
+  return validateGeolocation({ ...event, location }, reference);
+}
+
+function setPoint(event: any, coordinates: [number, number], precision: string | null, confidence: number) {
+  event.location.geometry = { type: "Point", coordinates, ...(precision ? { precision } : {}) };
+  event.confidence.geolocation = confidence;
+}
+
+function drop(event: any) {
+  event.location.geometry = null;
+  event.confidence.geolocation = 0;
+  return { outcome: "dropped" as const, corrected: null, precision: null, confidence: 0 };
+}
+
+function summarize(result: GeoValidationResult): GeoCorrection["revalidation"] {
+  return { valid: result.valid, issues: result.issues, adjustedConfidence: result.adjustedConfidence };
+}
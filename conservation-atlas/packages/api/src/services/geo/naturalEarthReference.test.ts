@@ -0,0 +1,79 @@
+// packages/api/src/services/geo/naturalEarthReference.test.ts
+
+import { logger } from "../../utils/logger";
+import { NaturalEarthReference } from "./naturalEarthReference";
+
+const mockDb = {
+  row: null as Record<string, unknown> | null,
+  error: null as Error | null,
+};
+
+jest.mock("../../db", () => ({
+  prisma: {
+    $queryRaw: jest.fn(async () => {
+      if (mockDb.error) throw mockDb.error;
+      return [mockDb.row];
+    }),
+  },
+}));
+
+const ROW = {
+  countries_loaded: true,
+  country_known: true,
+  in_country: true,
+  distance_km: 0,
+  containing_country: "Kenya",
+  on_land: true,
+};
+
+// Tsavo East, and a point in the Indian Ocean well outside Kenya's box
+const TSAVO: [number, number] = [38.7, -2.9];
+const OFFSHORE: [number, number] = [60.0, -2.9];
+
+let warn: jest.SpyInstance;
+
+beforeEach(() => {
+  mockDb.row = { ...ROW };
+  mockDb.error = null;
+  warn = jest.spyOn(logger, "warn").mockImplementation(() => undefined);
+});
+
+afterEach(() => {
+  warn.mockRestore();
+});
+
+describe("NaturalEarthReference.checkPoint", () => {
+  it("answers from the Natural Earth polygons", async () => {
+    await expect(new NaturalEarthReference().checkPoint(...TSAVO, "Kenya")).resolves.toEqual({
+      countryKnown: true,
+      inCountry: true,
+      distanceToCountryKm: 0,
+      containingCountry: "Kenya",
+      onLand: true,
+    });
+    expect(warn).not.toHaveBeenCalled();
+  });
+
+  it("falls back to the bundled bounds, warning once, when ne_countries is empty", async () => {
+    mockDb.row = { ...ROW, countries_loaded: false, country_known: false, in_country: false, distance_km: null, containing_country: null };
+    const reference = new NaturalEarthReference();
+
+    const point = await reference.checkPoint(...OFFSHORE, "Kenya");
+    await reference.checkPoint(...TSAVO, "Kenya");
+
+    expect(point).toMatchObject({ countryKnown: true, inCountry: false, containingCountry: null });
+    expect(point.distanceToCountryKm).toBeGreaterThan(1000);
+    expect(warn).toHaveBeenCalledTimes(1);
+    expect(warn.mock.calls[0][1]).toContain("ne_countries is empty");
+  });
+
+  it("falls back to the bundled bounds when the lookup fails", async () => {
+    mockDb.error = new Error('relation "ne_countries" does not exist');
+
+    await expect(new NaturalEarthReference().checkPoint(...TSAVO, "Kenya")).resolves.toMatchObject({ countryKnown: true, inCountry: true });
+    expect(warn).toHaveBeenCalledWith(
+      { error: 'relation "ne_countries" does not exist' },
+      "Natural Earth lookup failed; validating geolocation against country bounds"
+    );
+  });
+});
@@ -0,0 +1,143 @@
+// packages/api/src/services/geo/naturalEarthReference.ts
+//
+// GeoReference backed by Natural Earth country and land polygons in PostGIS
+// (shared/db/natural_earth.sql, loaded by tools/load_natural_earth.ts).
+// One query per point answers: is it inside the claimed country, how far
+// from that country's border, which country contains it, and is it on land.
+// If the tables are missing or empty, or the query fails, validation falls
+// back to the bundled bounding boxes.
+
+import { prisma } from "../../db";
+import { logger } from "../../utils/logger";
+import { boundsGeoReference, type GeoReference, type PointReference } from "../../utils/geoValidation";
+import { normalizeCountryName } from "./countryNames";
+
+// ============================================
+// Configuration
+// ============================================
+
+// Points this close to land count as land (the 1:10m coastline is
+// simplified, and coastal towns geocode just offshore)
+const COASTAL_TOLERANCE_DEG = 0.05;
+
+// ============================================
+// Reference
+// ============================================
+
+export class NaturalEarthReference implements GeoReference {
+  public readonly name = "natural_earth";
+  private fallbackWarned = false;
+
+  async checkPoint(lng: number, lat: number, country: string): Promise<PointReference> {
+    const claimed = normalizeCountryName(country);
+
+    try {
+      const [row] = await prisma.$queryRaw<Array<{
+        countries_loaded: boolean;
+        country_known: boolean;
+        in_country: boolean;
+        distance_km: number | null;
+        containing_country: string | null;
+        on_land: boolean | null;
+      }>>`
+        WITH pt AS (
+          SELECT ST_SetSRID(ST_MakePoint(${lng}, ${lat}), 4326) AS g
+        ),
+        claimed AS (
+          SELECT geom
+          FROM ne_countries
+          WHERE ${claimed} <> ''
+            AND (
+              lower(iso_a3) = ${claimed}
+              OR lower(iso_a2) = ${claimed}
+              OR lower(name) = ${claimed}
+              OR lower(name_long) = ${claimed}
+              OR lower(admin) = ${claimed}
+              OR lower(formal_name) = ${claimed}
+            )
+          LIMIT 1
+        ),
+        inside AS (
+          SELECT EXISTS (
+            SELECT 1 FROM claimed, pt WHERE ST_Intersects(claimed.geom, pt.g)
+          ) AS hit
+        )
+        SELECT
+          EXISTS (SELECT 1 FROM ne_countries) AS countries_loaded,
+          EXISTS (SELECT 1 FROM claimed) AS country_known,
+          inside.hit AS in_country,
+          CASE
+            WHEN inside.hit THEN 0
+            ELSE (
+              SELECT ST_Distance(claimed.geom::geography, pt.g::geography) / 1000.0
+              FROM claimed, pt
+            )
+          END AS distance_km,
+          (
+            SELECT c.admin
+            FROM ne_countries c, pt
+            WHERE ST_Intersects(c.geom, pt.g)
+            LIMIT 1
+          ) AS containing_country,
+          CASE
+            WHEN NOT EXISTS (SELECT 1 FROM ne_land) THEN NULL
+            ELSE EXISTS (
+              SELECT 1 FROM ne_land l, pt
+              WHERE ST_DWithin(l.geom, pt.g, ${COASTAL_TOLERANCE_DEG})
+            )
+          END AS on_land
+        FROM inside
+      `;
+
+      // An empty table would report every point as in no known country
+      if (!row.countries_loaded) {
+        return this.fallback(lng, lat, country, "ne_countries is empty; validating geolocation against country bounds");
+      }
+
+      return {
+        countryKnown: row.country_known,
+        inCountry: row.in_country,
+        distanceToCountryKm: row.distance_km === null ? null : Number(row.distance_km),
+        containingCountry: row.containing_country,
+        onLand: row.on_land,
+      };
+    } catch (err) {
+      return this.fallback(
+        lng,
+        lat,
+        country,
+        "Natural Earth lookup failed; validating geolocation against country bounds",
+        err as Error
+      );
+    }
+  }
+
+  private fallback(lng: number, lat: number, country: string, message: string, error?: Error): Promise<PointReference> {
+    if (!this.fallbackWarned) {
+      logger.warn({ error: error?.message }, message);
+      this.fallbackWarned = true;
+    }
+    return boundsGeoReference.checkPoint(lng, lat, country);
+  }
+}
+
+let reference: GeoReference | null = null;
+
+/**
+ * Reference chosen by GEO_REFERENCE: 'natural_earth' (default) or 'bounds'
+ */
+export function getGeoReference(): GeoReference {
+  if (reference) return reference;
+
+  const configured = process.env.GEO_REFERENCE || "natural_earth";
+  if (configured === "bounds") {
+    reference = boundsGeoReference;
+  } else {
+    if (configured !== "natural_earth") {
+      logger.error({ value: configured }, "Unknown GEO_REFERENCE; using natural_earth");
+    }
+    reference = new NaturalEarthReference();
+  }
+
+  return reference;
+}
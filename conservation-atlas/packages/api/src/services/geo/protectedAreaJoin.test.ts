@@ -0,0 +1,140 @@
+// packages/api/src/services/geo/protectedAreaJoin.test.ts
+
+import { backfillProtectedAreaJoins, joinProtectedAreas } from "./protectedAreaJoin";
+
+type Statement = { sql: string; values: unknown[] };
+
+const mockDb = {
+  event: { located: true, wdpa_release: "WDPA_Oct2026" } as { located: boolean; wdpa_release: string | null } | null,
+  overlaps: [] as Array<Record<string, unknown>>,
+  nearest: [] as Array<Record<string, unknown>>,
+  backfillIds: [] as string[],
+  statements: [] as Statement[],
+};
+
+jest.mock("../../db", () => {
+  const executeRaw = jest.fn(async (strings: TemplateStringsArray, ...values: unknown[]) => {
+    mockDb.statements.push({ sql: strings.join("?"), values });
+    return 1;
+  });
+  return {
+    prisma: {
+      $queryRaw: jest.fn(async (strings: TemplateStringsArray, ...values: unknown[]) => {
+        const sql = strings.join("?");
+        mockDb.statements.push({ sql, values });
+        if (sql.includes("AS located")) return mockDb.event ? [mockDb.event] : [];
+        if (sql.includes("ST_Covers")) return mockDb.overlaps;
+        if (sql.includes("ORDER BY pa.geom <-> e.geom_extent")) return mockDb.nearest;
+        if (sql.includes("geo_joined_at IS NULL")) return mockDb.backfillIds.map((id) => ({ id }));
+        if (sql.includes("MAX(wdpa_release)")) return [{ wdpa_release: mockDb.event?.wdpa_release ?? null }];
+        return [];
+      }),
+      $executeRaw: executeRaw,
+      $transaction: jest.fn(async (fn: (client: { $executeRaw: typeof executeRaw }) => Promise<unknown>) =>
+        fn({ $executeRaw: executeRaw })
+      ),
+    },
+  };
+});
+
+function statementsMatching(fragment: string): Statement[] {
+  return mockDb.statements.filter((s) => s.sql.includes(fragment));
+}
+
+beforeEach(() => {
+  mockDb.event = { located: true, wdpa_release: "WDPA_Oct2026" };
+  mockDb.overlaps = [];
+  mockDb.nearest = [];
+  mockDb.backfillIds = [];
+  mockDb.statements = [];
+});
+
+describe("joinProtectedAreas", () => {
+  it("records every overlapped area, best overlap first", async () => {
+    mockDb.overlaps = [
+      { protected_area_id: "11", wdpa_id: 555n, name: "Buffer zone", covers: false, overlap_fraction: 0.25, overlap_hectares: 300 },
+      { protected_area_id: "12", wdpa_id: 777n, name: "National park", covers: false, overlap_fraction: 0.75, overlap_hectares: 900 },
+    ];
+
+    const result = await joinProtectedAreas("42");
+
+    expect(result).toMatchObject({ located: true, isInside: true, nearestProtectedAreaId: "12", distanceKm: 0 });
+    expect(result.overlaps.map((o) => [o.protectedAreaId, o.wdpaId, o.relation, o.overlapFraction])).toEqual([
+      ["12", 777, "overlaps", 0.75],
+      ["11", 555, "overlaps", 0.25],
+    ]);
+    const [insert] = statementsMatching("INSERT INTO event_protected_areas");
+    expect(insert.values).toEqual(["42", "WDPA_Oct2026", ["12", "11"], [777, 555], ["overlaps", "overlaps"], [0.75, 0.25], [900, 300]]);
+  });
+
+  it("counts a point inside an area as fully covered", async () => {
+    mockDb.overlaps = [{ protected_area_id: "12", wdpa_id: null, name: "Tsavo East", covers: true, overlap_fraction: 1, overlap_hectares: null }];
+
+    const result = await joinProtectedAreas("42");
+
+    expect(result.overlaps).toEqual([
+      { protectedAreaId: "12", wdpaId: null, name: "Tsavo East", relation: "inside", overlapFraction: 1, overlapHectares: null },
+    ]);
+  });
+
+  it("treats a footprint touching only a boundary as near, not inside", async () => {
+    mockDb.overlaps = [{ protected_area_id: "12", wdpa_id: 777n, name: "National park", covers: false, overlap_fraction: 0, overlap_hectares: 0 }];
+    mockDb.nearest = [{ protected_area_id: "12", distance_km: 0 }];
+
+    const result = await joinProtectedAreas("42");
+
+    expect(result).toMatchObject({ isInside: false, nearestProtectedAreaId: "12", distanceKm: 0, overlaps: [] });
+    expect(statementsMatching("INSERT INTO event_protected_areas")).toEqual([]);
+    const [update] = statementsMatching("UPDATE events");
+    expect(update.values).toEqual([false, "12", 0, "WDPA_Oct2026", "42"]);
+  });
+
+  it("falls back to the nearest area when nothing overlaps", async () => {
+    mockDb.nearest = [{ protected_area_id: "13", distance_km: 12.5 }];
+
+    const result = await joinProtectedAreas("42");
+
+    expect(result).toMatchObject({ isInside: false, nearestProtectedAreaId: "13", distanceKm: 12.5, overlaps: [] });
+    expect(statementsMatching("INSERT INTO event_protected_areas")).toEqual([]);
+    const [update] = statementsMatching("UPDATE events");
+    expect(update.values).toEqual([false, "13", 12.5, "WDPA_Oct2026", "42"]);
+  });
+
+  it("clears the protected-area fields of an event without geometry", async () => {
+    mockDb.event = { located: false, wdpa_release: "WDPA_Oct2026" };
+
+    const result = await joinProtectedAreas("42");
+
+    expect(result).toMatchObject({ located: false, isInside: false, nearestProtectedAreaId: null });
+    expect(statementsMatching("ST_Covers")).toEqual([]);
+    expect(statementsMatching("DELETE FROM event_protected_areas")).toHaveLength(1);
+  });
+
+  it("fails for an unknown event", async () => {
+    mockDb.event = null;
+
+    await expect(joinProtectedAreas("99")).rejects.toThrow("Event 99 not found");
+  });
+});
+
+describe("backfillProtectedAreaJoins", () => {
+  it("joins a batch after the cursor and reports where to continue", async () => {
+    mockDb.backfillIds = ["5", "8"];
+
+    const result = await backfillProtectedAreaJoins({ afterEventId: "4", limit: 2 });
+
+    expect(result).toMatchObject({ wdpaRelease: "WDPA_Oct2026", lastEventId: "8", done: false, failures: [] });
+    expect(result.results.map((r) => r.eventId)).toEqual(["5", "8"]);
+    expect(statementsMatching("geo_joined_at IS NULL")[0].values).toEqual(["4", "WDPA_Oct2026", 2]);
+  });
+
+  it("reports a failed event and carries on", async () => {
+    mockDb.backfillIds = ["5"];
+    mockDb.event = null;
+
+    const result = await backfillProtectedAreaJoins({ limit: 10 });
+
+    expect(result.failures).toEqual([{ eventId: "5", error: "Event 5 not found" }]);
+    expect(result.done).toBe(true);
+  });
+});
@@ -0,0 +1,297 @@
+// packages/api/src/services/geo/protectedAreaJoin.ts
+//
+// GEO_JOIN: relates events to the WDPA protected areas (shared/db/
+// protected_areas.sql, latest wdpa_release only). Matches the event's
+// geom_extent, so an event with a footprint touches every area its polygon
+// or line crosses, not just the one around its point.
+// - event_protected_areas: one row per area the event intersects, with the
+//   share of the footprint inside it (1 for a point)
+// - events.is_inside_protected_area, nearest_protected_area_id and
+//   distance_to_protected_km: the best-overlapping area, else the closest
+//   one within NEAREST_MAX_KM
+// geo_join_release records the release the join was computed against, so
+// events joined before a WDPA refresh can be found and backfilled.
+
+import type { Prisma } from "@prisma/client";
+
+import { prisma } from "../../db";
+import { logger } from "../../utils/logger";
+
+// ============================================
+// Types
+// ============================================
+
+export interface ProtectedAreaOverlap {
+  protectedAreaId: string;
+  wdpaId: number | null;
+  name: string;
+  /** inside: the area covers the whole point or footprint */
+  relation: "inside" | "overlaps";
+  /** Share of the footprint (area, or length for a line) inside the area; 1 for a point */
+  overlapFraction: number;
+  /** Polygon footprints only */
+  overlapHectares: number | null;
+}
+
+export interface GeoJoinResult {
+  eventId: string;
+  wdpaRelease: string | null;
+  /** false when the event has neither a point nor a footprint */
+  located: boolean;
+  isInside: boolean;
+  nearestProtectedAreaId: string | null;
+  distanceKm: number | null;
+  overlaps: ProtectedAreaOverlap[];
+}
+
+export interface GeoJoinBackfillResult {
+  wdpaRelease: string | null;
+  results: GeoJoinResult[];
+  failures: Array<{ eventId: string; error: string }>;
+  /** Cursor for the next batch; null when none was selected */
+  lastEventId: string | null;
+  /** No events left after this batch */
+  done: boolean;
+}
+
+interface OverlapRow {
+  protected_area_id: string;
+  wdpa_id: bigint | null;
+  name: string;
+  covers: boolean;
+  overlap_fraction: number | null;
+  overlap_hectares: number | null;
+}
+
+// ============================================
+// Configuration
+// ============================================
+
+// Beyond this an area is no longer context for the event (matches
+// check_protected_area_overlap)
+const NEAREST_MAX_KM = 100;
+
+// Index-ordered (planar) candidates re-ranked by geodesic distance
+const NEAREST_CANDIDATES = 10;
+
+// ============================================
+// Main Entry
+// ============================================
+
+/**
+ * Compute and store the protected-area relationship of one event
+ */
+export async function joinProtectedAreas(eventId: string): Promise<GeoJoinResult> {
+  const [event] = await prisma.$queryRaw<Array<{ located: boolean; wdpa_release: string | null }>>`
+    SELECT
+      geom_extent IS NOT NULL AS located,
+      (SELECT MAX(wdpa_release) FROM protected_areas) AS wdpa_release
+    FROM events
+    WHERE id = ${eventId}::bigint
+  `;
+  if (!event) throw new Error(`Event ${eventId} not found`);
+
+  const result: GeoJoinResult = {
+    eventId,
+    wdpaRelease: event.wdpa_release,
+    located: event.located,
+    isInside: false,
+    nearestProtectedAreaId: null,
+    distanceKm: null,
+    overlaps: [],
+  };
+
+  if (event.located && event.wdpa_release !== null) {
+    result.overlaps = await findOverlaps(eventId, event.wdpa_release);
+
+    result.isInside = result.overlaps.some(sharesInterior);
+    if (result.isInside) {
+      result.nearestProtectedAreaId = result.overlaps[0].protectedAreaId;
+      result.distanceKm = 0;
+    } else {
+      const nearest = await findNearest(eventId, event.wdpa_release);
+      result.nearestProtectedAreaId = nearest?.protected_area_id ?? null;
+      result.distanceKm = nearest ? Number(nearest.distance_km) : null;
+    }
+  }
+
+  await saveJoin(result);
+
+  logger.debug({
+    eventId,
+    wdpaRelease: result.wdpaRelease,
+    isInside: result.isInside,
+    overlaps: result.overlaps.length,
+    nearestProtectedAreaId: result.nearestProtectedAreaId,
+  }, "Joined event to protected areas");
+
+  return result;
+}
+
+/**
+ * Join the next batch of unmerged events (by id, after the cursor) that
+ * were never joined or were joined against an older WDPA release. A failed
+ * event is reported and skipped, not retried by the next batch.
+ */
+export async function backfillProtectedAreaJoins(options: {
+  afterEventId?: string | null;
+  limit: number;
+}): Promise<GeoJoinBackfillResult> {
+  const [{ wdpa_release: wdpaRelease }] = await prisma.$queryRaw<Array<{ wdpa_release: string | null }>>`
+    SELECT MAX(wdpa_release) AS wdpa_release FROM protected_areas
+  `;
+  if (wdpaRelease === null) {
+    logger.warn("protected_areas is empty; backfill only clears protected-area fields (import WDPA first)");
+  }
+
+  const events = await prisma.$queryRaw<Array<{ id: string }>>`
+    SELECT id::text AS id
+    FROM events
+    WHERE merged_into_id IS NULL
+      AND id > ${options.afterEventId ?? "0"}::bigint
+      AND (geo_joined_at IS NULL OR geo_join_release IS DISTINCT FROM ${wdpaRelease})
+    ORDER BY id
+    LIMIT ${options.limit}
+  `;
+
+  const result: GeoJoinBackfillResult = {
+    wdpaRelease,
+    results: [],
+    failures: [],
+    lastEventId: events.length ? events[events.length - 1].id : null,
+    done: events.length < options.limit,
+  };
+
+  for (const { id } of events) {
+    try {
+      result.results.push(await joinProtectedAreas(id));
+    } catch (err) {
+      // One bad geometry should not stop the backfill
+      result.failures.push({ eventId: id, error: (err as Error).message });
+      logger.error({ eventId: id, error: (err as Error).message }, "GEO_JOIN failed for event");
+    }
+  }
+
+  return result;
+}
+
+// ============================================
+// Spatial Queries
+// ============================================
+
+/**
+ * Polygon areas intersecting the event, best overlap first. WDPA point
+ * records have no boundary to be inside of and only count as nearest.
+ */
+async function findOverlaps(eventId: string, wdpaRelease: string): Promise<ProtectedAreaOverlap[]> {
+  const rows = await prisma.$queryRaw<OverlapRow[]>`
+    SELECT
+      pa.id::text AS protected_area_id,
+      pa.wdpa_id,
+      pa.name,
+      ST_Covers(pa.geom, e.geom_extent) AS covers,
+      CASE GeometryType(e.geom_extent)
+        WHEN 'POINT' THEN 1.0
+        WHEN 'LINESTRING' THEN ST_Length(i.geom::geography) / NULLIF(ST_Length(e.geom_extent::geography), 0)
+        ELSE ST_Area(i.geom::geography) / NULLIF(ST_Area(e.geom_extent::geography), 0)
+      END AS overlap_fraction,
+      CASE
+        WHEN GeometryType(e.geom_extent) IN ('POLYGON', 'MULTIPOLYGON')
+        THEN ST_Area(i.geom::geography) / 10000.0
+      END AS overlap_hectares
+    FROM events e
+    JOIN protected_areas pa ON ST_Intersects(pa.geom, e.geom_extent)
+    CROSS JOIN LATERAL (SELECT ST_Intersection(pa.geom, e.geom_extent) AS geom) i
+    WHERE e.id = ${eventId}::bigint
+      AND pa.wdpa_release = ${wdpaRelease}
+      AND GeometryType(pa.geom) IN ('POLYGON', 'MULTIPOLYGON')
+  `;
+
+  return rows
+    .map((row: OverlapRow): ProtectedAreaOverlap => ({
+      protectedAreaId: row.protected_area_id,
+      wdpaId: row.wdpa_id === null ? null : Number(row.wdpa_id),
+      name: row.name,
+      relation: row.covers ? "inside" : "overlaps",
+      overlapFraction: row.covers ? 1 : Math.min(1, Number(row.overlap_fraction ?? 0)),
+      overlapHectares: row.overlap_hectares === null ? null : Number(row.overlap_hectares),
+    }))
+    .filter(sharesInterior)
+    .sort((a: ProtectedAreaOverlap, b: ProtectedAreaOverlap) => b.overlapFraction - a.overlapFraction);
+}
+
+/**
+ * A footprint merely touching a boundary intersects with zero overlap; it is
+ * near the area, not inside it
+ */
+function sharesInterior(overlap: ProtectedAreaOverlap): boolean {
+  return overlap.relation === "inside" || overlap.overlapFraction > 0;
+}
+
+/**
+ * Closest area (polygon or point record) within NEAREST_MAX_KM
+ */
+async function findNearest(
+  eventId: string,
+  wdpaRelease: string
+): Promise<{ protected_area_id: string; distance_km: number } | null> {
+  // LATERAL passes the event's geometry in as a parameter so the KNN
+  // ordering can use the GiST index on protected_areas.geom
+  const [row] = await prisma.$queryRaw<Array<{ protected_area_id: string; distance_km: number }>>`
+    SELECT c.protected_area_id, c.distance_km
+    FROM events e
+    CROSS JOIN LATERAL (
+      SELECT
+        pa.id::text AS protected_area_id,
+        ST_Distance(pa.geom::geography, e.geom_extent::geography) / 1000.0 AS distance_km
+      FROM protected_areas pa
+      WHERE pa.wdpa_release = ${wdpaRelease}
+      ORDER BY pa.geom <-> e.geom_extent
+      LIMIT ${NEAREST_CANDIDATES}
+    ) c
+    WHERE e.id = ${eventId}::bigint
+      AND c.distance_km <= ${NEAREST_MAX_KM}
+    ORDER BY c.distance_km
+    LIMIT 1
+  `;
+
+  return row ?? null;
+}
+
+// ============================================
+// Persistence
+// ============================================
+
+async function saveJoin(result: GeoJoinResult): Promise<void> {
+  const { eventId, overlaps } = result;
+
+  await prisma.$transaction(async (tx: Prisma.TransactionClient) => {
+    await tx.$executeRaw`
+      DELETE FROM event_protected_areas WHERE event_id = ${eventId}::bigint
+    `;
+
+    if (overlaps.length) {
+      await tx.$executeRaw`
+        INSERT INTO event_protected_areas (event_id, protected_area_id, wdpa_id, wdpa_release, relation, overlap_fraction, overlap_hectares)
+        SELECT ${eventId}::bigint, o.protected_area_id, o.wdpa_id, ${result.wdpaRelease}, o.relation, o.overlap_fraction, o.overlap_hectares
+        FROM unnest(
+          ${overlaps.map((o) => o.protectedAreaId)}::bigint[],
+          ${overlaps.map((o) => o.wdpaId)}::bigint[],
+          ${overlaps.map((o) => o.relation)}::text[],
+          ${overlaps.map((o) => o.overlapFraction)}::double precision[],
+          ${overlaps.map((o) => o.overlapHectares)}::double precision[]
+        ) AS o(protected_area_id, wdpa_id, relation, overlap_fraction, overlap_hectares)
+      `;
+    }
+
+    await tx.$executeRaw`
+      UPDATE events
+      SET is_inside_protected_area = ${result.isInside},
+          nearest_protected_area_id = ${result.nearestProtectedAreaId}::bigint,
+          distance_to_protected_km = ${result.distanceKm},
+          geo_joined_at = NOW(),
+          geo_join_release = ${result.wdpaRelease}
+      WHERE id = ${eventId}::bigint
+    `;
+  });
+}
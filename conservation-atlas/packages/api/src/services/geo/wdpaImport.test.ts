@@ -0,0 +1,138 @@
+// packages/api/src/services/geo/wdpaImport.test.ts
+
+import {
+  MIN_LOADED_RATIO,
+  buildImportSql,
+  countDiffReport,
+  mappedExpression,
+  resolveWdpaFields,
+  WDPA_COLUMNS,
+  WDPA_RELEASE_PATTERN,
+  type LayerLoad,
+  type WdpaDiffReport,
+} from "./wdpaImport";
+
+const POLYGON_FIELDS = ["WDPAID", "WDPA_PID", "NAME", "DESIG", "IUCN_CAT", "STATUS_YR", "ISO3", "REP_AREA", "GIS_AREA"];
+
+function layerLoad(layer: string, table: string, fields = POLYGON_FIELDS): LayerLoad {
+  return { layer, table, resolved: resolveWdpaFields(fields).resolved };
+}
+
+function diffReport(overrides: Partial<WdpaDiffReport> = {}): WdpaDiffReport {
+  return {
+    release: "2026-02",
+    previous_release: "2026-01",
+    layers: [],
+    counts: { previous: 3, loaded: 3, added: 0, removed: 0, boundary_changed: 0, renamed: 0 },
+    added: [],
+    removed: [],
+    boundary_changed: [],
+    renamed: [],
+    ...overrides,
+  };
+}
+
+describe("resolveWdpaFields", () => {
+  it("matches WDPA field names regardless of case and synonyms", () => {
+    const { resolved } = resolveWdpaFields(["wdpaid", "PA_NAME", "Status Yr"]);
+
+    expect(resolved.wdpa_id).toBe("wdpaid");
+    expect(resolved.name).toBe("PA_NAME");
+    expect(resolved.status_year).toBe("Status Yr");
+  });
+
+  it("lists the columns the layer has no field for", () => {
+    const { resolved, missing } = resolveWdpaFields(POLYGON_FIELDS);
+
+    expect(resolved.gov_type).toBeNull();
+    expect(missing).toEqual(expect.arrayContaining(["gov_type", "own_type", "parent_iso3", "marine"]));
+    expect(missing).not.toContain("wdpa_id");
+  });
+});
+
+describe("mappedExpression", () => {
+  const wdpaId = WDPA_COLUMNS.find((c) => c.column === "wdpa_id")!;
+
+  it("quotes the source field and applies the column cast", () => {
+    expect(mappedExpression(wdpaId, "WDPAID", "r")).toBe('(r."WDPAID")::bigint');
+  });
+
+  it("is null for a missing field", () => {
+    expect(mappedExpression(wdpaId, null, "r")).toBeNull();
+  });
+});
+
+describe("WDPA_RELEASE_PATTERN", () => {
+  it("accepts a year-month release only", () => {
+    expect(WDPA_RELEASE_PATTERN.test("2026-01")).toBe(true);
+    for (const release of ["2026-1", "Jan2026", "2026-01-15", "2026-01'; DROP TABLE protected_areas; --", "2026-01\n"]) {
+      expect(WDPA_RELEASE_PATTERN.test(release)).toBe(false);
+    }
+  });
+});
+
+describe("buildImportSql", () => {
+  const loads = [layerLoad("WDPA_poly_Feb2026", "protected_areas_raw_0"), layerLoad("WDPA_point_Feb2026", "protected_areas_raw_1")];
+
+  it("stages every layer with repaired geometries, centroids and missing areas", () => {
+    const sql = buildImportSql(loads, "2026-02", "2026-01", false);
+
+    expect(sql).toContain("FROM protected_areas_raw_0 r");
+    expect(sql).toContain("FROM protected_areas_raw_1 r");
+    expect(sql).toContain("ST_Multi(ST_CollectionExtract(ST_MakeValid(r.geom), 3))");
+    expect(sql).toContain("ST_PointOnSurface(g.geom)");
+    expect(sql).toContain("ST_Area(g.geom::geography) / 1e6");
+    // Absent fields load as typed NULLs
+    expect(sql).toContain("NULL::text");
+  });
+
+  it("keeps ids of areas that persist from the previous release", () => {
+    const sql = buildImportSql(loads, "2026-02", "2026-01", false);
+
+    expect(sql).toContain("SET id = pa.id, created_at = pa.created_at");
+    expect(sql).toContain("WHERE pa.wdpa_release = '2026-01'");
+  });
+
+  it("swaps staging into protected_areas inside one transaction and drops the raw tables", () => {
+    const sql = buildImportSql(loads, "2026-02", "2026-01", false);
+
+    const begin = sql.indexOf("BEGIN;");
+    const swap = sql.indexOf("INSERT INTO protected_areas (");
+    const commit = sql.indexOf("COMMIT;");
+    expect(begin).toBeGreaterThan(-1);
+    expect(swap).toBeGreaterThan(begin);
+    expect(commit).toBeGreaterThan(swap);
+    expect(sql).toContain("DROP TABLE protected_areas_raw_0;");
+    expect(sql).toContain("DROP TABLE protected_areas_raw_1;");
+  });
+
+  it("refuses a shrunken release unless forced", () => {
+    expect(buildImportSql(loads, "2026-02", "2026-01", false)).toContain(`IF true AND v_loaded < v_previous * ${MIN_LOADED_RATIO}`);
+    expect(buildImportSql(loads, "2026-02", "2026-01", true)).toContain(`IF false AND v_loaded < v_previous * ${MIN_LOADED_RATIO}`);
+  });
+
+  it("diffs a first import against an empty release", () => {
+    const sql = buildImportSql(loads, "2026-02", null, false);
+
+    expect(sql).toContain("WHERE wdpa_release = NULL::text");
+    expect(sql).toContain("'previous_release', NULL::text");
+  });
+
+  it("escapes quotes in release names", () => {
+    expect(buildImportSql(loads, "2026-02'x", null, false)).toContain("'2026-02''x'");
+  });
+});
+
+describe("countDiffReport", () => {
+  it("counts the added, removed, boundary-changed and renamed areas", () => {
+    const report = countDiffReport(
+      diffReport({
+        added: [{ wdpa_id: 4, name: "New Reserve" }],
+        removed: [{ wdpa_id: 1, name: "Old Reserve" }, { wdpa_id: 2, name: "Gone Park" }],
+        boundary_changed: [{ wdpa_id: 3, name: "Moving Park", area_km2_before: 10, area_km2_after: 12 }],
+      })
+    );
+
+    expect(report.counts).toEqual({ previous: 3, loaded: 3, added: 1, removed: 2, boundary_changed: 1, renamed: 0 });
+  });
+});
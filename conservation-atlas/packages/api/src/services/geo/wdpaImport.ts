@@ -0,0 +1,349 @@
+// packages/api/src/services/geo/wdpaImport.ts
+//
+// WDPA monthly refresh (tools/wdpa_import.ts runs it): maps WDPA fields
+// onto the canonical protected_areas columns and builds the SQL that loads
+// raw layers into protected_areas_staging, diffs them against the loaded
+// release and swaps them into protected_areas. Pure: the tools run
+// ogrinfo, ogr2ogr and psql.
+
+// ============================================
+// Types
+// ============================================
+
+export type WdpaColumn = {
+  column: string;
+  candidates: string[];
+  cast?: string;
+};
+
+export type LayerLoad = {
+  layer: string;
+  table: string;
+  resolved: Record<string, string | null>;
+};
+
+export type WdpaDiffReport = {
+  release: string;
+  previous_release: string | null;
+  layers: Array<{ layer: string; source_rows: number; invalid_repaired: number; loaded: number; skipped: number }>;
+  counts: { previous: number; loaded: number; added: number; removed: number; boundary_changed: number; renamed: number };
+  added: Array<{ wdpa_id: number; name: string }>;
+  removed: Array<{ wdpa_id: number; name: string }>;
+  boundary_changed: Array<{ wdpa_id: number; name: string; area_km2_before: number | null; area_km2_after: number | null }>;
+  renamed: Array<{ wdpa_id: number; name_before: string; name_after: string }>;
+};
+
+// ============================================
+// Constants
+// ============================================
+
+// Canonical column -> possible WDPA field names (synonyms/case variants)
+export const WDPA_COLUMNS: WdpaColumn[] = [
+  // Required
+  { column: "wdpa_id", candidates: ["WDPAID", "WDPA_ID", "wdpaid", "wdpa_id"], cast: "bigint" },
+  { column: "wdpa_pid", candidates: ["WDPA_PID", "WDPA_PID_", "wdpa_pid"] },
+  { column: "name", candidates: ["NAME", "PA_NAME", "name"] },
+
+  // Classification
+  { column: "designation", candidates: ["DESIG", "DESIGNATION", "desig"] },
+  { column: "designation_type", candidates: ["DESIG_TYPE", "DESIGTYPE", "designation_type"] },
+  { column: "iucn_category", candidates: ["IUCN_CAT", "IUCN_CATEGORY", "iucn_cat"] },
+  { column: "status", candidates: ["STATUS", "status"] },
+  { column: "status_year", candidates: ["STATUS_YR", "STATUS_YEAR", "status_yr"], cast: "int" },
+  { column: "gov_type", candidates: ["GOV_TYPE", "GOVTYPE", "gov_type"] },
+  { column: "own_type", candidates: ["OWN_TYPE", "OWNTYPE", "own_type"] },
+  { column: "mang_auth", candidates: ["MANG_AUTH", "MANGAUTH", "mang_auth"] },
+  { column: "mang_plan", candidates: ["MANG_PLAN", "MANGPLAN", "mang_plan"] },
+  { column: "verif", candidates: ["VERIF", "VERIFICATION", "verif"] },
+
+  // Geography
+  { column: "iso3", candidates: ["ISO3", "ISO", "iso3"] },
+  { column: "parent_iso3", candidates: ["PARENT_ISO3", "PARENTISO3", "parent_iso3"] },
+  { column: "marine", candidates: ["MARINE", "marine"] },
+
+  // Areas
+  { column: "reported_area_km2", candidates: ["REP_AREA", "REP_AREA_KM2", "reported_area", "rep_area"], cast: "double precision" },
+  { column: "gis_area_km2", candidates: ["GIS_AREA", "gis_area"], cast: "double precision" },
+  { column: "gis_m_area_km2", candidates: ["GIS_M_AREA", "GIS_MARINE_AREA", "gis_m_area"], cast: "double precision" },
+];
+
+// Without these the layer is not WDPA (or the wrong layer was picked)
+export const CRITICAL_COLUMNS = ["wdpa_id", "name"];
+
+// Releases are year-month; they sort in time order as strings, which the
+// swap and GEO_JOIN rely on (the highest release is current)
+export const WDPA_RELEASE_PATTERN = /^\d{4}-\d{2}$/;
+
+// A release that shrinks this much is more likely a wrong layer or a
+// truncated download than real delistings (--force to swap anyway)
+export const MIN_LOADED_RATIO = 0.5;
+
+// Columns copied from staging on the swap (id included, to keep ids)
+const SWAP_COLUMNS = [
+  "id",
+  ...WDPA_COLUMNS.map((c) => c.column),
+  "wdpa_release",
+  "source",
+  "geom",
+  "centroid",
+  "created_at",
+  "updated_at",
+];
+
+// ============================================
+// Field Mapping
+// ============================================
+
+export function quoteIdent(ident: string): string {
+  // Quote identifiers to preserve case / reserved words
+  return `"${ident.replace(/"/g, '""')}"`;
+}
+
+export function sqlString(s: string): string {
+  return `'${s.replace(/'/g, "''")}'`;
+}
+
+export function normalizeFieldName(s: string): string {
+  return s.replace(/\s+/g, "_").replace(/[^\w]/g, "_").toLowerCase();
+}
+
+/**
+ * Source field for each canonical column (null when absent from the layer)
+ */
+export function resolveWdpaFields(fields: string[]): {
+  resolved: Record<string, string | null>;
+  missing: string[];
+} {
+  const fieldIndex = new Map<string, string>();
+  for (const f of fields) fieldIndex.set(normalizeFieldName(f), f);
+
+  const resolved: Record<string, string | null> = {};
+  const missing: string[] = [];
+
+  for (const { column, candidates } of WDPA_COLUMNS) {
+    let picked: string | null = null;
+    for (const c of candidates) {
+      const found = fieldIndex.get(normalizeFieldName(c));
+      if (found) {
+        picked = found;
+        break;
+      }
+    }
+    resolved[column] = picked;
+    if (!picked) missing.push(column);
+  }
+
+  return { resolved, missing };
+}
+
+/**
+ * SQL expression reading a canonical column from a staging row loaded
+ * with the original field names
+ */
+export function mappedExpression(column: WdpaColumn, sourceField: string | null, tableAlias?: string): string | null {
+  if (!sourceField) return null;
+  const src = tableAlias ? `${tableAlias}.${quoteIdent(sourceField)}` : quoteIdent(sourceField);
+  return column.cast ? `(${src})::${column.cast}` : src;
+}
+
+// ============================================
+// SQL
+// ============================================
+
+/**
+ * Map one raw layer into staging and record its counts. Polygons are
+ * repaired with ST_MakeValid (keeping only the polygonal part), single
+ * points are stored as Point; rows that end up empty or lack a WDPAID or
+ * NAME are skipped, as are duplicates of (wdpa_release, wdpa_id, name).
+ */
+function stagingSql(load: LayerLoad, release: string): string {
+  const expr = (column: string) => {
+    const def = WDPA_COLUMNS.find((c) => c.column === column)!;
+    return mappedExpression(def, load.resolved[column], "r") ?? `NULL::${def.cast ?? "text"}`;
+  };
+
+  const values = WDPA_COLUMNS.map((c) =>
+    c.column === "gis_area_km2"
+      ? `COALESCE(NULLIF(${expr("gis_area_km2")}, 0), CASE WHEN ST_Dimension(g.geom) = 2 THEN ST_Area(g.geom::geography) / 1e6 END)`
+      : expr(c.column)
+  );
+
+  return `
+WITH inserted AS (
+  INSERT INTO protected_areas_staging (${WDPA_COLUMNS.map((c) => c.column).join(", ")}, wdpa_release, source, geom, centroid)
+  SELECT
+    ${values.join(",\n    ")},
+    ${sqlString(release)},
+    'wdpa',
+    g.geom,
+    ST_PointOnSurface(g.geom)
+  FROM ${load.table} r
+  CROSS JOIN LATERAL (
+    SELECT CASE
+      WHEN ST_Dimension(r.geom) = 2 THEN ST_Multi(ST_CollectionExtract(ST_MakeValid(r.geom), 3))
+      WHEN ST_NumGeometries(r.geom) = 1 THEN ST_GeometryN(r.geom, 1)
+      ELSE r.geom
+    END AS geom
+  ) g
+  WHERE NOT ST_IsEmpty(g.geom)
+    AND ${expr("wdpa_id")} IS NOT NULL
+    AND ${expr("name")} IS NOT NULL
+  ON CONFLICT (wdpa_release, wdpa_id, name) DO NOTHING
+  RETURNING 1
+)
+INSERT INTO wdpa_import_layers (layer, source_rows, invalid_repaired, loaded)
+SELECT
+  ${sqlString(load.layer)},
+  (SELECT COUNT(*) FROM ${load.table}),
+  (SELECT COUNT(*) FROM ${load.table} WHERE NOT ST_IsValid(geom)),
+  (SELECT COUNT(*) FROM inserted);
+`;
+}
+
+/**
+ * Per-wdpa_id summary of one release for the diff. The shape hash is over
+ * ST_Normalize'd geometries, so a re-ordered ring is not a boundary change.
+ */
+function diffSideSql(table: string, source: string, release: string): string {
+  return `
+CREATE TEMP TABLE ${table} AS
+SELECT
+  wdpa_id,
+  array_to_string(array_agg(DISTINCT name ORDER BY name), ' | ') AS name,
+  md5(string_agg(shape, ',' ORDER BY shape)) AS shape,
+  SUM(COALESCE(gis_area_km2, reported_area_km2)) AS area_km2
+FROM (
+  SELECT wdpa_id, name, gis_area_km2, reported_area_km2, md5(ST_AsBinary(ST_Normalize(geom))) AS shape
+  FROM ${source}
+  WHERE wdpa_release = ${release}
+) x
+GROUP BY wdpa_id;
+CREATE INDEX ON ${table} (wdpa_id);
+`;
+}
+
+/**
+ * The whole refresh for psql: staging, then diff and swap in one
+ * transaction, then the diff report as a single JSON row
+ */
+export function buildImportSql(loads: LayerLoad[], release: string, previous: string | null, force: boolean): string {
+  const rel = sqlString(release);
+  const prev = previous === null ? "NULL::text" : sqlString(previous);
+  const swapColumns = SWAP_COLUMNS.map(quoteIdent).join(", ");
+
+  return `
+-- 1) Staging
+CREATE TEMP TABLE wdpa_import_layers (layer TEXT, source_rows BIGINT, invalid_repaired BIGINT, loaded BIGINT);
+TRUNCATE protected_areas_staging;
+${loads.map((load) => stagingSql(load, release)).join("")}
+-- Areas that persist keep their id and created_at
+UPDATE protected_areas_staging s
+SET id = pa.id, created_at = pa.created_at
+FROM protected_areas pa
+WHERE pa.wdpa_release = ${prev}
+  AND pa.wdpa_id = s.wdpa_id
+  AND pa.name = s.name;
+
+ANALYZE protected_areas_staging;
+
+-- 2) Diff and swap
+BEGIN;
+
+LOCK TABLE protected_areas IN EXCLUSIVE MODE;
+
+DO $$
+DECLARE
+  v_loaded BIGINT := (SELECT COUNT(*) FROM protected_areas_staging);
+  v_previous BIGINT := (SELECT COUNT(*) FROM protected_areas WHERE wdpa_release = ${prev});
+BEGIN
+  IF v_loaded = 0 THEN
+    RAISE EXCEPTION 'No protected areas loaded; keeping the current release';
+  END IF;
+  IF ${force ? "false" : "true"} AND v_loaded < v_previous * ${MIN_LOADED_RATIO} THEN
+    RAISE EXCEPTION 'Loaded % areas against % in the current release; use --force if that is right', v_loaded, v_previous;
+  END IF;
+END $$;
+
+${diffSideSql("wdpa_diff_old", "protected_areas", prev)}
+${diffSideSql("wdpa_diff_new", "protected_areas_staging", rel)}
+CREATE TEMP TABLE wdpa_diff_counts AS
+SELECT
+  (SELECT COUNT(*) FROM protected_areas WHERE wdpa_release = ${prev}) AS previous,
+  (SELECT COUNT(*) FROM protected_areas_staging) AS loaded;
+
+TRUNCATE protected_areas;
+INSERT INTO protected_areas (${swapColumns})
+SELECT ${swapColumns} FROM protected_areas_staging;
+
+COMMIT;
+
+-- 3) Clean up
+TRUNCATE protected_areas_staging;
+${loads.map((load) => `DROP TABLE ${load.table};`).join("\n")}
+VACUUM ANALYZE protected_areas;
+
+-- 4) Report
+SELECT json_build_object(
+  'release', ${rel},
+  'previous_release', ${prev},
+  'layers', (
+    SELECT json_agg(json_build_object(
+      'layer', layer,
+      'source_rows', source_rows,
+      'invalid_repaired', invalid_repaired,
+      'loaded', loaded,
+      'skipped', source_rows - loaded
+    ))
+    FROM wdpa_import_layers
+  ),
+  'counts', (SELECT row_to_json(c) FROM wdpa_diff_counts c),
+  'added', COALESCE((
+    SELECT json_agg(json_build_object('wdpa_id', n.wdpa_id, 'name', n.name) ORDER BY n.wdpa_id)
+    FROM wdpa_diff_new n
+    WHERE NOT EXISTS (SELECT 1 FROM wdpa_diff_old o WHERE o.wdpa_id = n.wdpa_id)
+  ), '[]'),
+  'removed', COALESCE((
+    SELECT json_agg(json_build_object('wdpa_id', o.wdpa_id, 'name', o.name) ORDER BY o.wdpa_id)
+    FROM wdpa_diff_old o
+    WHERE NOT EXISTS (SELECT 1 FROM wdpa_diff_new n WHERE n.wdpa_id = o.wdpa_id)
+  ), '[]'),
+  'boundary_changed', COALESCE((
+    SELECT json_agg(json_build_object(
+      'wdpa_id', n.wdpa_id,
+      'name', n.name,
+      'area_km2_before', o.area_km2,
+      'area_km2_after', n.area_km2
+    ) ORDER BY n.wdpa_id)
+    FROM wdpa_diff_new n
+    JOIN wdpa_diff_old o ON o.wdpa_id = n.wdpa_id
+    WHERE o.shape <> n.shape
+  ), '[]'),
+  'renamed', COALESCE((
+    SELECT json_agg(json_build_object('wdpa_id', n.wdpa_id, 'name_before', o.name, 'name_after', n.name) ORDER BY n.wdpa_id)
+    FROM wdpa_diff_new n
+    JOIN wdpa_diff_old o ON o.wdpa_id = n.wdpa_id
+    WHERE o.name <> n.name
+  ), '[]')
+);
+`;
+}
+
+// ============================================
+// Report
+// ============================================
+
+/**
+ * Fills the report's added/removed/changed counts from its lists
+ */
+export function countDiffReport(report: WdpaDiffReport): WdpaDiffReport {
+  return {
+    ...report,
+    counts: {
+      ...report.counts,
+      added: report.added.length,
+      removed: report.removed.length,
+      boundary_changed: report.boundary_changed.length,
+      renamed: report.renamed.length,
+    },
+  };
+}
@@ -0,0 +1,251 @@
+// packages/api/src/services/ingest/articleFetcher.ts
+//
+// Pluggable article fetching for the INGEST stage.
+// Backends:
+// - ScraperBeeFetcher: production path (handles JS rendering / blocking)
+// - HttpFetcher:       plain HTTP GET, no third-party dependency
+// - FixtureFetcher:    reads HTML from disk (local stubs, tests, replays)
+//
+// Network backends share per-domain rate limiting and robots.txt checks.
+
+import { readFile } from "node:fs/promises";
+import path from "node:path";
+
+import { logger } from "../../utils/logger";
+import { DomainRateLimiter } from "./domainRateLimiter";
+import { RobotsTxtCache, isPathAllowed } from "./robotsTxt";
+import { extractHtmlMetadata } from "./htmlMetadata";
+import { extractArticleContent } from "./contentExtractor";
+
+// ============================================
+// Types
+// ============================================
+
+/**
+ * Fields written back onto the `sources` row
+ */
+export interface FetchedArticle {
+  url: string;
+  finalUrl: string;
+  rawHtml: string;
+  rawText: string;
+  title: string | null;
+  publisher: string | null;
+  publishedAt: Date | null;
+  language: string | null;
+}
+
+export interface ArticleFetcher {
+  readonly name: "scraperbee" | "http" | "fixture";
+  fetch(url: string): Promise<FetchedArticle>;
+}
+
+export type ArticleFetcherKind = ArticleFetcher["name"];
+
+// ============================================
+// Configuration
+// ============================================
+const USER_AGENT = process.env.INGEST_USER_AGENT || "ConservationAtlasBot/0.1 (+https://conservation-atlas.org/bot)";
+const FETCH_TIMEOUT_MS = Number(process.env.FETCH_TIMEOUT_MS ?? 30_000);
+const FETCH_MIN_INTERVAL_MS = Number(process.env.FETCH_MIN_INTERVAL_MS ?? 2_000);
+const FETCH_RESPECT_ROBOTS = process.env.FETCH_RESPECT_ROBOTS !== "false";
+const SCRAPERBEE_API_URL = process.env.SCRAPERBEE_API_URL || "https://app.scrapingbee.com/api/v1/";
+const MAX_HTML_BYTES = 5 * 1024 * 1024;
+
+// Shared across fetcher instances so limits hold process-wide
+const rateLimiter = new DomainRateLimiter(FETCH_MIN_INTERVAL_MS);
+const robots = new RobotsTxtCache(USER_AGENT);
+
+// ============================================
+// Network Politeness
+// ============================================
+
+/**
+ * Enforce robots.txt and per-domain spacing before a network fetch
+ */
+async function beforeNetworkFetch(url: string): Promise<void> {
+  let crawlDelayMs: number | undefined;
+
+  if (FETCH_RESPECT_ROBOTS) {
+    const policy = await robots.getPolicy(url);
+    const { pathname, search } = new URL(url);
+    if (!isPathAllowed(policy, pathname + search)) {
+      throw new Error(`Blocked by robots.txt: ${url}`);
+    }
+    crawlDelayMs = policy.crawlDelayMs ?? undefined;
+  }
+
+  await rateLimiter.acquire(url, crawlDelayMs);
+}
+
+function buildArticle(url: string, finalUrl: string, html: string): FetchedArticle {
+  const meta = extractHtmlMetadata(html);
+  const content = extractArticleContent(html, finalUrl);
+  return {
+    url,
+    finalUrl,
+    rawHtml: html,
+    rawText: content.text,
+    title: meta.title,
+    publisher: meta.publisher,
+    publishedAt: meta.publishedAt,
+    language: meta.language,
+  };
+}
+
+async function readHtmlBody(response: Response, source: string): Promise<string> {
+  const contentType = response.headers.get("content-type") ?? "";
+  if (contentType && !/html|xml|text\/plain/i.test(contentType)) {
+    throw new Error(`${source} returned non-HTML content (${contentType})`);
+  }
+
+  const html = await response.text();
+  if (html.length > MAX_HTML_BYTES) {
+    return html.slice(0, MAX_HTML_BYTES);
+  }
+  return html;
+}
+
+// ============================================
+// ScraperBee
+// ============================================
+
+export class ScraperBeeFetcher implements ArticleFetcher {
+  readonly name = "scraperbee" as const;
+
+  constructor(
+    private readonly apiKey: string,
+    private readonly opts: { renderJs?: boolean; apiUrl?: string } = {}
+  ) {
+    if (!apiKey) throw new Error("Missing env var: SCRAPERBEE_API_KEY");
+  }
+
+  async fetch(url: string): Promise<FetchedArticle> {
+    await beforeNetworkFetch(url);
+
+    const endpoint = new URL(this.opts.apiUrl ?? SCRAPERBEE_API_URL);
+    endpoint.searchParams.set("api_key", this.apiKey);
+    endpoint.searchParams.set("url", url);
+    endpoint.searchParams.set("render_js", this.opts.renderJs ? "true" : "false");
+
+    const response = await fetch(endpoint, { signal: AbortSignal.timeout(FETCH_TIMEOUT_MS) });
+
+    if (response.status === 429) {
+      throw new Error("ScraperBee rate limit exceeded (HTTP 429)");
+    }
+    if (!response.ok) {
+      throw new Error(`ScraperBee request failed: HTTP ${response.status}`);
+    }
+
+    const html = await readHtmlBody(response, "ScraperBee");
+    const finalUrl = response.headers.get("spb-resolved-url") ?? url;
+    return buildArticle(url, finalUrl, html);
+  }
+}
+
+// ============================================
+// Plain HTTP
+// ============================================
+
+export class HttpFetcher implements ArticleFetcher {
+  readonly name = "http" as const;
+
+  async fetch(url: string): Promise<FetchedArticle> {
+    await beforeNetworkFetch(url);
+
+    const response = await fetch(url, {
+      headers: {
+        "User-Agent": USER_AGENT,
+        Accept: "text/html,application/xhtml+xml;q=0.9,*/*;q=0.5",
+      },
+      redirect: "follow",
+      signal: AbortSignal.timeout(FETCH_TIMEOUT_MS),
+    });
+
+    if (response.status === 429) {
+      throw new Error(`Publisher rate limit exceeded (HTTP 429): ${url}`);
+    }
+    if (!response.ok) {
+      throw new Error(`Article request failed: HTTP ${response.status}`);
+    }
+
+    const html = await readHtmlBody(response, "Publisher");
+    return buildArticle(url, response.url || url, html);
+  }
+}
+
+// ============================================
+// File-system Fixtures
+// ============================================
+
+/**
+ * Serves HTML from a directory. Lookup order:
+ * 1. manifest.json ({ "<url>": "<file>" }) if present
+ * 2. <slug>.html where slug is the URL's host + path with non-word chars as "_"
+ */
+export class FixtureFetcher implements ArticleFetcher {
+  readonly name = "fixture" as const;
+  private manifest: Record<string, string> | null | undefined;
+
+  constructor(private readonly dir: string) {
+    if (!dir) throw new Error("Missing env var: ARTICLE_FIXTURE_DIR");
+  }
+
+  async fetch(url: string): Promise<FetchedArticle> {
+    const manifest = await this.loadManifest();
+    const file = manifest?.[url] ?? `${fixtureSlug(url)}.html`;
+
+    let html: string;
+    try {
+      html = await readFile(path.join(this.dir, file), "utf8");
+    } catch {
+      throw new Error(`No fixture for ${url} (expected ${file} in ${this.dir})`);
+    }
+
+    return buildArticle(url, url, html);
+  }
+
+  private async loadManifest(): Promise<Record<string, string> | null> {
+    if (this.manifest !== undefined) return this.manifest;
+    try {
+      this.manifest = JSON.parse(await readFile(path.join(this.dir, "manifest.json"), "utf8"));
+    } catch {
+      this.manifest = null;
+    }
+    return this.manifest ?? null;
+  }
+}
+
+export function fixtureSlug(url: string): string {
+  const u = new URL(url);
+  return `${u.hostname}${u.pathname}`.replace(/\W+/g, "_").replace(/^_+|_+$/g, "");
+}
+
+// ============================================
+// Factory
+// ============================================
+
+/**
+ * Build the fetcher selected by ARTICLE_FETCHER.
+ * Defaults to ScraperBee when an API key is configured, plain HTTP otherwise.
+ */
+export function createArticleFetcher(kind?: ArticleFetcherKind): ArticleFetcher {
+  // Empty env values (as in .env.example) count as unset
+  const selected = kind
+    || (process.env.ARTICLE_FETCHER as ArticleFetcherKind | undefined)
+    || (process.env.SCRAPERBEE_API_KEY ? "scraperbee" : "http");
+
+  switch (selected) {
+    case "scraperbee":
+      return new ScraperBeeFetcher(process.env.SCRAPERBEE_API_KEY ?? "", {
+        renderJs: process.env.SCRAPERBEE_RENDER_JS === "true",
+      });
+    case "http":
+      return new HttpFetcher();
+    case "fixture":
+      return new FixtureFetcher(process.env.ARTICLE_FIXTURE_DIR ?? "");
+    default:
+      logger.warn({ fetcher: selected }, "Unknown ARTICLE_FETCHER; falling back to http");
+      return new HttpFetcher();
+  }
+}
@@ -0,0 +1,273 @@
+// packages/api/src/services/ingest/contentExtractor.ts
+//
+// Readability-style main-content extraction for sources.raw_html.
+// Strips navigation, cookie banners, comments, share widgets and other
+// boilerplate, then picks the densest block of paragraph text.
+//
+// Besides clean text it reports the content signals that
+// getSourceQuality() accepts (author, publish date, word count, citations).
+
+import { parse, type HTMLElement } from "node-html-parser";
+
+import { extractHtmlMetadata } from "./htmlMetadata";
+
+// ============================================
+// Types
+// ============================================
+
+export interface ExtractedContent {
+  text: string;
+  title: string | null;
+  byline: string | null;
+  publishedAt: Date | null;
+  wordCount: number;
+  linkCount: number;
+  citationCount: number;
+}
+
+// ============================================
+// Configuration
+// ============================================
+
+// Elements that never contain article text
+const NON_CONTENT_TAGS = [
+  "script", "style", "noscript", "template", "svg", "canvas", "iframe", "object",
+  "nav", "header", "footer", "aside", "form", "button", "select", "dialog",
+];
+
+// class/id fragments that mark boilerplate containers
+const BOILERPLATE_HINTS = /(^|[\s_-])(cookie|consent|gdpr|banner|comment|disqus|share|sharing|social|related|recommend|newsletter|subscribe|signup|promo|sponsor|advert|ads?|sidebar|breadcrumb|footer|masthead|menu|nav|popup|modal|paywall|outbrain|taboola)([\s_-]|$)/i;
+
+// class/id fragments that mark the article body
+const CONTENT_HINTS = /(^|[\s_-])(article|content|entry|main|post|story|body|text)([\s_-]|$)/i;
+
+// Explicit article-body containers, checked before scoring
+const ARTICLE_SELECTORS = ['[itemprop="articleBody"]', "article", '[role="main"]', "main"];
+
+const BLOCK_SELECTOR = "p, h2, h3, h4, li, blockquote, pre, td";
+
+const MIN_PARAGRAPH_CHARS = 25;
+const MAX_LINK_DENSITY = 0.5;
+
+// Hosts/paths that indicate a reference rather than a navigation link
+const CITATION_HOSTS = /(doi\.org|\.gov(\.[a-z]{2})?$|\.edu$|\.ac\.[a-z]{2}$|iucn|nature\.com|science\.org|sciencedirect|springer|wiley|pnas\.org|plos|frontiersin|researchgate|arxiv|pubmed|ncbi\.nlm)/i;
+const DOI_PATTERN = /\b10\.\d{4,9}\/[^\s"<>]+/g;
+
+// ============================================
+// Main Entry Point
+// ============================================
+
+/**
+ * Extract clean article text and content signals from raw HTML.
+ * `pageUrl` lets outbound links be told apart from same-site navigation.
+ */
+export function extractArticleContent(html: string, pageUrl?: string): ExtractedContent {
+  const root = parse(html, { comment: false });
+
+  // Metadata first: JSON-LD and <meta> live in <head>/<script>, which get stripped below
+  const meta = extractHtmlMetadata(root);
+  const byline = meta.author && !/^https?:\/\//i.test(meta.author) ? meta.author : findByline(root);
+
+  stripBoilerplate(root);
+
+  const container = findContentContainer(root);
+  const blocks = collectBlocks(container);
+  const text = blocks.length
+    ? blocks.join("\n\n")
+    : container.structuredText.replace(/\n{3,}/g, "\n\n").trim();
+
+  const { linkCount, citationCount } = countLinks(container, text, pageUrl);
+
+  return {
+    text,
+    title: meta.title,
+    byline,
+    publishedAt: meta.publishedAt,
+    wordCount: countWords(text),
+    linkCount,
+    citationCount,
+  };
+}
+
+// ============================================
+// Cleaning
+// ============================================
+
+function stripBoilerplate(root: HTMLElement): void {
+  for (const tag of NON_CONTENT_TAGS) {
+    for (const el of root.querySelectorAll(tag)) el.remove();
+  }
+
+  for (const el of root.querySelectorAll("[class], [id], [role], [aria-hidden], [hidden]")) {
+    if (el.getAttribute("aria-hidden") === "true" || el.hasAttribute("hidden")) {
+      el.remove();
+      continue;
+    }
+
+    const role = el.getAttribute("role");
+    if (role === "navigation" || role === "banner" || role === "contentinfo" || role === "complementary") {
+      el.remove();
+      continue;
+    }
+
+    // Never drop an element that also looks like the article itself
+    const hints = `${el.getAttribute("class") ?? ""} ${el.getAttribute("id") ?? ""}`;
+    if (BOILERPLATE_HINTS.test(hints) && !CONTENT_HINTS.test(hints)) {
+      el.remove();
+    }
+  }
+}
+
+// ============================================
+// Container Selection
+// ============================================
+
+/**
+ * Prefer an explicit article container; otherwise score the parents of
+ * paragraphs by text length and comma count, penalising link-heavy blocks.
+ */
+function findContentContainer(root: HTMLElement): HTMLElement {
+  const body = root.querySelector("body") ?? root;
+
+  for (const selector of ARTICLE_SELECTORS) {
+    const candidates = body.querySelectorAll(selector);
+    const best = maxBy(candidates, (el) => paragraphTextLength(el));
+    if (best && paragraphTextLength(best) >= 500) return best;
+  }
+
+  const scores = new Map<HTMLElement, number>();
+  for (const p of body.querySelectorAll("p")) {
+    const text = normalizeWhitespace(p.text);
+    if (text.length < MIN_PARAGRAPH_CHARS) continue;
+
+    const score = 1 + text.split(",").length + Math.min(3, Math.floor(text.length / 100));
+    const parent = p.parentNode as HTMLElement | null;
+    if (!parent) continue;
+
+    scores.set(parent, (scores.get(parent) ?? 0) + score);
+    const grandparent = parent.parentNode as HTMLElement | null;
+    if (grandparent) {
+      scores.set(grandparent, (scores.get(grandparent) ?? 0) + score / 2);
+    }
+  }
+
+  const best = maxBy([...scores.keys()], (el) => {
+    const hints = `${el.getAttribute?.("class") ?? ""} ${el.getAttribute?.("id") ?? ""}`;
+    const bonus = CONTENT_HINTS.test(hints) ? 1.25 : 1;
+    return (scores.get(el) ?? 0) * bonus * (1 - linkDensity(el));
+  });
+
+  return best ?? body;
+}
+
+function collectBlocks(container: HTMLElement): string[] {
+  const blocks: string[] = [];
+  const seen = new Set<string>();
+
+  for (const el of container.querySelectorAll(BLOCK_SELECTOR)) {
+    // Nested blocks (li > p, blockquote > p) are emitted via the innermost element
+    if (el.querySelector(BLOCK_SELECTOR)) continue;
+
+    const text = normalizeWhitespace(el.text);
+    const isHeading = /^h[2-4]$/i.test(el.tagName);
+    if (!text || (!isHeading && text.length < MIN_PARAGRAPH_CHARS)) continue;
+    if (linkDensity(el) > MAX_LINK_DENSITY) continue;
+    if (seen.has(text)) continue;
+
+    seen.add(text);
+    blocks.push(text);
+  }
+
+  return blocks;
+}
+
+// ============================================
+// Signals
+// ============================================
+
+function findByline(root: HTMLElement): string | null {
+  const el = root.querySelector('[rel="author"], [itemprop="author"], .byline, .author, .article-author');
+  if (!el) return null;
+
+  const text = normalizeWhitespace(el.text).replace(/^by\s+/i, "");
+  return text && text.length <= 120 ? text : null;
+}
+
+function countLinks(
+  container: HTMLElement,
+  text: string,
+  pageUrl?: string
+): { linkCount: number; citationCount: number } {
+  const pageHost = pageUrl ? safeHost(pageUrl) : null;
+  const cited = new Set<string>();
+  let linkCount = 0;
+
+  for (const a of container.querySelectorAll("a[href]")) {
+    const href = a.getAttribute("href") ?? "";
+    if (!/^https?:\/\//i.test(href)) continue;
+
+    linkCount++;
+    const host = safeHost(href);
+    if (!host) continue;
+
+    const isOutbound = pageHost !== null && host !== pageHost && !host.endsWith(`.${pageHost}`);
+    if (CITATION_HOSTS.test(host) || /\.pdf($|\?)/i.test(href) || isOutbound) {
+      cited.add(href);
+    }
+  }
+
+  for (const doi of text.match(DOI_PATTERN) ?? []) {
+    cited.add(`doi:${doi}`);
+  }
+
+  return { linkCount, citationCount: cited.size };
+}
+
+// ============================================
+// Utility Functions
+// ============================================
+
+function paragraphTextLength(el: HTMLElement): number {
+  return el
+    .querySelectorAll("p")
+    .reduce((sum, p) => sum + normalizeWhitespace(p.text).length, 0);
+}
+
+function linkDensity(el: HTMLElement): number {
+  const total = normalizeWhitespace(el.text).length;
+  if (!total) return 0;
+  const linked = el
+    .querySelectorAll("a")
+    .reduce((sum, a) => sum + normalizeWhitespace(a.text).length, 0);
+  return linked / total;
+}
+
+function maxBy<T>(items: T[], score: (item: T) => number): T | null {
+  let best: T | null = null;
+  let bestScore = -Infinity;
+  for (const item of items) {
+    const s = score(item);
+    if (s > bestScore) {
+      best = item;
+      bestScore = s;
+    }
+  }
+  return best;
+}
+
+function safeHost(url: string): string | null {
+  try {
+    return new URL(url).hostname.toLowerCase().replace(/^www\./, "");
+  } catch {
+    return null;
+  }
+}
+
+function normalizeWhitespace(text: string): string {
+  return text.replace(/\s+/g, " ").trim();
+}
+
+export function countWords(text: string): number {
+  const matches = text.match(/[\p{L}\p{N}][\p{L}\p{N}'’-]*/gu);
+  return matches ? matches.length : 0;
+}
@@ -0,0 +1,33 @@
+// packages/api/src/services/ingest/domainRateLimiter.ts
+//
+// Per-domain request spacing so we never hammer a single publisher,
+// regardless of how many feeds point at it.
+
+export class DomainRateLimiter {
+  private nextSlot = new Map<string, number>();
+
+  constructor(private readonly minIntervalMs: number) {}
+
+  /**
+   * Wait until a request to this URL's host is allowed.
+   * `intervalMs` overrides the default spacing (e.g. robots.txt Crawl-delay).
+   */
+  async acquire(url: string, intervalMs?: number): Promise<void> {
+    const host = new URL(url).hostname.toLowerCase();
+    const spacing = Math.max(this.minIntervalMs, intervalMs ?? 0);
+
+    const now = Date.now();
+    const slot = Math.max(now, this.nextSlot.get(host) ?? 0);
+
+    // Reserve the slot before awaiting so concurrent callers queue up behind us
+    this.nextSlot.set(host, slot + spacing);
+
+    if (slot > now) {
+      await sleep(slot - now);
+    }
+  }
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
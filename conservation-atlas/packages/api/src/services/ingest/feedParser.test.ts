@@ -0,0 +1,55 @@
+// packages/api/src/services/ingest/feedParser.test.ts
+
+import { readFileSync } from "node:fs";
+import path from "node:path";
+
+import { parseFeed, stripHtml } from "./feedParser";
+
+const fixture = (name: string) => readFileSync(path.join(__dirname, "__fixtures__", name), "utf8");
+
+describe("parseFeed", () => {
+  it("normalizes RSS 2.0 items and skips non-http links", () => {
+    const feed = parseFeed(fixture("rss.xml"));
+
+    expect(feed.format).toBe("rss");
+    expect(feed.title).toBe("Wildlife Wire");
+    expect(feed.language).toBe("en-GB");
+    expect(feed.items.map((i) => i.url)).toEqual([
+      "http://localhost/articles/rhino-collar",
+      "http://localhost/articles/elephant-corridor",
+    ]);
+    expect(feed.items[0].author).toBe("Field Desk");
+    expect(feed.items[0].publishedAt?.toISOString()).toBe("2026-10-06T08:00:00.000Z");
+  });
+
+  it("keeps numeric-looking titles and guids as strings", () => {
+    const [item] = parseFeed(fixture("rss.xml")).items;
+
+    expect(item.title).toBe("007");
+    expect(item.guid).toBe("0042");
+  });
+
+  it("normalizes Atom entries and prefers the alternate link", () => {
+    const feed = parseFeed(fixture("atom.xml"));
+
+    expect(feed.format).toBe("atom");
+    expect(feed.language).toBe("fr");
+    expect(feed.items).toHaveLength(1);
+    expect(feed.items[0]).toMatchObject({
+      url: "http://localhost/articles/lion-census",
+      title: "2024",
+      guid: "00017",
+      author: "Rédaction",
+    });
+  });
+
+  it("rejects documents that are not feeds", () => {
+    expect(() => parseFeed("<html><body>nope</body></html>")).toThrow("Unrecognized feed format");
+  });
+});
+
+describe("stripHtml", () => {
+  it("removes markup and decodes common entities", () => {
+    expect(stripHtml("<p>Rhino &amp; calf <b>seen</b></p>")).toBe("Rhino & calf seen");
+  });
+});
@@ -0,0 +1,182 @@
+// packages/api/src/services/ingest/feedParser.ts
+//
+// RSS 2.0 / Atom feed parsing for the INGEST stage.
+// Normalizes both formats into a flat list of FeedItem records.
+
+import { XMLParser } from "fast-xml-parser";
+
+// ============================================
+// Types
+// ============================================
+
+export interface FeedItem {
+  url: string;
+  title: string | null;
+  summary: string | null;
+  author: string | null;
+  publishedAt: Date | null;
+  guid: string | null;
+}
+
+export interface ParsedFeed {
+  format: "rss" | "atom";
+  title: string | null;
+  language: string | null;
+  items: FeedItem[];
+}
+
+// ============================================
+// Parser Setup
+// ============================================
+
+const parser = new XMLParser({
+  ignoreAttributes: false,
+  attributeNamePrefix: "@_",
+  textNodeName: "#text",
+  trimValues: true,
+  // Titles like "007" and guids like "0042" must stay strings
+  parseTagValue: false,
+  // Keep entries as arrays even when a feed has a single item
+  isArray: (name) => ["item", "entry", "link", "category"].includes(name),
+});
+
+/**
+ * Parse an RSS or Atom document into a normalized feed
+ */
+export function parseFeed(xml: string): ParsedFeed {
+  let doc: any;
+  try {
+    doc = parser.parse(xml);
+  } catch (e) {
+    throw new Error(`Invalid feed XML: ${(e as Error).message}`);
+  }
+
+  if (doc?.rss?.channel) {
+    return parseRss(doc.rss.channel);
+  }
+
+  // RSS 1.0 (RDF) puts items next to the channel rather than inside it
+  if (doc?.["rdf:RDF"]) {
+    const rdf = doc["rdf:RDF"];
+    return parseRss({ ...rdf.channel, item: rdf.item ?? [] });
+  }
+
+  if (doc?.feed) {
+    return parseAtom(doc.feed);
+  }
+
+  throw new Error("Unrecognized feed format (expected RSS or Atom)");
+}
+
+// ============================================
+// Format-specific Parsing
+// ============================================
+
+function parseRss(channel: any): ParsedFeed {
+  const items: FeedItem[] = [];
+
+  for (const item of channel.item ?? []) {
+    const url = firstLink(item.link) ?? textOf(item.guid);
+    if (!url || !isHttpUrl(url)) continue;
+
+    items.push({
+      url,
+      title: textOf(item.title),
+      summary: textOf(item["content:encoded"]) ?? textOf(item.description),
+      author: textOf(item["dc:creator"]) ?? textOf(item.author),
+      publishedAt: parseDate(textOf(item.pubDate) ?? textOf(item["dc:date"])),
+      guid: textOf(item.guid),
+    });
+  }
+
+  return {
+    format: "rss",
+    title: textOf(channel.title),
+    language: textOf(channel.language) ?? textOf(channel["dc:language"]),
+    items,
+  };
+}
+
+function parseAtom(feed: any): ParsedFeed {
+  const items: FeedItem[] = [];
+
+  for (const entry of feed.entry ?? []) {
+    const url = atomLink(entry.link);
+    if (!url || !isHttpUrl(url)) continue;
+
+    items.push({
+      url,
+      title: textOf(entry.title),
+      summary: textOf(entry.content) ?? textOf(entry.summary),
+      author: textOf(entry.author?.name),
+      publishedAt: parseDate(textOf(entry.published) ?? textOf(entry.updated)),
+      guid: textOf(entry.id),
+    });
+  }
+
+  return {
+    format: "atom",
+    title: textOf(feed.title),
+    language: feed["@_xml:lang"] ?? null,
+    items,
+  };
+}
+
+// ============================================
+// Helpers
+// ============================================
+
+function textOf(node: any): string | null {
+  if (node == null) return null;
+  if (typeof node === "string") return node.trim() || null;
+  if (typeof node === "number") return String(node);
+  if (Array.isArray(node)) return textOf(node[0]);
+  if (typeof node === "object" && node["#text"] != null) return textOf(node["#text"]);
+  return null;
+}
+
+function firstLink(links: any): string | null {
+  if (!links) return null;
+  for (const l of Array.isArray(links) ? links : [links]) {
+    const href = typeof l === "object" ? l["@_href"] ?? textOf(l) : textOf(l);
+    if (href) return href;
+  }
+  return null;
+}
+
+function atomLink(links: any): string | null {
+  if (!links) return null;
+  const list = Array.isArray(links) ? links : [links];
+
+  // Prefer rel="alternate" (or no rel), which points at the article itself
+  const alternate = list.find((l) => !l["@_rel"] || l["@_rel"] === "alternate");
+  return alternate?.["@_href"] ?? list[0]?.["@_href"] ?? null;
+}
+
+function parseDate(value: string | null): Date | null {
+  if (!value) return null;
+  const d = new Date(value);
+  return Number.isNaN(d.getTime()) ? null : d;
+}
+
+function isHttpUrl(value: string): boolean {
+  return /^https?:\/\//i.test(value);
+}
+
+/**
+ * Strip markup from feed summaries (descriptions are often HTML fragments)
+ */
+export function stripHtml(html: string): string {
+  return html
+    .replace(/<script[\s\S]*?<\/script>/gi, " ")
+    .replace(/<style[\s\S]*?<\/style>/gi, " ")
+    .replace(/<[^>]+>/g, " ")
+    .replace(/&nbsp;/g, " ")
+    .replace(/&amp;/g, "&")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/\s+/g, " ")
+    .trim();
+}
@@ -0,0 +1,115 @@
+// packages/api/src/services/ingest/htmlMetadata.ts
+//
+// Pulls article metadata (title, publisher, author, publish date, language)
+// out of a fetched HTML page. Shared by every ArticleFetcher backend and
+// by the content extractor.
+
+import { parse, type HTMLElement } from "node-html-parser";
+
+export interface HtmlMetadata {
+  title: string | null;
+  publisher: string | null;
+  author: string | null;
+  publishedAt: Date | null;
+  language: string | null;
+}
+
+/**
+ * Extract page metadata from raw HTML or an already-parsed document
+ */
+export function extractHtmlMetadata(input: string | HTMLElement): HtmlMetadata {
+  const root = typeof input === "string" ? parse(input, { comment: false }) : input;
+
+  return {
+    title: firstNonEmpty(
+      meta(root, "og:title"),
+      meta(root, "twitter:title"),
+      root.querySelector("title")?.text
+    ),
+    publisher: firstNonEmpty(
+      meta(root, "og:site_name"),
+      meta(root, "application-name"),
+      jsonLdValue(root, (ld) => ld?.publisher?.name)
+    ),
+    author: firstNonEmpty(
+      meta(root, "author"),
+      meta(root, "article:author"),
+      meta(root, "parsely-author"),
+      jsonLdValue(root, (ld) => (Array.isArray(ld?.author) ? ld.author[0] : ld?.author)?.name ?? ld?.author)
+    ),
+    publishedAt: parseDate(firstNonEmpty(
+      meta(root, "article:published_time"),
+      meta(root, "og:published_time"),
+      meta(root, "date"),
+      meta(root, "dc.date"),
+      meta(root, "dcterms.date"),
+      jsonLdValue(root, (ld) => ld?.datePublished),
+      root.querySelector("time[datetime]")?.getAttribute("datetime")
+    )),
+    language: normalizeLanguage(firstNonEmpty(
+      root.querySelector("html")?.getAttribute("lang"),
+      metaHttpEquiv(root, "content-language"),
+      meta(root, "og:locale")
+    )),
+  };
+}
+
+// ============================================
+// Helpers
+// ============================================
+
+function meta(root: HTMLElement, key: string): string | null {
+  const lower = key.toLowerCase();
+  for (const el of root.querySelectorAll("meta")) {
+    const name = (el.getAttribute("property") ?? el.getAttribute("name") ?? "").toLowerCase();
+    if (name === lower) {
+      const content = el.getAttribute("content")?.trim();
+      if (content) return content;
+    }
+  }
+  return null;
+}
+
+function metaHttpEquiv(root: HTMLElement, key: string): string | null {
+  for (const el of root.querySelectorAll("meta[http-equiv]")) {
+    if (el.getAttribute("http-equiv")?.toLowerCase() === key) {
+      return el.getAttribute("content")?.trim() || null;
+    }
+  }
+  return null;
+}
+
+function jsonLdValue(root: HTMLElement, pick: (ld: any) => unknown): string | null {
+  for (const el of root.querySelectorAll('script[type="application/ld+json"]')) {
+    try {
+      const parsed = JSON.parse(el.text);
+      const nodes = Array.isArray(parsed) ? parsed : parsed?.["@graph"] ?? [parsed];
+      for (const node of nodes) {
+        const value = pick(node);
+        if (typeof value === "string" && value.trim()) return value.trim();
+      }
+    } catch {
+      // Malformed JSON-LD is common; ignore it
+    }
+  }
+  return null;
+}
+
+function firstNonEmpty(...values: Array<string | null | undefined>): string | null {
+  for (const v of values) {
+    if (v && v.trim()) return v.trim();
+  }
+  return null;
+}
+
+function parseDate(value: string | null): Date | null {
+  if (!value) return null;
+  const d = new Date(value);
+  return Number.isNaN(d.getTime()) ? null : d;
+}
+
+function normalizeLanguage(value: string | null): string | null {
+  if (!value) return null;
+  const code = value.toLowerCase().split(/[-_,;\s]/)[0];
+  return /^[a-z]{2,3}$/.test(code) ? code : null;
+}
@@ -0,0 +1,83 @@
+// packages/api/src/services/ingest/nearDuplicate.test.ts
+
+import { computeMinHash, estimateJaccard, lshBuckets, releaseSyndicatedCopies } from "./nearDuplicate";
+
+type Statement = { sql: string; values: unknown[] };
+
+const mockDb = {
+  waitingCopies: [] as bigint[],
+  statements: [] as Statement[],
+};
+
+jest.mock("../../db", () => {
+  const tx = {
+    $queryRaw: jest.fn(async (strings: TemplateStringsArray, ...values: unknown[]) => {
+      mockDb.statements.push({ sql: strings.join("?"), values });
+      return mockDb.waitingCopies.map((id) => ({ id }));
+    }),
+    $executeRaw: jest.fn(async (strings: TemplateStringsArray, ...values: unknown[]) => {
+      mockDb.statements.push({ sql: strings.join("?"), values });
+      return 1;
+    }),
+  };
+  return {
+    prisma: {
+      ...tx,
+      $transaction: jest.fn(async (fn: (client: typeof tx) => Promise<unknown>) => fn(tx)),
+    },
+  };
+});
+
+const WIRE_STORY =
+  "Rangers in the Maasai Mara recovered three snares and arrested two suspects on Tuesday after a tip from a " +
+  "community scout. The county wildlife office said the snares had been set along a known elephant corridor " +
+  "near the Talek river and that patrols would be stepped up ahead of the migration season. Conservation groups " +
+  "welcomed the arrests and called for more funding for community scouts across the reserve.";
+
+describe("MinHash near-duplicate scoring", () => {
+  it("scores a syndicated copy with a new byline and footer as near-identical", () => {
+    const original = computeMinHash(WIRE_STORY)!;
+    const copy = computeMinHash(`By Staff Reporter. ${WIRE_STORY} Follow us for more wildlife news.`)!;
+
+    expect(estimateJaccard(original, copy)).toBeGreaterThan(0.8);
+    expect(lshBuckets(original).filter((b, i) => b === lshBuckets(copy)[i]).length).toBeGreaterThan(0);
+  });
+
+  it("keeps unrelated stories apart", () => {
+    const other =
+      "The national park authority opened a new visitor centre on Friday with exhibits on coral reef restoration, " +
+      "mangrove planting and seagrass monitoring. Officials said school groups would be admitted free of charge " +
+      "during the first month and that volunteer divers were still needed for the spring survey of the outer reef.";
+
+    expect(estimateJaccard(computeMinHash(WIRE_STORY)!, computeMinHash(other)!)).toBeLessThan(0.2);
+  });
+
+  it("skips texts too short to compare", () => {
+    expect(computeMinHash("Too short to say anything.")).toBeNull();
+  });
+});
+
+describe("releaseSyndicatedCopies", () => {
+  beforeEach(() => {
+    mockDb.statements = [];
+  });
+
+  it("promotes the earliest waiting copy and points the others at it", async () => {
+    mockDb.waitingCopies = [11n, 12n, 15n];
+
+    await expect(releaseSyndicatedCopies(10)).resolves.toBe(11);
+
+    const [, promote, repoint] = mockDb.statements;
+    expect(promote.sql).toContain("extraction_status = 'pending'");
+    expect(promote.values).toEqual([11]);
+    expect(repoint.sql).toContain("SET canonical_source_id = ?");
+    expect(repoint.values).toEqual([11, [12, 15]]);
+  });
+
+  it("does nothing when no copy is waiting", async () => {
+    mockDb.waitingCopies = [];
+
+    await expect(releaseSyndicatedCopies(10)).resolves.toBeNull();
+    expect(mockDb.statements).toHaveLength(1);
+  });
+});
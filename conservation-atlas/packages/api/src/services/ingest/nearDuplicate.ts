@@ -0,0 +1,353 @@
+// packages/api/src/services/ingest/nearDuplicate.ts
+//
+// Near-duplicate detection for syndicated articles.
+// content_hash only catches byte-identical text; wire stories republished
+// with a different headline, byline or footer slip through it.
+//
+// Approach:
+// - 5-word shingles over normalized raw_text
+// - 128-value MinHash signature (seeded 32-bit hashes)
+// - LSH with 16 bands x 8 rows stored in source_lsh_buckets
+// - Candidates sharing any bucket are verified by estimated Jaccard similarity
+//
+// A match links the new source to the canonical (first-seen) source so the
+// EXTRACT stage can reuse its extraction instead of calling the LLM again.
+
+import type { Prisma } from "@prisma/client";
+
+import { prisma } from "../../db";
+import { logger } from "../../utils/logger";
+
+// ============================================
+// Configuration
+// ============================================
+const SHINGLE_SIZE = 5;
+const NUM_HASHES = 128;
+const LSH_BANDS = 16;
+const LSH_ROWS = NUM_HASHES / LSH_BANDS;
+const MIN_TOKENS = 40;
+
+const NEAR_DUP_THRESHOLD = Number(process.env.NEAR_DUP_THRESHOLD ?? 0.8);
+const NEAR_DUP_WINDOW_DAYS = Number(process.env.NEAR_DUP_WINDOW_DAYS ?? 14);
+
+// Canonical sources that ended without events; copies of them are extracted on their own
+const UNEXTRACTED_STATUSES = ["too_short", "irrelevant", "extraction_failed"];
+
+// Fixed seeds so signatures stay comparable across processes and deploys
+const HASH_SEEDS = buildSeeds(NUM_HASHES, 0x9e3779b9);
+
+// ============================================
+// Types
+// ============================================
+
+export interface NearDuplicateMatch {
+  canonicalSourceId: number;
+  matchedSourceId: number;
+  similarity: number;
+}
+
+// ============================================
+// MinHash / LSH
+// ============================================
+
+/**
+ * MinHash signature of the text's word shingles.
+ * Returns null when the text is too short for a meaningful comparison.
+ */
+export function computeMinHash(text: string): number[] | null {
+  const tokens = text
+    .toLowerCase()
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .match(/[\p{L}\p{N}]+/gu);
+
+  if (!tokens || tokens.length < MIN_TOKENS) return null;
+
+  const shingles = new Set<number>();
+  for (let i = 0; i + SHINGLE_SIZE <= tokens.length; i++) {
+    shingles.add(fnv1a(tokens.slice(i, i + SHINGLE_SIZE).join(" ")));
+  }
+
+  const signature = new Array<number>(NUM_HASHES).fill(0xffffffff);
+  for (const shingle of shingles) {
+    for (let i = 0; i < NUM_HASHES; i++) {
+      const h = fmix32(shingle ^ HASH_SEEDS[i]);
+      if (h < signature[i]) signature[i] = h;
+    }
+  }
+
+  return signature;
+}
+
+/**
+ * One bucket hash per LSH band
+ */
+export function lshBuckets(signature: number[]): number[] {
+  const buckets: number[] = [];
+  for (let band = 0; band < LSH_BANDS; band++) {
+    const rows = signature.slice(band * LSH_ROWS, (band + 1) * LSH_ROWS);
+    buckets.push(fnv1a(rows.join(",")));
+  }
+  return buckets;
+}
+
+/**
+ * Fraction of matching signature positions ≈ Jaccard similarity of shingle sets
+ */
+export function estimateJaccard(a: number[], b: number[]): number {
+  const n = Math.min(a.length, b.length);
+  if (!n) return 0;
+
+  let same = 0;
+  for (let i = 0; i < n; i++) {
+    if (a[i] === b[i]) same++;
+  }
+  return same / n;
+}
+
+// ============================================
+// Detection
+// ============================================
+
+/**
+ * Signature the source's raw_text, index it, and link it to a canonical
+ * source when a near-duplicate is found within the lookback window.
+ */
+export async function detectNearDuplicate(sourceId: number): Promise<NearDuplicateMatch | null> {
+  const rows = await prisma.$queryRaw<Array<{ raw_text: string | null }>>`
+    SELECT raw_text FROM sources WHERE id = ${sourceId}
+  `;
+  const signature = computeMinHash(rows[0]?.raw_text ?? "");
+  if (!signature) return null;
+
+  const buckets = lshBuckets(signature);
+  const match = await findBestCandidate(sourceId, signature, buckets);
+
+  await prisma.$transaction(async (tx: Prisma.TransactionClient) => {
+    await tx.$executeRaw`
+      UPDATE sources SET minhash_signature = ${signature}::bigint[], updated_at = NOW()
+      WHERE id = ${sourceId}
+    `;
+
+    for (let band = 0; band < buckets.length; band++) {
+      await tx.$executeRaw`
+        INSERT INTO source_lsh_buckets (band, bucket, source_id)
+        VALUES (${band}, ${buckets[band]}, ${sourceId})
+        ON CONFLICT DO NOTHING
+      `;
+    }
+
+    if (match) {
+      await tx.$executeRaw`
+        UPDATE sources
+        SET canonical_source_id = ${match.canonicalSourceId},
+            duplicate_similarity = ${match.similarity},
+            extraction_status = 'duplicate',
+            updated_at = NOW()
+        WHERE id = ${sourceId}
+      `;
+    }
+  });
+
+  if (match) {
+    logger.info({ source_id: sourceId, ...match }, "Near-duplicate source detected");
+  }
+
+  return match;
+}
+
+async function findBestCandidate(
+  sourceId: number,
+  signature: number[],
+  buckets: number[]
+): Promise<NearDuplicateMatch | null> {
+  const bands = buckets.map((_, band) => band);
+
+  const candidates = await prisma.$queryRaw<Array<{
+    id: bigint;
+    canonical_source_id: bigint | null;
+    minhash_signature: Array<bigint | number>;
+  }>>`
+    SELECT DISTINCT s.id, s.canonical_source_id, s.minhash_signature
+    FROM source_lsh_buckets b
+    JOIN unnest(${bands}::smallint[], ${buckets}::bigint[]) AS q(band, bucket)
+      ON q.band = b.band AND q.bucket = b.bucket
+    JOIN sources s ON s.id = b.source_id
+    JOIN sources c ON c.id = COALESCE(s.canonical_source_id, s.id)
+    WHERE b.source_id <> ${sourceId}
+      AND s.minhash_signature IS NOT NULL
+      AND s.retrieved_at >= NOW() - make_interval(days => ${NEAR_DUP_WINDOW_DAYS})
+      AND c.extraction_status <> ALL(${UNEXTRACTED_STATUSES}::text[])
+  `;
+
+  let best: NearDuplicateMatch | null = null;
+  for (const candidate of candidates) {
+    const similarity = estimateJaccard(signature, candidate.minhash_signature.map(Number));
+    if (similarity < NEAR_DUP_THRESHOLD) continue;
+
+    if (
+      !best ||
+      similarity > best.similarity ||
+      (similarity === best.similarity && Number(candidate.id) < best.matchedSourceId)
+    ) {
+      best = {
+        // Chains collapse onto the first-seen source
+        canonicalSourceId: Number(candidate.canonical_source_id ?? candidate.id),
+        matchedSourceId: Number(candidate.id),
+        similarity: Math.round(similarity * 1000) / 1000,
+      };
+    }
+  }
+
+  return best;
+}
+
+// ============================================
+// Extraction Reuse
+// ============================================
+
+/**
+ * Attach a syndicated copy to the events already extracted from its canonical
+ * source. Returns the event ids; empty if the canonical is not extracted yet
+ * (the copy is attached later by attachSyndicatedCopies).
+ */
+export async function attachToCanonicalEvent(
+  sourceId: number,
+  canonicalSourceId: number
+): Promise<number[]> {
+  // A multi-event source is the primary source of every event it produced
+  const rows = await prisma.$queryRaw<Array<{ event_id: bigint }>>`
+    SELECT event_id FROM event_sources
+    WHERE source_id = ${canonicalSourceId} AND relation = 'primary'
+    ORDER BY event_id
+  `;
+  if (!rows.length) return [];
+
+  const eventIds = rows.map((r) => Number(r.event_id));
+  await linkSourcesToEvents(eventIds, [sourceId]);
+  return eventIds;
+}
+
+/**
+ * After a canonical source is extracted, attach every copy that was
+ * waiting on it to the same events.
+ */
+export async function attachSyndicatedCopies(canonicalSourceId: number, eventIds: number[]): Promise<number> {
+  if (!eventIds.length) return 0;
+
+  const rows = await prisma.$queryRaw<Array<{ id: bigint }>>`
+    SELECT id FROM sources
+    WHERE canonical_source_id = ${canonicalSourceId} AND extraction_status = 'duplicate'
+  `;
+  if (!rows.length) return 0;
+
+  const sourceIds = rows.map((r) => Number(r.id));
+  await linkSourcesToEvents(eventIds, sourceIds);
+
+  logger.info({ canonical_source_id: canonicalSourceId, event_ids: eventIds, count: sourceIds.length }, "Syndicated copies attached");
+  return sourceIds.length;
+}
+
+/**
+ * The canonical source ended without events (too short or a failed
+ * extraction), so its waiting copies have nothing to attach to. The
+ * earliest copy becomes the new canonical and goes back to pending; the
+ * others now wait on it. Returns the promoted source id for EXTRACT.
+ */
+export async function releaseSyndicatedCopies(canonicalSourceId: number): Promise<number | null> {
+  const promoted = await prisma.$transaction(async (tx: Prisma.TransactionClient) => {
+    const rows = await tx.$queryRaw<Array<{ id: bigint }>>`
+      SELECT id FROM sources
+      WHERE canonical_source_id = ${canonicalSourceId} AND extraction_status = 'duplicate'
+      ORDER BY id
+      FOR UPDATE
+    `;
+    if (!rows.length) return null;
+
+    const [next, ...rest] = rows.map((r) => Number(r.id));
+    await tx.$executeRaw`
+      UPDATE sources
+      SET canonical_source_id = NULL, duplicate_similarity = NULL, extraction_status = 'pending', updated_at = NOW()
+      WHERE id = ${next}
+    `;
+    if (rest.length) {
+      await tx.$executeRaw`
+        UPDATE sources SET canonical_source_id = ${next}, updated_at = NOW()
+        WHERE id = ANY(${rest}::bigint[])
+      `;
+    }
+    return next;
+  });
+
+  if (promoted !== null) {
+    logger.info({ canonical_source_id: canonicalSourceId, promoted_source_id: promoted }, "Syndicated copies released");
+  }
+  return promoted;
+}
+
+export async function getCanonicalSourceId(sourceId: number): Promise<number | null> {
+  const rows = await prisma.$queryRaw<Array<{ canonical_source_id: bigint | null }>>`
+    SELECT canonical_source_id FROM sources WHERE id = ${sourceId}
+  `;
+  const canonical = rows[0]?.canonical_source_id;
+  return canonical != null ? Number(canonical) : null;
+}
+
+async function linkSourcesToEvents(eventIds: number[], sourceIds: number[]): Promise<void> {
+  await prisma.$transaction(async (tx: Prisma.TransactionClient) => {
+    for (const eventId of eventIds) {
+      const inserted = await tx.$executeRaw`
+        INSERT INTO event_sources (event_id, source_id, relation, weight)
+        SELECT ${eventId}, unnest(${sourceIds}::bigint[]), 'supporting', 0.5
+        ON CONFLICT (event_id, source_id) DO NOTHING
+      `;
+
+      if (inserted > 0) {
+        await tx.$executeRaw`
+          UPDATE events
+          SET source_count = COALESCE(source_count, 1) + ${inserted}, updated_at = NOW()
+          WHERE id = ${eventId}
+        `;
+      }
+    }
+
+    await tx.$executeRaw`
+      UPDATE sources
+      SET extraction_status = 'extracted', updated_at = NOW()
+      WHERE id = ANY(${sourceIds}::bigint[])
+    `;
+  });
+}
+
+// ============================================
+// Hash Helpers
+// ============================================
+
+function fnv1a(input: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < input.length; i++) {
+    hash ^= input.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+// MurmurHash3 finalizer: cheap, well-mixed 32-bit permutation
+function fmix32(h: number): number {
+  h ^= h >>> 16;
+  h = Math.imul(h, 0x85ebca6b);
+  h ^= h >>> 13;
+  h = Math.imul(h, 0xc2b2ae35);
+  h ^= h >>> 16;
+  return h >>> 0;
+}
+
+function buildSeeds(count: number, start: number): number[] {
+  const seeds: number[] = [];
+  let x = start;
+  for (let i = 0; i < count; i++) {
+    x = (Math.imul(x, 1664525) + 1013904223) >>> 0;
+    seeds.push(x);
+  }
+  return seeds;
+}
@@ -0,0 +1,145 @@
+// packages/api/src/services/ingest/robotsTxt.ts
+//
+// Minimal robots.txt support for article fetching:
+// - Fetches and caches robots.txt per origin
+// - Evaluates Allow/Disallow with longest-match precedence (RFC 9309)
+// - Exposes Crawl-delay so the rate limiter can honour it
+
+import { logger } from "../../utils/logger";
+
+interface RobotsRule {
+  allow: boolean;
+  pattern: string;
+}
+
+export interface RobotsPolicy {
+  rules: RobotsRule[];
+  crawlDelayMs: number | null;
+}
+
+const ROBOTS_CACHE_TTL_MS = 6 * 60 * 60 * 1000; // 6 hours
+const ROBOTS_TIMEOUT_MS = 5_000;
+
+const ALLOW_ALL: RobotsPolicy = { rules: [], crawlDelayMs: null };
+
+export class RobotsTxtCache {
+  private cache = new Map<string, { policy: RobotsPolicy; expiresAt: number }>();
+
+  constructor(private readonly userAgent: string) {}
+
+  /**
+   * Resolve the policy that applies to our user agent for a URL's origin
+   */
+  async getPolicy(url: string): Promise<RobotsPolicy> {
+    const origin = new URL(url).origin;
+    const cached = this.cache.get(origin);
+    if (cached && cached.expiresAt > Date.now()) return cached.policy;
+
+    const policy = await this.fetchPolicy(origin);
+    this.cache.set(origin, { policy, expiresAt: Date.now() + ROBOTS_CACHE_TTL_MS });
+    return policy;
+  }
+
+  async isAllowed(url: string): Promise<boolean> {
+    const policy = await this.getPolicy(url);
+    const { pathname, search } = new URL(url);
+    return isPathAllowed(policy, pathname + search);
+  }
+
+  private async fetchPolicy(origin: string): Promise<RobotsPolicy> {
+    try {
+      const response = await fetch(`${origin}/robots.txt`, {
+        headers: { "User-Agent": this.userAgent },
+        signal: AbortSignal.timeout(ROBOTS_TIMEOUT_MS),
+      });
+
+      // 4xx means "no restrictions"; 5xx means "assume full disallow" per RFC 9309
+      if (response.status >= 500) {
+        return { rules: [{ allow: false, pattern: "/" }], crawlDelayMs: null };
+      }
+      if (!response.ok) return ALLOW_ALL;
+
+      return parseRobotsTxt(await response.text(), this.userAgent);
+    } catch (err) {
+      logger.debug({ origin, error: (err as Error).message }, "robots.txt unavailable; allowing");
+      return ALLOW_ALL;
+    }
+  }
+}
+
+/**
+ * Parse robots.txt and keep only the group that matches our user agent
+ * (falling back to the "*" group).
+ */
+export function parseRobotsTxt(body: string, userAgent: string): RobotsPolicy {
+  const agentToken = userAgent.split("/")[0].toLowerCase();
+  const groups: Array<{ agents: string[]; rules: RobotsRule[]; crawlDelayMs: number | null }> = [];
+  let current: (typeof groups)[number] | null = null;
+  let lastWasAgent = false;
+
+  for (const rawLine of body.split(/\r?\n/)) {
+    const line = rawLine.replace(/#.*$/, "").trim();
+    if (!line) continue;
+
+    const idx = line.indexOf(":");
+    if (idx === -1) continue;
+    const field = line.slice(0, idx).trim().toLowerCase();
+    const value = line.slice(idx + 1).trim();
+
+    if (field === "user-agent") {
+      // Consecutive user-agent lines share one group
+      if (!current || !lastWasAgent) {
+        current = { agents: [], rules: [], crawlDelayMs: null };
+        groups.push(current);
+      }
+      current.agents.push(value.toLowerCase());
+      lastWasAgent = true;
+      continue;
+    }
+
+    lastWasAgent = false;
+    if (!current) continue;
+
+    if (field === "allow" || field === "disallow") {
+      // An empty Disallow means "allow everything"
+      if (value) current.rules.push({ allow: field === "allow", pattern: value });
+    } else if (field === "crawl-delay") {
+      const seconds = Number(value);
+      if (Number.isFinite(seconds) && seconds >= 0) current.crawlDelayMs = seconds * 1000;
+    }
+  }
+
+  const specific = groups.find((g) => g.agents.some((a) => a !== "*" && agentToken.includes(a)));
+  const wildcard = groups.find((g) => g.agents.includes("*"));
+  const group = specific ?? wildcard;
+
+  return group ? { rules: group.rules, crawlDelayMs: group.crawlDelayMs } : ALLOW_ALL;
+}
+
+export function isPathAllowed(policy: RobotsPolicy, path: string): boolean {
+  let best: RobotsRule | null = null;
+
+  for (const rule of policy.rules) {
+    if (!matchesPattern(rule.pattern, path)) continue;
+    // Longest pattern wins; Allow wins ties
+    if (
+      !best ||
+      rule.pattern.length > best.pattern.length ||
+      (rule.pattern.length === best.pattern.length && rule.allow)
+    ) {
+      best = rule;
+    }
+  }
+
+  return best ? best.allow : true;
+}
+
+function matchesPattern(pattern: string, path: string): boolean {
+  const anchored = pattern.endsWith("$");
+  const body = anchored ? pattern.slice(0, -1) : pattern;
+  const regex = body
+    .split("*")
+    .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, "\\$&"))
+    .join(".*");
+  return new RegExp(`^${regex}${anchored ? "$" : ""}`).test(path);
+}
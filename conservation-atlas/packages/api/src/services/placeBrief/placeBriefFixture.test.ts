@@ -0,0 +1,205 @@
+// packages/api/src/services/placeBrief/placeBriefFixture.test.ts
+//
+// Place brief regression check against a tiny WDPA fixture, run on a real
+// PostGIS database (CI applies protected_areas.sql and schema.sql; skipped
+// without DATABASE_URL). Loads gold/place-brief/wdpa_fixture.geojson (WDPA
+// field names, as exported by Protected Planet) into protected_areas,
+// inserts the events from cases.json, runs GEO_JOIN on each event and then
+// getPlaceBrief for each click, and compares protected areas, events and
+// protected-area context with the expectations. Fixture rows are deleted
+// afterwards, pass or fail.
+
+import { readFileSync } from "node:fs";
+import { join } from "node:path";
+
+import { prisma } from "../../db";
+import { joinProtectedAreas } from "../geo/protectedAreaJoin";
+import { getPlaceBrief } from "./placeBriefService";
+
+type FixtureEvent = {
+  key: string;
+  title: string;
+  event_type_primary: string;
+  severity_level: number;
+  point: [number, number];
+  footprint: object | null;
+  expect_join: {
+    is_inside: boolean;
+    nearest_wdpa_id: number | null;
+    distance_km: number | null;
+    overlaps: Array<{ wdpa_id: number; relation: "inside" | "overlaps"; overlap_fraction: number }>;
+  };
+};
+
+type FixtureBrief = {
+  id: string;
+  lat: number;
+  lng: number;
+  radius_km: number;
+  expect: {
+    contains_wdpa_ids: number[];
+    nearby_wdpa_ids: number[];
+    event_keys: string[];
+    event_context: Record<string, { relation: "inside" | "near"; name: string }>;
+  };
+};
+
+type Cases = {
+  release: string;
+  events: FixtureEvent[];
+  briefs: FixtureBrief[];
+};
+
+type WdpaFeature = {
+  properties: {
+    WDPAID: number;
+    WDPA_PID: string;
+    NAME: string;
+    DESIG: string | null;
+    DESIG_TYPE: string | null;
+    IUCN_CAT: string | null;
+    STATUS: string | null;
+    STATUS_YR: number | null;
+    ISO3: string | null;
+    MARINE: string | null;
+    REP_AREA: number | null;
+    GIS_AREA: number | null;
+  };
+  geometry: object;
+};
+
+const FIXTURE_DIR = join(__dirname, "../../../gold/place-brief");
+const CASES: Cases = JSON.parse(readFileSync(join(FIXTURE_DIR, "cases.json"), "utf8"));
+
+// Geodesic distances and areas differ slightly between PostGIS and the
+// hand-computed expectations
+const DISTANCE_TOLERANCE_KM = 1;
+const FRACTION_TOLERANCE = 0.01;
+
+// Fixture events are created now, so any window includes them
+const TIME_WINDOW_DAYS = 30;
+
+const describeWithDb = process.env.DATABASE_URL ? describe : describe.skip;
+
+// ============================================
+// Fixture Loading
+// ============================================
+
+async function loadWdpaFixture(release: string): Promise<void> {
+  const collection: { features: WdpaFeature[] } = JSON.parse(readFileSync(join(FIXTURE_DIR, "wdpa_fixture.geojson"), "utf8"));
+
+  for (const { properties: p, geometry } of collection.features) {
+    await prisma.$executeRaw`
+      INSERT INTO protected_areas (
+        wdpa_id, wdpa_pid, name, designation, designation_type, iucn_category, status, status_year,
+        iso3, marine, reported_area_km2, gis_area_km2, wdpa_release, source, geom, centroid
+      )
+      SELECT
+        ${p.WDPAID}::bigint, ${p.WDPA_PID}, ${p.NAME}, ${p.DESIG}, ${p.DESIG_TYPE}, ${p.IUCN_CAT}, ${p.STATUS}, ${p.STATUS_YR}::int,
+        ${p.ISO3}, ${p.MARINE}, ${p.REP_AREA}::double precision, ${p.GIS_AREA}::double precision, ${release}, 'wdpa',
+        g.geom, ST_Centroid(g.geom)
+      FROM (SELECT ST_SetSRID(ST_GeomFromGeoJSON(${JSON.stringify(geometry)}), 4326) AS geom) g
+    `;
+  }
+}
+
+async function insertEvent(event: FixtureEvent): Promise<string> {
+  const footprint = event.footprint ? JSON.stringify(event.footprint) : null;
+  // ST_GeomFromGeoJSON(NULL) is NULL, so point-only events get no footprint
+  const [row] = await prisma.$queryRaw<Array<{ id: string }>>`
+    INSERT INTO events (title, event_type_primary, severity_level, summary_short, country, geom_point, geom_footprint)
+    VALUES (
+      ${event.title}, ${event.event_type_primary}, ${event.severity_level}, ${event.title}, 'Kenya',
+      ST_SetSRID(ST_MakePoint(${event.point[0]}, ${event.point[1]}), 4326),
+      ST_SetSRID(ST_GeomFromGeoJSON(${footprint}::text), 4326)
+    )
+    RETURNING id::text AS id
+  `;
+  return row.id;
+}
+
+async function cleanup(release: string, eventIds: string[]): Promise<void> {
+  await prisma.$executeRaw`DELETE FROM events WHERE id = ANY(${eventIds}::bigint[])`;
+  await prisma.$executeRaw`DELETE FROM protected_areas WHERE wdpa_release = ${release}`;
+}
+
+function wdpaIdsOf(areas: Array<{ external_id: string | null }>): number[] {
+  return areas.map((a) => Number(a.external_id?.replace("WDPA:", ""))).sort((x, y) => x - y);
+}
+
+// ============================================
+// Checks
+// ============================================
+
+describeWithDb("place brief WDPA fixture", () => {
+  const eventIds = new Map<string, string>();
+  const wdpaIdsById = new Map<string, number>();
+
+  beforeAll(async () => {
+    const [{ other }] = await prisma.$queryRaw<Array<{ other: bigint }>>`
+      SELECT COUNT(*) AS other FROM protected_areas WHERE wdpa_release <> ${CASES.release}
+    `;
+    if (Number(other) > 0) {
+      throw new Error("protected_areas holds another WDPA release; run against a scratch database");
+    }
+
+    await cleanup(CASES.release, []);
+    await loadWdpaFixture(CASES.release);
+
+    const areas = await prisma.$queryRaw<Array<{ id: string; wdpa_id: bigint }>>`
+      SELECT id::text AS id, wdpa_id FROM protected_areas WHERE wdpa_release = ${CASES.release}
+    `;
+    for (const area of areas) wdpaIdsById.set(area.id, Number(area.wdpa_id));
+
+    for (const event of CASES.events) {
+      eventIds.set(event.key, await insertEvent(event));
+    }
+  });
+
+  afterAll(async () => {
+    await cleanup(CASES.release, [...eventIds.values()]);
+    await prisma.$disconnect();
+  });
+
+  it.each(CASES.events.map((event) => [event.key, event] as const))("joins %s to the fixture areas", async (key, event) => {
+    const expected = event.expect_join;
+
+    const joined = await joinProtectedAreas(eventIds.get(key)!);
+
+    expect(joined.isInside).toBe(expected.is_inside);
+    expect(joined.nearestProtectedAreaId ? wdpaIdsById.get(joined.nearestProtectedAreaId) : null).toBe(expected.nearest_wdpa_id);
+    if (expected.distance_km === null) {
+      expect(joined.distanceKm).toBeNull();
+    } else {
+      expect(joined.distanceKm).not.toBeNull();
+      expect(Math.abs(joined.distanceKm! - expected.distance_km)).toBeLessThanOrEqual(DISTANCE_TOLERANCE_KM);
+    }
+
+    expect(joined.overlaps).toHaveLength(expected.overlaps.length);
+    for (const overlap of expected.overlaps) {
+      const actual = joined.overlaps.find((o) => o.wdpaId === overlap.wdpa_id);
+      expect(actual?.relation).toBe(overlap.relation);
+      expect(Math.abs(actual!.overlapFraction - overlap.overlap_fraction)).toBeLessThanOrEqual(FRACTION_TOLERANCE);
+    }
+  });
+
+  it.each(CASES.briefs.map((brief) => [brief.id, brief] as const))("builds the %s brief", async (_id, brief) => {
+    // Runs after the join checks above, which write the context the brief reads
+    const expected = brief.expect;
+
+    const response = await getPlaceBrief({ lat: brief.lat, lng: brief.lng, radiusKm: brief.radius_km, timeWindowDays: TIME_WINDOW_DAYS });
+
+    expect(wdpaIdsOf(response.protected_areas.contains_point)).toEqual([...expected.contains_wdpa_ids].sort((x, y) => x - y));
+    expect(wdpaIdsOf(response.protected_areas.nearby)).toEqual([...expected.nearby_wdpa_ids].sort((x, y) => x - y));
+
+    // Only the fixture's events count; the database may hold others
+    const keysById = new Map([...eventIds].map(([key, id]) => [id, key]));
+    const items = response.events.items.filter((e) => keysById.has(String(e.event_id)));
+    expect(items.map((e) => keysById.get(String(e.event_id))).sort()).toEqual([...expected.event_keys].sort());
+
+    for (const [key, context] of Object.entries(expected.event_context)) {
+      const item = items.find((e) => keysById.get(String(e.event_id)) === key);
+      expect(item?.protected_area_context[0]).toMatchObject(context);
+    }
+  });
+});
@@ -14,7 +14,7 @@ import type {
   ProtectedAreasResult,
   EventBrief,
   OrganizationBrief,
-} from '@conservation-atlas/shared/types/placeBrief';
+} from '@conservation-atlas/shared/types/placeBrief.types';
 
 // ============================================
 // Configuration
@@ -170,6 +170,7 @@ async function getEventsNearPoint(
         e.location_name,
         ST_X(e.geom_point) as lng,
         ST_Y(e.geom_point) as lat,
+        ST_AsGeoJSON(e.geom_footprint)::jsonb as footprint,
         e.event_start,
         e.event_end,
         e.is_ongoing,
@@ -178,15 +179,15 @@ async function getEventsNearPoint(
         e.is_inside_protected_area,
         e.distance_to_protected_km,
         ST_Distance(
-          e.geom_point::geography,
+          e.geom_extent::geography,
           ST_SetSRID(ST_MakePoint(${lng}, ${lat}), 4326)::geography
         ) / 1000.0 as distance_km
       FROM events e
       WHERE e.status = 'active'
-        AND e.geom_point IS NOT NULL
+        AND e.geom_extent IS NOT NULL
         AND e.created_at >= ${timeWindowStart}
         AND ST_DWithin(
-          e.geom_point::geography,
+          e.geom_extent::geography,
           ST_SetSRID(ST_MakePoint(${lng}, ${lat}), 4326)::geography,
           ${radiusMeters}
         )
@@ -239,6 +240,7 @@ async function getEventsNearPoint(
     location: {
       name: e.location_name || 'Unknown location',
       coordinates: e.lat && e.lng ? { lat: parseFloat(e.lat), lng: parseFloat(e.lng) } : null,
+      footprint: e.footprint ?? null,
       geocoding_precision: 'approximate',
       distance_km: parseFloat(e.distance_km) || 0,
     },
@@ -290,16 +292,15 @@ async function getProtectedAreasNearPoint(
       name,
       designation,
       iucn_category,
-      country,
+      iso3 as country,
       wdpa_id,
-      area_km2,
-      ST_Y(geom_centroid) as centroid_lat,
-      ST_X(geom_centroid) as centroid_lng,
+      COALESCE(gis_area_km2, reported_area_km2) as area_km2,
+      ST_Y(centroid) as centroid_lat,
+      ST_X(centroid) as centroid_lng,
       0 as distance_km
     FROM protected_areas
-    WHERE geom_boundary IS NOT NULL
-      AND ST_Contains(
-        geom_boundary,
+    WHERE ST_Contains(
+        geom,
         ST_SetSRID(ST_MakePoint(${lng}, ${lat}), 4326)
       )
     LIMIT 5
@@ -312,23 +313,22 @@ async function getProtectedAreasNearPoint(
       name,
       designation,
       iucn_category,
-      country,
+      iso3 as country,
       wdpa_id,
-      area_km2,
-      ST_Y(geom_centroid) as centroid_lat,
-      ST_X(geom_centroid) as centroid_lng,
+      COALESCE(gis_area_km2, reported_area_km2) as area_km2,
+      ST_Y(centroid) as centroid_lat,
+      ST_X(centroid) as centroid_lng,
       ST_Distance(
-        COALESCE(geom_boundary, geom_centroid)::geography,
+        geom::geography,
         ST_SetSRID(ST_MakePoint(${lng}, ${lat}), 4326)::geography
       ) / 1000.0 as distance_km
     FROM protected_areas
-    WHERE (geom_boundary IS NOT NULL OR geom_centroid IS NOT NULL)
-      AND NOT ST_Contains(
-        COALESCE(geom_boundary, ST_Buffer(geom_centroid, 0.001)),
+    WHERE NOT ST_Contains(
+        geom,
         ST_SetSRID(ST_MakePoint(${lng}, ${lat}), 4326)
       )
       AND ST_DWithin(
-        COALESCE(geom_boundary, geom_centroid)::geography,
+        geom::geography,
         ST_SetSRID(ST_MakePoint(${lng}, ${lat}), 4326)::geography,
         ${radiusMeters}
       )
@@ -512,10 +512,10 @@ async function getCoverageStats(
     LEFT JOIN event_sources es ON e.id = es.event_id
     LEFT JOIN sources s ON es.source_id = s.id
     WHERE e.status = 'active'
-      AND e.geom_point IS NOT NULL
+      AND e.geom_extent IS NOT NULL
       AND e.created_at >= ${timeWindowStart}
       AND ST_DWithin(
-        e.geom_point::geography,
+        e.geom_extent::geography,
         ST_SetSRID(ST_MakePoint(${lng}, ${lat}), 4326)::geography,
         ${radiusMeters}
       )
@@ -67,6 +67,7 @@ export const ROUTE_BY_JOBTYPE: Record<JobType, QueueName> = {
   INGEST: "q_ingest",
   EXTRACT: "q_extract",
   CLUSTER: "q_cluster",
+  THREAD: "q_cluster", // same worker pool as clustering
   GEO_JOIN: "q_geojoin",
   ALERTS: "q_alerts",
   VIDEO_BRIEF: "q_video",
@@ -171,7 +172,7 @@ export async function receiveMessages(
       WaitTimeSeconds: waitSeconds,
       VisibilityTimeout: visibilityTimeoutSeconds,
       MessageAttributeNames: ["All"],
-      AttributeNames: ["ApproximateReceiveCount"],
+      MessageSystemAttributeNames: ["ApproximateReceiveCount"],
     })
   );
 
@@ -0,0 +1,157 @@
+// packages/api/src/services/threads/threadLinker.test.ts
+
+import { classifyLink, proposeThreadLink, scoreLink } from "./threadLinker";
+
+type Statement = { sql: string; values: unknown[] };
+
+const mockDb = {
+  events: [] as Array<Record<string, unknown>>,
+  statements: [] as Statement[],
+};
+
+jest.mock("../../db", () => {
+  const tx = {
+    $queryRaw: jest.fn(async (strings: TemplateStringsArray, ...values: unknown[]) => {
+      const sql = strings.join("?");
+      mockDb.statements.push({ sql, values });
+      if (sql.includes("INSERT INTO event_threads")) return [{ id: "900" }];
+      return [];
+    }),
+    $executeRaw: jest.fn(async (strings: TemplateStringsArray, ...values: unknown[]) => {
+      mockDb.statements.push({ sql: strings.join("?"), values });
+      return 1;
+    }),
+  };
+  return {
+    prisma: {
+      ...tx,
+      $transaction: jest.fn(async (fn: (client: typeof tx) => Promise<unknown>) => fn(tx)),
+      event: {
+        findUnique: jest.fn(async ({ where }: { where: { id: string } }) => mockDb.events.find((e) => e.id === where.id) ?? null),
+        findMany: jest.fn(async ({ where }: { where: { id: { not: string } } }) =>
+          mockDb.events.filter((e) => e.id !== where.id.not)
+        ),
+      },
+    },
+  };
+});
+
+const { prisma } = jest.requireMock("../../db");
+
+function threadable(overrides: Record<string, any> = {}) {
+  return {
+    id: "1",
+    title: "Drought hits the Sahel",
+    eventTypePrimary: "climate_impact",
+    severityLevel: 3,
+    country: "Niger",
+    admin1: "Tillabéri",
+    latitude: 14.2,
+    longitude: 1.45,
+    isOngoing: true,
+    when: new Date("2026-06-01T00:00:00Z"),
+    mergedIntoId: null,
+    ...overrides,
+  };
+}
+
+function eventRow(overrides: Record<string, unknown> = {}): Record<string, unknown> {
+  return {
+    id: "1",
+    title: "Oil spill reaches the Gulf of Guinea coast",
+    eventTypePrimary: "oil_spill",
+    severityLevel: 3,
+    country: "Ghana",
+    admin1: "Western",
+    latitude: 0,
+    longitude: 0.5,
+    isOngoing: true,
+    startDate: new Date("2026-06-01T00:00:00Z"),
+    createdAt: new Date("2026-06-02T00:00:00Z"),
+    mergedIntoId: null,
+    ...overrides,
+  };
+}
+
+beforeEach(() => {
+  mockDb.events = [];
+  mockDb.statements = [];
+  prisma.event.findMany.mockClear();
+});
+
+describe("scoreLink", () => {
+  it("scores nearby events of the same type higher the closer they are in time", () => {
+    const from = threadable();
+    const soon = scoreLink(from, threadable({ id: "2", when: new Date("2026-06-10T00:00:00Z") }))!;
+    const later = scoreLink(from, threadable({ id: "3", when: new Date("2026-10-01T00:00:00Z") }))!;
+
+    expect(soon.geo).toBe(1);
+    expect(soon.type).toBe(1);
+    expect(soon.score).toBeGreaterThan(later.score);
+  });
+
+  it("never links backwards in time", () => {
+    expect(scoreLink(threadable(), threadable({ id: "2", when: new Date("2026-05-01T00:00:00Z") }))).toBeNull();
+  });
+
+  it("lets a policy response follow an incident of another type", () => {
+    const score = scoreLink(
+      threadable({ eventTypePrimary: "deforestation" }),
+      threadable({ id: "2", eventTypePrimary: "policy_change", when: new Date("2026-07-01T00:00:00Z") })
+    );
+
+    expect(score?.type).toBe(0.6);
+  });
+
+  it("falls back to the shared admin1 without coordinates", () => {
+    const score = scoreLink(
+      threadable({ latitude: null, longitude: null }),
+      threadable({ id: "2", latitude: null, longitude: null, when: new Date("2026-06-10T00:00:00Z") })
+    );
+
+    expect(score).toMatchObject({ geo: 0.7, distanceKm: null });
+  });
+});
+
+describe("classifyLink", () => {
+  it("calls a worse follow-up an escalation", () => {
+    expect(classifyLink(threadable(), threadable({ severityLevel: 4 }))).toBe("escalation");
+  });
+
+  it("calls a conservation win after an incident a resolution", () => {
+    expect(classifyLink(threadable(), threadable({ eventTypePrimary: "conservation_win" }))).toBe("resolution");
+  });
+});
+
+describe("proposeThreadLink", () => {
+  it("keeps coordinates on the equator and prime meridian", async () => {
+    mockDb.events = [
+      eventRow({ id: "1", longitude: 0 }),
+      eventRow({ id: "2", startDate: new Date("2026-06-20T00:00:00Z"), createdAt: new Date("2026-06-20T00:00:00Z") }),
+    ];
+
+    const proposal = await proposeThreadLink("2");
+
+    expect(proposal).toMatchObject({ fromEventId: "1", threadId: "900", linkType: "follow_up" });
+    expect(proposal.score?.distanceKm).toBeCloseTo(55.6, 0);
+  });
+
+  it("windows candidates on the start date, or the creation date when the start is unknown", async () => {
+    mockDb.events = [eventRow({ id: "2", startDate: null, createdAt: new Date("2026-06-20T00:00:00Z") })];
+
+    await proposeThreadLink("2");
+
+    const [{ where }] = prisma.event.findMany.mock.calls[0];
+    const window = { gte: new Date("2025-12-22T00:00:00Z"), lte: new Date("2026-06-21T00:00:00Z") };
+    expect(where.createdAt).toBeUndefined();
+    expect(where.AND[1]).toEqual({ OR: [{ startDate: window }, { startDate: null, createdAt: window }] });
+  });
+
+  it("skips events that already have a parent link", async () => {
+    mockDb.events = [eventRow({ id: "2" })];
+    prisma.$queryRaw.mockImplementationOnce(async () => [{ id: "55" }]);
+
+    await expect(proposeThreadLink("2")).resolves.toMatchObject({ skipped: "already_linked", threadId: null });
+    expect(prisma.event.findMany).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,311 @@
+// packages/api/src/services/threads/threadLinker.ts
+//
+// Event storylines. Clustering merges reports of the same incident within
+// 72h; threads link *different* events that belong to one story over
+// months (a drought, an outbreak's spread, the policy response). For each
+// event the linker proposes one typed link to the best earlier event by
+// geo/time/type proximity, and files both into that event's thread.
+// Links start as 'proposed' for analysts to confirm or reject.
+
+import type { Event, Prisma } from "@prisma/client";
+
+import { prisma } from "../../db";
+import { logger } from "../../utils/logger";
+import { distanceKm } from "../../utils/geoValidation";
+import { compatibleTypes, typeCompatibility } from "../deduplication/typeCompatibility";
+
+// ============================================
+// Configuration
+// ============================================
+export const THREAD_ALGORITHM_VERSION = "threading-v1";
+
+export const THREAD_CONFIG = {
+  // How far back a storyline can reach
+  WINDOW_DAYS: Number(process.env.THREAD_WINDOW_DAYS ?? 180),
+
+  // Events further apart than this are never linked
+  MAX_DISTANCE_KM: Number(process.env.THREAD_MAX_DISTANCE_KM ?? 250),
+
+  // Minimum weighted score to propose a link
+  MIN_LINK_SCORE: 0.55,
+
+  // Candidates considered per event
+  MAX_CANDIDATES: 100,
+};
+
+const LINK_WEIGHTS = { geo: 0.4, type: 0.3, time: 0.3 };
+
+// Types that are a reaction to an incident rather than an incident
+const RESPONSE_TYPES = new Set(["policy_change", "restoration"]);
+const POSITIVE_TYPES = new Set(["policy_change", "restoration", "conservation_win", "species_discovery"]);
+
+// Type score when a response follows an incident of another type
+const RESPONSE_TYPE_SCORE = 0.6;
+
+// ============================================
+// Types
+// ============================================
+export type ThreadLinkType = "follow_up" | "escalation" | "resolution" | "response";
+
+export interface LinkScore {
+  score: number;
+  geo: number;
+  type: number;
+  time: number;
+  distanceKm: number | null;
+  daysApart: number;
+}
+
+export interface ThreadLinkProposal {
+  eventId: string;
+  /** null when no earlier event scored high enough, or the event is already linked */
+  fromEventId: string | null;
+  threadId: string | null;
+  linkType: ThreadLinkType | null;
+  score: LinkScore | null;
+  /** Why nothing was linked */
+  skipped?: "already_linked" | "no_candidate" | "other_thread" | "merged";
+}
+
+interface ThreadableEvent {
+  id: string;
+  title: string;
+  eventTypePrimary: string;
+  severityLevel: number;
+  country: string;
+  admin1: string | null;
+  latitude: number | null;
+  longitude: number | null;
+  isOngoing: boolean;
+  /** startDate, or createdAt when the start is unknown */
+  when: Date;
+  mergedIntoId: string | null;
+}
+
+// ============================================
+// Main Entry
+// ============================================
+
+/**
+ * Propose (and file) the storyline link for one event
+ */
+export async function proposeThreadLink(eventId: string): Promise<ThreadLinkProposal> {
+  const none = { eventId, fromEventId: null, threadId: null, linkType: null, score: null };
+
+  const event = await loadThreadableEvent(eventId);
+  if (!event) throw new Error(`Event not found: ${eventId}`);
+  if (event.mergedIntoId) return { ...none, skipped: "merged" };
+
+  // One parent link per event; rejected links are not re-proposed
+  const [existing] = await prisma.$queryRaw<Array<{ id: string }>>`
+    SELECT id::text FROM event_thread_links WHERE to_event_id = ${eventId}::bigint LIMIT 1
+  `;
+  if (existing) return { ...none, skipped: "already_linked" };
+
+  const candidates = await findEarlierCandidates(event);
+  const best = candidates
+    .map((candidate) => ({ candidate, score: scoreLink(candidate, event) }))
+    .filter((c): c is { candidate: ThreadableEvent; score: LinkScore } => c.score !== null && c.score.score >= THREAD_CONFIG.MIN_LINK_SCORE)
+    .sort((a, b) => b.score.score - a.score.score)[0];
+
+  if (!best) return { ...none, skipped: "no_candidate" };
+
+  const linkType = classifyLink(best.candidate, event);
+  const threadId = await fileLink(best.candidate, event, linkType, best.score);
+
+  if (!threadId) {
+    return { ...none, fromEventId: best.candidate.id, linkType, score: best.score, skipped: "other_thread" };
+  }
+
+  logger.info({
+    eventId,
+    fromEventId: best.candidate.id,
+    threadId,
+    linkType,
+    score: best.score.score,
+  }, "Thread link proposed");
+
+  return { eventId, fromEventId: best.candidate.id, threadId, linkType, score: best.score };
+}
+
+// ============================================
+// Scoring
+// ============================================
+
+/**
+ * Score a link from an earlier event to a later one (null when they can
+ * never be linked: wrong order, unrelated types or too far apart)
+ */
+export function scoreLink(from: ThreadableEvent, to: ThreadableEvent): LinkScore | null {
+  const daysApart = (to.when.getTime() - from.when.getTime()) / (1000 * 60 * 60 * 24);
+  if (daysApart < 0 || daysApart > THREAD_CONFIG.WINDOW_DAYS) return null;
+
+  const type = linkTypeScore(from.eventTypePrimary, to.eventTypePrimary);
+  if (type === 0) return null;
+
+  let geo = 0;
+  let distance: number | null = null;
+  if (from.latitude !== null && from.longitude !== null && to.latitude !== null && to.longitude !== null) {
+    distance = distanceKm([from.longitude, from.latitude], [to.longitude, to.latitude]);
+    geo = Math.max(0, 1 - distance / THREAD_CONFIG.MAX_DISTANCE_KM);
+  } else if (from.admin1 && from.admin1 === to.admin1 && from.country === to.country) {
+    geo = 0.7;
+  } else if (from.country === to.country) {
+    geo = 0.4;
+  }
+  if (geo === 0) return null;
+
+  const time = Math.max(0, 1 - daysApart / THREAD_CONFIG.WINDOW_DAYS);
+  const score = geo * LINK_WEIGHTS.geo + type * LINK_WEIGHTS.type + time * LINK_WEIGHTS.time;
+
+  return { score, geo, type, time, distanceKm: distance, daysApart };
+}
+
+function linkTypeScore(fromType: string, toType: string): number {
+  const compatibility = typeCompatibility(fromType, toType);
+  if (compatibility > 0) return compatibility;
+  if (RESPONSE_TYPES.has(toType) && !POSITIVE_TYPES.has(fromType)) return RESPONSE_TYPE_SCORE;
+  return 0;
+}
+
+/**
+ * What the later event is to the earlier one
+ */
+export function classifyLink(from: ThreadableEvent, to: ThreadableEvent): ThreadLinkType {
+  if (RESPONSE_TYPES.has(to.eventTypePrimary) && !POSITIVE_TYPES.has(from.eventTypePrimary)) {
+    return "response";
+  }
+  if (to.eventTypePrimary === "conservation_win" && from.eventTypePrimary !== "conservation_win") {
+    return "resolution";
+  }
+  if (from.isOngoing && !to.isOngoing && to.severityLevel <= from.severityLevel) {
+    return "resolution";
+  }
+  if (to.severityLevel > from.severityLevel) {
+    return "escalation";
+  }
+  return "follow_up";
+}
+
+// ============================================
+// Database Helpers
+// ============================================
+
+async function findEarlierCandidates(event: ThreadableEvent): Promise<ThreadableEvent[]> {
+  const since = new Date(event.when.getTime() - THREAD_CONFIG.WINDOW_DAYS * 24 * 60 * 60 * 1000);
+  // A response can follow any incident type, so only filter other types
+  const typeFilter = RESPONSE_TYPES.has(event.eventTypePrimary)
+    ? {}
+    : { eventTypePrimary: { in: compatibleTypes(event.eventTypePrimary) } };
+
+  // Same country, or within the distance box across borders
+  const near: Prisma.EventWhereInput[] = [{ country: event.country }];
+  if (event.latitude !== null && event.longitude !== null) {
+    const dLat = THREAD_CONFIG.MAX_DISTANCE_KM / 111;
+    const dLng = dLat / Math.max(0.1, Math.cos((event.latitude * Math.PI) / 180));
+    near.push({
+      latitude: { gte: event.latitude - dLat, lte: event.latitude + dLat },
+      longitude: { gte: event.longitude - dLng, lte: event.longitude + dLng },
+    });
+  }
+
+  // Window on COALESCE(start_date, created_at), the date scoreLink measures
+  const window = { gte: since, lte: new Date(event.when.getTime() + 24 * 60 * 60 * 1000) };
+
+  const rows = await prisma.event.findMany({
+    where: {
+      id: { not: event.id },
+      mergedIntoId: null,
+      ...typeFilter,
+      AND: [{ OR: near }, { OR: [{ startDate: window }, { startDate: null, createdAt: window }] }],
+    },
+    orderBy: [{ startDate: { sort: "desc", nulls: "last" } }, { createdAt: "desc" }],
+    take: THREAD_CONFIG.MAX_CANDIDATES,
+  });
+
+  return rows.map(mapToThreadableEvent);
+}
+
+/**
+ * Insert the link and thread membership. Returns the thread id, or null
+ * when the later event already belongs to a different thread (threads are
+ * never joined automatically).
+ */
+async function fileLink(
+  from: ThreadableEvent,
+  to: ThreadableEvent,
+  linkType: ThreadLinkType,
+  score: LinkScore
+): Promise<string | null> {
+  return prisma.$transaction(async (tx) => {
+    const memberships = await tx.$queryRaw<Array<{ event_id: string; thread_id: string }>>`
+      SELECT event_id::text, thread_id::text
+      FROM event_thread_members
+      WHERE event_id IN (${from.id}::bigint, ${to.id}::bigint)
+    `;
+    const threadOf = (id: string) => memberships.find((m: { event_id: string }) => m.event_id === id)?.thread_id ?? null;
+
+    let threadId = threadOf(from.id);
+    const toThread = threadOf(to.id);
+
+    if (toThread && threadId && toThread !== threadId) {
+      logger.info({ fromEventId: from.id, toEventId: to.id, threadId, toThread }, "Events already in different threads; not linking");
+      return null;
+    }
+
+    threadId = threadId ?? toThread;
+    if (!threadId) {
+      const [created] = await tx.$queryRaw<Array<{ id: string }>>`
+        INSERT INTO event_threads (title, started_at, last_event_at, event_count)
+        VALUES (${from.title}, ${from.when}, ${to.when}, 0)
+        RETURNING id::text
+      `;
+      threadId = created.id;
+    }
+
+    await tx.$executeRaw`
+      INSERT INTO event_thread_members (thread_id, event_id)
+      VALUES (${threadId}::bigint, ${from.id}::bigint), (${threadId}::bigint, ${to.id}::bigint)
+      ON CONFLICT DO NOTHING
+    `;
+
+    await tx.$executeRaw`
+      INSERT INTO event_thread_links (thread_id, from_event_id, to_event_id, link_type, score, score_breakdown, status, proposed_by)
+      VALUES (${threadId}::bigint, ${from.id}::bigint, ${to.id}::bigint, ${linkType}, ${score.score}, ${JSON.stringify(score)}::jsonb, 'proposed', ${THREAD_ALGORITHM_VERSION})
+      ON CONFLICT (from_event_id, to_event_id) DO NOTHING
+    `;
+
+    // Keep the thread's span and size current
+    await tx.$executeRaw`
+      UPDATE event_threads t
+      SET event_count = (SELECT COUNT(*) FROM event_thread_members m WHERE m.thread_id = t.id),
+          started_at = LEAST(COALESCE(t.started_at, ${from.when}), ${from.when}),
+          last_event_at = GREATEST(COALESCE(t.last_event_at, ${to.when}), ${to.when}),
+          updated_at = NOW()
+      WHERE t.id = ${threadId}::bigint
+    `;
+
+    return threadId;
+  });
+}
+
+async function loadThreadableEvent(eventId: string): Promise<ThreadableEvent | null> {
+  const event = await prisma.event.findUnique({ where: { id: eventId } });
+  return event ? mapToThreadableEvent(event) : null;
+}
+
+function mapToThreadableEvent(event: Event): ThreadableEvent {
+  return {
+    id: event.id,
+    title: event.title,
+    eventTypePrimary: event.eventTypePrimary,
+    severityLevel: event.severityLevel,
+    country: event.country,
+    admin1: event.admin1,
+    latitude: event.latitude !== null ? parseFloat(event.latitude.toString()) : null,
+    longitude: event.longitude !== null ? parseFloat(event.longitude.toString()) : null,
+    isOngoing: event.isOngoing ?? true,
+    when: event.startDate ?? event.createdAt,
+    mergedIntoId: event.mergedIntoId ?? null,
+  };
+}
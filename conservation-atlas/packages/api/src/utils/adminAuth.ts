@@ -0,0 +1,26 @@
+// packages/api/src/utils/adminAuth.ts
+//
+// Shared-secret guard for analyst/admin endpoints.
+// Requests must send `Authorization: Bearer <ADMIN_API_TOKEN>`; when the
+// token is not configured, admin endpoints are disabled.
+
+import { timingSafeEqual } from "node:crypto";
+import type { NextFunction, Request, Response } from "express";
+
+export function requireAdmin(req: Request, res: Response, next: NextFunction) {
+  const expected = process.env.ADMIN_API_TOKEN;
+  if (!expected) {
+    return res.status(503).json({ error: "Admin endpoints are disabled (ADMIN_API_TOKEN not set)" });
+  }
+
+  const header = req.headers.authorization ?? "";
+  const token = header.startsWith("Bearer ") ? header.slice(7) : "";
+
+  const a = Buffer.from(token);
+  const b = Buffer.from(expected);
+  if (a.length !== b.length || !timingSafeEqual(a, b)) {
+    return res.status(401).json({ error: "Unauthorized" });
+  }
+
+  return next();
+}
@@ -0,0 +1,71 @@
+// packages/api/src/utils/footprintValidation.test.ts
+
+import { footprintCentroid, reportedArea, validateFootprint, type ExtractedFootprint } from './footprintValidation';
+
+// ~0.1 x 0.1 degree square at the equator: ~12,300 ha
+function square(closed = true): ExtractedFootprint {
+  const ring: [number, number][] = [[38.6, -2.9], [38.7, -2.9], [38.7, -3.0], [38.6, -3.0]];
+  return { type: 'Polygon', coordinates: [closed ? [...ring, [38.6, -2.9]] : ring] };
+}
+
+describe('validateFootprint', () => {
+  it('accepts a polygon near the point with a consistent reported area', () => {
+    const result = validateFootprint({
+      location: { footprint: square(), geometry: { coordinates: [38.65, -2.95] } },
+      metrics: { area_affected_km2: 120 },
+    });
+
+    expect(result).toMatchObject({ valid: true, shouldDropFootprint: false, lengthKm: null, reportedAreaHectares: 12_000 });
+    expect(result.areaHectares).toBeGreaterThan(12_000);
+    expect(result.areaHectares).toBeLessThan(12_500);
+  });
+
+  it('closes an unclosed ring in place', () => {
+    const footprint = square(false);
+
+    const result = validateFootprint({ location: { footprint } });
+
+    expect(result.issues).toEqual(['Footprint ring was not closed (closed it)']);
+    expect(result.shouldDropFootprint).toBe(false);
+    expect((footprint as { coordinates: [number, number][][] }).coordinates[0]).toHaveLength(5);
+  });
+
+  it('drops a footprint far from the event point', () => {
+    const result = validateFootprint({ location: { footprint: square(), geometry: { coordinates: [36.8, -1.3] } } });
+
+    expect(result.shouldDropFootprint).toBe(true);
+  });
+
+  it('drops a polygon whose area contradicts the reported figure tenfold', () => {
+    const result = validateFootprint({ location: { footprint: square() }, metrics: { area_affected_hectares: 500 } });
+
+    expect(result.areaRatio).toBeGreaterThan(10);
+    expect(result.shouldDropFootprint).toBe(true);
+  });
+
+  it('measures lines by length', () => {
+    const result = validateFootprint({
+      location: { footprint: { type: 'LineString', coordinates: [[38.6, -2.9], [38.7, -2.9]] } },
+    });
+
+    expect(result.areaHectares).toBeNull();
+    expect(result.lengthKm).toBeCloseTo(11.1, 0);
+  });
+});
+
+describe('reportedArea', () => {
+  it('prefers hectares and converts square kilometres', () => {
+    expect(reportedArea({ area_affected_hectares: 50, area_affected_km2: 1 })).toBe(50);
+    expect(reportedArea({ area_affected_km2: 2 })).toBe(200);
+    expect(reportedArea(null)).toBeNull();
+  });
+});
+
+describe('footprintCentroid', () => {
+  it('averages ring vertices without the closing position', () => {
+    const [lng, lat] = footprintCentroid(square());
+
+    expect(lng).toBeCloseTo(38.65);
+    expect(lat).toBeCloseTo(-2.95);
+  });
+});
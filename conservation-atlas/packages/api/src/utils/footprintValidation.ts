@@ -0,0 +1,191 @@
+/**
+ * Footprint validation for extracted events
+ *
+ * An event may carry location.footprint: the area or line it covers
+ * (fire perimeter, oil slick, polluted river stretch). Checks:
+ * 1. Positions within valid ranges, polygon rings closed
+ * 2. Footprint near the event's point
+ * 3. Polygon area consistent with the reported area_affected_hectares
+ */
+
+import { distanceKm } from './geoValidation';
+
+export type ExtractedFootprint =
+  | { type: 'LineString'; coordinates: [number, number][] }
+  | { type: 'Polygon'; coordinates: [number, number][][] }
+  | { type: 'MultiPolygon'; coordinates: [number, number][][][] };
+
+export interface FootprintValidationResult {
+  valid: boolean;
+  issues: string[];
+  /** Footprint is unusable or contradicts the event; keep the point only */
+  shouldDropFootprint: boolean;
+  /** Polygons only */
+  areaHectares: number | null;
+  /** LineStrings only */
+  lengthKm: number | null;
+  reportedAreaHectares: number | null;
+  /** computed / reported area */
+  areaRatio: number | null;
+}
+
+// Computed vs reported area: flag beyond this factor, drop beyond the max
+// (perimeters are hand-drawn, reported figures are rounded)
+const AREA_RATIO_TOLERANCE = 3;
+const AREA_RATIO_MAX = 10;
+
+// A footprint further than this from the event's point describes something else
+const MAX_POINT_DISTANCE_KM = 50;
+
+const EARTH_RADIUS_M = 6378137;
+
+/**
+ * Validate an extracted event's footprint. Closes unclosed rings in place.
+ */
+export function validateFootprint(event: {
+  location: { footprint?: ExtractedFootprint | null; geometry?: { coordinates?: [number, number] } | null };
+  metrics?: { area_affected_hectares?: number | null; area_affected_km2?: number | null } | null;
+}): FootprintValidationResult {
+  const footprint = event.location.footprint!;
+  const issues: string[] = [];
+  let shouldDropFootprint = false;
+
+  // Check 1: Valid positions, closed rings
+  const positions = footprintPositions(footprint);
+  const outOfRange = positions.find(([lng, lat]) => lng < -180 || lng > 180 || lat < -90 || lat > 90);
+  if (outOfRange) {
+    issues.push(`Footprint position out of range (${outOfRange[0]}, ${outOfRange[1]})`);
+    shouldDropFootprint = true;
+  }
+
+  for (const ring of polygonRings(footprint)) {
+    const [first, last] = [ring[0], ring[ring.length - 1]];
+    if (first[0] !== last[0] || first[1] !== last[1]) {
+      ring.push([first[0], first[1]]);
+      issues.push('Footprint ring was not closed (closed it)');
+    }
+  }
+
+  const areaHectares = footprint.type === 'LineString' ? null : polygonAreaM2(footprint) / 10_000;
+  const lengthKm = footprint.type === 'LineString' ? lineLengthKm(footprint.coordinates) : null;
+
+  // Check 2: Footprint near the point
+  const point = event.location.geometry?.coordinates;
+  if (point && !shouldDropFootprint) {
+    const distance = distanceToBoundsKm(point, positions);
+    if (distance > MAX_POINT_DISTANCE_KM) {
+      issues.push(`Footprint is ~${distance.toFixed(0)} km from the event's coordinates`);
+      shouldDropFootprint = true;
+    }
+  }
+
+  // Check 3: Area cross-check
+  const reportedAreaHectares = reportedArea(event.metrics);
+  let areaRatio: number | null = null;
+  if (areaHectares !== null && reportedAreaHectares) {
+    areaRatio = areaHectares / reportedAreaHectares;
+    const factor = Math.max(areaRatio, 1 / areaRatio);
+
+    if (factor > AREA_RATIO_TOLERANCE) {
+      issues.push(
+        `Footprint area ${areaHectares.toFixed(0)} ha vs reported ${reportedAreaHectares.toFixed(0)} ha (x${factor.toFixed(1)})`
+      );
+    }
+    if (factor > AREA_RATIO_MAX) {
+      shouldDropFootprint = true;
+    }
+  }
+
+  return {
+    valid: issues.length === 0,
+    issues,
+    shouldDropFootprint,
+    areaHectares,
+    lengthKm,
+    reportedAreaHectares,
+    areaRatio,
+  };
+}
+
+/**
+ * Reported area in hectares (area_affected_hectares, else area_affected_km2)
+ */
+export function reportedArea(
+  metrics?: { area_affected_hectares?: number | null; area_affected_km2?: number | null } | null
+): number | null {
+  if (metrics?.area_affected_hectares) return metrics.area_affected_hectares;
+  if (metrics?.area_affected_km2) return metrics.area_affected_km2 * 100;
+  return null;
+}
+
+/**
+ * Representative point: mean of the footprint's vertices (ring closing
+ * positions excluded)
+ */
+export function footprintCentroid(footprint: ExtractedFootprint): [number, number] {
+  const positions = footprint.type === 'LineString'
+    ? footprint.coordinates
+    : polygonRings(footprint).flatMap((ring) => ring.slice(0, -1));
+
+  const [sumLng, sumLat] = positions.reduce(([a, b], [lng, lat]) => [a + lng, b + lat], [0, 0]);
+  return [sumLng / positions.length, sumLat / positions.length];
+}
+
+// ============================================
+// Geometry helpers
+// ============================================
+
+function footprintPositions(footprint: ExtractedFootprint): [number, number][] {
+  return footprint.type === 'LineString' ? footprint.coordinates : polygonRings(footprint).flat();
+}
+
+function polygonRings(footprint: ExtractedFootprint): [number, number][][] {
+  if (footprint.type === 'Polygon') return footprint.coordinates;
+  if (footprint.type === 'MultiPolygon') return footprint.coordinates.flat();
+  return [];
+}
+
+/**
+ * Outer rings minus holes, on a spherical earth
+ */
+function polygonAreaM2(footprint: ExtractedFootprint): number {
+  const polygons = footprint.type === 'Polygon' ? [footprint.coordinates] : footprint.type === 'MultiPolygon' ? footprint.coordinates : [];
+
+  return polygons.reduce((total, [outer, ...holes]) =>
+    total + ringAreaM2(outer) - holes.reduce((sum, hole) => sum + ringAreaM2(hole), 0), 0);
+}
+
+function ringAreaM2(ring: [number, number][]): number {
+  const toRad = (deg: number) => deg * (Math.PI / 180);
+  const n = ring.length;
+  if (n < 3) return 0;
+
+  let area = 0;
+  for (let i = 0; i < n; i++) {
+    const [lng1] = ring[i];
+    const [, lat2] = ring[(i + 1) % n];
+    const [lng3] = ring[(i + 2) % n];
+    area += (toRad(lng3) - toRad(lng1)) * Math.sin(toRad(lat2));
+  }
+
+  return Math.abs((area * EARTH_RADIUS_M * EARTH_RADIUS_M) / 2);
+}
+
+function lineLengthKm(line: [number, number][]): number {
+  let total = 0;
+  for (let i = 1; i < line.length; i++) total += distanceKm(line[i - 1], line[i]);
+  return total;
+}
+
+/**
+ * Distance from a point to the bounding box of the positions (0 inside)
+ */
+function distanceToBoundsKm([lng, lat]: [number, number], positions: [number, number][]): number {
+  const lngs = positions.map((p) => p[0]);
+  const lats = positions.map((p) => p[1]);
+  const nearest: [number, number] = [
+    Math.min(Math.max(lng, Math.min(...lngs)), Math.max(...lngs)),
+    Math.min(Math.max(lat, Math.min(...lats)), Math.max(...lats)),
+  ];
+  return distanceKm([lng, lat], nearest);
+}
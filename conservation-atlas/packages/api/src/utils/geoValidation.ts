@@ -7,9 +7,17 @@
  * 1. Coordinates within valid ranges
  * 2. Country-coordinate consistency
  * 3. Ocean/land validation
+ *
+ * Checks 2 and 3 ask a GeoReference. The worker uses Natural Earth
+ * polygons in PostGIS (services/geo/naturalEarthReference.ts); the default
+ * here is the bundled bounding boxes, which needs no database and keeps
+ * gold-set runs reproducible.
  */
 
 import { logger } from './logger';
+import type { GeocodeResult } from '../services/geo/gazetteer';
+import type { GeoCorrection } from '../services/geo/geoCorrection';
+import type { FootprintValidationResult } from './footprintValidation';
 
 export interface GeoValidationResult {
   valid: boolean;
@@ -20,8 +28,41 @@ export interface GeoValidationResult {
     action: 'nullify' | 'swap' | 'use_centroid';
     reason: string;
   };
+  /** Set when suggestedFix was applied (services/geo/geoCorrection.ts) */
+  correction?: GeoCorrection | null;
+  /** Set when the coordinates came from the gazetteer instead of the extraction */
+  geocoded?: GeocodeResult;
+  /** Set when the event has a footprint (utils/footprintValidation.ts) */
+  footprint?: FootprintValidationResult;
 }
 
+/**
+ * What a reference dataset knows about a point and the country it is claimed to be in
+ */
+export interface PointReference {
+  /** The reference has geometry for the claimed country */
+  countryKnown: boolean;
+  inCountry: boolean;
+  /** Distance to the claimed country's border (0 inside, null when unknown) */
+  distanceToCountryKm: number | null;
+  /** Country that actually contains the point, when the reference can tell */
+  containingCountry: string | null;
+  /** null when the reference cannot tell land from ocean here */
+  onLand: boolean | null;
+}
+
+export interface GeoReference {
+  readonly name: string;
+  checkPoint(lng: number, lat: number, country: string): Promise<PointReference>;
+}
+
+// Points this close to the claimed country pass (coastlines and borders
+// are simplified, and "near X" often lands just across a border)
+const BORDER_TOLERANCE_KM = 25;
+
+// Further than this from the claimed country: suggest the country centroid
+const SEVERE_MISMATCH_KM = 500;
+
 interface ExtractionLocation {
   geometry?: {
     type: string;
@@ -34,6 +75,7 @@ interface ExtractionLocation {
     admin2?: string | null;
     locality?: string | null;
   };
+  description?: string | null;  // free-text place description, when the model gives one
 }
 
 // Country bounding boxes (approximate) - [minLng, minLat, maxLng, maxLat]
@@ -89,7 +131,10 @@ const COUNTRY_BOUNDS: Record<string, [number, number, number, number]> = {
 /**
  * Validate extracted geolocation data
  */
-export function validateGeolocation(extraction: { location: ExtractionLocation }): GeoValidationResult {
+export async function validateGeolocation(
+  extraction: { location: ExtractionLocation },
+  reference: GeoReference = boundsGeoReference
+): Promise<GeoValidationResult> {
   const { location } = extraction;
   const issues: string[] = [];
   let adjustedConfidence = 1.0;
@@ -121,26 +166,43 @@ export function validateGeolocation(extraction: { location: ExtractionLocation }
     suggestedFix = { action: 'nullify', reason: 'Longitude out of range' };
   }
 
-  // Check 2: Lat/Lng possibly swapped (common LLM error)
-  if (!shouldNullifyCoords && Math.abs(lat) > 90 && Math.abs(lng) <= 90) {
+  // Check 2: Lat/Lng possibly swapped (common LLM error). The point is
+  // still unusable as given; the swap fix may restore it.
+  if (Math.abs(lat) > 90 && Math.abs(lat) <= 180 && Math.abs(lng) <= 90) {
     issues.push(`Coordinates may be swapped (lat=${lat}, lng=${lng})`);
     adjustedConfidence *= 0.3;
     suggestedFix = { action: 'swap', reason: 'Lat/lng appear to be swapped' };
   }
 
+  const point = shouldNullifyCoords
+    ? null
+    : await reference.checkPoint(lng, lat, location.admin.country ?? '');
+
   // Check 3: Country-coordinate consistency
-  if (!shouldNullifyCoords && location.admin.country) {
-    const countryCheck = checkCountryCoordinateMatch(
-      location.admin.country,
-      lng,
-      lat
-    );
+  if (point && location.admin.country && point.countryKnown && !point.inCountry) {
+    const distance = point.distanceToCountryKm;
     
-    if (!countryCheck.matches) {
-      issues.push(countryCheck.reason);
+    if (distance === null || distance > BORDER_TOLERANCE_KM) {
+      const where = point.containingCountry ? ` (inside ${point.containingCountry})` : '';
+      issues.push(
+        distance === null
+          ? `Coordinates (${lng}, ${lat}) are outside ${location.admin.country}${where}`
+          : `Coordinates (${lng}, ${lat}) are ~${distance.toFixed(0)} km outside ${location.admin.country}${where}`
+      );
       adjustedConfidence *= 0.4;
       
-      if (countryCheck.severeMismatch) {
+      // Both values are valid either way round, so only the country can
+      // tell that they were swapped
+      const swapped = Math.abs(lng) <= 90
+        ? await reference.checkPoint(lat, lng, location.admin.country)
+        : null;
+
+      if (swapped?.inCountry) {
+        suggestedFix = {
+          action: 'swap',
+          reason: `Swapped coordinates fall inside ${location.admin.country}`,
+        };
+      } else if (distance !== null && distance > SEVERE_MISMATCH_KM) {
         suggestedFix = { 
           action: 'use_centroid', 
           reason: `Coordinates don't match country (${location.admin.country})` 
@@ -149,13 +211,10 @@ export function validateGeolocation(extraction: { location: ExtractionLocation }
     }
   }
 
-  // Check 4: Point in ocean (basic check for obvious errors)
-  if (!shouldNullifyCoords) {
-    const oceanCheck = checkIfLikelyOcean(lng, lat);
-    if (oceanCheck.isOcean && !isMarineEventExpected(extraction)) {
-      issues.push(`Coordinates appear to be in the ocean`);
-      adjustedConfidence *= 0.5;
-    }
+  // Check 4: Point in ocean
+  if (point && point.onLand === false && !isMarineEventExpected(extraction)) {
+    issues.push(`Coordinates appear to be in the ocean`);
+    adjustedConfidence *= 0.5;
   }
 
   // Check 5: Precision sanity
@@ -187,58 +246,51 @@ export function validateGeolocation(extraction: { location: ExtractionLocation }
 }
 
 /**
- * Check if coordinates fall within expected country bounds
+ * Bundled fallback reference: approximate country bounding boxes and a
+ * rough ocean heuristic. Countries without a box pass.
  */
-function checkCountryCoordinateMatch(
-  country: string,
-  lng: number,
-  lat: number
-): { matches: boolean; reason: string; severeMismatch: boolean } {
-  const normalizedCountry = country.toLowerCase().trim();
-  const bounds = COUNTRY_BOUNDS[normalizedCountry];
-
-  if (!bounds) {
-    // Country not in our lookup - can't validate
-    return { matches: true, reason: '', severeMismatch: false };
-  }
+export const boundsGeoReference: GeoReference = {
+  name: 'bounds',
+  async checkPoint(lng, lat, country) {
+    const bounds = COUNTRY_BOUNDS[country.toLowerCase().trim()];
+    const onLand = checkIfLikelyOcean(lng, lat).isOcean ? false : null;
 
-  const [minLng, minLat, maxLng, maxLat] = bounds;
-  
-  // Add some buffer (coordinates near borders might be slightly off)
-  const buffer = 2; // degrees
-  
-  const inBounds = (
-    lng >= minLng - buffer &&
-    lng <= maxLng + buffer &&
-    lat >= minLat - buffer &&
-    lat <= maxLat + buffer
-  );
-
-  if (inBounds) {
-    return { matches: true, reason: '', severeMismatch: false };
-  }
+    if (!bounds) {
+      // Country not in our lookup - can't validate
+      return { countryKnown: false, inCountry: false, distanceToCountryKm: null, containingCountry: null, onLand };
+    }
 
-  // Calculate how far off we are
-  const lngDist = Math.min(
-    Math.abs(lng - minLng),
-    Math.abs(lng - maxLng)
-  );
-  const latDist = Math.min(
-    Math.abs(lat - minLat),
-    Math.abs(lat - maxLat)
-  );
-  const totalDist = Math.sqrt(lngDist ** 2 + latDist ** 2);
-
-  return {
-    matches: false,
-    reason: `Coordinates (${lng}, ${lat}) are ~${totalDist.toFixed(0)}° outside ${country} bounds`,
-    severeMismatch: totalDist > 30, // More than 30 degrees off is clearly wrong
-  };
-}
+    const [minLng, minLat, maxLng, maxLat] = bounds;
+    
+    // Add some buffer (coordinates near borders might be slightly off)
+    const buffer = 2; // degrees
+    
+    const inCountry = (
+      lng >= minLng - buffer &&
+      lng <= maxLng + buffer &&
+      lat >= minLat - buffer &&
+      lat <= maxLat + buffer
+    );
+
+    // Distance to the nearest point of the box
+    const nearest: [number, number] = [
+      Math.min(Math.max(lng, minLng), maxLng),
+      Math.min(Math.max(lat, minLat), maxLat),
+    ];
+
+    return {
+      countryKnown: true,
+      inCountry,
+      distanceToCountryKm: inCountry ? 0 : distanceKm([lng, lat], nearest),
+      containingCountry: null,
+      onLand,
+    };
+  },
+};
 
 /**
  * Basic check if point is likely in the ocean
- * This is a rough heuristic - proper solution would use a land/ocean mask
+ * This is a rough heuristic; the Natural Earth reference uses a land mask
  */
 function checkIfLikelyOcean(lng: number, lat: number): { isOcean: boolean } {
   // Pacific Ocean (rough)
@@ -318,3 +370,18 @@ export function getCountryCentroid(country: string): [number, number] | null {
 
   return CENTROIDS[country.toLowerCase().trim()] ?? null;
 }
+
+/**
+ * Great-circle distance in km between two [longitude, latitude] points (Haversine)
+ */
+export function distanceKm([lon1, lat1]: [number, number], [lon2, lat2]: [number, number]): number {
+  const toRad = (deg: number) => deg * (Math.PI / 180);
+  const dLat = toRad(lat2 - lat1);
+  const dLon = toRad(lon2 - lon1);
+
+  const a = Math.sin(dLat / 2) ** 2 +
+            Math.cos(toRad(lat1)) * Math.cos(toRad(lat2)) *
+            Math.sin(dLon / 2) ** 2;
+
+  return 6371 * 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+}
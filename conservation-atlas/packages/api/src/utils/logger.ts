@@ -18,8 +18,30 @@ const devFormat = printf(({ level, message, timestamp, ...metadata }) => {
 // Determine log level from environment
 const level = process.env.LOG_LEVEL || (process.env.NODE_ENV === 'production' ? 'info' : 'debug');
 
+type Level = 'error' | 'warn' | 'info' | 'debug';
+
+// Call sites pass structured fields first, pino-style:
+//   logger.info({ jobId, sourceId }, 'Job started')
+// winston expects the message first; both orders are accepted.
+type LogMethod = {
+  (message: string, meta?: object): void;
+  (meta: object, message?: string): void;
+};
+
+export type Logger = Omit<winston.Logger, Level> & Record<Level, LogMethod>;
+
+function structured(level: Level) {
+  return function (this: winston.Logger, first: string | object, second?: string | object): void {
+    if (typeof first === 'string') {
+      this.log(level, first, second ?? {});
+    } else {
+      this.log(level, typeof second === 'string' ? second : '', first);
+    }
+  };
+}
+
 // Create logger instance
-export const logger = winston.createLogger({
+const baseLogger = winston.createLogger({
   level,
   format: combine(
     timestamp({ format: 'YYYY-MM-DD HH:mm:ss' }),
@@ -28,11 +50,21 @@ export const logger = winston.createLogger({
       : combine(colorize(), devFormat)
   ),
   defaultMeta: { service: 'conservation-atlas' },
+  // Keep jest output readable
+  silent: process.env.NODE_ENV === 'test',
   transports: [
     new winston.transports.Console(),
   ],
 });
 
+// Own properties, so child loggers (createModuleLogger) inherit them and
+// still write through their own metadata
+for (const level of ['error', 'warn', 'info', 'debug'] as const) {
+  (baseLogger as unknown as Record<Level, LogMethod>)[level] = structured(level) as LogMethod;
+}
+
+export const logger = baseLogger as unknown as Logger;
+
 // Add file transports in production
 if (process.env.NODE_ENV === 'production') {
   logger.add(new winston.transports.File({ 
@@ -45,8 +77,8 @@ if (process.env.NODE_ENV === 'production') {
 }
 
 // Create child logger for specific modules
-export function createModuleLogger(moduleName: string) {
-  return logger.child({ module: moduleName });
+export function createModuleLogger(moduleName: string): Logger {
+  return baseLogger.child({ module: moduleName }) as unknown as Logger;
 }
 
 // Convenience methods for structured logging
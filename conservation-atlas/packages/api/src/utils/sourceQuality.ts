@@ -155,7 +155,12 @@ export function getSourceQuality(input: SourceQualityInput): SourceQualityResult
   // 3. Content quality signals (20% weight)
   let contentScore = 0.5;
   
-  if (input.hasAuthor !== undefined || input.hasPublishDate !== undefined || input.wordCount !== undefined) {
+  if (
+    input.hasAuthor !== undefined ||
+    input.hasPublishDate !== undefined ||
+    input.wordCount !== undefined ||
+    input.hasCitations !== undefined
+  ) {
     let contentFactors = 0;
     let contentSum = 0;
     
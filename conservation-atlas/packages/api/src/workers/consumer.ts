@@ -20,12 +20,14 @@ import {
 } from "../services/queue/sqsService";
 
 import { logger, log } from "../utils/logger";
+import { getExtractBudgetStatus } from "../services/extraction/usageTracker";
 
 // Job handlers
 import { runExtractJob } from "../jobs/extract.job";
-// import { runIngestJob } from "../jobs/ingest.job";
-// import { runClusterJob } from "../jobs/cluster.job";
-// import { runGeoJoinJob } from "../jobs/geojoin.job";
+import { runIngestJob } from "../jobs/ingest.job";
+import { runClusterJob } from "../jobs/cluster.job";
+import { runThreadJob } from "../jobs/thread.job";
+import { runGeoJoinJob } from "../jobs/geojoin.job";
 // import { runAlertsJob } from "../jobs/alerts.job";
 // import { runVideoBriefJob } from "../jobs/videoBrief.job";
 // import { runClassroomEpisodeJob } from "../jobs/classroomEpisode.job";
@@ -63,12 +65,13 @@ const SHUTDOWN_GRACE_MS = Number(process.env.WORKER_SHUTDOWN_GRACE_MS ?? 10_000)
 // Worker state
 let shuttingDown = false;
 let activeJobs = 0;
+let extractPaused = false;
 
 // ============================================
 // Handler Registry
 // ============================================
 
-type Handler = (msg: any) => Promise<void>;
+type Handler = (msg: any) => Promise<unknown>;
 
 // Placeholder handlers for jobs not yet implemented
 const notImplementedHandler = async (msg: JobMessage) => {
@@ -76,10 +79,11 @@ const notImplementedHandler = async (msg: JobMessage) => {
 };
 
 const handlers: Record<JobMessage["job_type"], Handler> = {
-  INGEST: notImplementedHandler,
+  INGEST: runIngestJob as Handler,
   EXTRACT: runExtractJob as Handler,
-  CLUSTER: notImplementedHandler,
-  GEO_JOIN: notImplementedHandler,
+  CLUSTER: runClusterJob as Handler,
+  THREAD: runThreadJob as Handler,
+  GEO_JOIN: runGeoJoinJob as Handler,
   ALERTS: notImplementedHandler,
   VIDEO_BRIEF: notImplementedHandler,
   CLASSROOM_EPISODE: notImplementedHandler,
@@ -213,7 +217,29 @@ async function handleMessage(
   }
 }
 
+/**
+ * EXTRACT stops consuming once the daily LLM budget is spent.
+ * Messages stay in the queue and resume automatically the next UTC day.
+ */
+async function isQueuePaused(queue: QueueName): Promise<boolean> {
+  if (queue !== "q_extract") return false;
+
+  const budget = await getExtractBudgetStatus();
+  if (budget.exceeded !== extractPaused) {
+    extractPaused = budget.exceeded;
+    if (extractPaused) {
+      logger.warn({ spentUsd: budget.spentUsd, budgetUsd: budget.budgetUsd }, "Daily extraction budget exceeded; pausing q_extract");
+    } else {
+      logger.info({ spentUsd: budget.spentUsd, budgetUsd: budget.budgetUsd }, "Extraction budget available; resuming q_extract");
+    }
+  }
+
+  return extractPaused;
+}
+
 async function pollQueue(queue: QueueName): Promise<void> {
+  if (await isQueuePaused(queue)) return;
+
   const messages = await receiveMessages(queue, {
     maxMessages: MAX_MESSAGES_PER_POLL,
     waitSeconds: WAIT_SECONDS,
@@ -0,0 +1,50 @@
+-- ============================================
+-- GEONAMES GAZETTEER
+-- ============================================
+-- Offline geocoding for events the extraction left without coordinates:
+-- country / admin1 / admin2 / locality names resolve to a GeoNames point
+-- (services/geo/gazetteer.ts).
+--
+-- Loaded from the GeoNames dump (allCountries.txt or a per-country file,
+-- plus countryInfo.txt) by tools/load_geonames.ts (see docs/SETUP.md).
+-- Only administrative divisions, populated places and the natural
+-- feature classes events are reported against are kept.
+
+CREATE TABLE IF NOT EXISTS geonames_countries (
+  iso_a2           TEXT PRIMARY KEY,
+  iso_a3           TEXT NOT NULL,
+  name             TEXT NOT NULL,
+  geoname_id       BIGINT,                   -- the country's PCLI feature, when present
+
+  geonames_release TEXT NOT NULL,
+  created_at       TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_geonames_countries_iso_a3 ON geonames_countries(lower(iso_a3));
+CREATE INDEX IF NOT EXISTS idx_geonames_countries_name ON geonames_countries(lower(name));
+
+CREATE TABLE IF NOT EXISTS geonames_places (
+  geoname_id       BIGINT PRIMARY KEY,
+
+  name             TEXT NOT NULL,
+  ascii_name       TEXT,
+  -- lower(name), lower(ascii_name) and lowercased alternate names
+  search_names     TEXT[] NOT NULL DEFAULT '{}',
+
+  latitude         DOUBLE PRECISION NOT NULL,
+  longitude        DOUBLE PRECISION NOT NULL,
+
+  feature_class    TEXT NOT NULL,            -- A admin, P populated place, L park/area, H water, T terrain
+  feature_code     TEXT NOT NULL,            -- ADM1, ADM2, PCLI, PPL, PPLC, PRK, LK...
+  country_code     TEXT NOT NULL,            -- ISO 3166-1 alpha-2
+  admin1_code      TEXT,
+  admin2_code      TEXT,
+  population       BIGINT NOT NULL DEFAULT 0,
+
+  geonames_release TEXT NOT NULL,
+  created_at       TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_geonames_places_search ON geonames_places USING GIN (search_names);
+CREATE INDEX IF NOT EXISTS idx_geonames_places_country_feature ON geonames_places(country_code, feature_code);
+CREATE INDEX IF NOT EXISTS idx_geonames_places_admin1 ON geonames_places(country_code, admin1_code);
@@ -0,0 +1,92 @@
+-- ============================================
+-- MIGRATION: columns added to existing tables
+-- ============================================
+-- schema.sql creates its tables with CREATE TABLE IF NOT EXISTS, so
+-- re-applying it to an existing database adds new tables, indexes, views
+-- and functions but not new columns on tables that already exist. This
+-- script adds those columns. Every statement is a no-op when the column
+-- is already there, so it is safe to run on any database, fresh or old.
+--
+-- Run with psql, then re-apply schema.sql for the new tables and indexes:
+--   psql "$DATABASE_URL" -f packages/shared/db/migrate_added_columns.sql
+--   psql "$DATABASE_URL" -f packages/shared/db/schema.sql
+
+\set ON_ERROR_STOP on
+
+BEGIN;
+
+-- INGEST: feed that produced each source, feeds grouped per INGEST payload
+ALTER TABLE sources
+  ADD COLUMN IF NOT EXISTS feed_id BIGINT;
+ALTER TABLE rss_feed_configs
+  ADD COLUMN IF NOT EXISTS source_group TEXT NOT NULL DEFAULT 'global';
+
+-- Near-duplicate detection at ingest
+ALTER TABLE sources
+  ADD COLUMN IF NOT EXISTS minhash_signature BIGINT[],
+  ADD COLUMN IF NOT EXISTS canonical_source_id BIGINT REFERENCES sources(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS duplicate_similarity DOUBLE PRECISION;
+
+-- Multi-provider extraction: which provider answered, which failed first
+ALTER TABLE source_extractions
+  ADD COLUMN IF NOT EXISTS provider TEXT,
+  ADD COLUMN IF NOT EXISTS provider_attempts JSONB NOT NULL DEFAULT '[]'::jsonb;
+
+-- Extraction cost accounting: token and cost totals per extraction
+ALTER TABLE source_extractions
+  ADD COLUMN IF NOT EXISTS input_tokens INTEGER,
+  ADD COLUMN IF NOT EXISTS output_tokens INTEGER,
+  ADD COLUMN IF NOT EXISTS cost_usd NUMERIC(12, 6);
+
+-- Versioned extraction prompts: the version that produced each extraction
+ALTER TABLE source_extractions
+  ADD COLUMN IF NOT EXISTS prompt_version TEXT;
+
+-- Extraction repair: validation errors and the fixes applied
+ALTER TABLE source_extractions
+  ADD COLUMN IF NOT EXISTS repairs JSONB;
+
+-- Merge audit trail: similarity breakdown, thresholds and scoring version
+ALTER TABLE event_merges
+  ADD COLUMN IF NOT EXISTS feature_scores JSONB,
+  ADD COLUMN IF NOT EXISTS thresholds JSONB,
+  ADD COLUMN IF NOT EXISTS algorithm_version TEXT;
+
+-- Unmerge: what a merge moved and changed, and who reversed it
+ALTER TABLE event_merges
+  ADD COLUMN IF NOT EXISTS action TEXT NOT NULL DEFAULT 'merge',
+  ADD COLUMN IF NOT EXISTS moved_source_ids JSONB,
+  ADD COLUMN IF NOT EXISTS primary_before JSONB,
+  ADD COLUMN IF NOT EXISTS reverted_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS performed_by TEXT;
+
+-- Cluster profiles: the named profile a merge's thresholds came from
+ALTER TABLE event_merges
+  ADD COLUMN IF NOT EXISTS cluster_profile TEXT;
+
+-- Field reconciliation on merge: geometry precision, per-field
+-- provenance, and the fields a merge replaced on the primary
+ALTER TABLE events
+  ADD COLUMN IF NOT EXISTS geo_precision TEXT,
+  ADD COLUMN IF NOT EXISTS field_provenance JSONB;
+ALTER TABLE event_merges
+  ADD COLUMN IF NOT EXISTS field_changes JSONB;
+
+-- Event footprints: optional polygon/line the event covers, the extent
+-- spatial queries match against, and computed vs reported areas
+ALTER TABLE events
+  ADD COLUMN IF NOT EXISTS geom_footprint geometry(Geometry, 4326)
+    CHECK (geom_footprint IS NULL OR GeometryType(geom_footprint) IN ('POLYGON', 'MULTIPOLYGON', 'LINESTRING')),
+  ADD COLUMN IF NOT EXISTS footprint_area_hectares DOUBLE PRECISION,
+  ADD COLUMN IF NOT EXISTS area_affected_hectares DOUBLE PRECISION;
+ALTER TABLE events
+  ADD COLUMN IF NOT EXISTS geom_extent geometry(Geometry, 4326)
+    GENERATED ALWAYS AS (COALESCE(geom_footprint, geom_point)) STORED;
+
+-- GEO_JOIN: when an event was last joined to protected areas, and against
+-- which WDPA release
+ALTER TABLE events
+  ADD COLUMN IF NOT EXISTS geo_joined_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS geo_join_release TEXT;
+
+COMMIT;
@@ -0,0 +1,91 @@
+-- ============================================
+-- MIGRATION: legacy protected_areas -> WDPA model
+-- ============================================
+-- schema.sql used to define its own protected_areas table
+-- (geom_boundary, geom_centroid, country, area_km2). Databases created
+-- from it are converted in place to the WDPA model in protected_areas.sql,
+-- keeping ids so events.nearest_protected_area_id stays valid:
+--   geom_boundary -> geom (NULL boundaries fall back to the centroid point)
+--   geom_centroid -> centroid (missing ones computed with ST_PointOnSurface)
+--   country       -> iso3 (kept only when it is an ISO3 code)
+--   area_km2      -> gis_area_km2
+--   wdpa_id       -> BIGINT NOT NULL (rows without one get -id)
+-- Converted rows get wdpa_release '0000-00-legacy', which sorts before any
+-- real release; the next WDPA import replaces them.
+-- Does nothing when protected_areas already has the WDPA columns.
+--
+-- Run with psql (uses \ir), then re-run GEO_JOIN:
+--   psql "$DATABASE_URL" -f packages/shared/db/migrate_protected_areas_to_wdpa.sql
+--   npm run wdpa:geo-join
+
+\set ON_ERROR_STOP on
+
+BEGIN;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_schema = current_schema()
+      AND table_name = 'protected_areas'
+      AND column_name = 'geom_boundary'
+  ) THEN
+    RAISE NOTICE 'protected_areas already uses the WDPA model; nothing to migrate';
+    RETURN;
+  END IF;
+
+  -- Geometry: WDPA stores polygons and points in one column
+  ALTER TABLE protected_areas ALTER COLUMN geom_boundary TYPE geometry(GEOMETRY, 4326);
+  UPDATE protected_areas SET geom_boundary = geom_centroid WHERE geom_boundary IS NULL;
+  DELETE FROM protected_areas WHERE geom_boundary IS NULL;
+  UPDATE protected_areas SET geom_centroid = ST_PointOnSurface(geom_boundary) WHERE geom_centroid IS NULL;
+  ALTER TABLE protected_areas RENAME COLUMN geom_boundary TO geom;
+  ALTER TABLE protected_areas RENAME COLUMN geom_centroid TO centroid;
+  ALTER TABLE protected_areas ALTER COLUMN geom SET NOT NULL;
+  ALTER TABLE protected_areas ALTER COLUMN centroid SET NOT NULL;
+
+  -- Attributes
+  ALTER TABLE protected_areas RENAME COLUMN country TO iso3;
+  ALTER TABLE protected_areas ALTER COLUMN iso3 DROP NOT NULL;
+  UPDATE protected_areas SET iso3 = NULL WHERE iso3 !~ '^[A-Z]{3}$';
+  ALTER TABLE protected_areas RENAME COLUMN area_km2 TO gis_area_km2;
+  ALTER TABLE protected_areas ALTER COLUMN wdpa_id TYPE BIGINT;
+  UPDATE protected_areas SET wdpa_id = -id WHERE wdpa_id IS NULL;
+  ALTER TABLE protected_areas ALTER COLUMN wdpa_id SET NOT NULL;
+
+  ALTER TABLE protected_areas
+    ADD COLUMN wdpa_pid          TEXT,
+    ADD COLUMN designation_type  TEXT,
+    ADD COLUMN status            TEXT,
+    ADD COLUMN status_year       INTEGER,
+    ADD COLUMN gov_type          TEXT,
+    ADD COLUMN own_type          TEXT,
+    ADD COLUMN mang_auth         TEXT,
+    ADD COLUMN mang_plan         TEXT,
+    ADD COLUMN verif             TEXT,
+    ADD COLUMN parent_iso3       TEXT,
+    ADD COLUMN marine            TEXT,
+    ADD COLUMN reported_area_km2 DOUBLE PRECISION,
+    ADD COLUMN gis_m_area_km2    DOUBLE PRECISION,
+    ADD COLUMN wdpa_release      TEXT NOT NULL DEFAULT '0000-00-legacy',
+    ADD COLUMN source            TEXT NOT NULL DEFAULT 'legacy',
+    ADD COLUMN updated_at        TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    ADD CONSTRAINT protected_areas_wdpa_release_wdpa_id_name_key UNIQUE (wdpa_release, wdpa_id, name);
+  ALTER TABLE protected_areas ALTER COLUMN wdpa_release DROP DEFAULT;
+  ALTER TABLE protected_areas ALTER COLUMN source SET DEFAULT 'wdpa';
+
+  DROP INDEX IF EXISTS idx_protected_areas_geom;
+  DROP INDEX IF EXISTS idx_protected_areas_country;
+  DROP INDEX IF EXISTS idx_protected_areas_wdpa;
+
+  -- Staging was created LIKE the legacy table; protected_areas.sql
+  -- recreates it from the converted one so the release swap lines up
+  DROP TABLE IF EXISTS protected_areas_staging;
+END $$;
+
+-- Indexes, staging table, views and helper functions of the WDPA model
+\ir protected_areas.sql
+
+COMMIT;
+
+ANALYZE protected_areas;
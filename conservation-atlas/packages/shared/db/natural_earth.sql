@@ -0,0 +1,49 @@
+-- ============================================
+-- NATURAL EARTH REFERENCE GEOMETRIES
+-- ============================================
+-- Country and land polygons behind validateGeolocation:
+-- - point-in-country for the country an extraction claims
+-- - distance from a point to that country's border
+-- - land/ocean test
+--
+-- Loaded from the Natural Earth 1:10m "Admin 0 - Countries" and "Land"
+-- shapefiles by tools/load_natural_earth.ts (see docs/SETUP.md).
+-- Queried with raw SQL only (no Prisma models for geometry tables).
+
+-- Requires PostGIS
+CREATE EXTENSION IF NOT EXISTS postgis;
+
+CREATE TABLE IF NOT EXISTS ne_countries (
+  id               BIGSERIAL PRIMARY KEY,
+
+  iso_a2           TEXT,                     -- ISO_A2 (NULL where Natural Earth has -99)
+  iso_a3           TEXT NOT NULL,            -- ISO_A3, falling back to ADM0_A3 (France, Norway, Kosovo...)
+  name             TEXT NOT NULL,            -- NAME ("Dem. Rep. Congo")
+  name_long        TEXT,                     -- NAME_LONG ("Democratic Republic of the Congo")
+  admin            TEXT,                     -- ADMIN ("United States of America")
+  formal_name      TEXT,                     -- FORMAL_EN
+  continent        TEXT,
+
+  ne_release       TEXT NOT NULL,            -- e.g. "5.1.1"
+  geom             geometry(MultiPolygon, 4326) NOT NULL,
+
+  created_at       TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_ne_countries_geom ON ne_countries USING GIST (geom);
+CREATE INDEX IF NOT EXISTS idx_ne_countries_iso_a3 ON ne_countries(iso_a3);
+CREATE INDEX IF NOT EXISTS idx_ne_countries_name ON ne_countries(lower(name));
+CREATE INDEX IF NOT EXISTS idx_ne_countries_name_long ON ne_countries(lower(name_long));
+CREATE INDEX IF NOT EXISTS idx_ne_countries_admin ON ne_countries(lower(admin));
+
+-- Land is stored subdivided (ST_Subdivide) so point tests do not scan
+-- whole continents
+CREATE TABLE IF NOT EXISTS ne_land (
+  id               BIGSERIAL PRIMARY KEY,
+  ne_release       TEXT NOT NULL,
+  geom             geometry(MultiPolygon, 4326) NOT NULL,
+
+  created_at       TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_ne_land_geom ON ne_land USING GIST (geom);
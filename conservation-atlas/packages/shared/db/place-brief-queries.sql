@@ -23,17 +23,16 @@ SELECT
   pa.name,
   pa.designation,
   pa.iucn_category,
-  pa.country,
+  pa.iso3 AS country,
   pa.wdpa_id AS external_id,
   'wdpa' AS source,
   'inside' AS relation,
   0.0::double precision AS distance_km,
-  ST_Y(COALESCE(pa.geom_centroid, ST_Centroid(pa.geom_boundary))) AS centroid_lat,
-  ST_X(COALESCE(pa.geom_centroid, ST_Centroid(pa.geom_boundary))) AS centroid_lng,
-  pa.area_km2
+  ST_Y(pa.centroid) AS centroid_lat,
+  ST_X(pa.centroid) AS centroid_lng,
+  COALESCE(pa.gis_area_km2, pa.reported_area_km2) AS area_km2
 FROM protected_areas pa, params
-WHERE pa.geom_boundary IS NOT NULL 
-  AND ST_Contains(pa.geom_boundary, params.pt)
+WHERE ST_Contains(pa.geom, params.pt)
 ORDER BY pa.name
 LIMIT 50;
 
@@ -53,23 +52,19 @@ SELECT
   pa.name,
   pa.designation,
   pa.iucn_category,
-  pa.country,
+  pa.iso3 AS country,
   pa.wdpa_id AS external_id,
   'wdpa' AS source,
   'near' AS relation,
-  (ST_DistanceSphere(
-    COALESCE(pa.geom_centroid, ST_Centroid(pa.geom_boundary)), 
-    params.pt
-  ) / 1000.0) AS distance_km,
-  ST_Y(COALESCE(pa.geom_centroid, ST_Centroid(pa.geom_boundary))) AS centroid_lat,
-  ST_X(COALESCE(pa.geom_centroid, ST_Centroid(pa.geom_boundary))) AS centroid_lng,
-  pa.area_km2
+  (ST_DistanceSphere(pa.centroid, params.pt) / 1000.0) AS distance_km,
+  ST_Y(pa.centroid) AS centroid_lat,
+  ST_X(pa.centroid) AS centroid_lng,
+  COALESCE(pa.gis_area_km2, pa.reported_area_km2) AS area_km2
 FROM protected_areas pa, params
 WHERE
-  (pa.geom_boundary IS NOT NULL OR pa.geom_centroid IS NOT NULL)
-  AND NOT COALESCE(ST_Contains(pa.geom_boundary, params.pt), false)
+  NOT ST_Contains(pa.geom, params.pt)
   AND ST_DWithin(
-    COALESCE(pa.geom_centroid, ST_Centroid(pa.geom_boundary))::geography,
+    pa.centroid::geography,
     params.pt::geography,
     params.radius_m
   )
@@ -107,7 +102,8 @@ SELECT
   e.admin2,
   ST_Y(e.geom_point) AS lat,
   ST_X(e.geom_point) AS lng,
-  (ST_DistanceSphere(e.geom_point, params.pt) / 1000.0) AS distance_km,
+  ST_AsGeoJSON(e.geom_footprint)::jsonb AS footprint,
+  (ST_Distance(e.geom_extent::geography, params.pt::geography) / 1000.0) AS distance_km,
   e.nearest_protected_area_id,
   e.is_inside_protected_area,
   e.distance_to_protected_km,
@@ -117,9 +113,9 @@ SELECT
 FROM events e, params
 WHERE
   e.status = 'active'
-  AND e.geom_point IS NOT NULL
+  AND e.geom_extent IS NOT NULL
   AND e.created_at >= params.since_ts
-  AND ST_DWithin(e.geom_point::geography, params.pt::geography, params.radius_m)
+  AND ST_DWithin(e.geom_extent::geography, params.pt::geography, params.radius_m)
 ORDER BY e.severity_level DESC, e.created_at DESC
 LIMIT $5 OFFSET $6;
 
@@ -185,9 +181,9 @@ area_events AS (
   FROM events e, params
   WHERE
     e.status = 'active'
-    AND e.geom_point IS NOT NULL
+    AND e.geom_extent IS NOT NULL
     AND e.created_at >= params.since_ts
-    AND ST_DWithin(e.geom_point::geography, params.pt::geography, params.radius_m)
+    AND ST_DWithin(e.geom_extent::geography, params.pt::geography, params.radius_m)
 ),
 org_events AS (
   SELECT
@@ -328,9 +324,9 @@ area_events AS (
   FROM events e, params
   WHERE
     e.status = 'active'
-    AND e.geom_point IS NOT NULL
+    AND e.geom_extent IS NOT NULL
     AND e.created_at >= params.since_ts
-    AND ST_DWithin(e.geom_point::geography, params.pt::geography, params.radius_m)
+    AND ST_DWithin(e.geom_extent::geography, params.pt::geography, params.radius_m)
 ),
 org_event_sources AS (
   SELECT
@@ -385,9 +381,9 @@ area_events AS (
   FROM events e, params
   WHERE
     e.status = 'active'
-    AND e.geom_point IS NOT NULL
+    AND e.geom_extent IS NOT NULL
     AND e.created_at >= params.since_ts
-    AND ST_DWithin(e.geom_point::geography, params.pt::geography, params.radius_m)
+    AND ST_DWithin(e.geom_extent::geography, params.pt::geography, params.radius_m)
 ),
 org_events AS (
   SELECT
@@ -485,9 +481,9 @@ area_events AS (
   SELECT e.id
   FROM events e, params
   WHERE e.status = 'active'
-    AND e.geom_point IS NOT NULL
+    AND e.geom_extent IS NOT NULL
     AND e.created_at >= params.since_ts
-    AND ST_DWithin(e.geom_point::geography, params.pt::geography, params.radius_m)
+    AND ST_DWithin(e.geom_extent::geography, params.pt::geography, params.radius_m)
 )
 SELECT
   COUNT(DISTINCT ae.id) AS events_count,
@@ -522,9 +518,10 @@ ORDER BY eo.organization_id, e.severity_level DESC, e.created_at DESC;
 -- Required indexes for good performance:
 -- 
 -- CREATE INDEX idx_events_geom ON events USING GIST (geom_point);
+-- CREATE INDEX idx_events_extent ON events USING GIST (geom_extent);
 -- CREATE INDEX idx_events_status_created ON events(status, created_at DESC);
--- CREATE INDEX idx_protected_areas_geom ON protected_areas USING GIST (geom_boundary);
--- CREATE INDEX idx_protected_areas_centroid ON protected_areas USING GIST (geom_centroid);
+-- CREATE INDEX idx_pa_geom_gist ON protected_areas USING GIST (geom);          (protected_areas.sql)
+-- CREATE INDEX idx_pa_centroid_gist ON protected_areas USING GIST (centroid);  (protected_areas.sql)
 -- CREATE INDEX idx_event_sources_event ON event_sources(event_id);
 -- CREATE INDEX idx_event_orgs_event ON event_organizations(event_id);
 -- CREATE INDEX idx_event_orgs_org ON event_organizations(organization_id);
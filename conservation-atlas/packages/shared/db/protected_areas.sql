@@ -1,10 +1,13 @@
 -- ============================================
 -- PROTECTED AREAS SCHEMA (WDPA-Ready)
 -- ============================================
+-- The canonical protected-areas model, read by the place brief (route and
+-- service), GEO_JOIN and the schema.sql views; apply before schema.sql.
 -- Schema optimized for Place Brief queries:
 -- - ST_Contains for "inside protected area"
 -- - ST_DWithin for "nearby protected areas"
--- - Monthly WDPA refresh via staging table
+-- - Monthly WDPA refresh via staging table (one release in the table)
+-- Area in km²: COALESCE(gis_area_km2, reported_area_km2).
 
 -- Requires PostGIS
 CREATE EXTENSION IF NOT EXISTS postgis;
@@ -207,44 +210,22 @@ WDPA Import Pipeline (Monthly)
 1. Download from Protected Planet:
    - WDPA_WDOECM_<Month><Year>_Public.gpkg (or .shp)
 
-2. Create staging table:
-   TRUNCATE protected_areas_staging;
-
-3. Load polygons with ogr2ogr:
-   ogr2ogr -f "PostgreSQL" \
-     PG:"$DATABASE_URL" \
-     WDPA_polygons.gpkg \
-     -nln protected_areas_staging \
-     -nlt PROMOTE_TO_MULTI \
-     -lco GEOMETRY_NAME=geom \
-     -t_srs EPSG:4326 \
-     -append
-
-4. Load points with ogr2ogr:
-   ogr2ogr -f "PostgreSQL" \
-     PG:"$DATABASE_URL" \
-     WDPA_points.gpkg \
-     -nln protected_areas_staging \
-     -nlt POINT \
-     -lco GEOMETRY_NAME=geom \
-     -t_srs EPSG:4326 \
-     -append
-
-5. Generate mapping SQL:
-   npx ts-node tools/generate_wdpa_mapping.ts \
-     --file WDPA_polygons.gpkg \
-     --layer WDPA_poly_Jan2026 \
-     --release 2026-01 > wdpa_map.sql
-
-6. Run mapping:
-   psql "$DATABASE_URL" -f wdpa_map.sql
-
-7. Swap into production:
-   BEGIN;
-   TRUNCATE protected_areas;
-   INSERT INTO protected_areas SELECT * FROM protected_areas_staging;
-   COMMIT;
-   VACUUM ANALYZE protected_areas;
+2. Import and swap (tools/wdpa_import.ts does all of this):
+   npm run wdpa:import -- \
+     --file WDPA_WDOECM_Jan2026_Public.gpkg \
+     --release 2026-01 \
+     --report wdpa_diff_2026-01.json
+
+   - picks the polygon and point layers (WDPAID + NAME fields)
+   - ogr2ogr loads each into protected_areas_raw_<n>
+   - maps WDPA fields into protected_areas_staging: ST_MakeValid polygons,
+     ST_PointOnSurface centroids, GIS area computed when missing
+   - one transaction diffs staging against the current release and
+     replaces protected_areas (persisting areas keep their id)
+   - reports added, removed, boundary-changed and renamed areas by wdpa_id
+
+3. Re-join events to the new release:
+   npm run wdpa:geo-join
 
 WDPA License Note
 =================
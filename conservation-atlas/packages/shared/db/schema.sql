@@ -1,7 +1,8 @@
 -- Conservation Atlas - Minimal Postgres/PostGIS Schema
 -- 
 -- Run with: psql -d conservation_atlas -f schema.sql
--- Requires PostGIS extension
+-- Requires PostGIS extension, and protected_areas.sql applied first (the
+-- views and place brief functions below read protected_areas)
 
 -- Enable PostGIS
 CREATE EXTENSION IF NOT EXISTS postgis;
@@ -30,11 +31,19 @@ CREATE TABLE IF NOT EXISTS sources (
   credibility_score DOUBLE PRECISION,
 
   -- Processing status
-  extraction_status TEXT DEFAULT 'pending', -- pending, extracted, failed, irrelevant, too_short
+  extraction_status TEXT DEFAULT 'pending', -- pending, extracted, failed, irrelevant, too_short, duplicate
 
   -- Content hash for deduplication
   content_hash    TEXT,
 
+  -- Feed that produced this source (rss_feed_configs.id; NULL for ad-hoc sources)
+  feed_id         BIGINT,
+
+  -- Near-duplicate detection (MinHash over raw_text; syndicated copies point at the first-seen source)
+  minhash_signature   BIGINT[],
+  canonical_source_id BIGINT REFERENCES sources(id) ON DELETE SET NULL,
+  duplicate_similarity DOUBLE PRECISION,
+
   created_at      TIMESTAMPTZ NOT NULL DEFAULT NOW(),
   updated_at      TIMESTAMPTZ NOT NULL DEFAULT NOW()
 );
@@ -43,6 +52,22 @@ CREATE INDEX IF NOT EXISTS idx_sources_published_at ON sources(published_at);
 CREATE INDEX IF NOT EXISTS idx_sources_retrieved_at ON sources(retrieved_at);
 CREATE INDEX IF NOT EXISTS idx_sources_extraction_status ON sources(extraction_status);
 CREATE INDEX IF NOT EXISTS idx_sources_content_hash ON sources(content_hash);
+CREATE INDEX IF NOT EXISTS idx_sources_feed_id ON sources(feed_id);
+CREATE INDEX IF NOT EXISTS idx_sources_canonical ON sources(canonical_source_id) WHERE canonical_source_id IS NOT NULL;
+
+-- ============================================
+-- SOURCE_LSH_BUCKETS: MinHash LSH band index
+-- One row per (band, bucket) a source hashes into
+-- ============================================
+CREATE TABLE IF NOT EXISTS source_lsh_buckets (
+  band        SMALLINT NOT NULL,
+  bucket      BIGINT NOT NULL,
+  source_id   BIGINT NOT NULL REFERENCES sources(id) ON DELETE CASCADE,
+
+  PRIMARY KEY (band, bucket, source_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_source_lsh_buckets_source ON source_lsh_buckets(source_id);
 
 -- ============================================
 -- EVENTS: Canonical event records (deduped)
@@ -78,6 +103,14 @@ CREATE TABLE IF NOT EXISTS events (
   admin1                  TEXT,
   admin2                  TEXT,
   geom_point              geometry(Point, 4326),
+  geo_precision           TEXT,            -- exact, approximate, centroid, unknown (extraction geometry.precision)
+  -- Optional area/line the event covers (fire perimeter, oil slick, polluted river stretch)
+  geom_footprint          geometry(Geometry, 4326)
+                          CHECK (geom_footprint IS NULL OR GeometryType(geom_footprint) IN ('POLYGON', 'MULTIPOLYGON', 'LINESTRING')),
+  -- Footprint when present, else the point: what radius and overlap queries match against
+  geom_extent             geometry(Geometry, 4326) GENERATED ALWAYS AS (COALESCE(geom_footprint, geom_point)) STORED,
+  footprint_area_hectares DOUBLE PRECISION,  -- computed from a polygon footprint
+  area_affected_hectares  DOUBLE PRECISION,  -- as reported (metrics.area_affected_hectares / area_affected_km2)
 
   -- Classification
   is_classroom_safe       BOOLEAN DEFAULT false,
@@ -87,6 +120,8 @@ CREATE TABLE IF NOT EXISTS events (
   nearest_protected_area_id BIGINT,
   distance_to_protected_km  DOUBLE PRECISION,
   is_inside_protected_area  BOOLEAN DEFAULT false,
+  geo_joined_at             TIMESTAMPTZ,     -- last GEO_JOIN run
+  geo_join_release          TEXT,            -- wdpa_release it was computed against (stale after a WDPA refresh)
 
   -- Source tracking
   source_count            INTEGER DEFAULT 1,
@@ -100,6 +135,7 @@ CREATE TABLE IF NOT EXISTS events (
   -- Clustering/deduplication
   cluster_key             TEXT,
   merged_into_id          BIGINT REFERENCES events(id),
+  field_provenance        JSONB,           -- reconcileFields: which merged event each field came from, and why
 
   created_at              TIMESTAMPTZ NOT NULL DEFAULT NOW(),
   updated_at              TIMESTAMPTZ NOT NULL DEFAULT NOW()
@@ -109,6 +145,7 @@ CREATE INDEX IF NOT EXISTS idx_events_type ON events(event_type_primary);
 CREATE INDEX IF NOT EXISTS idx_events_severity ON events(severity_level);
 CREATE INDEX IF NOT EXISTS idx_events_country ON events(country);
 CREATE INDEX IF NOT EXISTS idx_events_geom ON events USING GIST (geom_point);
+CREATE INDEX IF NOT EXISTS idx_events_extent ON events USING GIST (geom_extent);
 CREATE INDEX IF NOT EXISTS idx_events_cluster_key ON events(cluster_key);
 CREATE INDEX IF NOT EXISTS idx_events_status ON events(status);
 CREATE INDEX IF NOT EXISTS idx_events_classroom_safe ON events(is_classroom_safe) WHERE is_classroom_safe = true;
@@ -123,16 +160,29 @@ CREATE INDEX IF NOT EXISTS idx_events_created ON events(created_at DESC);
 CREATE TABLE IF NOT EXISTS source_extractions (
   id              BIGSERIAL PRIMARY KEY,
   source_id       BIGINT NOT NULL REFERENCES sources(id) ON DELETE CASCADE,
+  -- Most significant event; every event a source produced is linked
+  -- through event_sources (relation = 'primary')
   event_id        BIGINT REFERENCES events(id) ON DELETE SET NULL,
 
-  schema_version  TEXT NOT NULL,
+  schema_version  TEXT NOT NULL,  -- event_extraction_v1 | event_extraction_v2
+  prompt_version  TEXT,           -- promptRegistry version, e.g. extract-v2
+
+  -- Provenance: provider + the model id the provider reported back
+  provider        TEXT,
   model           TEXT NOT NULL,
+  provider_attempts JSONB NOT NULL DEFAULT '[]'::jsonb, -- failed providers tried before this one
 
   extraction_json JSONB NOT NULL,
   
   -- Validation results
   quality_score   DOUBLE PRECISION,
   geo_validation  JSONB,
+  repairs         JSONB,          -- repairExtraction RepairRecord: initial AJV errors + fixes applied
+
+  -- Usage totals across every LLM call for this extraction (see extraction_usage)
+  input_tokens    INTEGER,
+  output_tokens   INTEGER,
+  cost_usd        NUMERIC(12, 6),
 
   created_at      TIMESTAMPTZ NOT NULL DEFAULT NOW(),
   updated_at      TIMESTAMPTZ NOT NULL DEFAULT NOW(),
@@ -142,6 +192,39 @@ CREATE TABLE IF NOT EXISTS source_extractions (
 
 CREATE INDEX IF NOT EXISTS idx_source_extractions_event_id ON source_extractions(event_id);
 CREATE INDEX IF NOT EXISTS idx_source_extractions_created ON source_extractions(created_at);
+CREATE INDEX IF NOT EXISTS idx_source_extractions_prompt ON source_extractions(prompt_version);
+
+-- ============================================
+-- EXTRACTION_USAGE: Token + cost accounting per LLM call
+-- One row per provider call (failed and retried calls included)
+-- ============================================
+CREATE TABLE IF NOT EXISTS extraction_usage (
+  id                    BIGSERIAL PRIMARY KEY,
+  source_id             BIGINT NOT NULL REFERENCES sources(id) ON DELETE CASCADE,
+  source_extraction_id  BIGINT REFERENCES source_extractions(id) ON DELETE SET NULL,
+
+  -- Links to job_logs.job_id / correlation_id
+  job_id                TEXT NOT NULL,
+  correlation_id        TEXT,
+
+  provider              TEXT NOT NULL, -- openai, anthropic, gemini, fake
+  model                 TEXT NOT NULL,
+  call_kind             TEXT NOT NULL, -- initial, repair (strict_retry on older rows)
+  succeeded             BOOLEAN NOT NULL,
+  error_kind            TEXT,          -- rate_limit, unavailable, auth, bad_request, invalid_response
+
+  input_tokens          INTEGER NOT NULL DEFAULT 0,
+  output_tokens         INTEGER NOT NULL DEFAULT 0,
+  cost_usd              NUMERIC(12, 6) NOT NULL DEFAULT 0,
+
+  created_at            TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_extraction_usage_created ON extraction_usage(created_at);
+CREATE INDEX IF NOT EXISTS idx_extraction_usage_source ON extraction_usage(source_id);
+CREATE INDEX IF NOT EXISTS idx_extraction_usage_extraction ON extraction_usage(source_extraction_id);
+CREATE INDEX IF NOT EXISTS idx_extraction_usage_job ON extraction_usage(job_id);
+CREATE INDEX IF NOT EXISTS idx_extraction_usage_provider ON extraction_usage(provider, created_at);
 
 -- ============================================
 -- EVENT_SOURCES: Many-to-many link from event to sources
@@ -171,39 +254,153 @@ CREATE TABLE IF NOT EXISTS event_merges (
   id                BIGSERIAL PRIMARY KEY,
   primary_event_id  BIGINT NOT NULL REFERENCES events(id) ON DELETE CASCADE,
   merged_event_id   BIGINT NOT NULL REFERENCES events(id) ON DELETE CASCADE,
+
+  -- merge: clustering collapsed merged_event_id into primary_event_id
+  -- unmerge: an analyst reversed it (the pair is never re-merged)
+  action            TEXT NOT NULL DEFAULT 'merge',
   
   similarity_score  DOUBLE PRECISION NOT NULL,
   merge_reason      TEXT,
+
+  -- Why the pair was collapsed: per-feature scores (0-1, null when not
+  -- comparable), the CLUSTER_CONFIG in effect, the scoring version and
+  -- the named cluster profile the config came from
+  feature_scores    JSONB,
+  thresholds        JSONB,
+  algorithm_version TEXT,
+  cluster_profile   TEXT,
+
+  -- What unmergeEvent needs to reverse a merge
+  moved_source_ids  JSONB,          -- event_sources moved to the primary
+  primary_before    JSONB,          -- primary's confidence/source count/severity before the merge
+  field_changes     JSONB,          -- reconcileFields: {field: {before, after, beforeProvenance}} replaced on the primary
+  reverted_at       TIMESTAMPTZ,    -- set on a merge row once it is unmerged
+  performed_by      TEXT,           -- analyst for unmerge rows
   
   merged_at         TIMESTAMPTZ NOT NULL DEFAULT NOW()
 );
 
 CREATE INDEX IF NOT EXISTS idx_event_merges_primary ON event_merges(primary_event_id);
 CREATE INDEX IF NOT EXISTS idx_event_merges_merged ON event_merges(merged_event_id);
+CREATE INDEX IF NOT EXISTS idx_event_merges_action ON event_merges(action);
 
 -- ============================================
--- PROTECTED_AREAS: Reference data
+-- CLUSTER_PROFILES: Named clustering thresholds and weights
+-- ============================================
+-- config holds overrides of the built-in 'default' profile, e.g.
+--   {"MIN_SIMILARITY_SCORE": 0.8, "weights": {"semantic": 0.4}}
+-- Profiles can also come from the CLUSTER_PROFILES_FILE JSON file.
+CREATE TABLE IF NOT EXISTS cluster_profiles (
+  name            TEXT PRIMARY KEY,
+  description     TEXT,
+  config          JSONB NOT NULL DEFAULT '{}'::jsonb,
+
+  created_at      TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at      TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- ============================================
+-- EVENT_THREADS: Storylines of related (unmerged) events
 -- ============================================
-CREATE TABLE IF NOT EXISTS protected_areas (
+-- A drought, an outbreak's spread or a follow-up policy decision produce
+-- separate events; a thread links them over time without merging.
+CREATE TABLE IF NOT EXISTS event_threads (
   id              BIGSERIAL PRIMARY KEY,
-  
-  name            TEXT NOT NULL,
-  designation     TEXT,
-  wdpa_id         INTEGER,
-  
-  country         TEXT NOT NULL,
-  geom_boundary   geometry(MultiPolygon, 4326),
-  geom_centroid   geometry(Point, 4326),
-  area_km2        DOUBLE PRECISION,
-  
-  iucn_category   TEXT,
-  
-  created_at      TIMESTAMPTZ NOT NULL DEFAULT NOW()
+  title           TEXT NOT NULL,            -- title of the earliest event
+  status          TEXT NOT NULL DEFAULT 'active', -- active, closed
+
+  started_at      TIMESTAMPTZ,              -- earliest member event
+  last_event_at   TIMESTAMPTZ,              -- latest member event
+  event_count     INTEGER NOT NULL DEFAULT 0,
+
+  created_at      TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at      TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_event_threads_last_event ON event_threads(last_event_at DESC);
+
+-- An event belongs to at most one thread
+CREATE TABLE IF NOT EXISTS event_thread_members (
+  thread_id       BIGINT NOT NULL REFERENCES event_threads(id) ON DELETE CASCADE,
+  event_id        BIGINT NOT NULL REFERENCES events(id) ON DELETE CASCADE,
+  added_at        TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+  PRIMARY KEY (thread_id, event_id),
+  UNIQUE (event_id)
+);
+
+-- Typed, directed links: from_event (earlier) -> to_event (later)
+CREATE TABLE IF NOT EXISTS event_thread_links (
+  id              BIGSERIAL PRIMARY KEY,
+  thread_id       BIGINT NOT NULL REFERENCES event_threads(id) ON DELETE CASCADE,
+  from_event_id   BIGINT NOT NULL REFERENCES events(id) ON DELETE CASCADE,
+  to_event_id     BIGINT NOT NULL REFERENCES events(id) ON DELETE CASCADE,
+
+  link_type       TEXT NOT NULL CHECK (link_type IN ('follow_up', 'escalation', 'resolution', 'response')),
+  score           DOUBLE PRECISION NOT NULL,
+  score_breakdown JSONB,                    -- geo/time/type components
+  status          TEXT NOT NULL DEFAULT 'proposed', -- proposed, confirmed, rejected
+  proposed_by     TEXT NOT NULL,            -- algorithm version, or analyst
+
+  created_at      TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at      TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+  UNIQUE (from_event_id, to_event_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_event_thread_links_thread ON event_thread_links(thread_id);
+CREATE INDEX IF NOT EXISTS idx_event_thread_links_to ON event_thread_links(to_event_id);
+
+-- ============================================
+-- EVENT_EMBEDDINGS: Semantic vectors for clustering
+-- ============================================
+-- Plain REAL[] (no pgvector dependency); cosine similarity is computed in
+-- the clustering service over a small candidate set.
+CREATE TABLE IF NOT EXISTS event_embeddings (
+  event_id        BIGINT PRIMARY KEY REFERENCES events(id) ON DELETE CASCADE,
+  provider        TEXT NOT NULL,   -- openai, local
+  model           TEXT NOT NULL,
+  dimensions      INTEGER NOT NULL,
+  embedding       REAL[] NOT NULL,
+  text_hash       TEXT NOT NULL,   -- sha256 of the embedded title + summary; re-embed when it changes
+
+  created_at      TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at      TIMESTAMPTZ NOT NULL DEFAULT NOW()
 );
 
-CREATE INDEX IF NOT EXISTS idx_protected_areas_geom ON protected_areas USING GIST (geom_boundary);
-CREATE INDEX IF NOT EXISTS idx_protected_areas_country ON protected_areas(country);
-CREATE INDEX IF NOT EXISTS idx_protected_areas_wdpa ON protected_areas(wdpa_id);
+CREATE INDEX IF NOT EXISTS idx_event_embeddings_model ON event_embeddings(model);
+
+-- ============================================
+-- PROTECTED_AREAS: Reference data
+-- ============================================
+-- Defined in protected_areas.sql (the WDPA model: geom, centroid, iso3,
+-- gis_area_km2, wdpa_release). Databases created with the older table
+-- here (geom_boundary/geom_centroid/country/area_km2) are converted by
+-- migrate_protected_areas_to_wdpa.sql.
+
+-- ============================================
+-- EVENT_PROTECTED_AREAS: Every protected area an event touches (GEO_JOIN)
+-- ============================================
+-- Replaced on each GEO_JOIN run. No foreign key to protected_areas: a WDPA
+-- refresh replaces its rows, and the backfill recomputes these against the
+-- new release (wdpa_id stays stable across releases).
+CREATE TABLE IF NOT EXISTS event_protected_areas (
+  event_id          BIGINT NOT NULL REFERENCES events(id) ON DELETE CASCADE,
+  protected_area_id BIGINT NOT NULL,
+  wdpa_id           BIGINT,
+  wdpa_release      TEXT,
+
+  relation          TEXT NOT NULL CHECK (relation IN ('inside', 'overlaps')), -- inside: the area covers the whole point/footprint
+  overlap_fraction  DOUBLE PRECISION NOT NULL,  -- share of the footprint (area, or length for a line) inside the area; 1 for a point
+  overlap_hectares  DOUBLE PRECISION,           -- polygon footprints only
+
+  computed_at       TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+  PRIMARY KEY (event_id, protected_area_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_event_protected_areas_area ON event_protected_areas(protected_area_id);
+CREATE INDEX IF NOT EXISTS idx_event_protected_areas_wdpa ON event_protected_areas(wdpa_id);
 
 -- ============================================
 -- CLASSROOM_EPISODES: Generated educational content
@@ -315,6 +512,7 @@ CREATE TABLE IF NOT EXISTS rss_feed_configs (
   
   priority        TEXT DEFAULT 'normal', -- high, normal, low
   scrape_interval INTEGER DEFAULT 120, -- minutes
+  source_group    TEXT NOT NULL DEFAULT 'global', -- matched against INGEST payload.source_group
   
   is_active       BOOLEAN DEFAULT true,
   last_scraped_at TIMESTAMPTZ,
@@ -324,6 +522,7 @@ CREATE TABLE IF NOT EXISTS rss_feed_configs (
 );
 
 CREATE INDEX IF NOT EXISTS idx_rss_feeds_active ON rss_feed_configs(is_active);
+CREATE INDEX IF NOT EXISTS idx_rss_feeds_group ON rss_feed_configs(source_group);
 
 -- ============================================
 -- JOB_LOGS: Pipeline monitoring
@@ -508,16 +707,20 @@ BEGIN
 END;
 $$ language 'plpgsql';
 
--- Apply trigger to all tables with updated_at
+-- Apply trigger to all tables with updated_at (not views: protected_areas_latest
+-- and events_full_context select updated_at too)
 DO $$
 DECLARE
   t text;
 BEGIN
   FOR t IN 
-    SELECT table_name 
-    FROM information_schema.columns 
-    WHERE column_name = 'updated_at' 
-      AND table_schema = 'public'
+    SELECT c.table_name 
+    FROM information_schema.columns c
+    JOIN information_schema.tables tb
+      ON tb.table_schema = c.table_schema AND tb.table_name = c.table_name
+    WHERE c.column_name = 'updated_at' 
+      AND c.table_schema = 'public'
+      AND tb.table_type = 'BASE TABLE'
   LOOP
     EXECUTE format('
       DROP TRIGGER IF EXISTS update_%I_updated_at ON %I;
@@ -655,10 +858,10 @@ BEGIN
   JOIN event_organizations eo ON o.id = eo.organization_id
   JOIN events e ON eo.event_id = e.id
   WHERE e.status = 'active'
-    AND e.geom_point IS NOT NULL
+    AND e.geom_extent IS NOT NULL
     AND e.created_at >= time_start
     AND ST_DWithin(
-      e.geom_point::geography,
+      e.geom_extent::geography,
       ST_SetSRID(ST_MakePoint(center_lng, center_lat), 4326)::geography,
       radius_meters
     )
@@ -693,10 +896,10 @@ BEGIN
     SELECT e.*
     FROM events e
     WHERE e.status = 'active'
-      AND e.geom_point IS NOT NULL
+      AND e.geom_extent IS NOT NULL
       AND e.created_at >= time_start
       AND ST_DWithin(
-        e.geom_point::geography,
+        e.geom_extent::geography,
         ST_SetSRID(ST_MakePoint(center_lng, center_lat), 4326)::geography,
         radius_meters
       )
@@ -717,7 +920,7 @@ BEGIN
     SELECT id
     FROM protected_areas
     WHERE ST_DWithin(
-      COALESCE(geom_boundary, geom_centroid)::geography,
+      geom::geography,
       ST_SetSRID(ST_MakePoint(center_lng, center_lat), 4326)::geography,
       radius_meters
     )
@@ -771,14 +974,14 @@ BEGIN
     e.id,
     e.title,
     ST_Distance(
-      e.geom_point::geography,
+      e.geom_extent::geography,
       ST_SetSRID(ST_MakePoint(center_lng, center_lat), 4326)::geography
     ) / 1000.0 as distance_km
   FROM events e
   WHERE e.status = 'active'
-    AND e.geom_point IS NOT NULL
+    AND e.geom_extent IS NOT NULL
     AND ST_DWithin(
-      e.geom_point::geography,
+      e.geom_extent::geography,
       ST_SetSRID(ST_MakePoint(center_lng, center_lat), 4326)::geography,
       radius_km * 1000
     )
@@ -786,30 +989,38 @@ BEGIN
 END;
 $$ LANGUAGE plpgsql;
 
--- Check if event is inside any protected area
+-- Check if event is inside (or, with a footprint, overlaps) any protected area
+DROP FUNCTION IF EXISTS check_protected_area_overlap(BIGINT);
 CREATE OR REPLACE FUNCTION check_protected_area_overlap(event_id BIGINT)
 RETURNS TABLE (
   protected_area_id BIGINT,
   protected_area_name TEXT,
   is_inside BOOLEAN,
-  distance_km DOUBLE PRECISION
+  distance_km DOUBLE PRECISION,
+  overlap_hectares DOUBLE PRECISION
 ) AS $$
 BEGIN
   RETURN QUERY
-  WITH event_point AS (
-    SELECT geom_point FROM events WHERE id = event_id
+  WITH event_geom AS (
+    SELECT geom_extent, geom_footprint FROM events WHERE id = event_id
   )
   SELECT 
     pa.id,
     pa.name,
-    ST_Contains(pa.geom_boundary, ep.geom_point) as is_inside,
+    ST_Intersects(pa.geom, eg.geom_extent) as is_inside,
     CASE 
-      WHEN ST_Contains(pa.geom_boundary, ep.geom_point) THEN 0
-      ELSE ST_Distance(pa.geom_boundary::geography, ep.geom_point::geography) / 1000.0
-    END as distance_km
-  FROM protected_areas pa, event_point ep
-  WHERE ST_DWithin(pa.geom_boundary::geography, ep.geom_point::geography, 100000) -- 100km
-  ORDER BY distance_km
+      WHEN ST_Intersects(pa.geom, eg.geom_extent) THEN 0
+      ELSE ST_Distance(pa.geom::geography, eg.geom_extent::geography) / 1000.0
+    END as distance_km,
+    CASE
+      WHEN GeometryType(eg.geom_footprint) IN ('POLYGON', 'MULTIPOLYGON')
+        AND ST_Intersects(pa.geom, eg.geom_footprint)
+      THEN ST_Area(ST_Intersection(pa.geom, eg.geom_footprint)::geography) / 10000.0
+      ELSE NULL
+    END as overlap_hectares
+  FROM protected_areas pa, event_geom eg
+  WHERE ST_DWithin(pa.geom::geography, eg.geom_extent::geography, 100000) -- 100km
+  ORDER BY distance_km, overlap_hectares DESC NULLS LAST
   LIMIT 10;
 END;
 $$ LANGUAGE plpgsql;
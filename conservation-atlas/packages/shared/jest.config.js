@@ -0,0 +1,12 @@
+/** @type {import('jest').Config} */
+module.exports = {
+  testEnvironment: 'node',
+  transform: {
+    // The root tsconfig targets NodeNext; jest loads CommonJS
+    '^.+\\.ts$': ['ts-jest', { tsconfig: { module: 'commonjs', moduleResolution: 'node' } }],
+  },
+  moduleNameMapper: {
+    '^@conservation-atlas/shared/(.*)$': '<rootDir>/../shared/src/$1',
+  },
+  passWithNoTests: true,
+};
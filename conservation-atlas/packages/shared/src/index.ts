@@ -7,4 +7,3 @@ export * from './types/placeBrief.types';
 export * from './validators/ajv';
 
 // Utilities
-export * from './eventCluster';
@@ -93,7 +93,7 @@ export interface ProtectedAreaBrief {
   name: string;
   designation: string | null;
   iucn_category: string | null;
-  country: string;
+  country: string | null;       // WDPA ISO3 code(s), e.g. "KEN" or "KEN;TZA"
   external_id: string | null;
   source: 'wdpa' | 'national' | 'local';
   relation: 'inside' | 'near';
@@ -141,6 +141,8 @@ export interface EventBrief {
       lat: number;
       lng: number;
     } | null;
+    /** GeoJSON area or line the event covers, when reported */
+    footprint: EventFootprint | null;
     geocoding_precision: 'exact' | 'approximate' | 'centroid' | null;
     distance_km: number;
   };
@@ -183,6 +185,12 @@ export interface EventBrief {
   };
 }
 
+/** GeoJSON geometry ([longitude, latitude] positions) */
+export type EventFootprint =
+  | { type: 'LineString'; coordinates: number[][] }
+  | { type: 'Polygon'; coordinates: number[][][] }
+  | { type: 'MultiPolygon'; coordinates: number[][][][] };
+
 // ============================================
 // Organizations
 // ============================================
@@ -4,6 +4,7 @@ export const JOB_TYPES = [
   "INGEST",
   "EXTRACT",
   "CLUSTER",
+  "THREAD",
   "GEO_JOIN",
   "ALERTS",
   "VIDEO_BRIEF",
@@ -70,6 +71,20 @@ export interface ClusterJobMessage extends BaseJobMessage {
   payload: {
     event_id?: number;              // cluster around a specific event
     window_hours?: number;          // or cluster recent events
+    batch?: boolean;                // window only: resolve clusters globally (batchCluster)
+    dry_run?: boolean;              // batch only: report proposed merges, apply nothing
+    profile?: string;               // named cluster profile (default: built-in)
+  };
+}
+
+// ============================================
+// THREAD: Link related events into storylines
+// ============================================
+export interface ThreadJobMessage extends BaseJobMessage {
+  job_type: "THREAD";
+  payload: {
+    event_id?: number;              // propose links for a specific event
+    window_hours?: number;          // or for events created in the window
   };
 }
 
@@ -79,7 +94,9 @@ export interface ClusterJobMessage extends BaseJobMessage {
 export interface GeoJoinJobMessage extends BaseJobMessage {
   job_type: "GEO_JOIN";
   payload: {
-    event_id: number;
+    event_id?: number;              // join one event (enqueued by CLUSTER)
+    backfill?: boolean;             // or join every event not yet joined against the current WDPA release
+    after_event_id?: number;        // backfill only: resume after this event id
   };
 }
 
@@ -142,6 +159,7 @@ export type JobMessage =
   | IngestJobMessage
   | ExtractJobMessage
   | ClusterJobMessage
+  | ThreadJobMessage
   | GeoJoinJobMessage
   | AlertsJobMessage
   | VideoBriefJobMessage
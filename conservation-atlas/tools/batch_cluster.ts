@@ -0,0 +1,110 @@
+// tools/batch_cluster.ts
+//
+// Batch re-clustering of a time window (see batchCluster.ts).
+// Dry run by default: prints the proposed clusters and merges, with the
+// direct similarity of each event to its cluster's primary. Pass --apply
+// to merge. Components that would fold two existing clusters together or
+// re-merge an analyst's split are reported but never applied.
+//
+// Usage:
+//   npx ts-node tools/batch_cluster.ts --hours 168 [--profile strict] [--apply] [--out ./batch.json]
+//   npx ts-node tools/batch_cluster.ts --since 2026-01-01 --until 2026-02-01
+//
+// Profiles: 'default' (built-in), a cluster_profiles row, or an entry in
+// the CLUSTER_PROFILES_FILE JSON file.
+
+import { writeFileSync } from "node:fs";
+
+import { batchCluster, type BatchClusterResult } from "../packages/api/src/services/deduplication/batchCluster";
+import { loadClusterProfile } from "../packages/api/src/services/deduplication/clusterProfiles";
+
+type Args = {
+  since: Date;
+  until?: Date;
+  profile?: string;
+  apply: boolean;
+  out?: string;
+};
+
+function parseArgs(argv: string[]): Args {
+  const out: any = { apply: false };
+  let hours: number | undefined;
+  for (let i = 2; i < argv.length; i++) {
+    const a = argv[i];
+    const n = argv[i + 1];
+    // Boolean flags take no value
+    if (a === "--apply") { out.apply = true; continue; }
+    if (a === "--hours") hours = Number(n);
+    if (a === "--since") out.since = new Date(n);
+    if (a === "--until") out.until = new Date(n);
+    if (a === "--profile") out.profile = n;
+    if (a === "--out") out.out = n;
+    if (a.startsWith("--")) i++;
+  }
+  if (hours !== undefined) {
+    if (!(hours > 0)) throw new Error("--hours must be a positive number");
+    out.since = new Date(Date.now() - hours * 60 * 60 * 1000);
+  }
+  if (!out.since) throw new Error("Missing --hours or --since");
+  if (Number.isNaN(out.since.getTime())) throw new Error("--since is not a valid date");
+  if (out.until && Number.isNaN(out.until.getTime())) throw new Error("--until is not a valid date");
+  return out as Args;
+}
+
+function printReport(result: BatchClusterResult) {
+  console.log(
+    `${result.dryRun ? "DRY RUN" : "APPLIED"} profile=${result.profile} ${result.since} .. ${result.until}: ` +
+    `${result.eventsConsidered} events, ${result.pairsScored} pairs scored, ${result.edges} edges, ` +
+    `${result.clusters.length} clusters, ${result.merged} merged`
+  );
+
+  for (const cluster of result.clusters) {
+    const status = cluster.conflicts.length
+      ? `needs review (${cluster.conflicts.join(", ")})`
+      : cluster.applied ? "applied" : result.dryRun ? "proposed" : "not applied";
+    console.log("");
+    console.log(`cluster -> ${cluster.primaryEventId} [${cluster.eventIds.length} events] ${status}`);
+
+    for (const merge of cluster.merges) {
+      const direct = merge.similarity.score.toFixed(3);
+      const via = merge.linkedVia.eventId === merge.primaryEventId
+        ? ""
+        : `  via ${merge.linkedVia.eventId} (${merge.linkedVia.score.toFixed(3)})`;
+      console.log(`  ${merge.mergedEventId.padEnd(12)} score ${direct}${via}`);
+    }
+  }
+
+  for (const f of result.failures) {
+    console.log(`  ! ${f.primaryEventId}: ${f.error}`);
+  }
+}
+
+async function main() {
+  const args = parseArgs(process.argv);
+  const profile = await loadClusterProfile(args.profile);
+
+  console.error(`(info) profile=${profile.name} (${profile.source}) | ${args.apply ? "apply" : "dry run"}`);
+
+  const result = await batchCluster({
+    since: args.since,
+    until: args.until,
+    profile,
+    dryRun: !args.apply,
+  });
+
+  printReport(result);
+
+  if (args.out) {
+    // mergeResults repeat what the clusters already show
+    const { mergeResults: _mergeResults, ...report } = result;
+    writeFileSync(args.out, JSON.stringify(report, null, 2));
+    console.error(`(info) Wrote ${args.out}`);
+  }
+
+  if (result.failures.length) process.exit(1);
+}
+
+main().catch((err) => {
+  console.error(`(error) ${(err as Error).message}`);
+  process.exit(1);
+});
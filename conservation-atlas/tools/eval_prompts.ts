@@ -0,0 +1,141 @@
+// tools/eval_prompts.ts
+//
+// A/B evaluation of two extraction prompt versions against a gold set.
+// Replays every labelled source through both versions and reports per-field
+// agreement (event_type.primary, severity.level, country, coordinates
+// within --km) plus token cost. Does not touch the database.
+//
+// Usage:
+//   npx ts-node tools/eval_prompts.ts \
+//     --gold ./gold/extraction_gold.jsonl \
+//     --a extract-v1 --b extract-v2 \
+//     [--provider openai] [--km 50] [--limit 20] [--out ./prompt_eval.json]
+//
+// --gold also accepts a gold-set directory (e.g. packages/api/gold/extraction).
+// --provider defaults to EXTRACT_PROVIDER (same chain and fallback as the
+// EXTRACT job). Use --provider fake for a free dry run of the harness.
+
+import { writeFileSync } from "node:fs";
+
+import type { ProviderName } from "../packages/api/src/services/extraction/extractionProvider";
+import { resolveProviderChain } from "../packages/api/src/services/extraction/providerChain";
+import { getPrompt, listPromptVersions } from "../packages/api/src/services/extraction/promptRegistry";
+import { DEFAULT_COORD_TOLERANCE_KM } from "../packages/api/src/services/extraction/goldRegression";
+import {
+  comparePrompts,
+  loadGoldSet,
+  EVAL_FIELDS,
+  type PromptComparison,
+  type PromptEvalReport,
+} from "../packages/api/src/services/extraction/promptEval";
+
+type Args = {
+  gold: string;
+  a: string;
+  b: string;
+  provider?: ProviderName;
+  km: number;
+  limit?: number;
+  out?: string;
+};
+
+function parseArgs(argv: string[]): Args {
+  const out: any = { km: DEFAULT_COORD_TOLERANCE_KM };
+  for (let i = 2; i < argv.length; i++) {
+    const a = argv[i];
+    const n = argv[i + 1];
+    if (a === "--gold") out.gold = n;
+    if (a === "--a") out.a = n;
+    if (a === "--b") out.b = n;
+    if (a === "--provider") out.provider = n;
+    if (a === "--km") out.km = Number(n);
+    if (a === "--limit") out.limit = Number(n);
+    if (a === "--out") out.out = n;
+    if (a.startsWith("--")) i++;
+  }
+  if (!out.gold) throw new Error("Missing --gold (JSONL file or gold-set directory)");
+  if (!out.a || !out.b) {
+    throw new Error(`Missing --a/--b prompt versions (known: ${listPromptVersions().join(", ")})`);
+  }
+  if (!(out.km > 0)) throw new Error("--km must be a positive number");
+  return out as Args;
+}
+
+function pct(n: number | null): string {
+  return n === null ? "   n/a" : `${(n * 100).toFixed(1).padStart(5)}%`;
+}
+
+function signedPct(n: number | null): string {
+  if (n === null) return "n/a";
+  return `${n >= 0 ? "+" : ""}${(n * 100).toFixed(1)}pp`;
+}
+
+function summaryLine(report: PromptEvalReport): string {
+  return `${report.promptVersion}: ${report.valid}/${report.samples} valid, ` +
+    `${report.invalid} invalid, ${report.providerErrors} provider errors, ` +
+    `${report.usage.inputTokens + report.usage.outputTokens} tokens, $${report.usage.costUsd.toFixed(4)}`;
+}
+
+function printComparison(cmp: PromptComparison, km: number) {
+  const { a, b } = cmp;
+  const label = (field: string) => (field === "coordinates" ? `coordinates (<=${km}km)` : field).padEnd(22);
+
+  console.log(summaryLine(a));
+  console.log(summaryLine(b));
+  console.log("");
+  console.log(`${"field".padEnd(22)} ${a.promptVersion.padStart(12)} ${b.promptVersion.padStart(12)}   delta   (n)`);
+
+  for (const field of EVAL_FIELDS) {
+    const fa = a.fields[field];
+    const fb = b.fields[field];
+    console.log(
+      `${label(field)} ${pct(fa.agreement).padStart(12)} ${pct(fb.agreement).padStart(12)}   ` +
+      `${signedPct(cmp.delta[field]).padEnd(7)} (${fa.scored})`
+    );
+  }
+
+  if (cmp.flips.length) {
+    console.log("");
+    console.log(`Flips (${cmp.flips.length}):`);
+    for (const flip of cmp.flips.slice(0, 50)) {
+      console.log(`  ${flip.id.padEnd(24)} ${flip.field.padEnd(12)} ${flip.a} -> ${flip.b}`);
+    }
+    if (cmp.flips.length > 50) console.log(`  ... ${cmp.flips.length - 50} more (see --out)`);
+  }
+}
+
+async function main() {
+  const args = parseArgs(process.argv);
+  const promptA = getPrompt(args.a);
+  const promptB = getPrompt(args.b);
+
+  let samples = loadGoldSet(args.gold);
+  if (args.limit) samples = samples.slice(0, args.limit);
+  if (!samples.length) throw new Error(`No samples in ${args.gold}`);
+
+  const providers = resolveProviderChain(args.provider);
+  console.error(
+    `(info) ${samples.length} samples | ${promptA.version} vs ${promptB.version} | ` +
+    `providers=${providers.map((p) => `${p.name}:${p.model}`).join(",")}`
+  );
+
+  const cmp = await comparePrompts(promptA, promptB, samples, {
+    providers,
+    coordToleranceKm: args.km,
+    onSample: (version, result, index) => {
+      console.error(`(info) [${version}] ${index + 1}/${samples.length} ${result.id}: ${result.status}`);
+    },
+  });
+
+  printComparison(cmp, args.km);
+
+  if (args.out) {
+    writeFileSync(args.out, JSON.stringify({ gold: args.gold, coordToleranceKm: args.km, ...cmp }, null, 2));
+    console.error(`(info) Wrote ${args.out}`);
+  }
+}
+
+main().catch((err) => {
+  console.error(`(error) ${(err as Error).message}`);
+  process.exit(1);
+});
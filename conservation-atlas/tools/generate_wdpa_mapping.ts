@@ -14,8 +14,18 @@
 // Requirements:
 // - GDAL installed and `ogrinfo` available in PATH
 // - Staging table already created with protected_areas schema
-
-import { execSync } from "node:child_process";
+//
+// For the monthly refresh use tools/wdpa_import.ts, which applies the same
+// mapping and swaps the release into place.
+
+import {
+  WDPA_COLUMNS,
+  CRITICAL_COLUMNS,
+  resolveWdpaFields,
+  mappedExpression,
+  sqlString,
+} from "../packages/api/src/services/geo/wdpaImport";
+import { listLayers, getLayerFields } from "./wdpa_layers";
 
 type Args = {
   file: string;
@@ -38,73 +48,6 @@ function parseArgs(argv: string[]): Args {
   return out as Args;
 }
 
-function sh(cmd: string): string {
-  return execSync(cmd, { stdio: ["ignore", "pipe", "pipe"] }).toString("utf8");
-}
-
-function quoteIdent(ident: string): string {
-  // Quote identifiers to preserve case / reserved words
-  return `"${ident.replace(/"/g, '""')}"`;
-}
-
-function normalizeFieldName(s: string): string {
-  return s.replace(/\s+/g, "_").replace(/[^\w]/g, "_").toLowerCase();
-}
-
-function buildFieldIndex(fields: string[]): Map<string, string> {
-  const m = new Map<string, string>();
-  for (const f of fields) m.set(normalizeFieldName(f), f);
-  return m;
-}
-
-function pickField(fieldIndex: Map<string, string>, candidates: string[]): string | null {
-  for (const c of candidates) {
-    const found = fieldIndex.get(normalizeFieldName(c));
-    if (found) return found;
-  }
-  return null;
-}
-
-function listLayers(file: string): string[] {
-  const raw = sh(`ogrinfo -json ${JSON.stringify(file)}`);
-  const j = JSON.parse(raw);
-  const layers: string[] = [];
-  if (Array.isArray(j.layers)) {
-    for (const L of j.layers) {
-      if (typeof L.name === "string") layers.push(L.name);
-    }
-  }
-  return layers;
-}
-
-function getLayerFields(file: string, layer: string): string[] {
-  const raw = sh(`ogrinfo -json ${JSON.stringify(file)} ${JSON.stringify(layer)}`);
-  const j = JSON.parse(raw);
-
-  const layerObj =
-    (Array.isArray(j.layers) && j.layers[0]) ||
-    (Array.isArray(j.layer) && j.layer[0]) ||
-    j;
-
-  const fieldsObj =
-    layerObj?.fields ||
-    layerObj?.fieldDefinitions ||
-    layerObj?.featureType?.properties ||
-    null;
-
-  if (fieldsObj && typeof fieldsObj === "object" && !Array.isArray(fieldsObj)) {
-    return Object.keys(fieldsObj);
-  }
-
-  if (Array.isArray(layerObj?.fieldDefinitions)) {
-    return layerObj.fieldDefinitions
-      .map((x: any) => x?.name)
-      .filter((x: any) => typeof x === "string");
-  }
-
-  throw new Error(`Could not parse fields for layer ${layer}. Try: ogrinfo -so -al ${file}`);
-}
-
 function main() {
   const args = parseArgs(process.argv);
   const file = args.file;
@@ -118,79 +61,18 @@ function main() {
   }
 
   const fields = getLayerFields(file, layer);
-  const fieldIndex = buildFieldIndex(fields);
-
-  // Canonical column -> possible WDPA field names (synonyms/case variants)
-  const mappingCandidates: Record<string, string[]> = {
-    wdpa_id: ["WDPAID", "WDPA_ID", "wdpaid", "wdpa_id"],
-    wdpa_pid: ["WDPA_PID", "WDPA_PID_", "wdpa_pid"],
-    name: ["NAME", "PA_NAME", "name"],
-    designation: ["DESIG", "DESIGNATION", "desig"],
-    designation_type: ["DESIG_TYPE", "DESIGTYPE", "designation_type"],
-    iucn_category: ["IUCN_CAT", "IUCN_CATEGORY", "iucn_cat"],
-    status: ["STATUS", "status"],
-    status_year: ["STATUS_YR", "STATUS_YEAR", "status_yr"],
-    gov_type: ["GOV_TYPE", "GOVTYPE", "gov_type"],
-    own_type: ["OWN_TYPE", "OWNTYPE", "own_type"],
-    mang_auth: ["MANG_AUTH", "MANGAUTH", "mang_auth"],
-    mang_plan: ["MANG_PLAN", "MANGPLAN", "mang_plan"],
-    verif: ["VERIF", "VERIFICATION", "verif"],
-    iso3: ["ISO3", "ISO", "iso3"],
-    parent_iso3: ["PARENT_ISO3", "PARENTISO3", "parent_iso3"],
-    marine: ["MARINE", "marine"],
-    reported_area_km2: ["REP_AREA", "REP_AREA_KM2", "reported_area", "rep_area"],
-    gis_area_km2: ["GIS_AREA", "gis_area"],
-    gis_m_area_km2: ["GIS_M_AREA", "GIS_MARINE_AREA", "gis_m_area"],
-  };
-
-  const resolved: Record<string, string | null> = {};
-  const missing: string[] = [];
-
-  for (const [canonical, candidates] of Object.entries(mappingCandidates)) {
-    const picked = pickField(fieldIndex, candidates);
-    resolved[canonical] = picked;
-    if (!picked) missing.push(canonical);
-  }
+  const { resolved, missing } = resolveWdpaFields(fields);
 
   // Build SQL SET clauses
   const setClauses: string[] = [];
-
-  function setIfPresent(targetCol: string, sourceField: string | null, cast?: string) {
-    if (!sourceField) return;
-    const src = quoteIdent(sourceField);
-    if (cast) setClauses.push(`${targetCol} = (${src})::${cast}`);
-    else setClauses.push(`${targetCol} = ${src}`);
+  for (const column of WDPA_COLUMNS) {
+    const expr = mappedExpression(column, resolved[column.column]);
+    if (expr) setClauses.push(`${column.column} = ${expr}`);
   }
 
-  // Required
-  setIfPresent("wdpa_id", resolved.wdpa_id, "bigint");
-  setIfPresent("wdpa_pid", resolved.wdpa_pid);
-  setIfPresent("name", resolved.name);
-
-  // Classification
-  setIfPresent("designation", resolved.designation);
-  setIfPresent("designation_type", resolved.designation_type);
-  setIfPresent("iucn_category", resolved.iucn_category);
-  setIfPresent("status", resolved.status);
-  setIfPresent("status_year", resolved.status_year, "int");
-  setIfPresent("gov_type", resolved.gov_type);
-  setIfPresent("own_type", resolved.own_type);
-  setIfPresent("mang_auth", resolved.mang_auth);
-  setIfPresent("mang_plan", resolved.mang_plan);
-  setIfPresent("verif", resolved.verif);
-
-  // Geography
-  setIfPresent("iso3", resolved.iso3);
-  setIfPresent("parent_iso3", resolved.parent_iso3);
-  setIfPresent("marine", resolved.marine);
-
-  // Areas
-  setIfPresent("reported_area_km2", resolved.reported_area_km2, "double precision");
-  setIfPresent("gis_area_km2", resolved.gis_area_km2, "double precision");
-  setIfPresent("gis_m_area_km2", resolved.gis_m_area_km2, "double precision");
-
   // Always set these
-  setClauses.push(`wdpa_release = ${JSON.stringify(args.release)}`);
+  // A string literal, not JSON's double quotes (an identifier in SQL)
+  setClauses.push(`wdpa_release = ${sqlString(args.release)}`);
   setClauses.push(`source = 'wdpa'`);
   setClauses.push(`centroid = ST_Centroid(geom)`);
 
@@ -227,7 +109,7 @@ function main() {
     );
   }
 
-  const criticalMissing = ["wdpa_id", "name"].filter((k) => !resolved[k]);
+  const criticalMissing = CRITICAL_COLUMNS.filter((k) => !resolved[k]);
   if (criticalMissing.length) {
     console.error(
       `(error) Critical fields missing: ${criticalMissing.join(", ")}. Wrong layer or file?`
@@ -0,0 +1,68 @@
+// tools/geo_join_backfill.ts
+//
+// Join existing events to protected areas (see protectedAreaJoin.ts)
+// without going through the queue. Processes every unmerged event that was
+// never joined or was joined against an older wdpa_release, in batches by
+// event id; run it after each WDPA import. Failed events are listed and
+// skipped.
+//
+// Usage:
+//   npx ts-node tools/geo_join_backfill.ts [--batch 500] [--after 12345]
+
+import { backfillProtectedAreaJoins } from "../packages/api/src/services/geo/protectedAreaJoin";
+
+type Args = {
+  batch: number;
+  after?: string;
+};
+
+function parseArgs(argv: string[]): Args {
+  const out: any = { batch: 500 };
+  for (let i = 2; i < argv.length; i++) {
+    const a = argv[i];
+    const n = argv[i + 1];
+    if (a === "--batch") out.batch = Number(n);
+    if (a === "--after") out.after = n;
+    if (a.startsWith("--")) i++;
+  }
+  if (!(out.batch > 0)) throw new Error("--batch must be a positive number");
+  if (out.after !== undefined && !/^\d+$/.test(out.after)) throw new Error("--after must be an event id");
+  return out as Args;
+}
+
+async function main() {
+  const args = parseArgs(process.argv);
+
+  let afterEventId = args.after ?? null;
+  let processed = 0;
+  let inside = 0;
+  let near = 0;
+  const failures: Array<{ eventId: string; error: string }> = [];
+
+  for (;;) {
+    const batch = await backfillProtectedAreaJoins({ afterEventId, limit: args.batch });
+
+    processed += batch.results.length;
+    inside += batch.results.filter((r) => r.isInside).length;
+    near += batch.results.filter((r) => !r.isInside && r.nearestProtectedAreaId !== null).length;
+    failures.push(...batch.failures);
+
+    if (batch.lastEventId !== null) {
+      console.error(`(info) release=${batch.wdpaRelease ?? "none"} joined through event ${batch.lastEventId} (${processed} events)`);
+    }
+    if (batch.done || batch.lastEventId === null) break;
+    afterEventId = batch.lastEventId;
+  }
+
+  console.log(`${processed} events joined: ${inside} inside a protected area, ${near} near one, ${failures.length} failed`);
+  for (const f of failures) {
+    console.log(`  ! ${f.eventId}: ${f.error}`);
+  }
+
+  if (failures.length) process.exit(1);
+}
+
+main().catch((err) => {
+  console.error(`(error) ${(err as Error).message}`);
+  process.exit(1);
+});
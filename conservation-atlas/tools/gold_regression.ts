@@ -0,0 +1,200 @@
+// tools/gold_regression.ts
+//
+// Extraction quality regression gate.
+// Runs a gold-set directory through the extraction pipeline (prompt,
+// provider, schema validation, validateGeolocation), prints precision /
+// recall / accuracy per schema field and exits non-zero when any metric
+// drops more than --max-drop below the stored baseline.
+//
+// Usage:
+//   npx ts-node tools/gold_regression.ts --dir packages/api/gold/extraction \
+//     [--prompt extract-v2] [--provider recorded] [--km 50] [--max-drop 0.02] \
+//     [--record] [--update-baseline] [--out ./gold_report.json]
+//
+// Providers:
+//   recorded (default)  replay <dir>/recordings/<prompt>/<case>.json; free and deterministic
+//   fake                deterministic keyword extractor (exercises the harness only)
+//   openai|anthropic|gemini  live calls; add --record to refresh the recordings
+//
+// Baselines live in <dir>/baselines/<provider>-<prompt>.json. Accept an
+// intentional change with --update-baseline and commit the new file.
+
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from "node:fs";
+import { join } from "node:path";
+
+import type { ExtractionProvider, ProviderName } from "../packages/api/src/services/extraction/extractionProvider";
+import { resolveProviderChain } from "../packages/api/src/services/extraction/providerChain";
+import { getPrompt, DEFAULT_PROMPT_VERSION } from "../packages/api/src/services/extraction/promptRegistry";
+import { loadRecordedProvider, saveRecording } from "../packages/api/src/services/extraction/recordedProvider";
+import {
+  compareToBaseline,
+  loadGoldCases,
+  runGoldSet,
+  toBaseline,
+  DEFAULT_COORD_TOLERANCE_KM,
+  DEFAULT_MAX_DROP,
+  type Baseline,
+  type Regression,
+  type RegressionReport,
+} from "../packages/api/src/services/extraction/goldRegression";
+
+type Args = {
+  dir: string;
+  prompt: string;
+  provider: ProviderName;
+  km: number;
+  maxDrop: number;
+  record: boolean;
+  updateBaseline: boolean;
+  out?: string;
+};
+
+function parseArgs(argv: string[]): Args {
+  const out: any = {
+    prompt: DEFAULT_PROMPT_VERSION,
+    provider: "recorded",
+    km: DEFAULT_COORD_TOLERANCE_KM,
+    maxDrop: DEFAULT_MAX_DROP,
+    record: false,
+    updateBaseline: false,
+  };
+  for (let i = 2; i < argv.length; i++) {
+    const a = argv[i];
+    const n = argv[i + 1];
+    // Boolean flags take no value
+    if (a === "--record") { out.record = true; continue; }
+    if (a === "--update-baseline") { out.updateBaseline = true; continue; }
+    if (a === "--dir") out.dir = n;
+    if (a === "--prompt") out.prompt = n;
+    if (a === "--provider") out.provider = n;
+    if (a === "--km") out.km = Number(n);
+    if (a === "--max-drop") out.maxDrop = Number(n);
+    if (a === "--out") out.out = n;
+    if (a.startsWith("--")) i++;
+  }
+  if (!out.dir) throw new Error("Missing --dir (gold-set directory)");
+  if (!(out.km > 0)) throw new Error("--km must be a positive number");
+  if (!(out.maxDrop >= 0)) throw new Error("--max-drop must be >= 0");
+  if (out.record && (out.provider === "recorded" || out.provider === "fake")) {
+    throw new Error("--record needs a live provider (--provider openai|anthropic|gemini)");
+  }
+  return out as Args;
+}
+
+function baselinePath(args: Args): string {
+  return join(args.dir, "baselines", `${args.provider}-${args.prompt}.json`);
+}
+
+function fmt(n: number | null): string {
+  return n === null ? "  n/a" : n.toFixed(3);
+}
+
+function printReport(report: RegressionReport, baseline: Baseline | null) {
+  console.log(
+    `${report.promptVersion} via ${report.providers.join(",")}: ${report.valid}/${report.cases} valid, ` +
+    `${report.invalid} invalid, ${report.providerErrors} provider errors, ${report.repaired} repaired, ` +
+    `$${report.usage.costUsd.toFixed(4)}`
+  );
+  console.log(`events: precision ${fmt(report.events.precision)}  recall ${fmt(report.events.recall)}`);
+  console.log("");
+  console.log(`${"field".padEnd(36)} ${"prec".padStart(6)} ${"recall".padStart(6)} ${"acc".padStart(6)} ${"base acc".padStart(8)}  (n)`);
+
+  for (const [name, m] of Object.entries(report.fields)) {
+    const base = baseline?.fields[name]?.accuracy ?? null;
+    console.log(
+      `${name.padEnd(36)} ${fmt(m.precision).padStart(6)} ${fmt(m.recall).padStart(6)} ${fmt(m.accuracy).padStart(6)} ` +
+      `${fmt(base).padStart(8)}  (${m.n})`
+    );
+  }
+
+  const failed = report.results.filter((r) => r.status !== "valid");
+  for (const r of failed) {
+    console.log(`  ! ${r.id}: ${r.status} (${r.error})`);
+  }
+}
+
+function printRegressions(regressions: Regression[], maxDrop: number) {
+  console.log("");
+  console.log(`REGRESSION: ${regressions.length} metric(s) dropped more than ${maxDrop}:`);
+  for (const r of regressions) {
+    console.log(`  ${r.metric.padEnd(46)} ${r.baseline.toFixed(3)} -> ${r.current.toFixed(3)} (-${r.drop.toFixed(3)})`);
+  }
+}
+
+async function main() {
+  const args = parseArgs(process.argv);
+  const prompt = getPrompt(args.prompt);
+  const cases = loadGoldCases(args.dir);
+  if (!cases.length) throw new Error(`No gold cases in ${join(args.dir, "cases")}`);
+
+  const providers: ExtractionProvider[] = args.provider === "recorded"
+    ? [loadRecordedProvider(args.dir, prompt.version, cases.map((c) => c.id))]
+    : resolveProviderChain(args.provider);
+
+  console.error(`(info) ${cases.length} gold cases | prompt=${prompt.version} | provider=${args.provider}`);
+
+  const report = await runGoldSet(cases, {
+    providers,
+    prompt,
+    coordToleranceKm: args.km,
+    onCase: (result, index) => {
+      console.error(`(info) ${index + 1}/${cases.length} ${result.id}: ${result.status}`);
+    },
+  });
+
+  if (args.record) {
+    for (const result of report.results) {
+      const gold = cases.find((c) => c.id === result.id)!;
+      if (!result.response) continue;
+      saveRecording(args.dir, {
+        case_id: result.id,
+        prompt_version: prompt.version,
+        source_url: gold.source.url,
+        provider: result.response.provider,
+        model: result.response.model,
+        recorded_at: new Date().toISOString(),
+        usage: result.response.usage,
+        json: result.response.json,
+      });
+    }
+    console.error(`(info) Recordings written to ${join(args.dir, "recordings", prompt.version)}`);
+  }
+
+  const file = baselinePath(args);
+  const baseline: Baseline | null = existsSync(file) ? JSON.parse(readFileSync(file, "utf8")) : null;
+
+  printReport(report, baseline);
+
+  if (args.out) {
+    const { results, ...summary } = report;
+    // Provider responses are large; the recordings already keep them
+    const slim = results.map(({ response: _response, ...rest }) => rest);
+    writeFileSync(args.out, JSON.stringify({ ...summary, results: slim }, null, 2));
+    console.error(`(info) Wrote ${args.out}`);
+  }
+
+  if (args.updateBaseline) {
+    mkdirSync(join(args.dir, "baselines"), { recursive: true });
+    writeFileSync(file, JSON.stringify(toBaseline(report), null, 2) + "\n");
+    console.error(`(info) Baseline updated: ${file}`);
+    return;
+  }
+
+  if (!baseline) {
+    throw new Error(`No baseline at ${file}; review the scores and run with --update-baseline`);
+  }
+
+  const regressions = compareToBaseline(report, baseline, args.maxDrop);
+  if (regressions.length) {
+    printRegressions(regressions, args.maxDrop);
+    process.exit(1);
+  }
+
+  console.log("");
+  console.log(`OK: no metric dropped more than ${args.maxDrop} below baseline`);
+}
+
+main().catch((err) => {
+  console.error(`(error) ${(err as Error).message}`);
+  process.exit(1);
+});
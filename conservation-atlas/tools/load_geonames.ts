@@ -0,0 +1,181 @@
+// tools/load_geonames.ts
+//
+// Load the GeoNames gazetteer into geonames_countries / geonames_places
+// (packages/shared/db/geonames.sql), used to geocode events that were
+// extracted without coordinates.
+// - countryInfo.txt is parsed here into geonames_countries
+// - the places dump is copied into a staging table by psql, filtered to
+//   admin divisions (ADM1, ADM2, countries) and populated places, parks,
+//   water and terrain features, then replaces geonames_places
+//
+// Usage:
+//   npx ts-node tools/load_geonames.ts \
+//     --places ./allCountries.txt \
+//     --countries ./countryInfo.txt \
+//     --release 2026-01-15
+//
+// A per-country file (e.g. KE.txt) works as --places for a partial load.
+//
+// Requirements:
+// - `psql` in PATH
+// - DATABASE_URL set and geonames.sql applied
+
+import { execSync } from "node:child_process";
+import { readFileSync } from "node:fs";
+import { resolve } from "node:path";
+
+type Args = {
+  places: string;
+  countries: string;
+  release: string;
+};
+
+type CountryInfo = {
+  isoA2: string;
+  isoA3: string;
+  name: string;
+  geonameId: number | null;
+};
+
+// Admin feature codes kept from class A (everything else in A is noise for geocoding)
+const ADMIN_FEATURE_CODES = ["ADM1", "ADM2", "PCL", "PCLD", "PCLF", "PCLI", "PCLIX", "PCLS", "TERR"];
+const KEPT_FEATURE_CLASSES = ["P", "L", "H", "T"];
+
+function parseArgs(argv: string[]): Args {
+  const out: any = {};
+  for (let i = 2; i < argv.length; i++) {
+    const a = argv[i];
+    const n = argv[i + 1];
+    if (a === "--places") out.places = n;
+    if (a === "--countries") out.countries = n;
+    if (a === "--release") out.release = n;
+    if (a.startsWith("--")) i++;
+  }
+  if (!out.places) throw new Error("Missing --places (allCountries.txt or a country file)");
+  if (!out.countries) throw new Error("Missing --countries (countryInfo.txt)");
+  if (!out.release) throw new Error("Missing --release (dump date, e.g. 2026-01-15)");
+  return out as Args;
+}
+
+function sh(cmd: string, input?: string): string {
+  return execSync(cmd, { input, stdio: ["pipe", "pipe", "pipe"], maxBuffer: 16 * 1024 * 1024 }).toString("utf8");
+}
+
+function sqlString(s: string): string {
+  return `'${s.replace(/'/g, "''")}'`;
+}
+
+function sqlList(values: string[]): string {
+  return values.map(sqlString).join(", ");
+}
+
+/**
+ * countryInfo.txt: tab-separated, '#' comment lines;
+ * columns 0 ISO, 1 ISO3, 4 Country, 16 geonameid
+ */
+function parseCountryInfo(file: string): CountryInfo[] {
+  return readFileSync(file, "utf8")
+    .split("\n")
+    .filter((line) => line.trim() && !line.startsWith("#"))
+    .map((line) => line.split("\t"))
+    .filter((cols) => cols.length > 16 && cols[0] && cols[1])
+    .map((cols) => ({
+      isoA2: cols[0],
+      isoA3: cols[1],
+      name: cols[4],
+      geonameId: cols[16] ? Number(cols[16]) : null,
+    }));
+}
+
+function buildSql(args: Args, countries: CountryInfo[]): string {
+  const rel = sqlString(args.release);
+  const countryRows = countries
+    .map((c) => `(${sqlString(c.isoA2)}, ${sqlString(c.isoA3)}, ${sqlString(c.name)}, ${c.geonameId ?? "NULL"}, ${rel})`)
+    .join(",\n  ");
+
+  // GeoNames fields are tab-separated and never quoted; CSV mode with an
+  // unused quote character keeps stray quotes and backslashes literal
+  return `
+\\set ON_ERROR_STOP on
+
+DROP TABLE IF EXISTS geonames_staging;
+CREATE UNLOGGED TABLE geonames_staging (
+  geonameid TEXT, name TEXT, asciiname TEXT, alternatenames TEXT,
+  latitude TEXT, longitude TEXT, feature_class TEXT, feature_code TEXT,
+  country_code TEXT, cc2 TEXT, admin1_code TEXT, admin2_code TEXT,
+  admin3_code TEXT, admin4_code TEXT, population TEXT, elevation TEXT,
+  dem TEXT, timezone TEXT, modification_date TEXT
+);
+
+\\copy geonames_staging FROM ${sqlString(resolve(args.places))} WITH (FORMAT csv, DELIMITER E'\\t', QUOTE E'\\x01', NULL '')
+
+BEGIN;
+
+TRUNCATE geonames_countries;
+INSERT INTO geonames_countries (iso_a2, iso_a3, name, geoname_id, geonames_release) VALUES
+  ${countryRows};
+
+TRUNCATE geonames_places;
+INSERT INTO geonames_places (
+  geoname_id, name, ascii_name, search_names, latitude, longitude,
+  feature_class, feature_code, country_code, admin1_code, admin2_code, population, geonames_release
+)
+SELECT
+  geonameid::bigint,
+  name,
+  asciiname,
+  ARRAY(
+    SELECT DISTINCT lower(trim(n))
+    FROM unnest(ARRAY[name, asciiname] || string_to_array(COALESCE(alternatenames, ''), ',')) AS n
+    WHERE trim(n) <> ''
+  ),
+  latitude::double precision,
+  longitude::double precision,
+  feature_class,
+  feature_code,
+  country_code,
+  admin1_code,
+  admin2_code,
+  COALESCE(NULLIF(population, '')::bigint, 0),
+  ${rel}
+FROM geonames_staging
+WHERE country_code IS NOT NULL
+  AND (
+    feature_class IN (${sqlList(KEPT_FEATURE_CLASSES)})
+    OR (feature_class = 'A' AND feature_code IN (${sqlList(ADMIN_FEATURE_CODES)}))
+  )
+ON CONFLICT (geoname_id) DO NOTHING;
+
+DROP TABLE geonames_staging;
+
+COMMIT;
+
+ANALYZE geonames_countries;
+ANALYZE geonames_places;
+
+SELECT
+  (SELECT COUNT(*) FROM geonames_countries) AS countries,
+  (SELECT COUNT(*) FROM geonames_places) AS places;
+`;
+}
+
+function main() {
+  const args = parseArgs(process.argv);
+  const databaseUrl = process.env.DATABASE_URL;
+  if (!databaseUrl) throw new Error("DATABASE_URL is not set");
+
+  const countries = parseCountryInfo(args.countries);
+  if (!countries.length) throw new Error(`No countries parsed from ${args.countries}`);
+  console.error(`(info) ${countries.length} countries from ${args.countries}`);
+
+  console.error(`(info) Loading ${args.places} (release ${args.release}); allCountries.txt takes several minutes`);
+  const output = sh(`psql ${JSON.stringify(databaseUrl)} -f -`, buildSql(args, countries));
+  console.log(output.trim());
+}
+
+try {
+  main();
+} catch (err) {
+  console.error(`(error) ${(err as Error).message}`);
+  process.exit(1);
+}
@@ -0,0 +1,120 @@
+// tools/load_natural_earth.ts
+//
+// Load Natural Earth country and land polygons into ne_countries / ne_land
+// (packages/shared/db/natural_earth.sql), the reference geometries behind
+// validateGeolocation.
+// - ogr2ogr loads each shapefile into a staging table
+// - one psql transaction replaces the reference rows and drops staging
+//
+// Usage:
+//   npx ts-node tools/load_natural_earth.ts \
+//     --countries ./ne_10m_admin_0_countries.shp \
+//     --land ./ne_10m_land.shp \
+//     --release 5.1.1
+//
+// Requirements:
+// - GDAL installed and `ogr2ogr` available in PATH, `psql` in PATH
+// - DATABASE_URL set and natural_earth.sql applied
+
+import { execSync } from "node:child_process";
+
+type Args = {
+  countries: string;
+  land: string;
+  release: string;
+};
+
+function parseArgs(argv: string[]): Args {
+  const out: any = {};
+  for (let i = 2; i < argv.length; i++) {
+    const a = argv[i];
+    const n = argv[i + 1];
+    if (a === "--countries") out.countries = n;
+    if (a === "--land") out.land = n;
+    if (a === "--release") out.release = n;
+    if (a.startsWith("--")) i++;
+  }
+  if (!out.countries) throw new Error("Missing --countries (ne_10m_admin_0_countries.shp)");
+  if (!out.land) throw new Error("Missing --land (ne_10m_land.shp)");
+  if (!out.release) throw new Error("Missing --release (e.g. 5.1.1)");
+  return out as Args;
+}
+
+function sh(cmd: string, input?: string): string {
+  return execSync(cmd, { input, stdio: ["pipe", "pipe", "pipe"] }).toString("utf8");
+}
+
+function loadStaging(databaseUrl: string, file: string, table: string) {
+  console.error(`(info) Loading ${file} into ${table}`);
+  sh(
+    `ogr2ogr -f PostgreSQL ${JSON.stringify(`PG:${databaseUrl}`)} ${JSON.stringify(file)} ` +
+    `-nln ${table} -nlt PROMOTE_TO_MULTI -lco GEOMETRY_NAME=geom -t_srs EPSG:4326 -overwrite`
+  );
+}
+
+function sqlString(s: string): string {
+  return `'${s.replace(/'/g, "''")}'`;
+}
+
+/**
+ * Natural Earth uses -99 for "no code"; ISO_A3 is -99 for a few countries
+ * (France, Norway, Kosovo) whose ADM0_A3 is the usable code
+ */
+function buildSql(release: string): string {
+  const rel = sqlString(release);
+  return `
+BEGIN;
+
+TRUNCATE ne_countries;
+INSERT INTO ne_countries (iso_a2, iso_a3, name, name_long, admin, formal_name, continent, ne_release, geom)
+SELECT
+  NULLIF(iso_a2, '-99'),
+  COALESCE(NULLIF(iso_a3, '-99'), adm0_a3),
+  name,
+  name_long,
+  admin,
+  NULLIF(formal_en, ''),
+  continent,
+  ${rel},
+  ST_Multi(ST_CollectionExtract(ST_MakeValid(geom), 3))
+FROM ne_countries_staging;
+
+-- Subdivided so point tests only touch small polygons
+TRUNCATE ne_land;
+INSERT INTO ne_land (ne_release, geom)
+SELECT ${rel}, ST_Multi(ST_Subdivide(ST_CollectionExtract(ST_MakeValid(geom), 3), 256))
+FROM ne_land_staging;
+
+DROP TABLE ne_countries_staging;
+DROP TABLE ne_land_staging;
+
+COMMIT;
+
+ANALYZE ne_countries;
+ANALYZE ne_land;
+
+SELECT
+  (SELECT COUNT(*) FROM ne_countries) AS countries,
+  (SELECT COUNT(*) FROM ne_land) AS land_parts;
+`;
+}
+
+function main() {
+  const args = parseArgs(process.argv);
+  const databaseUrl = process.env.DATABASE_URL;
+  if (!databaseUrl) throw new Error("DATABASE_URL is not set");
+
+  loadStaging(databaseUrl, args.countries, "ne_countries_staging");
+  loadStaging(databaseUrl, args.land, "ne_land_staging");
+
+  console.error(`(info) Replacing reference geometries (release ${args.release})`);
+  const output = sh(`psql ${JSON.stringify(databaseUrl)} -v ON_ERROR_STOP=1 -f -`, buildSql(args.release));
+  console.log(output.trim());
+}
+
+try {
+  main();
+} catch (err) {
+  console.error(`(error) ${(err as Error).message}`);
+  process.exit(1);
+}
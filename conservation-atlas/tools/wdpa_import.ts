@@ -0,0 +1,167 @@
+// tools/wdpa_import.ts
+//
+// Monthly WDPA refresh in one command:
+// - picks the polygon and point layers (same scoring as pick_wdpa_layer)
+// - ogr2ogr loads each into a raw table with the original field names
+// - maps fields into protected_areas_staging (same mapping as
+//   generate_wdpa_mapping), repairing geometries with ST_MakeValid and
+//   computing centroids and missing areas
+// - one transaction diffs staging against the loaded release and swaps it
+//   into protected_areas; areas that persist keep their id, so event links
+//   stay valid until GEO_JOIN reruns
+// - prints a diff report (JSON) against the previous wdpa_release: added,
+//   removed, boundary-changed and renamed areas by wdpa_id
+// The mapping and SQL live in packages/api/src/services/geo/wdpaImport.ts.
+//
+// Usage:
+//   npx ts-node tools/wdpa_import.ts \
+//     --file ./WDPA_Jan2026_Public.gpkg \
+//     --release 2026-01 \
+//     [--layer WDPA_poly_Jan2026] [--report wdpa_diff_2026-01.json] [--force]
+//
+// Then join events to the new release: npm run wdpa:geo-join
+//
+// Requirements:
+// - GDAL installed (`ogrinfo`, `ogr2ogr` in PATH), `psql` in PATH
+// - DATABASE_URL set and protected_areas.sql applied
+
+import { writeFileSync } from "node:fs";
+
+import {
+  CRITICAL_COLUMNS,
+  buildImportSql,
+  countDiffReport,
+  resolveWdpaFields,
+  WDPA_RELEASE_PATTERN,
+  type LayerLoad,
+  type WdpaDiffReport,
+} from "../packages/api/src/services/geo/wdpaImport";
+import { scoreLayers, reportLayers, getLayerFields, run, type ScoredLayer } from "./wdpa_layers";
+
+type Args = {
+  file: string;
+  release: string;
+  layer?: string;
+  report?: string;
+  force: boolean;
+};
+
+function parseArgs(argv: string[]): Args {
+  const out: any = { force: false };
+  for (let i = 2; i < argv.length; i++) {
+    const a = argv[i];
+    const n = argv[i + 1];
+    if (a === "--file") out.file = n;
+    if (a === "--release") out.release = n;
+    if (a === "--layer") out.layer = n;
+    if (a === "--report") out.report = n;
+    if (a === "--force") {
+      out.force = true;
+      continue;
+    }
+    if (a.startsWith("--")) i++;
+  }
+  if (!out.file) throw new Error("Missing --file");
+  if (!out.release) throw new Error("Missing --release (e.g. 2026-01)");
+  if (!WDPA_RELEASE_PATTERN.test(out.release)) {
+    throw new Error(`Invalid --release ${JSON.stringify(out.release)}; expected YYYY-MM (e.g. 2026-01)`);
+  }
+  return out as Args;
+}
+
+function psql(databaseUrl: string, sql: string): string {
+  return run("psql", ["--dbname", databaseUrl, "-v", "ON_ERROR_STOP=1", "-q", "-At", "-f", "-"], sql).trim();
+}
+
+// ============================================
+// Layers
+// ============================================
+
+/**
+ * WDPA GeoPackages ship polygons and points as separate layers; both are
+ * imported. --layer imports just that one.
+ */
+function pickLayers(file: string, layer?: string): string[] {
+  if (layer) return [layer];
+
+  const scored = scoreLayers(file).filter((x) => x.hasCore);
+  if (!scored.length) throw new Error("No layer with WDPAID and NAME fields. Wrong file?");
+  reportLayers(scored);
+
+  const isType = (x: ScoredLayer, type: string) => x.geomType.toLowerCase().includes(type);
+  const polygons = scored.find((x) => isType(x, "polygon"));
+  const points = scored.find((x) => isType(x, "point"));
+
+  const picked = [polygons, points].filter((x): x is ScoredLayer => x !== undefined).map((x) => x.name);
+  return picked.length ? picked : [scored[0].name];
+}
+
+function loadRaw(databaseUrl: string, file: string, layer: string, table: string) {
+  console.error(`(info) Loading ${layer} into ${table}`);
+  // LAUNDER=NO keeps the field names ogrinfo reported, which the mapping quotes
+  run("ogr2ogr", [
+    "-f", "PostgreSQL", `PG:${databaseUrl}`, file, layer,
+    "-nln", table, "-nlt", "PROMOTE_TO_MULTI", "-dim", "XY",
+    "-lco", "GEOMETRY_NAME=geom", "-lco", "LAUNDER=NO", "-lco", "SPATIAL_INDEX=NONE",
+    "-t_srs", "EPSG:4326", "-overwrite",
+  ]);
+}
+
+// ============================================
+// Main
+// ============================================
+
+function main() {
+  const args = parseArgs(process.argv);
+  const databaseUrl = process.env.DATABASE_URL;
+  if (!databaseUrl) throw new Error("DATABASE_URL is not set");
+
+  const previous = psql(databaseUrl, "SELECT MAX(wdpa_release) FROM protected_areas;") || null;
+  // GEO_JOIN and protected_areas_latest treat the highest release as current
+  if (previous !== null && args.release < previous) {
+    throw new Error(`Release ${args.release} is older than the loaded release ${previous}`);
+  }
+
+  const loads: LayerLoad[] = pickLayers(args.file, args.layer).map((layer, i) => {
+    const { resolved, missing } = resolveWdpaFields(getLayerFields(args.file, layer));
+    const criticalMissing = CRITICAL_COLUMNS.filter((k) => !resolved[k]);
+    if (criticalMissing.length) {
+      throw new Error(`Layer ${layer} is missing ${criticalMissing.join(", ")}. Wrong layer or file?`);
+    }
+    if (missing.length) {
+      console.error(`(warn) ${layer}: no field for ${missing.join(", ")}. May be absent in this release.`);
+    }
+    return { layer, table: `protected_areas_raw_${i}`, resolved };
+  });
+
+  for (const load of loads) loadRaw(databaseUrl, args.file, load.layer, load.table);
+
+  console.error(`(info) Swapping release ${args.release} into protected_areas (previous: ${previous ?? "none"})`);
+  const report = countDiffReport(
+    JSON.parse(psql(databaseUrl, buildImportSql(loads, args.release, previous, args.force))) as WdpaDiffReport
+  );
+
+  for (const l of report.layers) {
+    console.error(`(info) ${l.layer}: ${l.loaded} of ${l.source_rows} rows loaded, ${l.invalid_repaired} repaired, ${l.skipped} skipped`);
+  }
+  console.error(
+    `(info) ${report.counts.previous} -> ${report.counts.loaded} areas: ${report.counts.added} added, ` +
+    `${report.counts.removed} removed, ${report.counts.boundary_changed} boundary changed, ${report.counts.renamed} renamed`
+  );
+
+  const json = JSON.stringify(report, null, 2);
+  if (args.report) {
+    writeFileSync(args.report, json + "\n");
+    console.error(`(info) Diff report written to ${args.report}`);
+  } else {
+    console.log(json);
+  }
+  console.error("(info) Join events to the new release: npm run wdpa:geo-join");
+}
+
+try {
+  main();
+} catch (err) {
+  console.error(`(error) ${(err as Error).message}`);
+  process.exit(1);
+}
@@ -0,0 +1,173 @@
+// tools/wdpa_layers.ts
+//
+// Shared by the WDPA tools (pick_wdpa_layer, generate_wdpa_mapping,
+// wdpa_import): reads layers and field names from a WDPA
+// GeoPackage/Shapefile with `ogrinfo -json` and scores layers. The field
+// mapping lives in packages/api/src/services/geo/wdpaImport.ts.
+//
+// Requirements:
+// - GDAL installed and `ogrinfo` available in PATH
+
+import { execFileSync } from "node:child_process";
+
+import { normalizeFieldName } from "../packages/api/src/services/geo/wdpaImport";
+
+export type ScoredLayer = {
+  name: string;
+  geomType: string;
+  fields: string[];
+  score: number;
+  hasCore: boolean;
+};
+
+/**
+ * Run a command without a shell: paths and connection strings go through
+ * as single arguments, never parsed or expanded
+ */
+export function run(command: string, args: string[], input?: string): string {
+  // WDPA reports and ogrinfo dumps run to tens of MB
+  return execFileSync(command, args, { input, stdio: ["pipe", "pipe", "pipe"], maxBuffer: 256 * 1024 * 1024 }).toString("utf8");
+}
+
+function fieldSet(fields: string[]): Set<string> {
+  return new Set(fields.map(normalizeFieldName));
+}
+
+// ============================================
+// Layers
+// ============================================
+
+export function listLayers(file: string): string[] {
+  const j = JSON.parse(run("ogrinfo", ["-json", file]));
+  const layers: string[] = [];
+  if (Array.isArray(j.layers)) {
+    for (const L of j.layers) {
+      if (typeof L?.name === "string") layers.push(L.name);
+    }
+  }
+  return layers;
+}
+
+function describeLayer(file: string, layer: string): any {
+  const j = JSON.parse(run("ogrinfo", ["-json", file, layer]));
+  return (
+    (Array.isArray(j.layers) && j.layers[0]) ||
+    (Array.isArray(j.layer) && j.layer[0]) ||
+    j
+  );
+}
+
+function extractFields(layerObj: any): string[] {
+  if (layerObj?.fields && typeof layerObj.fields === "object" && !Array.isArray(layerObj.fields)) {
+    return Object.keys(layerObj.fields);
+  }
+  if (Array.isArray(layerObj?.fieldDefinitions)) {
+    return layerObj.fieldDefinitions.map((x: any) => x?.name).filter((x: any) => typeof x === "string");
+  }
+  if (layerObj?.featureType?.properties && typeof layerObj.featureType.properties === "object") {
+    return Object.keys(layerObj.featureType.properties);
+  }
+  return [];
+}
+
+function extractGeomType(layerObj: any): string {
+  if (Array.isArray(layerObj?.geometryFields) && layerObj.geometryFields[0]?.type) {
+    return String(layerObj.geometryFields[0].type);
+  }
+  if (layerObj?.geometryType) return String(layerObj.geometryType);
+  if (layerObj?.geomType) return String(layerObj.geomType);
+  return "";
+}
+
+export function getLayerFields(file: string, layer: string): string[] {
+  const fields = extractFields(describeLayer(file, layer));
+  if (!fields.length) {
+    throw new Error(`Could not parse fields for layer ${layer}. Try: ogrinfo -so -al ${file}`);
+  }
+  return fields;
+}
+
+function coreFields(fields: string[]): { hasWdpaId: boolean; hasName: boolean } {
+  const fs = fieldSet(fields);
+  return {
+    hasWdpaId: fs.has("wdpaid") || fs.has("wdpa_id"),
+    hasName: fs.has("name") || fs.has("pa_name"),
+  };
+}
+
+/**
+ * Scores layers by:
+ * - Presence of WDPAID + NAME (most important)
+ * - Geometry type (Polygon/MultiPolygon preferred for polygons file)
+ * - Field count (tie-breaker)
+ * - Name hints ("wdpa", "poly", "point")
+ */
+function scoreLayer(layerName: string, geomType: string, fields: string[]): number {
+  const { hasWdpaId, hasName } = coreFields(fields);
+
+  let score = 0;
+  if (hasWdpaId) score += 100;
+  if (hasName) score += 100;
+
+  // Geometry type bonus
+  const g = (geomType || "").toLowerCase();
+  if (g.includes("polygon")) score += 40;
+  if (g.includes("multipolygon")) score += 40;
+  if (g.includes("point")) score += 25;
+  if (g.includes("multipoint")) score += 25;
+
+  // Layer name hints
+  const n = layerName.toLowerCase();
+  if (n.includes("wdpa")) score += 10;
+  if (n.includes("poly")) score += 8;
+  if (n.includes("point")) score += 6;
+
+  // Tie-breaker: more fields
+  score += Math.min(fields.length, 80) * 0.1;
+
+  // Penalty if missing critical fields
+  if (!hasWdpaId || !hasName) score -= 150;
+
+  return score;
+}
+
+/**
+ * Every inspectable layer in the file, best first
+ */
+export function scoreLayers(file: string): ScoredLayer[] {
+  const layers = listLayers(file);
+  if (!layers.length) throw new Error("No layers found in file");
+
+  const scored: ScoredLayer[] = [];
+  for (const name of layers) {
+    let layerObj: any;
+    try {
+      layerObj = describeLayer(file, name);
+    } catch {
+      continue;
+    }
+
+    const fields = extractFields(layerObj);
+    const geomType = extractGeomType(layerObj);
+    const { hasWdpaId, hasName } = coreFields(fields);
+    scored.push({
+      name,
+      geomType,
+      fields,
+      score: scoreLayer(name, geomType, fields),
+      hasCore: hasWdpaId && hasName,
+    });
+  }
+
+  if (!scored.length) throw new Error("No inspectable layers found");
+  return scored.sort((a, b) => b.score - a.score);
+}
+
+export function reportLayers(scored: ScoredLayer[]): void {
+  console.error("(info) WDPA layer candidates:");
+  for (const x of scored.slice(0, 8)) {
+    console.error(
+      `  - ${x.name} | geom=${x.geomType || "?"} | fields=${x.fields.length} | score=${x.score.toFixed(1)} | core=${x.hasCore ? "yes" : "no"}`
+    );
+  }
+}